@@ -0,0 +1,94 @@
+import {BarcodeScanningResult} from 'expo-camera';
+import {codeVertices, liveCodesToDetected, parseCodePayload, uprightCodeFrameSize} from '../app/services/barcodes';
+
+const imageSize = {width: 400, height: 300};
+
+const scanResult = (overrides: Partial<BarcodeScanningResult>): BarcodeScanningResult => ({
+  type: 'qr',
+  data: 'https://example.com',
+  cornerPoints: [],
+  bounds: {origin: {x: 100, y: 50}, size: {width: 80, height: 60}},
+  ...overrides,
+});
+
+describe('codeVertices', () => {
+  it('keeps top-left-origin corners as they are', () => {
+    const cornerPoints = [{x: 100, y: 50}, {x: 180, y: 50}, {x: 180, y: 110}, {x: 100, y: 110}];
+    expect(codeVertices(scanResult({cornerPoints}), imageSize, false)).toEqual(cornerPoints);
+  });
+
+  it('flips bottom-left-origin corners into image space', () => {
+    // Core Image order: top-left, top-right, bottom-right, bottom-left, with y growing upwards
+    const cornerPoints = [{x: 100, y: 250}, {x: 180, y: 250}, {x: 180, y: 190}, {x: 100, y: 190}];
+    expect(codeVertices(scanResult({cornerPoints}), imageSize, true)).toEqual([
+      {x: 100, y: 50},
+      {x: 180, y: 50},
+      {x: 180, y: 110},
+      {x: 100, y: 110},
+    ]);
+  });
+
+  it('flips bounds measured from the bottom-left so the box keeps its top-left first', () => {
+    const bounds = {origin: {x: 100, y: 190}, size: {width: 80, height: 60}};
+    expect(codeVertices(scanResult({bounds}), imageSize, true)).toEqual([
+      {x: 100, y: 50},
+      {x: 180, y: 50},
+      {x: 180, y: 110},
+      {x: 100, y: 110},
+    ]);
+  });
+});
+
+describe('liveCodesToDetected', () => {
+  // The landscape sensor frame AVFoundation reports positions in
+  const frame = {width: 1920, height: 1080};
+
+  it('turns the sensor frame upright', () => {
+    expect(uprightCodeFrameSize(frame)).toEqual({width: 1080, height: 1920});
+  });
+
+  it('turns corners into the upright image, starting from its top-left', () => {
+    // A barcode near the sensor's top-left, which is the upright image's top-right
+    const corners = [{x: 100, y: 50}, {x: 400, y: 50}, {x: 400, y: 150}, {x: 100, y: 150}];
+    const [code] = liveCodesToDetected([{type: 'ean-13', value: '4006381333931', corners}], frame);
+
+    expect(code).toEqual({
+      id: 'live-code-0',
+      format: 'ean13',
+      data: '4006381333931',
+      vertices: [{x: 930, y: 100}, {x: 1030, y: 100}, {x: 1030, y: 400}, {x: 930, y: 400}],
+    });
+  });
+
+  it('falls back to the frame when there are no corners', () => {
+    const [code] = liveCodesToDetected([
+      {type: 'code-128', value: 'ABC-123', frame: {x: 100, y: 50, width: 300, height: 100}, corners: []},
+    ], frame);
+
+    expect(code.format).toBe('code128');
+    expect(code.vertices).toEqual([{x: 930, y: 100}, {x: 1030, y: 100}, {x: 1030, y: 400}, {x: 930, y: 400}]);
+  });
+
+  it('leaves out codes without a value', () => {
+    const codes = liveCodesToDetected([
+      {type: 'qr', frame: {x: 0, y: 0, width: 10, height: 10}},
+      {type: 'qr', value: 'https://example.com', frame: {x: 0, y: 0, width: 10, height: 10}},
+    ], frame);
+
+    expect(codes.map(code => [code.id, code.data])).toEqual([['live-code-1', 'https://example.com']]);
+  });
+});
+
+describe('parseCodePayload', () => {
+  it('recognises URLs, Wi-Fi and plain text', () => {
+    expect(parseCodePayload(' https://example.com/a ')).toEqual({kind: 'url', url: 'https://example.com/a'});
+    expect(parseCodePayload('WIFI:T:WPA;S:Cafe\\;Net;P:secret;;')).toEqual({
+      kind: 'wifi',
+      ssid: 'Cafe;Net',
+      password: 'secret',
+      security: 'WPA',
+      hidden: false,
+    });
+    expect(parseCodePayload('4006381333931')).toEqual({kind: 'text', text: '4006381333931'});
+  });
+});
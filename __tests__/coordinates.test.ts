@@ -0,0 +1,238 @@
+import {
+  applyViewport,
+  boundingRect,
+  clampViewport,
+  createImageToViewTransform,
+  displayedImageRect,
+  ExifOrientation,
+  IDENTITY_VIEWPORT,
+  invertViewport,
+  mapPointFromView,
+  mapPointToView,
+  mapQuadToView,
+  Point,
+  ResizeMode,
+  Viewport,
+  visibleContentRect,
+  zoomViewportAt,
+} from '../app/services/coordinates';
+
+const expectPointCloseTo = (actual: Point, expected: Point) => {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+};
+
+const viewSize = {width: 400, height: 300};
+// A landscape photo shown with 'contain', letterboxed top and bottom
+const content = {x: 0, y: 50, width: 400, height: 200};
+
+const ORIENTATIONS: ExifOrientation[] = [1, 2, 3, 4, 5, 6, 7, 8];
+const RESIZE_MODES: ResizeMode[] = ['contain', 'cover'];
+
+// A 400 × 300 photo as stored, before its EXIF orientation is applied
+const sourceSize = {width: 400, height: 300};
+const sourceCorners = {
+  topLeft: {x: 0, y: 0},
+  topRight: {x: 400, y: 0},
+  bottomRight: {x: 400, y: 300},
+  bottomLeft: {x: 0, y: 300},
+};
+
+describe('createImageToViewTransform', () => {
+  const squareView = {width: 200, height: 200};
+
+  it('fits the whole image with contain, centring it along the short side', () => {
+    expect(createImageToViewTransform({sourceSize, viewSize: squareView, resizeMode: 'contain'})).toEqual({
+      sourceSize,
+      orientation: 1,
+      scale: 0.5,
+      offsetX: 0,
+      offsetY: 25,
+    });
+  });
+
+  it('fills the view with cover, cropping the long side evenly', () => {
+    const transform = createImageToViewTransform({sourceSize, viewSize: squareView, resizeMode: 'cover'});
+    expect(transform.scale).toBeCloseTo(2 / 3, 6);
+    expect(transform.offsetX).toBeCloseTo(-100 / 3, 6);
+    expect(transform.offsetY).toBe(0);
+  });
+
+  it('sizes a rotated image by its upright width and height', () => {
+    // Upright, the photo is 300 × 400
+    const contain = createImageToViewTransform({sourceSize, viewSize: squareView, resizeMode: 'contain', orientation: 6});
+    expect(contain).toMatchObject({scale: 0.5, offsetX: 25, offsetY: 0});
+    expect(displayedImageRect(contain)).toEqual({x: 25, y: 0, width: 150, height: 200});
+
+    const cover = createImageToViewTransform({sourceSize, viewSize: squareView, resizeMode: 'cover', orientation: 8});
+    expect(cover.scale).toBeCloseTo(2 / 3, 6);
+    expect(cover.offsetX).toBe(0);
+    expect(cover.offsetY).toBeCloseTo(-100 / 3, 6);
+  });
+
+  it.each([
+    [1, 'topLeft'],
+    [2, 'topRight'],
+    [3, 'bottomRight'],
+    [4, 'bottomLeft'],
+    [5, 'topLeft'],
+    [6, 'topRight'],
+    [7, 'bottomRight'],
+    [8, 'bottomLeft'],
+  ] as const)('puts the stored top-left corner of orientation %i at the upright %s', (orientation, corner) => {
+    // The view is the upright image at scale 1, so view and upright pixels coincide
+    const upright = orientation >= 5 ? {width: 300, height: 400} : sourceSize;
+    const uprightCorners = {
+      topLeft: {x: 0, y: 0},
+      topRight: {x: upright.width, y: 0},
+      bottomRight: {x: upright.width, y: upright.height},
+      bottomLeft: {x: 0, y: upright.height},
+    };
+    const transform = createImageToViewTransform({sourceSize, viewSize: upright, resizeMode: 'contain', orientation});
+
+    expect(mapPointToView(sourceCorners.topLeft, transform)).toEqual(uprightCorners[corner]);
+  });
+
+  describe.each(RESIZE_MODES)('with %s', resizeMode => {
+    const viewSize = {width: 390, height: 700};
+
+    it.each(ORIENTATIONS)('maps the image onto its displayed rect at orientation %i', orientation => {
+      const transform = createImageToViewTransform({sourceSize, viewSize, resizeMode, orientation});
+      const mapped = boundingRect(mapQuadToView(Object.values(sourceCorners), transform));
+      const displayed = displayedImageRect(transform);
+
+      expect(mapped.x).toBeCloseTo(displayed.x, 6);
+      expect(mapped.y).toBeCloseTo(displayed.y, 6);
+      expect(mapped.width).toBeCloseTo(displayed.width, 6);
+      expect(mapped.height).toBeCloseTo(displayed.height, 6);
+    });
+
+    it.each(ORIENTATIONS)('maps view points back to image pixels at orientation %i', orientation => {
+      const transform = createImageToViewTransform({sourceSize, viewSize, resizeMode, orientation});
+      for (const point of [{x: 0, y: 0}, {x: 123, y: 45}, {x: 400, y: 300}]) {
+        expectPointCloseTo(mapPointFromView(mapPointToView(point, transform), transform), point);
+      }
+    });
+  });
+
+  it('maps nothing for an empty image', () => {
+    const transform = createImageToViewTransform({sourceSize: {width: 0, height: 0}, viewSize: squareView, resizeMode: 'cover'});
+    expect(transform.scale).toBe(0);
+    expect(mapPointFromView({x: 50, y: 50}, transform)).toEqual({x: 0, y: 0});
+  });
+
+  it('treats coordinates Vision left out as zero', () => {
+    const transform = createImageToViewTransform({sourceSize, viewSize: squareView, resizeMode: 'contain'});
+    expect(mapQuadToView([{}, {x: 400}, {x: 400, y: 300}, {y: 300}], transform)).toEqual([
+      {x: 0, y: 25},
+      {x: 200, y: 25},
+      {x: 200, y: 175},
+      {x: 0, y: 175},
+    ]);
+  });
+});
+
+const VIEWPORTS: Viewport[] = [
+  IDENTITY_VIEWPORT,
+  {scale: 2, translateX: 0, translateY: 0},
+  {scale: 3.5, translateX: -120, translateY: 45},
+  {scale: 0.5, translateX: 30, translateY: -10},
+];
+
+describe('applyViewport', () => {
+  it('leaves points alone at the identity viewport', () => {
+    expect(applyViewport({x: 12, y: 34}, IDENTITY_VIEWPORT, viewSize)).toEqual({x: 12, y: 34});
+  });
+
+  it('scales about the centre of the view, then shifts', () => {
+    const viewport = {scale: 2, translateX: 10, translateY: -5};
+    expect(applyViewport({x: 200, y: 150}, viewport, viewSize)).toEqual({x: 210, y: 145});
+    expect(applyViewport({x: 100, y: 100}, viewport, viewSize)).toEqual({x: 10, y: 45});
+  });
+
+  it.each(VIEWPORTS)('is undone by invertViewport at %o', viewport => {
+    for (const point of [{x: 0, y: 0}, {x: 400, y: 300}, {x: 123.4, y: 56.7}]) {
+      expectPointCloseTo(invertViewport(applyViewport(point, viewport, viewSize), viewport, viewSize), point);
+      expectPointCloseTo(applyViewport(invertViewport(point, viewport, viewSize), viewport, viewSize), point);
+    }
+  });
+});
+
+describe('zoomViewportAt', () => {
+  it('keeps the content under the focal point in place', () => {
+    const focal = {x: 100, y: 100};
+    const zoomed = zoomViewportAt(IDENTITY_VIEWPORT, focal, 2, viewSize);
+
+    expect(zoomed).toEqual({scale: 2, translateX: 100, translateY: 50});
+    expectPointCloseTo(applyViewport(focal, zoomed, viewSize), focal);
+  });
+
+  it.each(VIEWPORTS)('zooms from %o without moving the focal point', viewport => {
+    const focal = {x: 310, y: 80};
+    const anchor = invertViewport(focal, viewport, viewSize);
+    const zoomed = zoomViewportAt(viewport, focal, 4, viewSize);
+
+    expect(zoomed.scale).toBe(4);
+    expectPointCloseTo(applyViewport(anchor, zoomed, viewSize), focal);
+  });
+
+  it('needs no shift to zoom at the centre', () => {
+    expect(zoomViewportAt(IDENTITY_VIEWPORT, {x: 200, y: 150}, 3, viewSize)).toEqual({scale: 3, translateX: 0, translateY: 0});
+  });
+});
+
+describe('clampViewport', () => {
+  it('limits the scale', () => {
+    expect(clampViewport({scale: 10, translateX: 0, translateY: 0}, viewSize, content, 1, 4).scale).toBe(4);
+    expect(clampViewport({scale: 0.5, translateX: 0, translateY: 0}, viewSize, content, 1, 4).scale).toBe(1);
+  });
+
+  it('centres content that fits in the view', () => {
+    expect(clampViewport({scale: 1, translateX: 50, translateY: 30}, viewSize, content, 1, 4)).toEqual(IDENTITY_VIEWPORT);
+  });
+
+  it('stops panning at the edges of content larger than the view', () => {
+    // At 2x the content is 800 × 400, starting at (-200, -50) before the shift
+    expect(clampViewport({scale: 2, translateX: 500, translateY: -100}, viewSize, content, 1, 4))
+      .toEqual({scale: 2, translateX: 200, translateY: -50});
+    expect(clampViewport({scale: 2, translateX: -500, translateY: 100}, viewSize, content, 1, 4))
+      .toEqual({scale: 2, translateX: -200, translateY: 50});
+  });
+
+  it('leaves a pan within the edges as it is', () => {
+    const viewport = {scale: 2, translateX: 120, translateY: -20};
+    expect(clampViewport(viewport, viewSize, content, 1, 4)).toEqual(viewport);
+  });
+
+  it('keeps clamped content covering the view', () => {
+    const clamped = clampViewport({scale: 3, translateX: -9999, translateY: 9999}, viewSize, content, 1, 4);
+    const topLeft = applyViewport({x: content.x, y: content.y}, clamped, viewSize);
+    const bottomRight = applyViewport({x: content.x + content.width, y: content.y + content.height}, clamped, viewSize);
+
+    expect(topLeft.x).toBeLessThanOrEqual(0);
+    expect(topLeft.y).toBeLessThanOrEqual(0);
+    expect(bottomRight.x).toBeGreaterThanOrEqual(viewSize.width);
+    expect(bottomRight.y).toBeGreaterThanOrEqual(viewSize.height);
+  });
+});
+
+describe('visibleContentRect', () => {
+  it('is the whole content at the identity viewport', () => {
+    expect(visibleContentRect(IDENTITY_VIEWPORT, viewSize, content)).toEqual(content);
+  });
+
+  it('shrinks to the middle of the content when zoomed in at the centre', () => {
+    expect(visibleContentRect({scale: 2, translateX: 0, translateY: 0}, viewSize, content))
+      .toEqual({x: 100, y: 75, width: 200, height: 150});
+  });
+
+  it('follows a pan', () => {
+    expect(visibleContentRect({scale: 2, translateX: 200, translateY: 0}, viewSize, content))
+      .toEqual({x: 0, y: 75, width: 200, height: 150});
+  });
+
+  it('is empty when the content is panned out of view', () => {
+    const visible = visibleContentRect({scale: 2, translateX: 1000, translateY: 0}, viewSize, content);
+    expect(visible.width).toBe(0);
+  });
+});
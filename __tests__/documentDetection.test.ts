@@ -0,0 +1,98 @@
+import {readFileSync} from 'fs';
+import {decode} from 'jpeg-js';
+import path from 'path';
+import {
+  detectDocumentQuad,
+  fullImageQuad,
+  isConvexQuad,
+  orderQuad,
+  otsuThreshold,
+  Quad,
+  quadArea,
+} from '../app/services/documentDetection';
+import {toGray} from '../app/services/rasterImage';
+
+// Photos at the width detection runs at; the page corners are where they were drawn
+const loadGraySample = (name: string) =>
+  toGray(decode(readFileSync(path.join(__dirname, 'fixtures', 'images', name)), {useTArray: true, formatAsRGBA: true}));
+
+// Corners come from the outermost page pixels, so allow a few pixels at the sharper corners
+const expectCornersNear = (quad: Quad | null, expected: Quad, tolerance = 5) => {
+  expect(quad).not.toBeNull();
+  quad!.forEach((corner, index) => {
+    expect(Math.abs(corner.x - expected[index].x)).toBeLessThanOrEqual(tolerance);
+    expect(Math.abs(corner.y - expected[index].y)).toBeLessThanOrEqual(tolerance);
+  });
+};
+
+describe('detectDocumentQuad', () => {
+  it('finds the corners of a page seen in perspective', () => {
+    expectCornersNear(detectDocumentQuad(loadGraySample('page-perspective.jpg')), [
+      {x: 62, y: 70},
+      {x: 262, y: 52},
+      {x: 284, y: 362},
+      {x: 44, y: 380},
+    ]);
+  });
+
+  it('finds the corners of a rotated page on a lighter desk', () => {
+    expectCornersNear(detectDocumentQuad(loadGraySample('page-rotated.jpg')), [
+      {x: 96, y: 28},
+      {x: 262, y: 52},
+      {x: 236, y: 226},
+      {x: 70, y: 202},
+    ]);
+  });
+
+  it('ignores a bright region too small to be the page', () => {
+    const note = loadGraySample('sticky-note.jpg');
+    expect(detectDocumentQuad(note)).toBeNull();
+    expectCornersNear(detectDocumentQuad(note, {minAreaRatio: 0.02}), [
+      {x: 140, y: 90},
+      {x: 190, y: 90},
+      {x: 190, y: 140},
+      {x: 140, y: 140},
+    ]);
+  });
+
+  it('finds nothing on an empty desk', () => {
+    expect(detectDocumentQuad(loadGraySample('desk.jpg'))).toBeNull();
+  });
+});
+
+describe('quad helpers', () => {
+  const square: Quad = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 0, y: 10}];
+
+  it('orders corners from the top-left, clockwise', () => {
+    expect(orderQuad([square[2], square[0], square[3], square[1]])).toEqual(square);
+  });
+
+  it('measures a clockwise quad as positive', () => {
+    expect(quadArea(square)).toBe(100);
+    expect(quadArea([square[0], square[3], square[2], square[1]])).toBe(-100);
+  });
+
+  it('tells convex quads from crossed and flat ones', () => {
+    expect(isConvexQuad(square)).toBe(true);
+    expect(isConvexQuad([square[0], square[2], square[1], square[3]])).toBe(false);
+    expect(isConvexQuad([{x: 0, y: 0}, {x: 1, y: 1}, {x: 2, y: 2}, {x: 3, y: 3}])).toBe(false);
+  });
+
+  it('insets the full image quad', () => {
+    expect(fullImageQuad({width: 100, height: 50}, 5)).toEqual([
+      {x: 5, y: 5},
+      {x: 95, y: 5},
+      {x: 95, y: 45},
+      {x: 5, y: 45},
+    ]);
+  });
+});
+
+describe('otsuThreshold', () => {
+  it('splits dark and bright pixels', () => {
+    const data = new Uint8Array([...new Array(60).fill(40), ...new Array(40).fill(200)]);
+    const threshold = otsuThreshold(data);
+    expect(threshold).toBeGreaterThanOrEqual(40);
+    expect(threshold).toBeLessThan(200);
+  });
+});
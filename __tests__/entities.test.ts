@@ -0,0 +1,89 @@
+import {detectEntities, entityUrl, parseEntityDate} from '../app/services/entities';
+
+const found = (text: string) => detectEntities(text).map(({type, text: value}) => [type, value]);
+
+describe('detectEntities', () => {
+  it('finds each kind of entity in order of appearance', () => {
+    expect(found('Mail jane@acme.example or call +1 (555) 123-4567 before 03/14/2024, see www.acme.io')).toEqual([
+      ['email', 'jane@acme.example'],
+      ['phone', '+1 (555) 123-4567'],
+      ['date', '03/14/2024'],
+      ['url', 'www.acme.io'],
+    ]);
+  });
+
+  it('keeps punctuation after a link out of it', () => {
+    expect(found('Visit https://example.com/docs.')).toEqual([['url', 'https://example.com/docs']]);
+    expect(found('(see www.example.com)')).toEqual([['url', 'www.example.com']]);
+    expect(found('Links: example.com/a, example.org/b; example.net/c: [example.io/d]')).toEqual([
+      ['url', 'example.com/a'],
+      ['url', 'example.org/b'],
+      ['url', 'example.net/c'],
+      ['url', 'example.io/d'],
+    ]);
+  });
+
+  it('keeps a query string and a trailing slash', () => {
+    expect(found('https://example.com/search?q=ocr&page=2 and example.com/')).toEqual([
+      ['url', 'https://example.com/search?q=ocr&page=2'],
+      ['url', 'example.com/'],
+    ]);
+  });
+
+  it('does not report an email domain as a link', () => {
+    expect(found('jane@acme.io')).toEqual([['email', 'jane@acme.io']]);
+  });
+
+  it.each([
+    '+1 (555) 123-4567',
+    '+49 30 1234567',
+    '555-123-4567',
+    '555.123.4567',
+    '(030) 123 4567',
+    '+15551234567',
+  ])('reads %s as a phone number', phone => {
+    expect(found(`Tel. ${phone}`)).toEqual([['phone', phone]]);
+  });
+
+  it.each([
+    ['an order number', 'Order 123456789'],
+    ['a reference with a dash', 'Order #2024-000123'],
+    ['an IBAN', 'IBAN DE89 3704 0044 0532 0130 00'],
+    ['a price with a thousands space', 'Total 1 299.00'],
+    ['a short number', 'Table 12-34'],
+  ])('does not read %s as a phone number', (_name, text) => {
+    expect(found(text).filter(([type]) => type === 'phone')).toEqual([]);
+  });
+
+  it('reads dotted and dashed dates as dates, not phone numbers', () => {
+    expect(found('Date: 12.05.2024 14:32')).toEqual([['date', '12.05.2024']]);
+    expect(found('2024-05-12')).toEqual([['date', '2024-05-12']]);
+  });
+});
+
+describe('parseEntityDate', () => {
+  it('reads numeric dates as month/day unless the first number is a day', () => {
+    expect(parseEntityDate('03/04/2024')).toEqual(new Date(2024, 2, 4));
+    expect(parseEntityDate('14.03.24')).toEqual(new Date(2024, 2, 14));
+    expect(parseEntityDate('2024-03-14')).toEqual(new Date(2024, 2, 14));
+  });
+
+  it('reads dates with month names', () => {
+    expect(parseEntityDate('March 14, 2024')).toEqual(new Date(2024, 2, 14));
+    expect(parseEntityDate('14 Mar. 2024')).toEqual(new Date(2024, 2, 14));
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseEntityDate('02/30/2024')).toBeNull();
+  });
+});
+
+describe('entityUrl', () => {
+  it('links each entity to the app that handles it', () => {
+    expect(entityUrl({type: 'url', text: 'www.acme.io', index: 0})).toBe('https://www.acme.io');
+    expect(entityUrl({type: 'url', text: 'http://acme.io', index: 0})).toBe('http://acme.io');
+    expect(entityUrl({type: 'phone', text: '+1 (555) 123-4567', index: 0})).toBe('tel:+15551234567');
+    expect(entityUrl({type: 'email', text: 'jane@acme.io', index: 0})).toBe('mailto:jane@acme.io');
+    expect(entityUrl({type: 'date', text: '03/14/2024', index: 0})).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import {readFileSync, writeFileSync} from 'fs';
+import path from 'path';
+import {toJson, toMarkdown, toPlainText} from '../app/services/exporters';
+import {readJpegInfo, toSearchablePdf} from '../app/services/searchablePdf';
+import {ExtractedText} from '../app/services/types';
+import {parseFullTextAnnotation} from '../app/services/visionDocument';
+import businessCard from './fixtures/ocr/business-card.json';
+import receipt from './fixtures/ocr/receipt-us.json';
+import letterAnnotation from './fixtures/vision/letter-document.json';
+
+const EXPORTS_DIR = path.join(__dirname, 'fixtures', 'exports');
+
+// Compares an export with its golden file byte for byte. Run with
+// UPDATE_GOLDEN=1 to rewrite the golden files after an intended change.
+const expectGolden = (name: string, actual: string, encoding: BufferEncoding = 'utf8') => {
+  const file = path.join(EXPORTS_DIR, name);
+  if (process.env.UPDATE_GOLDEN) {
+    writeFileSync(file, actual, encoding);
+  }
+  expect(actual).toBe(readFileSync(file, encoding));
+};
+
+// A two-page letter with document structure, as Vision returns it for DOCUMENT_TEXT_DETECTION
+const letter: ExtractedText = {
+  fullText: letterAnnotation.text,
+  imageWidth: 1000,
+  imageHeight: 1400,
+  ...parseFullTextAnnotation(letterAnnotation),
+};
+
+const paper = new Uint8Array(readFileSync(path.join(__dirname, 'fixtures', 'images', 'paper.jpg')));
+
+const pdfText = (pdf: Uint8Array) => Buffer.from(pdf).toString('latin1');
+
+describe('toPlainText', () => {
+  it('matches the golden text', () => {
+    expectGolden('receipt-us.txt', toPlainText(receipt));
+    expectGolden('letter.txt', toPlainText(letter));
+  });
+
+  it('normalises line endings and trailing space', () => {
+    expect(toPlainText({...receipt, fullText: 'one\r\ntwo\rthree \n\n'})).toBe('one\ntwo\nthree\n');
+    expect(toPlainText({...receipt, fullText: ' \n'})).toBe('');
+  });
+});
+
+describe('toMarkdown', () => {
+  it('keeps the lines of text without document structure apart', () => {
+    expectGolden('receipt-us.md', toMarkdown(receipt));
+  });
+
+  it('reflows paragraphs, rejoins hyphenated words and heads each page', () => {
+    expectGolden('letter.md', toMarkdown(letter));
+  });
+
+  it('escapes text that Markdown would read as formatting', () => {
+    expect(toMarkdown({...receipt, fullText: '# Total\n> quoted\n- item\n2. step\n*a* _b_ `c` [d] \\'})).toBe(
+      '\\# Total  \n\\> quoted  \n\\- item  \n2\\. step  \n\\*a\\* \\_b\\_ \\`c\\` \\[d\\] \\\\\n'
+    );
+  });
+});
+
+describe('toJson', () => {
+  it('matches the golden JSON', () => {
+    expectGolden('receipt-us.json', toJson(receipt));
+  });
+
+  it('includes the document structure when there is one', () => {
+    const exported = JSON.parse(toJson(letter));
+    expect(exported.pages).toEqual(letter.pages);
+    expect(exported.words).toHaveLength(letter.words.length);
+  });
+
+  it('leaves out a confidence the provider did not report', () => {
+    const [word] = receipt.words;
+    const exported = JSON.parse(toJson({...receipt, words: [{...word, confidence: undefined}]}));
+    expect(exported.words[0]).not.toHaveProperty('confidence');
+  });
+});
+
+describe('toSearchablePdf', () => {
+  it('matches the golden PDF', () => {
+    expectGolden('receipt-us.pdf', pdfText(toSearchablePdf([{extractedText: receipt, jpeg: paper}])), 'latin1');
+  });
+
+  it('matches the golden PDF for several scans', () => {
+    const pdf = toSearchablePdf([
+      {extractedText: receipt, jpeg: paper},
+      {extractedText: businessCard, jpeg: paper},
+    ]);
+    expectGolden('scans.pdf', pdfText(pdf), 'latin1');
+  });
+
+  it('points every cross-reference entry at its object', () => {
+    const text = pdfText(toSearchablePdf([{extractedText: receipt, jpeg: paper}]));
+    const xref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(text)?.[1]);
+    const entries = text.slice(xref).split('\n').slice(3, -6);
+
+    expect(text.startsWith('xref\n0 7\n', xref)).toBe(true);
+    expect(entries).toHaveLength(6);
+    entries.forEach((entry, index) => {
+      expect(text.startsWith(`${index + 1} 0 obj\n`, Number(entry.slice(0, 10)))).toBe(true);
+    });
+  });
+
+  it('draws each word invisibly over its box', () => {
+    const text = pdfText(toSearchablePdf([{extractedText: receipt, jpeg: paper}]));
+    // "Blue" is 124 × 56 at (300, 90) on a 1200 px high page
+    expect(text).toContain('3 Tr\n/F1 56 Tf\n110.71 Tz\n1 0 0 1 300 1054 Tm\n(Blue) Tj\n');
+  });
+
+  it('escapes string delimiters and replaces characters outside Latin-1', () => {
+    const [word] = receipt.words;
+    const text = pdfText(toSearchablePdf([{
+      extractedText: {...receipt, words: [{...word, text: '(Café)\\€'}]},
+      jpeg: paper,
+    }]));
+    expect(text).toContain('(\\(Café\\)\\\\?) Tj');
+  });
+
+  it('needs a page and a JPEG', () => {
+    expect(() => toSearchablePdf([])).toThrow('at least one page');
+    expect(() => toSearchablePdf([{extractedText: receipt, jpeg: new Uint8Array([0x89, 0x50])}])).toThrow('Not a JPEG');
+  });
+});
+
+describe('readJpegInfo', () => {
+  it('reads the frame size and components', () => {
+    expect(readJpegInfo(paper)).toEqual({width: 40, height: 48, components: 3});
+  });
+
+  it('fails without a frame header', () => {
+    expect(() => readJpegInfo(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]))).toThrow('no frame header');
+  });
+});
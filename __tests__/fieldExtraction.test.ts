@@ -0,0 +1,89 @@
+import {ExtractedFields, extractFields, fieldsToText} from '../app/services/fieldExtraction';
+import {ExtractedText} from '../app/services/types';
+import cardWithoutTitleWords from './fixtures/ocr/business-card-no-title-words.json';
+import card from './fixtures/ocr/business-card.json';
+import dottedDateReceipt from './fixtures/ocr/receipt-dotted-date.json';
+import usReceipt from './fixtures/ocr/receipt-us.json';
+
+const values = ({fields}: ExtractedFields) => Object.fromEntries(fields.map(field => [field.key, field.value]));
+const items = ({lineItems = []}: ExtractedFields) => lineItems.map(({description, quantity, amount}) => ({description, quantity, amount}));
+const wordTexts = (extractedText: ExtractedText, ids: string[]) =>
+  ids.map(id => extractedText.words.find(word => word.id === id)?.text);
+
+describe('receipt template', () => {
+  it('reads a receipt with a dotted date and decimal commas', () => {
+    const fields = extractFields('receipt', dottedDateReceipt);
+
+    expect(values(fields)).toEqual({
+      merchant: 'FRESH MARKET',
+      date: '12.05.2024',
+      subtotal: '7,76',
+      tax: '0,54',
+      total: '8,30',
+    });
+    // The date line isn't a purchase
+    expect(items(fields)).toEqual([
+      {description: 'Apples', quantity: '2', amount: '3,98'},
+      {description: 'Milk 1L', quantity: undefined, amount: '1,29'},
+      {description: 'Bread', quantity: undefined, amount: '2,49'},
+    ]);
+  });
+
+  it('reads a receipt with currency symbols and a repeated total', () => {
+    const fields = extractFields('receipt', usReceipt);
+
+    expect(values(fields)).toEqual({
+      merchant: 'Blue Door Cafe',
+      date: '03/14/2024',
+      subtotal: '$7.75',
+      tax: '$0.62',
+      total: '$8.37',
+    });
+    expect(items(fields)).toEqual([
+      {description: 'Latte', quantity: undefined, amount: '$4.50'},
+      {description: 'Croissant', quantity: undefined, amount: '$3.25'},
+    ]);
+  });
+
+  it('points each price at the words it was read from', () => {
+    const fields = extractFields('receipt', usReceipt);
+    const total = fields.fields.find(field => field.key === 'total')!;
+    expect(wordTexts(usReceipt, total.wordIds)).toEqual(['$8.37']);
+  });
+
+  it('summarises fields and items as text', () => {
+    expect(fieldsToText(extractFields('receipt', usReceipt))).toBe([
+      'Merchant: Blue Door Cafe',
+      'Date: 03/14/2024',
+      'Subtotal: $7.75',
+      'Tax: $0.62',
+      'Total: $8.37',
+      '',
+      'Items:',
+      'Latte\t$4.50',
+      'Croissant\t$3.25',
+    ].join('\n'));
+  });
+});
+
+describe('business card template', () => {
+  it('picks the largest name, a title and skips the fax number', () => {
+    expect(values(extractFields('business-card', card))).toEqual({
+      name: 'Jane Q. Doe',
+      title: 'Senior Product Designer',
+      phone: '+1 (555) 123-4567',
+      email: 'jane@acme.example',
+      url: 'www.acme.io/jane',
+    });
+  });
+
+  it('takes the line under the name as the title when it has no title words', () => {
+    expect(values(extractFields('business-card', cardWithoutTitleWords))).toEqual({
+      name: 'Max Mustermann',
+      title: 'Geschäftsführung',
+      phone: '+49 30 1234567',
+      email: 'max@studionord.de',
+      url: 'studionord.de',
+    });
+  });
+});
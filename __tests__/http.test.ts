@@ -0,0 +1,226 @@
+import {backoffDelay, fetchWithRetry, parseRetryAfter, RetryOptions} from '../app/services/http';
+import {OcrError} from '../app/services/ocrErrors';
+
+const OPTIONS: Partial<RetryOptions> = {timeoutMs: 1000, maxRetries: 2, baseDelayMs: 100, maxDelayMs: 1000};
+
+const response = (status: number, headers: Record<string, string> = {}) => ({
+  status,
+  headers: {get: (name: string) => headers[name.toLowerCase()] ?? null},
+}) as Response;
+
+describe('parseRetryAfter', () => {
+  const now = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+  it('reads seconds', () => {
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('0', now)).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    expect(parseRetryAfter('Mon, 01 Jan 2024 12:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 11:59:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores a missing or unreadable header', () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('backoffDelay', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('picks a random delay within a window that doubles up to the cap', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    const options = {baseDelayMs: 100, maxDelayMs: 1000};
+    expect([0, 1, 2, 3, 4, 5].map(attempt => backoffDelay(attempt, options))).toEqual([50, 100, 200, 400, 500, 500]);
+  });
+});
+
+describe('fetchWithRetry', () => {
+  const originalFetch = global.fetch;
+  // Answers queued for the fake endpoint; a function answers with whatever it returns
+  let answers: (Response | Error | ((signal: AbortSignal) => Promise<Response>))[];
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    answers = [];
+    fetchMock = jest.fn(async (_url: string, init: RequestInit) => {
+      const answer = answers.shift();
+      if (!answer) {
+        throw new Error('No answer queued');
+      }
+      if (answer instanceof Error) {
+        throw answer;
+      }
+      return typeof answer === 'function' ? answer(init.signal!) : answer;
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  // Never answers; rejects like fetch once the request is aborted
+  const hang = (signal: AbortSignal) => new Promise<Response>((_resolve, reject) => {
+    signal.addEventListener('abort', () => reject(new Error('Aborted')));
+  });
+
+  // Run the request in the background, recording how it settled
+  const start = (options: Partial<RetryOptions> = {}) => {
+    const outcome: {response?: Response; error?: unknown} = {};
+    const done = fetchWithRetry('https://vision.test/annotate', {method: 'POST'}, {...OPTIONS, ...options})
+      .then(result => {
+        outcome.response = result;
+      }, error => {
+        outcome.error = error;
+      });
+    return {outcome, done};
+  };
+
+  it('returns the first answer that is not retryable', async () => {
+    answers = [response(200)];
+    const {outcome, done} = start();
+    await done;
+
+    expect(outcome.response?.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('https://vision.test/annotate', expect.objectContaining({method: 'POST'}));
+  });
+
+  it('does not retry a client error', async () => {
+    answers = [response(400)];
+    const {outcome, done} = start();
+    await done;
+
+    expect(outcome.response?.status).toBe(400);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries 5xx and network errors with jittered backoff', async () => {
+    // Halfway through each jitter window: 50, then 100 ms
+    answers = [response(503), new TypeError('Network request failed'), response(200)];
+    const {outcome} = start();
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(49);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(99);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(outcome.response?.status).toBe(200);
+  });
+
+  it('returns the last retryable response once retries run out', async () => {
+    answers = [response(500), response(502), response(504)];
+    const {outcome, done} = start();
+    await jest.runAllTimersAsync();
+    await done;
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(outcome.response?.status).toBe(504);
+  });
+
+  it('throws the last network error once retries run out', async () => {
+    answers = [new TypeError('one'), new TypeError('two'), new TypeError('three')];
+    const {outcome, done} = start();
+    await jest.runAllTimersAsync();
+    await done;
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(outcome.error).toEqual(expect.objectContaining({kind: 'network', message: 'three'}));
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    answers = [response(429, {'retry-after': '0.5'}), response(200)];
+    const {outcome} = start();
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(outcome.response?.status).toBe(200);
+  });
+
+  it('gives the response back when Retry-After is longer than the longest delay', async () => {
+    answers = [response(429, {'retry-after': '120'})];
+    const {outcome, done} = start();
+    await done;
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(outcome.response?.status).toBe(429);
+  });
+
+  it('times out each attempt on its own', async () => {
+    answers = [hang, response(200)];
+    const {outcome} = start();
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(false);
+
+    // The timeout aborts the attempt, then the retry waits out its backoff
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true);
+    await jest.advanceTimersByTimeAsync(50);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(outcome.response?.status).toBe(200);
+  });
+
+  it('reports a timeout on the last attempt as a network error', async () => {
+    answers = [hang];
+    const {outcome, done} = start({maxRetries: 0});
+    await jest.advanceTimersByTimeAsync(1000);
+    await done;
+
+    expect(outcome.error).toBeInstanceOf(OcrError);
+    expect(outcome.error).toEqual(expect.objectContaining({kind: 'network', message: 'Request timed out after 1000 ms'}));
+  });
+
+  it('cancels a request in flight without retrying', async () => {
+    const controller = new AbortController();
+    answers = [hang, response(200)];
+    const {outcome, done} = start({signal: controller.signal});
+
+    await jest.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await done;
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(outcome.error).toEqual(expect.objectContaining({kind: 'cancelled'}));
+  });
+
+  it('cancels while waiting to retry', async () => {
+    const controller = new AbortController();
+    answers = [response(503), response(200)];
+    const {outcome, done} = start({signal: controller.signal});
+
+    await jest.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await done;
+    await jest.runAllTimersAsync();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(outcome.error).toEqual(expect.objectContaining({kind: 'cancelled'}));
+  });
+
+  it('does not start when the signal has already fired', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const {outcome, done} = start({signal: controller.signal});
+    await done;
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(outcome.error).toEqual(expect.objectContaining({kind: 'cancelled'}));
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  chooseEncodingProfile,
+  ENCODING_PROFILES,
+  encodeForTarget,
+  estimateTextDensity,
+  MAX_PAYLOAD_BYTES,
+} from '../app/services/imageEncoding';
+import {OcrError} from '../app/services/ocrErrors';
+import {GrayImage} from '../app/services/rasterImage';
+
+// Every JPEG the encoder writes, with the width and quality asked for
+const mockEncodes: {width: number; quality: number}[] = [];
+const mockImage = {width: 4000, height: 3000, released: 0};
+// Bytes of base64 per pixel at quality 1; raised to push encodes over the payload limit
+let mockBytesPerPixel = 0.1;
+
+jest.mock('expo-image-manipulator', () => {
+  const imageRef = (width: number, height: number) => ({
+    width,
+    height,
+    saveAsync: async ({compress = 1}: {compress?: number}) => {
+      mockEncodes.push({width, quality: compress});
+      return {uri: `file:///cache/${width}.jpg`, width, height, base64: 'x'.repeat(Math.round(width * height * compress * mockBytesPerPixel))};
+    },
+    release: () => {
+      mockImage.released++;
+    },
+  });
+  const context = (width: number, height: number) => ({
+    resize: (size: {width: number}) => context(size.width, Math.round((height * size.width) / width)),
+    renderAsync: async () => imageRef(width, height),
+  });
+  return {
+    SaveFormat: {JPEG: 'jpeg'},
+    ImageManipulator: {
+      manipulate: (source: string | {width: number; height: number}) =>
+        typeof source === 'string' ? context(mockImage.width, mockImage.height) : context(source.width, source.height),
+    },
+    manipulateAsync: async () => {
+      throw new Error('The density pass is not under test');
+    },
+  };
+});
+
+// A gray image whose rows alternate between black and white every `period` pixels
+const stripes = (width: number, height: number, period: number): GrayImage => {
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = Math.floor(x / period) % 2 === 0 ? 0 : 255;
+    }
+  }
+  return {width, height, data};
+};
+
+describe('estimateTextDensity', () => {
+  it('is zero for a flat image', () => {
+    expect(estimateTextDensity({width: 10, height: 10, data: new Uint8Array(100).fill(128)})).toBe(0);
+  });
+
+  it('counts sharp horizontal changes as a share of neighbouring pairs', () => {
+    // Every pair changes
+    expect(estimateTextDensity(stripes(11, 4, 1))).toBe(1);
+    // A change every 5 pixels: 3 of the 19 pairs in each row
+    expect(estimateTextDensity(stripes(20, 3, 5))).toBeCloseTo(3 / 19);
+  });
+
+  it('ignores gentle gradients', () => {
+    const data = new Uint8Array(256 * 2);
+    for (let x = 0; x < 256; x++) {
+      data[x] = x;
+      data[256 + x] = x;
+    }
+    expect(estimateTextDensity({width: 256, height: 2, data})).toBe(0);
+  });
+
+  it('handles empty and single-column images', () => {
+    expect(estimateTextDensity({width: 0, height: 0, data: new Uint8Array(0)})).toBe(0);
+    expect(estimateTextDensity({width: 1, height: 5, data: new Uint8Array(5)})).toBe(0);
+  });
+});
+
+describe('chooseEncodingProfile', () => {
+  it('always uses the dense profile for documents', () => {
+    expect(chooseEncodingProfile('document')).toBe('dense');
+    expect(chooseEncodingProfile('document', 0)).toBe('dense');
+  });
+
+  it('uses the scene profile for image features', () => {
+    for (const target of ['labels', 'objects', 'logos', 'safeSearch', 'imageProperties'] as const) {
+      expect(chooseEncodingProfile(target, 0.5)).toBe('scene');
+    }
+  });
+
+  it('picks a text profile by density', () => {
+    expect(chooseEncodingProfile('text', 0.01)).toBe('sparse');
+    expect(chooseEncodingProfile('text', 0.04)).toBe('text');
+    expect(chooseEncodingProfile('text', 0.12)).toBe('text');
+    expect(chooseEncodingProfile('text', 0.2)).toBe('dense');
+  });
+
+  it('uses the text profile when the density is unknown', () => {
+    expect(chooseEncodingProfile('text')).toBe('text');
+  });
+});
+
+describe('encodeForTarget', () => {
+  beforeEach(() => {
+    mockEncodes.length = 0;
+    mockImage.width = 4000;
+    mockImage.height = 3000;
+    mockImage.released = 0;
+    mockBytesPerPixel = 0.1;
+  });
+
+  it('scales down to the profile width at its quality', async () => {
+    const encoded = await encodeForTarget('file:///photo.jpg', 'document');
+
+    expect(encoded).toMatchObject({profile: 'dense', width: 2048, height: 1536});
+    expect(mockEncodes).toEqual([{width: 2048, quality: ENCODING_PROFILES.dense.quality}]);
+  });
+
+  it('never upscales a small photo', async () => {
+    mockImage.width = 500;
+    mockImage.height = 400;
+    const encoded = await encodeForTarget('file:///photo.jpg', 'text', 'dense');
+
+    expect(encoded).toMatchObject({profile: 'dense', width: 500, height: 400});
+  });
+
+  it('uses the preferred profile for text but not for image features', async () => {
+    expect((await encodeForTarget('file:///photo.jpg', 'text', 'sparse')).profile).toBe('sparse');
+    expect((await encodeForTarget('file:///photo.jpg', 'labels', 'dense')).profile).toBe('scene');
+  });
+
+  it('lowers the quality and then the size until it fits the payload limit', async () => {
+    // At 2048px even the lowest quality is over the limit; at 1536px it fits
+    mockBytesPerPixel = MAX_PAYLOAD_BYTES / (2048 * 1536 * 0.45);
+    const encoded = await encodeForTarget('file:///photo.jpg', 'document');
+
+    expect(mockEncodes.map(({width, quality}) => [width, Number(quality.toFixed(2))])).toEqual([
+      [2048, 0.85],
+      [2048, 0.7],
+      [2048, 0.55],
+      [2048, 0.5],
+      [1536, 0.5],
+    ]);
+    expect(encoded.width).toBe(1536);
+    expect(encoded.base64.length).toBeLessThanOrEqual(MAX_PAYLOAD_BYTES);
+  });
+
+  it('gives up with an invalid-image error when nothing fits', async () => {
+    mockBytesPerPixel = 10;
+    const error = await encodeForTarget('file:///photo.jpg', 'document').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(OcrError);
+    expect(error.kind).toBe('invalid-image');
+    expect(mockEncodes).toHaveLength(5);
+  });
+
+  it('releases every decoded image', async () => {
+    mockBytesPerPixel = MAX_PAYLOAD_BYTES / (2048 * 1536 * 0.6);
+    await encodeForTarget('file:///photo.jpg', 'document');
+    // The original and one resized copy per attempt
+    expect(mockImage.released).toBe(1 + mockEncodes.length);
+
+    mockImage.released = 0;
+    mockBytesPerPixel = 10;
+    await encodeForTarget('file:///photo.jpg', 'document').catch(() => undefined);
+    expect(mockImage.released).toBe(6);
+  });
+});
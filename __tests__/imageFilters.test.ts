@@ -0,0 +1,130 @@
+import {binarize, estimateSkewAngle, rotateImage, stretchContrast} from '../app/services/imageFilters';
+import {RgbaImage} from '../app/services/rasterImage';
+
+// An opaque gray image with the value at each pixel
+const grayImage = (width: number, height: number, value: (x: number, y: number) => number): RgbaImage => {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = value(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return {width, height, data};
+};
+
+// A white page with dark three-pixel lines every 20 rows, tilted `degrees` clockwise
+const ruledPage = (degrees: number, size = 200) => {
+  const slope = Math.tan((degrees * Math.PI) / 180);
+  return grayImage(size, size, (x, y) => {
+    const row = y - (x - size / 2) * slope;
+    return ((row % 20) + 20) % 20 < 3 ? 20 : 245;
+  });
+};
+
+const pixel = (image: RgbaImage, x: number, y: number) => image.data[(y * image.width + x) * 4];
+
+const values = (image: RgbaImage) => new Set(Array.from({length: image.width * image.height}, (_, i) => image.data[i * 4]));
+
+describe('estimateSkewAngle', () => {
+  it('finds no skew in straight lines', () => {
+    expect(estimateSkewAngle(ruledPage(0))).toBe(0);
+  });
+
+  it('reports lines that fall to the right as clockwise, positive', () => {
+    expect(estimateSkewAngle(ruledPage(4))).toBeCloseTo(4, 0);
+  });
+
+  it('reports lines that rise to the right as anticlockwise, negative', () => {
+    expect(estimateSkewAngle(ruledPage(-6))).toBeCloseTo(-6, 0);
+  });
+
+  it('gives up on a page with too little ink', () => {
+    expect(estimateSkewAngle(grayImage(200, 200, () => 245))).toBe(0);
+  });
+
+  it('is straightened by rotating back by the estimate', () => {
+    const page = ruledPage(5);
+    const straightened = rotateImage(page, -estimateSkewAngle(page));
+    expect(Math.abs(estimateSkewAngle(straightened))).toBeLessThanOrEqual(0.5);
+  });
+});
+
+describe('rotateImage', () => {
+  it('returns the same image for no rotation', () => {
+    const image = ruledPage(0, 20);
+    expect(rotateImage(image, 0)).toBe(image);
+  });
+
+  it('keeps the size and fills the uncovered corners with white', () => {
+    const rotated = rotateImage(grayImage(40, 40, () => 0), 30);
+
+    expect(rotated).toMatchObject({width: 40, height: 40});
+    expect(pixel(rotated, 0, 0)).toBe(255);
+    expect(pixel(rotated, 20, 20)).toBe(0);
+  });
+});
+
+describe('binarize', () => {
+  // Marks at 60% of a background that brightens from 80 on the left to 240 on the right
+  const background = (x: number) => 80 + x * 1.25;
+  const isMark = (x: number, y: number) => x % 16 >= 7 && x % 16 < 9 && y % 16 >= 7 && y % 16 < 9;
+  const shaded = grayImage(128, 128, (x, y) => Math.round(isMark(x, y) ? background(x) * 0.6 : background(x)));
+
+  it('only outputs black and white, fully opaque', () => {
+    const result = binarize(shaded);
+
+    expect([...values(result)].sort()).toEqual([0, 255]);
+    expect(result.data.filter((value, i) => i % 4 === 3 && value !== 255)).toHaveLength(0);
+  });
+
+  it('keeps marks black and the background white across uneven lighting', () => {
+    const result = binarize(shaded);
+    const wrong: [number, number][] = [];
+    for (let y = 0; y < 128; y++) {
+      for (let x = 0; x < 128; x++) {
+        if (pixel(result, x, y) !== (isMark(x, y) ? 0 : 255)) {
+          wrong.push([x, y]);
+        }
+      }
+    }
+
+    expect(wrong).toEqual([]);
+    // A mark on the bright side is lighter than the background on the dark side,
+    // which no single global threshold could separate
+    expect(pixel(shaded, 119, 119)).toBeGreaterThan(pixel(shaded, 0, 0));
+  });
+
+  it('turns a flat image white', () => {
+    expect([...values(binarize(grayImage(32, 32, () => 90)))]).toEqual([255]);
+  });
+});
+
+describe('stretchContrast', () => {
+  it('stretches a washed-out image to the full range', () => {
+    // Every value from 100 to 150 in equal measure
+    const washedOut = grayImage(51, 20, x => 100 + x);
+    const result = stretchContrast(washedOut);
+
+    expect(pixel(result, 0, 0)).toBe(0);
+    expect(pixel(result, 50, 0)).toBe(255);
+    // The middle stays in the middle
+    expect(pixel(result, 25, 0)).toBeGreaterThan(120);
+    expect(pixel(result, 25, 0)).toBeLessThan(135);
+  });
+
+  it('clips the darkest and brightest 1% of pixels', () => {
+    // One stray black and one stray white pixel among mid grays
+    const speckled = grayImage(20, 20, (x, y) => (x === 0 && y === 0 ? 0 : x === 1 && y === 0 ? 255 : 100 + x * 3));
+    const result = stretchContrast(speckled);
+
+    expect(pixel(result, 0, 1)).toBe(0);
+    expect(pixel(result, 19, 1)).toBe(255);
+  });
+
+  it('leaves a nearly flat image alone', () => {
+    const flat = grayImage(10, 10, x => 120 + (x % 5));
+    expect(stretchContrast(flat)).toBe(flat);
+  });
+});
@@ -0,0 +1,114 @@
+import {analyzeLayout, groupWordsIntoLines, layoutLines, layoutToText} from '../app/services/layout';
+import {ExtractedText} from '../app/services/types';
+import receipt from './fixtures/ocr/receipt-us.json';
+import rotated from './fixtures/ocr/layout-rotated.json';
+import table from './fixtures/ocr/layout-table.json';
+import twoColumns from './fixtures/ocr/layout-two-columns.json';
+import upsideDown from './fixtures/ocr/layout-upside-down.json';
+
+const lineTexts = (extractedText: ExtractedText) => groupWordsIntoLines(extractedText).map(line => line.text);
+
+const NOTE_LINES = ['Meeting moved to Thursday', 'in room 4B at ten.', 'Bring the draft budget.'];
+
+describe('analyzeLayout', () => {
+  it('reads two columns one after the other', () => {
+    const layout = analyzeLayout(twoColumns.words);
+
+    expect(layout.blocks.map(block => block.kind)).toEqual(['text', 'text']);
+    expect(layoutToText(layout)).toBe([
+      'Field Notes',
+      '',
+      'Tide pools fill at dawn',
+      'with crabs and a few',
+      'fish that hide in weed.',
+      '',
+      'By noon the rocks are',
+      'dry and the gulls land.',
+      '',
+      'Inland the marsh is still',
+      'until the frogs start up',
+      'just after the sun sets.',
+    ].join('\n'));
+  });
+
+  it('finds a table between paragraphs', () => {
+    const layout = analyzeLayout(table.words);
+
+    expect(layout.blocks.map(block => block.kind)).toEqual(['text', 'table', 'text']);
+    expect(layoutToText(layout)).toBe([
+      'Parts list',
+      '',
+      'Item\tQty\tPrice',
+      'Hex bolt M6\t40\t0.12',
+      'Washer\t40\t0.03',
+      'Wing nut\t12\t0.30',
+      '',
+      'Prices exclude VAT and shipping costs',
+    ].join('\n'));
+  });
+
+  it('reads a table row as one line of its cells', () => {
+    const lines = layoutLines(analyzeLayout(table.words));
+    expect(lines[1].text).toBe('Item\tQty\tPrice');
+    expect(lines[2].words.map(word => word.text)).toEqual(['Hex', 'bolt', 'M6', '40', '0.12']);
+  });
+
+  it('lays out tilted text as if it were straight', () => {
+    const layout = analyzeLayout(rotated.words);
+
+    expect(layout.angle).toBeCloseTo(12, 0);
+    expect(layoutToText(layout)).toBe([NOTE_LINES[0], NOTE_LINES[1], '', NOTE_LINES[2]].join('\n'));
+  });
+
+  it('reads upside-down text from its own top', () => {
+    const layout = analyzeLayout(upsideDown.words);
+
+    expect(Math.abs(layout.angle)).toBeCloseTo(180, 0);
+    expect(layoutToText(layout)).toBe([NOTE_LINES[0], NOTE_LINES[1], '', NOTE_LINES[2]].join('\n'));
+  });
+
+  it('reads a receipt as a header over a table of amounts', () => {
+    const layout = analyzeLayout(receipt.words);
+
+    expect(layout.blocks.map(block => block.kind)).toEqual(['text', 'table']);
+    expect(layoutToText(layout)).toBe([
+      'Blue Door Cafe',
+      '41 Harbor St, Portland',
+      '',
+      '03/14/2024\t08:15 AM',
+      'Latte\t$4.50',
+      'Croissant\t$3.25',
+      'Subtotal\t$7.75',
+      'Sales Tax\t$0.62',
+      'Total\t$8.37',
+      'VISA\t$8.37',
+    ].join('\n'));
+  });
+
+  it('has no blocks without words', () => {
+    expect(analyzeLayout([])).toEqual({angle: 0, blocks: []});
+  });
+});
+
+describe('groupWordsIntoLines', () => {
+  it('keeps columns on the same line', () => {
+    expect(lineTexts(twoColumns)[1]).toBe('Tide pools fill at dawn Inland the marsh is still');
+  });
+
+  it('groups tilted and upside-down words into their lines', () => {
+    expect(lineTexts(rotated)).toEqual(NOTE_LINES);
+    expect(lineTexts(upsideDown)).toEqual(NOTE_LINES);
+  });
+
+  it('boxes each line in image space', () => {
+    const [first] = groupWordsIntoLines(receipt);
+    expect(first.box).toEqual({x: 300, y: 90, width: 416, height: 56});
+  });
+
+  it('falls back to the lines of the full text without word geometry', () => {
+    expect(groupWordsIntoLines({fullText: ' first \n\nsecond', imageWidth: 0, imageHeight: 0, words: []})).toEqual([
+      {text: 'first', words: []},
+      {text: 'second', words: []},
+    ]);
+  });
+});
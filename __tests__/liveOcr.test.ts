@@ -0,0 +1,80 @@
+import {isLiveScanResult, liveResultToExtractedText, LiveScanResult, uprightFrameSize} from '../app/services/liveOcr';
+
+describe('uprightFrameSize', () => {
+  const frame = {width: 1920, height: 1080};
+
+  it('keeps the buffer size for portrait frames', () => {
+    expect(uprightFrameSize(frame, 'portrait')).toEqual(frame);
+    expect(uprightFrameSize(frame, 'portrait-upside-down')).toEqual(frame);
+  });
+
+  it('swaps width and height for landscape frames', () => {
+    expect(uprightFrameSize(frame, 'landscape-left')).toEqual({width: 1080, height: 1920});
+    expect(uprightFrameSize(frame, 'landscape-right')).toEqual({width: 1080, height: 1920});
+  });
+
+  it('leaves square frames alone', () => {
+    expect(uprightFrameSize({width: 720, height: 720}, 'landscape-right')).toEqual({width: 720, height: 720});
+  });
+});
+
+describe('liveResultToExtractedText', () => {
+  const imageSize = {width: 1080, height: 1920};
+
+  it('flattens blocks and lines into words with their corner points', () => {
+    const result: LiveScanResult = {
+      resultText: 'Blue Bottle\nLatte',
+      blocks: [
+        {
+          blockText: 'Blue Bottle',
+          lines: [{
+            lineText: 'Blue Bottle',
+            elements: [
+              {elementText: 'Blue', elementCornerPoints: [{x: 10, y: 20}, {x: 60, y: 22}, {x: 59, y: 42}, {x: 9, y: 40}]},
+              {elementText: 'Bottle', elementCornerPoints: [{x: 70, y: 20}, {x: 140, y: 20}, {x: 140, y: 40}, {x: 70, y: 40}]},
+            ],
+          }],
+        },
+        {blockText: 'Latte', lines: [{lineText: 'Latte', elements: [{elementText: 'Latte', elementCornerPoints: [{x: 10, y: 60}, {x: 70, y: 60}, {x: 70, y: 80}, {x: 10, y: 80}]}]}]},
+      ],
+    };
+
+    const extracted = liveResultToExtractedText(result, imageSize);
+
+    expect(extracted).toMatchObject({fullText: 'Blue Bottle\nLatte', imageWidth: 1080, imageHeight: 1920});
+    expect(extracted.words.map(word => [word.id, word.text])).toEqual([
+      ['word-0', 'Blue'],
+      ['word-1', 'Bottle'],
+      ['word-2', 'Latte'],
+    ]);
+    expect(extracted.words[0]).toMatchObject({x: 9, y: 20, width: 51, height: 22});
+    expect(extracted.words[0].vertices).toHaveLength(4);
+  });
+
+  it('builds the box from the centred frame when there are no corner points', () => {
+    const {words} = liveResultToExtractedText({
+      blocks: [{blockText: 'TOTAL', lines: [{lineText: 'TOTAL', elements: [{elementText: 'TOTAL', elementFrame: {x: 100, y: 50, width: 60, height: 20}}]}]}],
+    }, imageSize);
+
+    expect(words[0]).toMatchObject({x: 70, y: 40, width: 60, height: 20});
+    expect(words[0].vertices).toEqual([{x: 70, y: 40}, {x: 130, y: 40}, {x: 130, y: 60}, {x: 70, y: 60}]);
+  });
+
+  it('handles an empty result', () => {
+    expect(liveResultToExtractedText({}, imageSize)).toEqual({fullText: '', imageWidth: 1080, imageHeight: 1920, words: []});
+    expect(liveResultToExtractedText({blocks: [{blockText: ''}]}, imageSize).words).toEqual([]);
+  });
+});
+
+describe('isLiveScanResult', () => {
+  it('accepts the objects the plugin returns', () => {
+    expect(isLiveScanResult({})).toBe(true);
+    expect(isLiveScanResult({resultText: 'TOTAL', blocks: [{blockText: 'TOTAL'}]})).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    for (const value of [null, undefined, 'TOTAL', 3, [], [{blocks: []}], {resultText: 3}, {blocks: 'TOTAL'}, {blocks: [null]}]) {
+      expect(isLiveScanResult(value)).toBe(false);
+    }
+  });
+});
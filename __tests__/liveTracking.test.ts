@@ -0,0 +1,166 @@
+import {DEFAULT_TRACKING_OPTIONS, TrackedWord, updateTrackedWords, visibleTrackedWords} from '../app/services/liveTracking';
+import {ExtractedWord} from '../app/services/types';
+
+// A detected word with its box at (x, y), as the live scanner reports it
+const detection = (text: string, x: number, y: number, width = 60, height = 20): ExtractedWord => ({
+  id: `word-${text}`,
+  text,
+  x,
+  y,
+  width,
+  height,
+  vertices: [
+    {x, y},
+    {x: x + width, y},
+    {x: x + width, y: y + height},
+    {x, y: y + height},
+  ],
+});
+
+// Feed frames of detections through the tracker, one after another
+const track = (frames: ExtractedWord[][], initial: TrackedWord[] = []) =>
+  frames.reduce<TrackedWord[]>((tracked, detections) => updateTrackedWords(tracked, detections), initial);
+
+const byText = (tracked: TrackedWord[], text: string) => tracked.filter(word => word.text === text);
+
+describe('updateTrackedWords', () => {
+  it('keeps one id for a word whose box jitters between frames', () => {
+    const jitter = [[0, 0], [3, -2], [-2, 3], [4, 1], [-3, -3]];
+    const history: TrackedWord[][] = [];
+    jitter.reduce((tracked, [dx, dy]) => {
+      const next = updateTrackedWords(tracked, [detection('TOTAL', 100 + dx, 200 + dy)]);
+      history.push(next);
+      return next;
+    }, [] as TrackedWord[]);
+
+    const ids = new Set(history.map(frame => frame[0].id));
+    expect(ids.size).toBe(1);
+    expect(history.every(frame => frame.length === 1)).toBe(true);
+    expect(history[history.length - 1][0]).toMatchObject({hits: 5, misses: 0});
+  });
+
+  it('smooths the box towards each new detection', () => {
+    const first = updateTrackedWords([], [detection('TOTAL', 100, 200)]);
+    const [second] = updateTrackedWords(first, [detection('TOTAL', 110, 210)]);
+
+    // Half way with the default smoothing of 0.5
+    expect(second.vertices[0]).toEqual({x: 105, y: 205});
+    expect(second).toMatchObject({x: 105, y: 205, width: 60, height: 20});
+
+    const [weighted] = updateTrackedWords(first, [detection('TOTAL', 110, 210)], {smoothing: 0.2});
+    expect(weighted.vertices[0].x).toBeCloseTo(102);
+    expect(weighted.vertices[0].y).toBeCloseTo(202);
+  });
+
+  it('jitters less than the raw detections', () => {
+    const raw = [100, 106, 97, 105, 96, 104];
+    const smoothed: number[] = [];
+    raw.reduce((tracked, x) => {
+      const next = updateTrackedWords(tracked, [detection('TOTAL', x, 200)]);
+      smoothed.push(next[0].x);
+      return next;
+    }, [] as TrackedWord[]);
+
+    const spread = (values: number[]) => Math.max(...values.slice(1)) - Math.min(...values.slice(1));
+    expect(spread(smoothed)).toBeLessThan(spread(raw));
+  });
+
+  it('starts a new track for a word that moved too far', () => {
+    const [first] = updateTrackedWords([], [detection('TOTAL', 100, 200)]);
+    // More than 1.5 word heights (30px) away
+    const next = updateTrackedWords([first], [detection('TOTAL', 140, 200)]);
+
+    const matched = next.find(word => word.misses === 0)!;
+    expect(matched.id).not.toBe(first.id);
+    expect(matched.hits).toBe(1);
+    // The old track lingers as missing
+    expect(next.find(word => word.id === first.id)).toMatchObject({misses: 1});
+  });
+
+  it('only matches words with the same text', () => {
+    const [first] = updateTrackedWords([], [detection('TOTAL', 100, 200)]);
+    const next = updateTrackedWords([first], [detection('T0TAL', 100, 200)]);
+
+    expect(next.find(word => word.text === 'T0TAL')).toMatchObject({hits: 1});
+    expect(next.find(word => word.text === 'TOTAL')).toMatchObject({id: first.id, misses: 1});
+  });
+
+  it('matches repeated words to the nearest track', () => {
+    const tracked = updateTrackedWords([], [detection('4.50', 100, 100), detection('4.50', 100, 300)]);
+    const [top, bottom] = tracked;
+    const next = updateTrackedWords(tracked, [detection('4.50', 102, 302), detection('4.50', 98, 98)]);
+
+    expect(next.find(word => word.id === bottom.id)!.y).toBeCloseTo(301);
+    expect(next.find(word => word.id === top.id)!.y).toBeCloseTo(99);
+  });
+
+  it('keeps a word that drops out for fewer than maxMisses frames', () => {
+    const seen = track([[detection('TOTAL', 100, 200)], [detection('TOTAL', 100, 200)]]);
+    const id = seen[0].id;
+
+    const missingOnce = updateTrackedWords(seen, []);
+    expect(missingOnce).toEqual([expect.objectContaining({id, hits: 2, misses: 1})]);
+    expect(visibleTrackedWords(missingOnce)).toHaveLength(1);
+
+    // Coming back picks up the same track
+    const back = updateTrackedWords(missingOnce, [detection('TOTAL', 101, 200)]);
+    expect(back).toEqual([expect.objectContaining({id, hits: 3, misses: 0})]);
+  });
+
+  it('keeps a word missing for exactly maxMisses frames', () => {
+    const seen = track([[detection('TOTAL', 100, 200)], [detection('TOTAL', 100, 200)]]);
+    const missing = track(Array.from({length: DEFAULT_TRACKING_OPTIONS.maxMisses}, () => []), seen);
+
+    expect(missing).toEqual([expect.objectContaining({id: seen[0].id, misses: DEFAULT_TRACKING_OPTIONS.maxMisses})]);
+  });
+
+  it('drops a word missing for more than maxMisses frames', () => {
+    const seen = track([[detection('TOTAL', 100, 200)], [detection('TOTAL', 100, 200)]]);
+    const gone = track(Array.from({length: DEFAULT_TRACKING_OPTIONS.maxMisses + 1}, () => []), seen);
+    expect(gone).toEqual([]);
+
+    const back = updateTrackedWords(gone, [detection('TOTAL', 100, 200)]);
+    expect(back[0].id).not.toBe(seen[0].id);
+    expect(back[0].hits).toBe(1);
+  });
+
+  it('honours a custom maxMisses', () => {
+    const seen = updateTrackedWords([], [detection('TOTAL', 100, 200)]);
+    expect(updateTrackedWords(seen, [], {maxMisses: 0})).toEqual([]);
+    expect(updateTrackedWords(seen, [], {maxMisses: 1})).toHaveLength(1);
+  });
+});
+
+describe('visibleTrackedWords', () => {
+  it('hides new words until they have been seen minHits times', () => {
+    const once = track([[detection('TOTAL', 100, 200)]]);
+    expect(visibleTrackedWords(once)).toEqual([]);
+
+    const twice = track([[detection('TOTAL', 102, 200)]], once);
+    expect(visibleTrackedWords(twice).map(word => word.text)).toEqual(['TOTAL']);
+  });
+
+  it('honours a custom minHits', () => {
+    const once = track([[detection('TOTAL', 100, 200)]]);
+    expect(visibleTrackedWords(once, {minHits: 1})).toHaveLength(1);
+
+    const twice = track([[detection('TOTAL', 100, 200)]], once);
+    expect(visibleTrackedWords(twice, {minHits: 3})).toEqual([]);
+  });
+
+  it('never shows a one-frame false detection, even while it lingers', () => {
+    const frames = [
+      [detection('TOTAL', 100, 200)],
+      [detection('TOTAL', 100, 200), detection('T0TAL', 100, 240)],
+      [detection('TOTAL', 100, 200)],
+      [detection('TOTAL', 100, 200)],
+      [detection('TOTAL', 100, 200)],
+    ];
+    let tracked: TrackedWord[] = [];
+    for (const detections of frames) {
+      tracked = updateTrackedWords(tracked, detections);
+      expect(byText(visibleTrackedWords(tracked), 'T0TAL')).toEqual([]);
+    }
+    expect(byText(tracked, 'T0TAL')).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+type Logger = typeof import('../app/services/logger');
+
+// A fresh copy of the module, reading EXPO_PUBLIC_LOG_LEVEL again
+const loadLogger = (level?: string) => {
+  const previous = process.env.EXPO_PUBLIC_LOG_LEVEL;
+  if (level) {
+    process.env.EXPO_PUBLIC_LOG_LEVEL = level;
+  } else {
+    delete process.env.EXPO_PUBLIC_LOG_LEVEL;
+  }
+
+  let logger!: Logger;
+  jest.isolateModules(() => {
+    logger = require('../app/services/logger');
+  });
+
+  if (previous === undefined) {
+    delete process.env.EXPO_PUBLIC_LOG_LEVEL;
+  } else {
+    process.env.EXPO_PUBLIC_LOG_LEVEL = previous;
+  }
+  return logger;
+};
+
+beforeEach(() => {
+  for (const method of ['log', 'info', 'warn', 'error'] as const) {
+    jest.spyOn(console, method).mockImplementation(() => undefined);
+  }
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('redact', () => {
+  const {redact} = loadLogger();
+  const API_KEY = `AIza${'x'.repeat(35)}`;
+
+  it('redacts bearer tokens, key parameters and Google API keys in strings', () => {
+    expect(redact('Authorised with Bearer abc.DEF-123_~+/=')).toBe('Authorised with Bearer [redacted]');
+    expect(redact('POST https://vision.googleapis.com/v1/images:annotate?key=secret123&alt=json')).toBe(
+      'POST https://vision.googleapis.com/v1/images:annotate?key=[redacted]&alt=json'
+    );
+    expect(redact('GET /proxy?mode=text&token=abc')).toBe('GET /proxy?mode=text&token=[redacted]');
+    expect(redact(`Using ${API_KEY} for Vision`)).toBe('Using [redacted] for Vision');
+  });
+
+  it('drops values under credential keys', () => {
+    expect(redact({apiKey: API_KEY, api_key: 'k', authorization: 'Bearer x', proxyToken: 't', password: 'p'})).toEqual({
+      apiKey: '[redacted]',
+      api_key: '[redacted]',
+      authorization: '[redacted]',
+      proxyToken: '[redacted]',
+      password: '[redacted]',
+    });
+  });
+
+  it('reduces content keys to their size', () => {
+    expect(
+      redact({
+        fullText: 'TOTAL 4.50',
+        base64: '/9j/4AAQ',
+        words: [{text: 'TOTAL'}, {text: '4.50'}],
+        description: 'Blue Bottle Coffee',
+        wordCount: 2,
+      })
+    ).toEqual({
+      fullText: '[10 chars]',
+      base64: '[8 chars]',
+      words: '[2 items]',
+      description: '[18 chars]',
+      wordCount: 2,
+    });
+  });
+
+  it('keeps only the scheme and host of URIs', () => {
+    expect(
+      redact({
+        imageUri: 'file:///var/mobile/Containers/Data/photo.jpg',
+        proxyUrl: 'https://proxy.example.com:8080/v1/annotate?key=secret',
+        sourceURI: 'content://media/external/images/42',
+        uri: 'photo.jpg',
+      })
+    ).toEqual({
+      imageUri: 'file:///[redacted]',
+      proxyUrl: 'https://proxy.example.com:8080/[redacted]',
+      sourceURI: 'content://media/[redacted]',
+      uri: '[redacted]',
+    });
+  });
+
+  it('redacts nested objects, arrays and errors', () => {
+    expect(
+      redact({
+        request: {headers: {Authorization: 'Bearer x'}, images: [{imageUri: 'file:///a/b.jpg'}]},
+        error: new Error(`Request with ${API_KEY} failed`),
+      })
+    ).toEqual({
+      request: {headers: {Authorization: '[redacted]'}, images: [{imageUri: 'file:///[redacted]'}]},
+      error: expect.objectContaining({name: 'Error', message: 'Request with [redacted] failed'}),
+    });
+  });
+
+  it('stops at a fixed depth', () => {
+    expect(redact({a: {b: {c: {d: {e: 1}}}}})).toEqual({a: {b: {c: {d: '[nested]'}}}});
+  });
+
+  it('leaves numbers, booleans and null alone', () => {
+    expect(redact({count: 3, ok: true, missing: null})).toEqual({count: 3, ok: true, missing: null});
+  });
+});
+
+describe('log buffer', () => {
+  it('records redacted entries', () => {
+    const {createLogger, getLogEntries} = loadLogger('debug');
+    createLogger('ocr').info('Sent ?key=secret', {fullText: 'hello', imageUri: 'file:///a/b.jpg'});
+
+    expect(getLogEntries()).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        namespace: 'ocr',
+        message: 'Sent ?key=[redacted]',
+        data: {fullText: '[5 chars]', imageUri: 'file:///[redacted]'},
+      }),
+    ]);
+  });
+
+  it('keeps the newest entries, oldest first, after wrapping around', () => {
+    const {createLogger, getLogEntries, LOG_BUFFER_SIZE} = loadLogger('debug');
+    const log = createLogger('test');
+    const total = LOG_BUFFER_SIZE + 7;
+    for (let i = 0; i < total; i++) {
+      log.info(`entry ${i}`);
+    }
+
+    const messages = getLogEntries().map(entry => entry.message);
+    expect(messages).toHaveLength(LOG_BUFFER_SIZE);
+    expect(messages[0]).toBe('entry 7');
+    expect(messages[LOG_BUFFER_SIZE - 1]).toBe(`entry ${total - 1}`);
+    expect(messages).toEqual(Array.from({length: LOG_BUFFER_SIZE}, (_, i) => `entry ${i + 7}`));
+  });
+
+  it('starts over after clearing', () => {
+    const {clearLogEntries, createLogger, getLogEntries, subscribeToLogs} = loadLogger('debug');
+    const log = createLogger('test');
+    log.info('before');
+    const listener = jest.fn();
+    subscribeToLogs(listener);
+
+    clearLogEntries();
+    log.info('after');
+
+    expect(getLogEntries().map(entry => entry.message)).toEqual(['after']);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('only records entries at or above the configured level', () => {
+    const {createLogger, getLogEntries} = loadLogger('warn');
+    const log = createLogger('test');
+    log.debug('debug');
+    log.info('info');
+    log.metric('ocr', 840);
+    log.warn('warn');
+    log.error('error');
+
+    expect(getLogEntries().map(entry => entry.level)).toEqual(['warn', 'error']);
+  });
+
+  it('records metrics as info entries with their timing', () => {
+    const {createLogger, getLogEntries} = loadLogger('info');
+    const log = createLogger('ocr');
+    log.debug('skipped');
+    log.metric('recognize', 840, {provider: 'google'});
+
+    expect(getLogEntries()).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        message: 'recognize took 840 ms',
+        data: {provider: 'google'},
+        metric: {name: 'recognize', durationMs: 840},
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * @jest-environment node
+ */
+import {Server} from 'http';
+import {AddressInfo} from 'net';
+import {createStubServer} from '../server/stubVisionServer';
+import {createSimulatedNetwork, SimulatedNetwork} from '../app/services/network';
+import {OcrError} from '../app/services/ocrErrors';
+import {createOcrQueue, MAX_QUEUE_ATTEMPTS, NewQueuedScan, QueuedScan, QueueStore} from '../app/services/ocrQueue';
+import {ExtractedText} from '../app/services/types';
+
+type OcrPipeline = typeof import('../app/services/ocrPipeline');
+type OcrProviders = typeof import('../app/services/ocrProvider');
+type OcrQueueModule = typeof import('../app/services/ocrQueue');
+
+// The budget ledger lives on the device's file system; here it only needs to let requests through
+jest.mock('../app/services/usage', () => ({
+  assertWithinBudget: jest.fn(async () => undefined),
+  recordUsage: jest.fn(async () => undefined),
+}));
+
+// Don't retry within a request, so the stub's one-second Retry-After doesn't
+// slow the tests; the queue does its own retrying
+jest.mock('../app/services/http', () => {
+  const http = jest.requireActual('../app/services/http');
+  return {
+    ...http,
+    fetchWithRetry: (url: string, init: RequestInit, overrides = {}) => http.fetchWithRetry(url, init, {...overrides, maxRetries: 0}),
+  };
+});
+
+// Encoding hands over a fixed JPEG; the density pass fails and falls back to the default profile
+jest.mock('expo-image-manipulator', () => ({
+  SaveFormat: {JPEG: 'jpeg'},
+  ImageManipulator: {
+    manipulate: () => ({
+      renderAsync: async () => ({
+        width: 800,
+        height: 600,
+        saveAsync: async () => ({uri: 'file:///cache/encoded.jpg', width: 800, height: 600, base64: 'aGVsbG8='}),
+        release: () => undefined,
+      }),
+    }),
+  },
+  manipulateAsync: async () => {
+    throw new Error('No pixels to decode');
+  },
+}));
+
+jest.mock('../app/services/barcodes', () => ({
+  detectCodes: async () => [],
+}));
+
+const RETRY_DELAY = {baseDelayMs: 1000, maxDelayMs: 8000};
+
+const result = (fullText: string): ExtractedText => ({fullText, imageWidth: 100, imageHeight: 100, words: []});
+
+const newScan = (sourceUri: string): NewQueuedScan => ({sourceUri, providerId: 'google', mode: 'text', timings: {captureMs: 5}});
+
+// Keeps the queue in memory and remembers which photos were dropped
+const createMemoryStore = () => {
+  let scans: QueuedScan[] = [];
+  const dropped: string[] = [];
+  const store: QueueStore = {
+    load: async () => scans,
+    save: async next => {
+      scans = next;
+    },
+    keepImage: async (id, sourceUri) => `queue/${id}-${sourceUri}`,
+    dropImage: async imageUri => {
+      dropped.push(imageUri);
+    },
+  };
+  return {store, dropped};
+};
+
+describe('createOcrQueue', () => {
+  let network: SimulatedNetwork;
+  let memory: ReturnType<typeof createMemoryStore>;
+  let delivered: string[];
+  // Errors the fake endpoint answers with before it starts recognising
+  let failures: OcrError[];
+  let requests: number;
+
+  // Stands in for the Vision endpoint: unreachable while the simulated
+  // network is offline, otherwise it echoes the photo's source
+  const recognize = async (scan: QueuedScan) => {
+    requests++;
+    if (!(await network.isOnline())) {
+      throw new OcrError('network', 'Network request failed');
+    }
+    const failure = failures.shift();
+    if (failure) {
+      throw failure;
+    }
+    return {extractedText: result(scan.imageUri), timings: {ocrMs: 10}};
+  };
+
+  const createQueue = () => createOcrQueue({
+    network,
+    store: memory.store,
+    recognize,
+    deliver: async scan => {
+      delivered.push(scan.imageUri);
+    },
+    retryDelay: RETRY_DELAY,
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    network = createSimulatedNetwork(true);
+    memory = createMemoryStore();
+    delivered = [];
+    failures = [];
+    requests = 0;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  // Start the queue and let its first drain, over an empty queue, finish
+  const startQueue = async (queue: ReturnType<typeof createQueue>) => {
+    const stop = queue.start();
+    await jest.advanceTimersByTimeAsync(0);
+    return stop;
+  };
+
+  it('drains a scan queued while online without waiting for a network change', async () => {
+    const queue = createQueue();
+    const stop = await startQueue(queue);
+
+    const scan = await queue.enqueue(newScan('a.jpg'));
+    await jest.advanceTimersByTimeAsync(RETRY_DELAY.baseDelayMs);
+
+    expect(delivered).toEqual([scan.imageUri]);
+    expect(await queue.list()).toEqual([]);
+    expect(memory.dropped).toEqual([scan.imageUri]);
+    stop();
+  });
+
+  it('holds scans while offline and delivers them in order once back online', async () => {
+    network.setOnline(false);
+    const queue = createQueue();
+    const stop = await startQueue(queue);
+
+    const first = await queue.enqueue(newScan('a.jpg'));
+    const second = await queue.enqueue(newScan('b.jpg'));
+    await jest.advanceTimersByTimeAsync(RETRY_DELAY.maxDelayMs);
+    expect(requests).toBe(0);
+    expect((await queue.list()).map(scan => scan.status)).toEqual(['pending', 'pending']);
+
+    network.setOnline(true);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(delivered).toEqual([first.imageUri, second.imageUri]);
+    expect(await queue.list()).toEqual([]);
+    stop();
+  });
+
+  it('backs off and retries while the endpoint is unreachable', async () => {
+    // Halfway through each jitter window: 500, 1000, 2000, then 4000 ms
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    failures = [
+      new OcrError('network', 'timed out'),
+      new OcrError('quota', 'rate limited'),
+      new OcrError('unavailable', 'Service unavailable', 503),
+    ];
+    const queue = createQueue();
+    const stop = await startQueue(queue);
+
+    const scan = await queue.enqueue(newScan('a.jpg'));
+    await jest.advanceTimersByTimeAsync(500);
+    expect(requests).toBe(1);
+    expect(await queue.list()).toEqual([expect.objectContaining({status: 'pending', attempts: 0, lastError: 'timed out'})]);
+
+    // Unreachable isn't the scan's fault, so it doesn't count as an attempt
+    await jest.advanceTimersByTimeAsync(999);
+    expect(requests).toBe(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(requests).toBe(2);
+    expect(await queue.list()).toEqual([expect.objectContaining({status: 'pending', attempts: 0, lastError: 'rate limited'})]);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(requests).toBe(3);
+    expect(await queue.list()).toEqual([expect.objectContaining({status: 'pending', attempts: 0, lastError: 'Service unavailable'})]);
+
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(requests).toBe(4);
+    expect(delivered).toEqual([scan.imageUri]);
+    stop();
+  });
+
+  it('gives up on a scan that keeps failing and takes it back on retry', async () => {
+    failures = Array.from({length: MAX_QUEUE_ATTEMPTS}, () => new OcrError('invalid-image', 'Image is unreadable'));
+    const queue = createQueue();
+    const stop = await startQueue(queue);
+
+    const scan = await queue.enqueue(newScan('a.jpg'));
+    await jest.advanceTimersByTimeAsync(RETRY_DELAY.maxDelayMs * MAX_QUEUE_ATTEMPTS);
+    expect(requests).toBe(MAX_QUEUE_ATTEMPTS);
+    expect(await queue.list()).toEqual([
+      expect.objectContaining({status: 'failed', attempts: MAX_QUEUE_ATTEMPTS, lastError: 'Image is unreadable'}),
+    ]);
+
+    // Failed scans aren't retried on their own
+    await jest.advanceTimersByTimeAsync(RETRY_DELAY.maxDelayMs * 2);
+    expect(requests).toBe(MAX_QUEUE_ATTEMPTS);
+
+    await queue.retry();
+    expect(delivered).toEqual([scan.imageUri]);
+    stop();
+  });
+
+  it('stops retrying once stopped', async () => {
+    const queue = createQueue();
+    const stop = await startQueue(queue);
+
+    await queue.enqueue(newScan('a.jpg'));
+    stop();
+    await jest.advanceTimersByTimeAsync(RETRY_DELAY.maxDelayMs);
+
+    expect(requests).toBe(0);
+    expect(await queue.list()).toHaveLength(1);
+  });
+
+  it('puts scans left recognising by a previous run back in line on start', async () => {
+    const queue = createQueue();
+    network.setOnline(false);
+    const scan = await queue.enqueue(newScan('a.jpg'));
+    await memory.store.save([{...scan, status: 'recognizing'}]);
+
+    network.setOnline(true);
+    const stop = await startQueue(queue);
+
+    expect(delivered).toEqual([scan.imageUri]);
+    stop();
+  });
+});
+
+describe('createOcrQueue against the stub Vision server', () => {
+  const RETRY = {baseDelayMs: 20, maxDelayMs: 50};
+  const TOKEN = 'test-token';
+
+  let stub: Server;
+  let stubRequests: number;
+  let network: SimulatedNetwork;
+  let memory: ReturnType<typeof createMemoryStore>;
+  let delivered: ExtractedText[];
+
+  // Start the stub on an ephemeral port, then load the recognition path with
+  // the proxy URL pointing at it; the Vision client reads it once, on load
+  const start = async (stubOptions: {status?: number} = {}) => {
+    stub = createStubServer(stubOptions);
+    stub.on('request', () => stubRequests++);
+    const port = await new Promise<number>(resolve =>
+      stub.listen(0, '127.0.0.1', () => resolve((stub.address() as AddressInfo).port)));
+
+    process.env.EXPO_PUBLIC_VISION_PROXY_URL = `http://127.0.0.1:${port}`;
+    process.env.EXPO_PUBLIC_VISION_PROXY_TOKEN = TOKEN;
+    process.env.EXPO_PUBLIC_OCR_CACHE = 'off';
+    // The queue comes from the same module registry, so it recognises the
+    // client's OcrErrors by class
+    let pipeline!: OcrPipeline;
+    let providers!: OcrProviders;
+    let queueModule!: OcrQueueModule;
+    jest.isolateModules(() => {
+      pipeline = require('../app/services/ocrPipeline');
+      providers = require('../app/services/ocrProvider');
+      queueModule = require('../app/services/ocrQueue');
+    });
+
+    return queueModule.createOcrQueue({
+      network,
+      store: memory.store,
+      recognize: scan => pipeline.recognizeImage(providers.OCR_PROVIDERS[scan.providerId], scan.imageUri, {mode: scan.mode}),
+      deliver: async (_scan, extractedText) => {
+        delivered.push(extractedText);
+      },
+      retryDelay: RETRY,
+    });
+  };
+
+  // Real sockets need real time; check every few milliseconds for up to five seconds
+  const waitFor = async (condition: () => boolean | Promise<boolean>) => {
+    for (let waited = 0; !(await condition()); waited += 10) {
+      if (waited >= 5000) {
+        throw new Error('Timed out waiting for the queue');
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(() => {
+    network = createSimulatedNetwork(true);
+    memory = createMemoryStore();
+    delivered = [];
+    stubRequests = 0;
+    for (const method of ['log', 'info', 'warn', 'error'] as const) {
+      jest.spyOn(console, method).mockImplementation(() => undefined);
+    }
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    delete process.env.EXPO_PUBLIC_VISION_PROXY_URL;
+    delete process.env.EXPO_PUBLIC_VISION_PROXY_TOKEN;
+    delete process.env.EXPO_PUBLIC_OCR_CACHE;
+    if (stub?.listening) {
+      await new Promise(resolve => stub.close(resolve));
+    }
+  });
+
+  it('sends nothing while offline and recognises the scan through the stub once back online', async () => {
+    network.setOnline(false);
+    const queue = await start();
+    const stop = queue.start();
+
+    await queue.enqueue(newScan('a.jpg'));
+    await new Promise(resolve => setTimeout(resolve, RETRY.maxDelayMs * 2));
+    expect(stubRequests).toBe(0);
+    expect(await queue.list()).toEqual([expect.objectContaining({status: 'pending', attempts: 0})]);
+
+    network.setOnline(true);
+    await waitFor(() => delivered.length > 0);
+
+    expect(stubRequests).toBe(1);
+    expect(delivered[0].fullText).toBe('HELLO WORLD\n');
+    expect(delivered[0].words.map(word => word.text)).toEqual(['HELLO', 'WORLD']);
+    expect(await queue.list()).toEqual([]);
+    stop();
+  });
+
+  it('keeps the scan queued, without counting an attempt, while the stub answers 503', async () => {
+    const queue = await start({status: 503});
+    const stop = queue.start();
+
+    await queue.enqueue(newScan('a.jpg'));
+    await waitFor(async () => stubRequests >= 2 && (await queue.list())[0]?.status === 'pending');
+
+    expect(delivered).toEqual([]);
+    expect(await queue.list()).toEqual([
+      expect.objectContaining({status: 'pending', attempts: 0, lastError: expect.stringContaining('Stubbed 503 response')}),
+    ]);
+
+    // Going offline stops the retries from reaching the stub
+    network.setOnline(false);
+    await new Promise(resolve => setTimeout(resolve, RETRY.maxDelayMs));
+    const requestsWhileOffline = stubRequests;
+    await new Promise(resolve => setTimeout(resolve, RETRY.maxDelayMs * 2));
+    expect(stubRequests).toBe(requestsWhileOffline);
+    stop();
+  });
+});
@@ -0,0 +1,100 @@
+import {readFileSync} from 'fs';
+import {decode} from 'jpeg-js';
+import path from 'path';
+import {Point} from '../app/services/coordinates';
+import {Quad} from '../app/services/documentDetection';
+import {applyHomography, computeHomography, Homography, warpedSize, warpPerspective} from '../app/services/perspective';
+import {RgbaImage} from '../app/services/rasterImage';
+
+const expectPointCloseTo = (actual: Point, expected: Point) => {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+};
+
+const rectangle: Quad = [{x: 0, y: 0}, {x: 200, y: 0}, {x: 200, y: 300}, {x: 0, y: 300}];
+// The page of page-perspective.jpg, as it was drawn
+const pageInPhoto: Quad = [{x: 62, y: 70}, {x: 262, y: 52}, {x: 284, y: 362}, {x: 44, y: 380}];
+
+const loadSample = (name: string): RgbaImage => {
+  const {width, height, data} = decode(readFileSync(path.join(__dirname, 'fixtures', 'images', name)), {useTArray: true, formatAsRGBA: true});
+  return {width, height, data};
+};
+
+const luma = (image: RgbaImage, x: number, y: number) => {
+  const i = (Math.round(y) * image.width + Math.round(x)) * 4;
+  return (image.data[i] * 299 + image.data[i + 1] * 587 + image.data[i + 2] * 114) / 1000;
+};
+
+describe('computeHomography', () => {
+  it('maps each corner onto its target', () => {
+    const h = computeHomography(rectangle, pageInPhoto) as Homography;
+    rectangle.forEach((corner, index) => expectPointCloseTo(applyHomography(h, corner), pageInPhoto[index]));
+  });
+
+  it('is the identity between a quad and itself', () => {
+    const h = computeHomography(pageInPhoto, pageInPhoto) as Homography;
+    [1, 0, 0, 0, 1, 0, 0, 0, 1].forEach((value, index) => expect(h[index]).toBeCloseTo(value, 9));
+  });
+
+  it('keeps straight lines straight', () => {
+    const h = computeHomography(rectangle, pageInPhoto) as Homography;
+    const [topLeft, topRight] = pageInPhoto;
+    for (const x of [25, 100, 180]) {
+      const {x: px, y: py} = applyHomography(h, {x, y: 0});
+      // Zero cross product: the point lies on the page's top edge
+      const cross = (topRight.x - topLeft.x) * (py - topLeft.y) - (topRight.y - topLeft.y) * (px - topLeft.x);
+      expect(cross).toBeCloseTo(0, 6);
+    }
+  });
+
+  it('is undone by the homography the other way', () => {
+    const there = computeHomography(rectangle, pageInPhoto) as Homography;
+    const back = computeHomography(pageInPhoto, rectangle) as Homography;
+    for (const point of [{x: 10, y: 20}, {x: 150, y: 250}, {x: 100, y: 150}]) {
+      expectPointCloseTo(applyHomography(back, applyHomography(there, point)), point);
+    }
+  });
+
+  it('is null for corners on a single line', () => {
+    expect(computeHomography(rectangle, [{x: 0, y: 0}, {x: 1, y: 1}, {x: 2, y: 2}, {x: 3, y: 3}])).toBeNull();
+  });
+});
+
+describe('warpedSize', () => {
+  it('takes the longer of each pair of opposite edges', () => {
+    expect(warpedSize([{x: 0, y: 0}, {x: 100, y: 0}, {x: 120, y: 200}, {x: -20, y: 200}])).toEqual({width: 140, height: 201});
+  });
+
+  it('scales down to the maximum width, keeping the aspect ratio', () => {
+    expect(warpedSize(rectangle, 100)).toEqual({width: 100, height: 150});
+    expect(warpedSize(rectangle, 1000)).toEqual({width: 200, height: 300});
+  });
+});
+
+describe('warpPerspective', () => {
+  it('flattens the page of a sample photo', () => {
+    const size = warpedSize(pageInPhoto);
+    const page = warpPerspective(loadSample('page-perspective.jpg'), pageInPhoto, size) as RgbaImage;
+    const at = (u: number, v: number) => luma(page, u * (size.width - 1), v * (size.height - 1));
+
+    expect(page).toMatchObject({width: 241, height: 311});
+    // The solid mark drawn in the page's top-left corner lands there, upright
+    expect(at(0.14, 0.1)).toBeLessThan(90);
+    // Margins on every side are page, not desk
+    for (const [u, v] of [[0.5, 0.03], [0.97, 0.5], [0.5, 0.97], [0.03, 0.5], [0.03, 0.03], [0.97, 0.97]]) {
+      expect(at(u, v)).toBeGreaterThan(180);
+    }
+  });
+
+  it('fills what falls outside the photo with white', () => {
+    const image = {width: 2, height: 2, data: new Uint8Array(16)};
+    const page = warpPerspective(image, [{x: -1, y: -1}, {x: 3, y: -1}, {x: 3, y: 3}, {x: -1, y: 3}], {width: 5, height: 5}) as RgbaImage;
+    expect(Array.from(page.data.slice(0, 4))).toEqual([255, 255, 255, 255]);
+    expect(luma(page, 2, 2)).toBe(0);
+  });
+
+  it('is null for a degenerate quad', () => {
+    const image = {width: 2, height: 2, data: new Uint8Array(16)};
+    expect(warpPerspective(image, [{x: 0, y: 0}, {x: 0, y: 0}, {x: 0, y: 0}, {x: 0, y: 0}], {width: 4, height: 4})).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import {encodeBmp, RgbaImage, sampleBilinear, toGray} from '../app/services/rasterImage';
+
+// A 2x2 image: red, green / blue, white
+const image: RgbaImage = {
+  width: 2,
+  height: 2,
+  data: new Uint8Array([
+    255, 0, 0, 255, 0, 255, 0, 255,
+    0, 0, 255, 255, 255, 255, 255, 255,
+  ]),
+};
+
+const sample = (x: number, y: number) => {
+  const out = new Uint8Array(4);
+  sampleBilinear(image, x, y, out, 0);
+  return Array.from(out);
+};
+
+describe('toGray', () => {
+  it('weights the channels by Rec. 601 luma', () => {
+    expect(Array.from(toGray(image).data)).toEqual([76, 149, 29, 255]);
+  });
+});
+
+describe('sampleBilinear', () => {
+  it('reads pixel centres exactly', () => {
+    expect(sample(0, 0)).toEqual([255, 0, 0, 255]);
+    expect(sample(1, 1)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('blends between neighbouring pixels', () => {
+    expect(sample(0.5, 0)).toEqual([127, 127, 0, 255]);
+    expect(sample(0.5, 0.5)).toEqual([127, 127, 127, 255]);
+  });
+
+  it('reads outside the image as white', () => {
+    expect(sample(-0.5, 0)).toEqual([255, 255, 255, 255]);
+    expect(sample(0, 1.5)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('writes at the given offset', () => {
+    const out = new Uint8Array(8);
+    sampleBilinear(image, 1, 0, out, 4);
+    expect(Array.from(out)).toEqual([0, 0, 0, 0, 0, 255, 0, 255]);
+  });
+});
+
+describe('encodeBmp', () => {
+  const bmp = encodeBmp(image);
+  const view = new DataView(bmp.buffer);
+
+  it('writes a 24-bit BMP header', () => {
+    expect(String.fromCharCode(bmp[0], bmp[1])).toBe('BM');
+    expect(view.getUint32(2, true)).toBe(bmp.length);
+    expect(view.getUint32(10, true)).toBe(54);
+    expect(view.getInt32(18, true)).toBe(2);
+    expect(view.getInt32(22, true)).toBe(2);
+    expect(view.getUint16(28, true)).toBe(24);
+  });
+
+  it('stores rows bottom-up as BGR, padded to four bytes', () => {
+    // Two pixels of three bytes pad to eight bytes a row
+    expect(bmp.length).toBe(54 + 2 * 8);
+    expect(Array.from(bmp.slice(54, 62))).toEqual([255, 0, 0, 255, 255, 255, 0, 0]);
+    expect(Array.from(bmp.slice(62, 70))).toEqual([0, 0, 255, 0, 255, 0, 0, 0]);
+  });
+});
@@ -0,0 +1,110 @@
+import {CacheEntry, createResultCache, ResultCacheStore} from '../app/services/resultCache';
+import {ExtractedText} from '../app/services/types';
+
+const result = (fullText: string): ExtractedText => ({fullText, imageWidth: 100, imageHeight: 100, words: []});
+
+// Keeps the index and results in memory and reports each result's JSON size
+const createMemoryStore = () => {
+  let index: CacheEntry[] = [];
+  const results = new Map<string, ExtractedText>();
+  const store: ResultCacheStore = {
+    loadIndex: async () => index,
+    saveIndex: async entries => {
+      index = entries;
+    },
+    read: async key => results.get(key) ?? null,
+    write: async (key, value) => {
+      results.set(key, value);
+      return JSON.stringify(value).length;
+    },
+    remove: async key => {
+      results.delete(key);
+    },
+  };
+  return {store, results, keys: () => index.map(entry => entry.key)};
+};
+
+const RESULT_BYTES = JSON.stringify(result('aaa')).length;
+
+describe('createResultCache', () => {
+  let now: number;
+  let memory: ReturnType<typeof createMemoryStore>;
+
+  const createCache = (maxBytes = RESULT_BYTES * 10, maxAgeMs = 1000) =>
+    createResultCache({store: memory.store, maxBytes, maxAgeMs, now: () => now});
+
+  beforeEach(() => {
+    now = 0;
+    memory = createMemoryStore();
+  });
+
+  it('misses for an unknown key', async () => {
+    expect(await createCache().get('missing')).toBeNull();
+  });
+
+  it('returns a stored result', async () => {
+    const cache = createCache();
+    await cache.put('a', result('aaa'));
+    now = 10;
+    expect(await cache.get('a')).toEqual(result('aaa'));
+  });
+
+  it('replaces the result stored under the same key', async () => {
+    const cache = createCache();
+    await cache.put('a', result('aaa'));
+    await cache.put('a', result('bbb'));
+    expect(await cache.get('a')).toEqual(result('bbb'));
+    expect(memory.keys()).toEqual(['a']);
+  });
+
+  it('misses once a result is older than maxAgeMs and evicts it on the next write', async () => {
+    const cache = createCache();
+    await cache.put('a', result('aaa'));
+    now = 1001;
+    expect(await cache.get('a')).toBeNull();
+
+    await cache.put('b', result('bbb'));
+    expect(memory.keys()).toEqual(['b']);
+    expect(memory.results.has('a')).toBe(false);
+  });
+
+  it('evicts the least recently used results past maxBytes', async () => {
+    const cache = createCache(RESULT_BYTES * 2);
+    await cache.put('a', result('aaa'));
+    now = 1;
+    await cache.put('b', result('bbb'));
+    now = 2;
+    await cache.get('a');
+    now = 3;
+    await cache.put('c', result('ccc'));
+
+    expect(memory.keys().sort()).toEqual(['a', 'c']);
+    expect(await cache.get('b')).toBeNull();
+    expect(memory.results.has('b')).toBe(false);
+  });
+
+  it('drops an entry whose result has gone missing', async () => {
+    const cache = createCache();
+    await cache.put('a', result('aaa'));
+    memory.results.delete('a');
+    expect(await cache.get('a')).toBeNull();
+    expect(memory.keys()).toEqual([]);
+  });
+
+  it('counts live entries and clears them all', async () => {
+    const cache = createCache();
+    await cache.put('a', result('aaa'));
+    await cache.put('b', result('bbb'));
+    expect(await cache.stats()).toEqual({entries: 2, bytes: RESULT_BYTES * 2});
+
+    await cache.clear();
+    expect(await cache.stats()).toEqual({entries: 0, bytes: 0});
+    expect(memory.results.size).toBe(0);
+  });
+
+  it('keeps every entry when puts overlap', async () => {
+    const cache = createCache();
+    await Promise.all([cache.put('a', result('aaa')), cache.put('b', result('bbb')), cache.put('c', result('ccc'))]);
+    expect(memory.keys().sort()).toEqual(['a', 'b', 'c']);
+  });
+});
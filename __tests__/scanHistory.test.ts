@@ -0,0 +1,173 @@
+import {NewScan, ScanSummary} from '../app/services/scanHistory';
+import {ExtractedText} from '../app/services/types';
+
+type ScanHistory = typeof import('../app/services/scanHistory');
+
+// Files written through expo-file-system, by URI
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  getInfoAsync: async (uri: string) => ({exists: mockFiles.has(uri) || [...mockFiles.keys()].some(path => path.startsWith(uri))}),
+  makeDirectoryAsync: async () => undefined,
+  readAsStringAsync: async (uri: string) => {
+    if (!mockFiles.has(uri)) {
+      throw new Error(`No file at ${uri}`);
+    }
+    return mockFiles.get(uri);
+  },
+  writeAsStringAsync: async (uri: string, contents: string) => {
+    mockFiles.set(uri, contents);
+  },
+  copyAsync: async ({from, to}: {from: string; to: string}) => {
+    mockFiles.set(to, mockFiles.get(from) ?? from);
+  },
+  moveAsync: async ({from, to}: {from: string; to: string}) => {
+    mockFiles.set(to, mockFiles.get(from) ?? from);
+    mockFiles.delete(from);
+  },
+  deleteAsync: async (uri: string) => {
+    mockFiles.delete(uri);
+  },
+}));
+
+jest.mock('expo-image-manipulator', () => ({
+  SaveFormat: {JPEG: 'jpeg'},
+  manipulateAsync: async (uri: string) => ({uri: `${uri}.resized`}),
+}));
+
+const result = (fullText: string): ExtractedText => ({fullText, imageWidth: 100, imageHeight: 100, words: []});
+
+const newScan = (fullText: string): NewScan => ({
+  sourceUri: 'file:///cache/photo.jpg',
+  providerId: 'google',
+  mode: 'text',
+  extractedText: result(fullText),
+  timings: {ocrMs: 10},
+});
+
+const summary = (id: string, fullText: string): ScanSummary => ({
+  id,
+  createdAt: 0,
+  imageUri: `${id}.jpg`,
+  thumbnailUri: `${id}-thumb.jpg`,
+  providerId: 'google',
+  mode: 'text',
+  fullText,
+  wordCount: fullText.split(/\s+/).filter(Boolean).length,
+  timings: {},
+});
+
+// A fresh copy of the module, as after restarting the app
+const loadHistory = () => {
+  let history!: ScanHistory;
+  jest.isolateModules(() => {
+    history = require('../app/services/scanHistory');
+  });
+  return history;
+};
+
+describe('searchScans', () => {
+  const {searchScans} = loadHistory();
+  const scans = [
+    summary('receipt', 'Blue Bottle Coffee\nLatte 4.50\nTOTAL 4.50'),
+    summary('letter', 'Dear Sam,\nThanks for the summer photos.'),
+    summary('card', 'Ada Lovelace\nada@example.com'),
+  ];
+  const ids = (query: string) => searchScans(scans, query).map(scan => scan.id);
+
+  it('ignores case', () => {
+    expect(ids('blue bottle')).toEqual(['receipt']);
+    expect(ids('ADA')).toEqual(['card']);
+  });
+
+  it('needs every term, in any order and across lines', () => {
+    expect(ids('total coffee')).toEqual(['receipt']);
+    expect(ids('coffee photos')).toEqual([]);
+  });
+
+  it('matches at the start and end of the text', () => {
+    expect(ids('dear')).toEqual(['letter']);
+    expect(ids('photos.')).toEqual(['letter']);
+  });
+
+  it('returns every scan for a blank query', () => {
+    expect(ids('  \n ')).toEqual(['receipt', 'letter', 'card']);
+  });
+});
+
+describe('matchSnippet', () => {
+  const {matchSnippet} = loadHistory();
+  const text = 'The quick brown fox\njumps over\tthe lazy dog';
+
+  it('shows the text around the first term, ignoring case', () => {
+    expect(matchSnippet(text, 'JUMPS', 6)).toBe('…n fox jumps over …');
+  });
+
+  it('leaves out the ellipsis at the start and end of the text', () => {
+    expect(matchSnippet(text, 'the', 4)).toBe('The qui…');
+    expect(matchSnippet(text, 'dog', 5)).toBe('…lazy dog');
+    expect(matchSnippet(text, 'fox', 100)).toBe('The quick brown fox jumps over the lazy dog');
+  });
+
+  it('falls back to the start of the text without a match', () => {
+    expect(matchSnippet(text, 'cat', 5)).toBe('The quick ');
+    expect(matchSnippet(text, '', 5)).toBe('The quick ');
+  });
+});
+
+describe('scan history index', () => {
+  beforeEach(() => {
+    mockFiles.clear();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('lists saved scans newest first after a restart', async () => {
+    const history = loadHistory();
+    const first = await history.saveScan(newScan('first'));
+    const second = await history.saveScan(newScan('second'));
+
+    const reloaded = loadHistory();
+    expect((await reloaded.listScans()).map(scan => scan.id)).toEqual([second.id, first.id]);
+    expect(await reloaded.getScan(first.id)).toEqual({...first, extractedText: result('first')});
+  });
+
+  it('keeps every scan saved at the same time', async () => {
+    const history = loadHistory();
+    const saved = await Promise.all(['a', 'b', 'c'].map(text => history.saveScan(newScan(text))));
+
+    expect((await history.listScans()).map(scan => scan.id).sort()).toEqual(saved.map(scan => scan.id).sort());
+  });
+
+  it('updates a scan in place', async () => {
+    const history = loadHistory();
+    const first = await history.saveScan(newScan('first'));
+    const second = await history.saveScan(newScan('second'));
+
+    const updated = await history.updateScan(first.id, {...newScan('first again'), mode: 'document'});
+    expect(updated).toEqual({...first, fullText: 'first again', mode: 'document'});
+
+    const reloaded = loadHistory();
+    expect((await reloaded.listScans()).map(scan => scan.id)).toEqual([second.id, first.id]);
+    expect((await reloaded.getScan(first.id))?.extractedText).toEqual(result('first again'));
+    expect(await reloaded.updateScan('gone', newScan('missing'))).toBeNull();
+  });
+
+  it('deletes a scan with its files', async () => {
+    const history = loadHistory();
+    const first = await history.saveScan(newScan('first'));
+    const second = await history.saveScan(newScan('second'));
+
+    await history.deleteScan(first.id);
+    expect((await loadHistory().listScans()).map(scan => scan.id)).toEqual([second.id]);
+    expect([...mockFiles.keys()].filter(uri => uri.includes(first.id))).toEqual([]);
+  });
+
+  it('starts over when the index is unreadable', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockFiles.set('file:///documents/scans/index.json', '{not json');
+
+    expect(await loadHistory().listScans()).toEqual([]);
+  });
+});
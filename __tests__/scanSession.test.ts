@@ -0,0 +1,107 @@
+import {
+  combineSessionPages,
+  createSessionPage,
+  isSessionSettled,
+  moveSessionPage,
+  removeSessionPage,
+  replaceSessionPage,
+  SessionPage,
+  updateSessionPage,
+} from '../app/services/scanSession';
+import {ExtractedText, TextPage} from '../app/services/types';
+
+const page = (id: string, update: Partial<SessionPage> = {}): SessionPage => ({
+  id,
+  imageUri: `file:///cache/${id}.jpg`,
+  status: 'queued',
+  timings: {},
+  ...update,
+});
+
+const ids = (pages: SessionPage[]) => pages.map(item => item.id);
+
+const text = (fullText: string, pages?: TextPage[]): ExtractedText => ({
+  fullText,
+  imageWidth: 1000,
+  imageHeight: 1400,
+  words: [{id: 'word-0', text: fullText, x: 0, y: 0, width: 10, height: 10, vertices: []}],
+  ...(pages ? {pages} : {}),
+});
+
+const textPage = (width: number): TextPage => ({width, height: 1400, languages: [], blocks: []});
+
+describe('createSessionPage', () => {
+  it('queues the photo under a new id', () => {
+    const first = createSessionPage('file:///cache/a.jpg', {captureMs: 120});
+    const second = createSessionPage('file:///cache/a.jpg');
+
+    expect(first).toMatchObject({imageUri: 'file:///cache/a.jpg', status: 'queued', timings: {captureMs: 120}});
+    expect(second.timings).toEqual({});
+    expect(first.id).not.toBe(second.id);
+  });
+});
+
+describe('session page helpers', () => {
+  const pages = [page('a'), page('b'), page('c'), page('d')];
+
+  it('updates only the matching page', () => {
+    const updated = updateSessionPage(pages, 'b', {status: 'done'});
+
+    expect(updated.map(item => item.status)).toEqual(['queued', 'done', 'queued', 'queued']);
+    expect(updated[0]).toBe(pages[0]);
+    expect(pages[1].status).toBe('queued');
+  });
+
+  it('replaces a retaken page in place', () => {
+    const retaken = page('b2', {imageUri: 'file:///cache/retake.jpg'});
+    expect(ids(replaceSessionPage(pages, 'b', retaken))).toEqual(['a', 'b2', 'c', 'd']);
+  });
+
+  it('removes a page', () => {
+    expect(ids(removeSessionPage(pages, 'c'))).toEqual(['a', 'b', 'd']);
+    expect(removeSessionPage(pages, 'missing')).toEqual(pages);
+  });
+
+  it('moves a page forwards and backwards', () => {
+    expect(ids(moveSessionPage(pages, 'b', 1))).toEqual(['a', 'c', 'b', 'd']);
+    expect(ids(moveSessionPage(pages, 'c', -2))).toEqual(['c', 'a', 'b', 'd']);
+    expect(ids(pages)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('clamps moves to the ends of the session', () => {
+    expect(ids(moveSessionPage(pages, 'a', -1))).toEqual(['a', 'b', 'c', 'd']);
+    expect(ids(moveSessionPage(pages, 'b', 10))).toEqual(['a', 'c', 'd', 'b']);
+  });
+
+  it('leaves the pages alone when moving an unknown page', () => {
+    expect(moveSessionPage(pages, 'missing', 1)).toBe(pages);
+  });
+
+  it('is settled once every page is done or failed', () => {
+    expect(isSessionSettled([])).toBe(true);
+    expect(isSessionSettled([page('a', {status: 'done'}), page('b', {status: 'failed'})])).toBe(true);
+    expect(isSessionSettled([page('a', {status: 'done'}), page('b', {status: 'recognizing'})])).toBe(false);
+    expect(isSessionSettled([page('a', {status: 'queued'})])).toBe(false);
+  });
+});
+
+describe('combineSessionPages', () => {
+  it('joins the text of each page in order, without word geometry', () => {
+    const combined = combineSessionPages([text('  Page one\n'), text('Page two')]);
+
+    expect(combined).toEqual({fullText: 'Page one\n\nPage two', imageWidth: 1000, imageHeight: 1400, words: []});
+  });
+
+  it('skips pages without text', () => {
+    expect(combineSessionPages([text('Page one'), text('   '), text('Page three')]).fullText).toBe('Page one\n\nPage three');
+  });
+
+  it('keeps the page layout when every page has it', () => {
+    const combined = combineSessionPages([text('One', [textPage(1000)]), text('Two', [textPage(1200)])]);
+    expect(combined.pages?.map(item => item.width)).toEqual([1000, 1200]);
+  });
+
+  it('drops the page layout when any page lacks it', () => {
+    expect(combineSessionPages([text('One', [textPage(1000)]), text('Two')])).not.toHaveProperty('pages');
+  });
+});
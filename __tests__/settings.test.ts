@@ -0,0 +1,200 @@
+import {AppSettings} from '../app/services/settings';
+
+type Settings = typeof import('../app/services/settings');
+
+// Files written through expo-file-system, by URI
+const mockFiles = new Map<string, string>();
+// Held reads, released by the test to finish loading at a chosen moment
+let mockHoldRead: Promise<void> | null = null;
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  getInfoAsync: async (uri: string) => ({exists: mockFiles.has(uri)}),
+  readAsStringAsync: async (uri: string) => {
+    await mockHoldRead;
+    if (!mockFiles.has(uri)) {
+      throw new Error(`No file at ${uri}`);
+    }
+    return mockFiles.get(uri);
+  },
+  writeAsStringAsync: async (uri: string, contents: string) => {
+    mockFiles.set(uri, contents);
+  },
+}));
+
+const SETTINGS_PATH = 'file:///documents/settings.json';
+
+// A fresh copy of the module, as after restarting the app
+const loadModule = () => {
+  let settings!: Settings;
+  jest.isolateModules(() => {
+    settings = require('../app/services/settings');
+  });
+  return settings;
+};
+
+const {getDefaultSettings, parseLanguageHints, sanitizeSettings} = loadModule();
+
+describe('sanitizeSettings', () => {
+  const defaults: AppSettings = {
+    ...getDefaultSettings(),
+    ocrProvider: 'google',
+    ocrMode: 'text',
+    confidence: {threshold: 0.6, lowConfidenceDisplay: 'dim'},
+  };
+  const sanitize = (stored: Record<string, unknown>) => sanitizeSettings(stored, defaults);
+
+  it('keeps valid stored values', () => {
+    const stored: AppSettings = {
+      ocrProvider: 'on-device',
+      ocrMode: 'document',
+      languageHints: ['en', 'de-CH'],
+      maxResults: 500,
+      resultCacheEnabled: false,
+      confidence: {threshold: 0.8, lowConfidenceDisplay: 'hide'},
+      encoding: 'dense',
+      captureQuality: 1,
+      cameraFacing: 'front',
+      flash: 'auto',
+      torch: true,
+      liveOcrFps: 5,
+      translationProvider: defaults.translationProvider,
+      autoSaveToHistory: false,
+    };
+    expect(sanitize({...stored})).toEqual(stored);
+  });
+
+  it('uses the defaults for missing fields', () => {
+    expect(sanitize({})).toEqual(defaults);
+    expect(sanitize({flash: 'on'})).toEqual({...defaults, flash: 'on'});
+  });
+
+  it('uses the defaults for fields of the wrong type or unknown values', () => {
+    expect(
+      sanitize({
+        ocrProvider: 'tesseract',
+        ocrMode: 'handwriting',
+        languageHints: 'en',
+        resultCacheEnabled: 'yes',
+        confidence: 'high',
+        encoding: 'huge',
+        cameraFacing: 'side',
+        flash: true,
+        torch: 1,
+        autoSaveToHistory: null,
+      })
+    ).toEqual(defaults);
+  });
+
+  it('drops empty and non-string language hints', () => {
+    expect(sanitize({languageHints: ['en', '', 3, null, 'ja']}).languageHints).toEqual(['en', 'ja']);
+  });
+
+  it('rejects thresholds and quality outside 0-1', () => {
+    for (const threshold of [-0.1, 1.5, Number.NaN, '0.5']) {
+      expect(sanitize({confidence: {threshold}}).confidence.threshold).toBe(0.6);
+    }
+    expect(sanitize({confidence: {threshold: 0}}).confidence.threshold).toBe(0);
+    expect(sanitize({confidence: {threshold: 1}}).confidence.threshold).toBe(1);
+
+    for (const captureQuality of [0, -0.5, 1.01, Number.POSITIVE_INFINITY]) {
+      expect(sanitize({captureQuality}).captureQuality).toBe(defaults.captureQuality);
+    }
+    expect(sanitize({captureQuality: 0.5}).captureQuality).toBe(0.5);
+  });
+
+  it('keeps a valid display mode when the threshold is bad, and the other way round', () => {
+    expect(sanitize({confidence: {threshold: 2, lowConfidenceDisplay: 'hide'}}).confidence).toEqual({
+      threshold: 0.6,
+      lowConfidenceDisplay: 'hide',
+    });
+    expect(sanitize({confidence: {threshold: 0.7, lowConfidenceDisplay: 'blur'}}).confidence).toEqual({
+      threshold: 0.7,
+      lowConfidenceDisplay: 'dim',
+    });
+  });
+
+  it('only accepts whole counts within range', () => {
+    for (const maxResults of [0, -5, 2.5, 1001, '100']) {
+      expect(sanitize({maxResults}).maxResults).toBe(defaults.maxResults);
+    }
+    expect(sanitize({maxResults: 1000}).maxResults).toBe(1000);
+    expect(sanitize({liveOcrFps: 31}).liveOcrFps).toBe(defaults.liveOcrFps);
+    expect(sanitize({liveOcrFps: 30}).liveOcrFps).toBe(30);
+  });
+});
+
+describe('parseLanguageHints', () => {
+  it('splits on commas and whitespace', () => {
+    expect(parseLanguageHints('en, de-CH,ja\nfr')).toEqual(['en', 'de-CH', 'ja', 'fr']);
+  });
+
+  it('accepts language codes with script and region subtags', () => {
+    expect(parseLanguageHints('zh-Hant-TW sr-Latn yue')).toEqual(['zh-Hant-TW', 'sr-Latn', 'yue']);
+  });
+
+  it('drops anything that is not a language code', () => {
+    expect(parseLanguageHints('english, e, 12, en_US, de-, -fr, it')).toEqual(['it']);
+  });
+
+  it('returns nothing for a blank input', () => {
+    expect(parseLanguageHints('')).toEqual([]);
+    expect(parseLanguageHints(' , ,')).toEqual([]);
+  });
+});
+
+describe('stored settings', () => {
+  beforeEach(() => {
+    mockFiles.clear();
+    mockHoldRead = null;
+  });
+
+  it('replaces the defaults once loaded', async () => {
+    mockFiles.set(SETTINGS_PATH, JSON.stringify({flash: 'on', maxResults: 50}));
+    const settings = loadModule();
+    const listener = jest.fn();
+    settings.subscribeToSettings(listener);
+
+    const loaded = await settings.loadSettings();
+
+    expect(loaded).toMatchObject({flash: 'on', maxResults: 50});
+    expect(settings.getSettings()).toBe(loaded);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the defaults when the file is unreadable', async () => {
+    mockFiles.set(SETTINGS_PATH, '{not json');
+    const settings = loadModule();
+
+    expect(await settings.loadSettings()).toEqual(settings.getDefaultSettings());
+  });
+
+  it('persists changes across a restart', async () => {
+    const settings = loadModule();
+    await settings.loadSettings();
+    await settings.updateSettings({torch: true});
+    await settings.updateSettings({cameraFacing: 'front'});
+
+    const restarted = loadModule();
+    expect(await restarted.loadSettings()).toMatchObject({torch: true, cameraFacing: 'front'});
+  });
+
+  it('keeps changes made while the file is being read', async () => {
+    mockFiles.set(SETTINGS_PATH, JSON.stringify({flash: 'on', torch: false}));
+    let releaseRead!: () => void;
+    mockHoldRead = new Promise(resolve => {
+      releaseRead = resolve;
+    });
+    const settings = loadModule();
+
+    const loading = settings.loadSettings();
+    const saving = settings.updateSettings({torch: true});
+    expect(settings.getSettings().torch).toBe(true);
+
+    releaseRead();
+    await Promise.all([loading, saving]);
+
+    expect(settings.getSettings()).toMatchObject({flash: 'on', torch: true});
+    expect(JSON.parse(mockFiles.get(SETTINGS_PATH)!)).toMatchObject({flash: 'on', torch: true});
+  });
+});
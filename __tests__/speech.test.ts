@@ -0,0 +1,69 @@
+import {buildSpeechScript, speechChunkEnd, wordIndexAtOffset} from '../app/services/speech';
+import {ExtractedText} from '../app/services/types';
+import receipt from './fixtures/ocr/receipt-us.json';
+
+// Splits the whole text the way SpeechControls reads it, one chunk after another
+const chunks = (text: string, maxLength: number) => {
+  const result: string[] = [];
+  for (let start = 0; start < text.length;) {
+    const end = speechChunkEnd(text, start, maxLength);
+    result.push(text.slice(start, end));
+    start = end;
+  }
+  return result;
+};
+
+describe('speechChunkEnd', () => {
+  it('takes the rest of a text that fits', () => {
+    expect(speechChunkEnd('Short text.', 0, 100)).toBe(11);
+    expect(speechChunkEnd('Short text.', 6, 5)).toBe(11);
+  });
+
+  it('ends after the last sentence that fits', () => {
+    const text = 'One two. Three four! Five six seven eight';
+    expect(chunks(text, 25)).toEqual(['One two. Three four!', ' Five six seven eight']);
+  });
+
+  it('counts closing quotes and brackets as part of the sentence', () => {
+    expect(chunks('He said "stop." Then he left', 20)).toEqual(['He said "stop."', ' Then he left']);
+  });
+
+  it('ends at a line break', () => {
+    expect(chunks('Total 4.50\nThank you for visiting', 20)).toEqual(['Total 4.50', '\nThank you for', ' visiting']);
+  });
+
+  it('falls back to the last space without a sentence end', () => {
+    expect(chunks('alpha beta gamma delta epsilon', 12)).toEqual(['alpha beta', ' gamma delta', ' epsilon']);
+  });
+
+  it('only splits a word longer than a whole chunk', () => {
+    expect(chunks('abcdefghij klm', 4)).toEqual(['abcd', 'efgh', 'ij', ' klm']);
+  });
+
+  it('covers every character of a long text without words, within the limit', () => {
+    const text = Array.from({length: 200}, (_, index) => `Sentence number ${index} is here${index % 7 ? '.' : ''}`).join(' ');
+    const parts = chunks(text, 120);
+
+    expect(parts.join('')).toBe(text);
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach(part => expect(part.length).toBeLessThanOrEqual(120));
+    parts.slice(0, -1).forEach(part => expect(part).toMatch(/(\.|here)$/));
+  });
+});
+
+describe('buildSpeechScript', () => {
+  it('places each word of a result with geometry in the script', () => {
+    const script = buildSpeechScript(receipt);
+
+    expect(script.words).toHaveLength(receipt.words.length);
+    script.words.forEach(word => {
+      expect(script.text.slice(word.start, word.end)).toBe(receipt.words.find(({id}) => id === word.id)?.text);
+    });
+    expect(wordIndexAtOffset(script, script.words[2].start + 1)).toBe(2);
+  });
+
+  it('reads the full text of a result without geometry', () => {
+    const text: ExtractedText = {fullText: 'Live text\nwithout boxes', imageWidth: 100, imageHeight: 100, words: []};
+    expect(buildSpeechScript(text)).toEqual({text: 'Live text\nwithout boxes', words: []});
+  });
+});
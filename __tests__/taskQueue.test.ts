@@ -0,0 +1,108 @@
+import {OcrError} from '../app/services/ocrErrors';
+import {createTaskQueue} from '../app/services/taskQueue';
+
+// A task that settles when the test says so
+const deferred = <T = void>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return {promise, resolve, reject};
+};
+
+// Let settled tasks hand over to the next ones
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('createTaskQueue', () => {
+  it('runs at most `concurrency` tasks at once', async () => {
+    const queue = createTaskQueue(2);
+    const tasks = [deferred(), deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const results = tasks.map((task, index) => queue.run(() => {
+      started.push(index);
+      return task.promise;
+    }));
+
+    expect(started).toEqual([0, 1]);
+    expect(queue.active()).toBe(2);
+    expect(queue.pending()).toBe(2);
+
+    tasks[1].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+    expect(queue.active()).toBe(2);
+    expect(queue.pending()).toBe(1);
+
+    tasks[0].resolve();
+    tasks[2].resolve();
+    tasks[3].resolve();
+    await Promise.all(results);
+    expect(queue.active()).toBe(0);
+    expect(queue.pending()).toBe(0);
+  });
+
+  it('starts waiting tasks first in, first out', async () => {
+    const queue = createTaskQueue(1);
+    const order: string[] = [];
+    await Promise.all(['a', 'b', 'c', 'd'].map(name => queue.run(async () => {
+      order.push(name);
+    })));
+
+    expect(order).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('passes on results and errors, and keeps going after a failure', async () => {
+    const queue = createTaskQueue(1);
+    const failed = queue.run(() => Promise.reject(new Error('Vision is down')));
+    const succeeded = queue.run(async () => 'TOTAL');
+
+    await expect(failed).rejects.toThrow('Vision is down');
+    await expect(succeeded).resolves.toBe('TOTAL');
+  });
+
+  it('drops a waiting task whose signal aborts', async () => {
+    const queue = createTaskQueue(1);
+    const blocker = deferred();
+    const controller = new AbortController();
+    const task = jest.fn(async () => 'never');
+
+    const first = queue.run(() => blocker.promise);
+    const cancelled = queue.run(task, controller.signal);
+    const after = queue.run(async () => 'after');
+    expect(queue.pending()).toBe(2);
+
+    controller.abort();
+    expect(queue.pending()).toBe(1);
+    const error = await cancelled.catch(caught => caught);
+    expect(error).toBeInstanceOf(OcrError);
+    expect(error.kind).toBe('cancelled');
+
+    blocker.resolve();
+    await first;
+    await expect(after).resolves.toBe('after');
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('rejects a task whose signal has already aborted without queueing it', async () => {
+    const queue = createTaskQueue(1);
+    const task = jest.fn(async () => 'never');
+
+    await expect(queue.run(task, AbortSignal.abort())).rejects.toMatchObject({kind: 'cancelled'});
+    expect(task).not.toHaveBeenCalled();
+    expect(queue.pending()).toBe(0);
+  });
+
+  it('ignores an abort once the task has started', async () => {
+    const queue = createTaskQueue(1);
+    const controller = new AbortController();
+    const task = deferred<string>();
+
+    const result = queue.run(() => task.promise, controller.signal);
+    controller.abort();
+    task.resolve('TOTAL');
+
+    await expect(result).resolves.toBe('TOTAL');
+  });
+});
@@ -0,0 +1,88 @@
+import {detectLanguage, translateExtractedText, TRANSLATION_PROVIDERS} from '../app/services/translation';
+import {ExtractedText, TextBlock} from '../app/services/types';
+import note from './fixtures/ocr/note.json';
+
+const textOnly = (fullText: string): ExtractedText => ({fullText, imageWidth: 0, imageHeight: 0, words: []});
+
+const block = (languageCode: string): TextBlock => ({
+  text: '',
+  vertices: [],
+  languages: [{languageCode}],
+  paragraphs: [],
+});
+
+const stub = TRANSLATION_PROVIDERS.stub;
+const dictionary = TRANSLATION_PROVIDERS.dictionary;
+
+describe('detectLanguage', () => {
+  it('takes the language the OCR provider reported most often', () => {
+    const extractedText: ExtractedText = {
+      ...textOnly('The text reads as English'),
+      pages: [{width: 0, height: 0, languages: [], blocks: [block('fr-FR'), block('fr'), block('en')]}],
+    };
+    expect(detectLanguage(extractedText)).toBe('fr');
+  });
+
+  it('guesses from common words without provider languages', () => {
+    expect(detectLanguage(textOnly('El precio de la cuenta es para hoy'))).toBe('es');
+    expect(detectLanguage(textOnly('Der Ausgang ist nicht mit der Straße verbunden'))).toBe('de');
+    expect(detectLanguage(note)).toBe('en');
+  });
+
+  it('is null when nothing stands out', () => {
+    expect(detectLanguage(textOnly('12345 ABC-9'))).toBeNull();
+  });
+});
+
+describe('translateExtractedText', () => {
+  it('translates line by line, keeping each line over its words', async () => {
+    const translation = await translateExtractedText(stub, note, 'de');
+
+    expect(translation.source).toBe('en');
+    expect(translation.target).toBe('de');
+    expect(translation.lines.map(line => [line.original, line.translated])).toEqual([
+      ['Meeting moved to Thursday', '[de] Meeting moved to Thursday'],
+      ['in room 4B at ten.', '[de] in room 4B at ten.'],
+      ['Bring the draft budget.', '[de] Bring the draft budget.'],
+    ]);
+    expect(translation.lines.every(line => line.box && line.box.width > 0)).toBe(true);
+  });
+
+  it('uses the source language it is given', async () => {
+    const translation = await translateExtractedText(stub, textOnly('Hola'), 'en', 'es');
+    expect(translation.source).toBe('es');
+    expect(translation.lines).toEqual([{original: 'Hola', translated: '[en] Hola', box: undefined}]);
+  });
+
+  it('passes text already in the target language through', async () => {
+    const translate = jest.fn(stub.translate);
+    const translation = await translateExtractedText({...stub, translate}, note, 'en');
+
+    expect(translate).not.toHaveBeenCalled();
+    expect(translation.lines.map(line => line.translated)).toEqual(translation.lines.map(line => line.original));
+  });
+
+  it('fails when the language cannot be told', async () => {
+    await expect(translateExtractedText(stub, textOnly('12345'), 'en')).rejects.toThrow('Could not tell');
+  });
+});
+
+describe('dictionary provider', () => {
+  it('translates into English word by word, keeping case and punctuation', async () => {
+    expect(await dictionary.translate(['¡Hola! El agua, gracias.'], 'es', 'en')).toEqual(['¡Hello! The water, thanks.']);
+  });
+
+  it('picks the first listed word when translating out of English', async () => {
+    expect(await dictionary.translate(['The bread and the milk'], 'en', 'es')).toEqual(['El pan y el leche']);
+    expect(await dictionary.translate(['The water'], 'en', 'fr')).toEqual(['Le eau']);
+    expect(await dictionary.translate(['a book'], 'en', 'pt')).toEqual(['um livro']);
+  });
+
+  it('pivots through English between two other languages', async () => {
+    expect(await dictionary.translate(['Le pain est fermé'], 'fr', 'de')).toEqual(['Der brot ist geschlossen']);
+  });
+
+  it('keeps words it does not know', async () => {
+    expect(await dictionary.translate(['Gracias Maria'], 'es', 'en')).toEqual(['Thanks Maria']);
+  });
+});
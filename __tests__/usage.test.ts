@@ -0,0 +1,191 @@
+import {UsageRecord} from '../app/services/usage';
+
+type Usage = typeof import('../app/services/usage');
+
+// Files written through expo-file-system, by URI
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  getInfoAsync: async (uri: string) => ({exists: mockFiles.has(uri)}),
+  readAsStringAsync: async (uri: string) => mockFiles.get(uri),
+  writeAsStringAsync: async (uri: string, contents: string) => {
+    mockFiles.set(uri, contents);
+  },
+}));
+
+const LEDGER_PATH = 'file:///documents/usage.json';
+
+// A fresh copy of the module, as after restarting the app
+const loadUsage = () => {
+  let usage!: Usage;
+  jest.isolateModules(() => {
+    usage = require('../app/services/usage');
+  });
+  return usage;
+};
+
+const {estimateVisionCost, summarizeUsage, VISION_PRICES_USD} = loadUsage();
+
+// Local time, as months start at local midnight
+const at = (month: number, day: number, hour = 12) => new Date(2026, month - 1, day, hour).getTime();
+
+const record = (timestamp: number, estimatedCostUsd: number, bytes = 1000): UsageRecord => ({
+  timestamp,
+  features: ['TEXT_DETECTION'],
+  bytes,
+  estimatedCostUsd,
+});
+
+const setNow = (timestamp: number) => jest.spyOn(Date, 'now').mockReturnValue(timestamp);
+
+describe('estimateVisionCost', () => {
+  it('adds up the price of each feature', () => {
+    expect(estimateVisionCost(['TEXT_DETECTION'])).toBe(VISION_PRICES_USD.TEXT_DETECTION);
+    expect(estimateVisionCost(['DOCUMENT_TEXT_DETECTION', 'OBJECT_LOCALIZATION'])).toBeCloseTo(0.00375);
+  });
+
+  it('counts unknown features and empty requests as free', () => {
+    expect(estimateVisionCost(['FACE_DETECTION'])).toBe(0);
+    expect(estimateVisionCost([])).toBe(0);
+  });
+});
+
+describe('summarizeUsage', () => {
+  const ledger = {
+    budgetUsd: 5,
+    records: [
+      record(at(2, 27), 0.5, 100),
+      record(at(3, 1, 0), 0.25, 200),
+      record(at(3, 15), 0.125, 400),
+      record(at(3, 20), 0, 800),
+    ],
+  };
+
+  it('only counts this month', () => {
+    expect(summarizeUsage(ledger, at(3, 31, 23))).toEqual({
+      requests: 3,
+      bytes: 1400,
+      estimatedCostUsd: 0.375,
+      budgetUsd: 5,
+    });
+  });
+
+  it('starts over when the month rolls over', () => {
+    expect(summarizeUsage(ledger, at(4, 1, 0))).toEqual({requests: 0, bytes: 0, estimatedCostUsd: 0, budgetUsd: 5});
+  });
+});
+
+describe('usage ledger', () => {
+  beforeEach(() => {
+    mockFiles.clear();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('records billed and failed requests', async () => {
+    setNow(at(3, 10));
+    const usage = loadUsage();
+    await usage.recordUsage(['TEXT_DETECTION', 'LABEL_DETECTION'], 2048, true);
+    await usage.recordUsage(['TEXT_DETECTION'], 1024, false);
+
+    expect(await usage.getUsageSummary()).toEqual({requests: 2, bytes: 3072, estimatedCostUsd: 0.003, budgetUsd: null});
+  });
+
+  it('keeps every record made at the same time', async () => {
+    setNow(at(3, 10));
+    const usage = loadUsage();
+    await Promise.all(Array.from({length: 5}, () => usage.recordUsage(['TEXT_DETECTION'], 10, true)));
+
+    expect((await usage.getUsageSummary()).requests).toBe(5);
+  });
+
+  it('carries records into the next month without counting them', async () => {
+    const now = setNow(at(3, 31, 23));
+    const usage = loadUsage();
+    await usage.setMonthlyBudget(1);
+    await usage.recordUsage(['TEXT_DETECTION'], 10, true);
+
+    now.mockReturnValue(at(4, 1, 1));
+    await usage.recordUsage(['TEXT_DETECTION'], 20, true);
+
+    expect(await usage.getUsageSummary()).toEqual({requests: 1, bytes: 20, estimatedCostUsd: 0.0015, budgetUsd: 1});
+    expect(JSON.parse(mockFiles.get(LEDGER_PATH)!).records).toHaveLength(2);
+  });
+
+  it('drops records older than two months', async () => {
+    const now = setNow(at(1, 5));
+    const usage = loadUsage();
+    await usage.recordUsage(['TEXT_DETECTION'], 10, true);
+
+    now.mockReturnValue(at(3, 20));
+    await usage.recordUsage(['TEXT_DETECTION'], 20, true);
+
+    expect(JSON.parse(mockFiles.get(LEDGER_PATH)!).records.map((item: UsageRecord) => item.bytes)).toEqual([20]);
+  });
+
+  it('starts fresh from an unreadable ledger', async () => {
+    mockFiles.set(LEDGER_PATH, '{not json');
+    const usage = loadUsage();
+
+    expect(await usage.getUsageSummary()).toEqual({requests: 0, bytes: 0, estimatedCostUsd: 0, budgetUsd: null});
+  });
+});
+
+describe('assertWithinBudget', () => {
+  beforeEach(() => {
+    mockFiles.clear();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('allows anything without a budget', async () => {
+    const usage = loadUsage();
+    for (let i = 0; i < 3; i++) {
+      await usage.recordUsage(['TEXT_DETECTION'], 10, true);
+    }
+
+    await expect(usage.assertWithinBudget(['TEXT_DETECTION'])).resolves.toBeUndefined();
+  });
+
+  it('allows a request that reaches the cap exactly', async () => {
+    const usage = loadUsage();
+    await usage.setMonthlyBudget(0.003);
+    await usage.recordUsage(['TEXT_DETECTION'], 10, true);
+
+    await expect(usage.assertWithinBudget(['TEXT_DETECTION'])).resolves.toBeUndefined();
+  });
+
+  it('raises a budget OcrError for a request that would exceed the cap', async () => {
+    const usage = loadUsage();
+    await usage.setMonthlyBudget(0.002);
+    await usage.recordUsage(['TEXT_DETECTION'], 10, true);
+
+    // The module is loaded in isolation, so its OcrError class isn't the one importable here
+    const error = await usage.assertWithinBudget(['TEXT_DETECTION']).catch(caught => caught);
+    expect(error).toMatchObject({name: 'OcrError', kind: 'budget'});
+    expect(error.message).toContain('$0.00 has been reached');
+  });
+
+  it('checks the cost of every requested feature', async () => {
+    const usage = loadUsage();
+    await usage.setMonthlyBudget(0.002);
+
+    await expect(usage.assertWithinBudget(['TEXT_DETECTION'])).resolves.toBeUndefined();
+    await expect(usage.assertWithinBudget(['TEXT_DETECTION', 'LABEL_DETECTION'])).rejects.toMatchObject({kind: 'budget'});
+  });
+
+  it('ignores failed requests and allows requests again in a new month', async () => {
+    const now = setNow(at(3, 31, 23));
+    const usage = loadUsage();
+    await usage.setMonthlyBudget(0.002);
+    await usage.recordUsage(['TEXT_DETECTION'], 10, false);
+    await expect(usage.assertWithinBudget(['TEXT_DETECTION'])).resolves.toBeUndefined();
+
+    await usage.recordUsage(['TEXT_DETECTION'], 10, true);
+    await expect(usage.assertWithinBudget(['TEXT_DETECTION'])).rejects.toMatchObject({kind: 'budget'});
+
+    now.mockReturnValue(at(4, 1, 0));
+    await expect(usage.assertWithinBudget(['TEXT_DETECTION'])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,146 @@
+import {parseImageAnnotations, resizeImageAnnotation, VisionImageAnnotations} from '../app/services/visionAnnotations';
+
+const imageSize = {width: 1000, height: 800};
+
+const response: VisionImageAnnotations = {
+  labelAnnotations: [
+    {description: 'Receipt', score: 0.94},
+    {description: 'Paper', score: 0.81},
+  ],
+  localizedObjectAnnotations: [{
+    name: 'Cup',
+    score: 0.72,
+    boundingPoly: {normalizedVertices: [{x: 0.1, y: 0.25}, {x: 0.5, y: 0.25}, {x: 0.5, y: 0.75}, {x: 0.1, y: 0.75}]},
+  }],
+  logoAnnotations: [{
+    description: 'Blue Bottle',
+    score: 0.88,
+    // Vision leaves out zero coordinates
+    boundingPoly: {vertices: [{}, {x: 200}, {x: 200, y: 100}, {y: 100}]},
+  }],
+  safeSearchAnnotation: {adult: 'VERY_UNLIKELY', spoof: 'UNLIKELY', medical: 'POSSIBLE', violence: 'VERY_UNLIKELY', racy: 'LIKELY'},
+  imagePropertiesAnnotation: {
+    dominantColors: {
+      colors: [{color: {red: 240, green: 236, blue: 228}, score: 0.6, pixelFraction: 0.45}],
+    },
+  },
+};
+
+describe('parseImageAnnotations', () => {
+  it('parses labels', () => {
+    expect(parseImageAnnotations(response, ['labels'], imageSize)).toEqual([{
+      feature: 'labels',
+      labels: [{description: 'Receipt', score: 0.94}, {description: 'Paper', score: 0.81}],
+    }]);
+  });
+
+  it('scales normalised object boxes to the image pixels', () => {
+    const [{objects}] = parseImageAnnotations(response, ['objects'], imageSize);
+    expect(objects).toEqual([{
+      id: 'object-0',
+      name: 'Cup',
+      score: 0.72,
+      vertices: [{x: 100, y: 200}, {x: 500, y: 200}, {x: 500, y: 600}, {x: 100, y: 600}],
+    }]);
+  });
+
+  it('fills in the zero coordinates of logo boxes', () => {
+    const [{logos}] = parseImageAnnotations(response, ['logos'], imageSize);
+    expect(logos).toEqual([{
+      id: 'logo-0',
+      name: 'Blue Bottle',
+      score: 0.88,
+      vertices: [{x: 0, y: 0}, {x: 200, y: 0}, {x: 200, y: 100}, {x: 0, y: 100}],
+    }]);
+  });
+
+  it('parses safe search likelihoods', () => {
+    const [{safeSearch}] = parseImageAnnotations(response, ['safeSearch'], imageSize);
+    expect(safeSearch).toEqual({adult: 'VERY_UNLIKELY', spoof: 'UNLIKELY', medical: 'POSSIBLE', violence: 'VERY_UNLIKELY', racy: 'LIKELY'});
+  });
+
+  it('parses dominant colours', () => {
+    const [{colors}] = parseImageAnnotations(response, ['imageProperties'], imageSize);
+    expect(colors).toEqual([{red: 240, green: 236, blue: 228, score: 0.6, pixelFraction: 0.45}]);
+  });
+
+  it('answers each feature in the order requested', () => {
+    const annotations = parseImageAnnotations(response, ['safeSearch', 'labels', 'logos'], imageSize);
+    expect(annotations.map(annotation => annotation.feature)).toEqual(['safeSearch', 'labels', 'logos']);
+  });
+
+  it('returns empty annotations for features Vision found nothing for', () => {
+    expect(parseImageAnnotations({}, ['labels', 'objects', 'logos', 'safeSearch', 'imageProperties'], imageSize)).toEqual([
+      {feature: 'labels', labels: []},
+      {feature: 'objects', objects: []},
+      {feature: 'logos', logos: []},
+      {
+        feature: 'safeSearch',
+        safeSearch: {adult: 'UNKNOWN', spoof: 'UNKNOWN', medical: 'UNKNOWN', violence: 'UNKNOWN', racy: 'UNKNOWN'},
+      },
+      {feature: 'imageProperties', colors: []},
+    ]);
+  });
+
+  it('defaults missing fields within an annotation', () => {
+    const [labels, objects, colors] = parseImageAnnotations({
+      labelAnnotations: [{}],
+      localizedObjectAnnotations: [{name: 'Cup'}],
+      imagePropertiesAnnotation: {dominantColors: {colors: [{color: {red: 12}}]}},
+    }, ['labels', 'objects', 'imageProperties'], imageSize);
+
+    expect(labels).toEqual({feature: 'labels', labels: [{description: '', score: 0}]});
+    expect(objects).toEqual({feature: 'objects', objects: [{id: 'object-0', name: 'Cup', score: 0, vertices: []}]});
+    expect(colors).toEqual({feature: 'imageProperties', colors: [{red: 12, green: 0, blue: 0, score: 0, pixelFraction: 0}]});
+  });
+
+  it('marks unreported safe search categories as unknown', () => {
+    const [{safeSearch}] = parseImageAnnotations({safeSearchAnnotation: {racy: 'UNLIKELY'}}, ['safeSearch'], imageSize);
+    expect(safeSearch).toEqual({adult: 'UNKNOWN', spoof: 'UNKNOWN', medical: 'UNKNOWN', violence: 'UNKNOWN', racy: 'UNLIKELY'});
+  });
+});
+
+describe('resizeImageAnnotation', () => {
+  // The scene encoding sent to Vision, and the larger one the words were found in
+  const sentSize = {width: 1000, height: 800};
+  const wordSize = {width: 2000, height: 1200};
+
+  it('scales object boxes from the sent size to the word size', () => {
+    const [annotation] = parseImageAnnotations(response, ['objects'], sentSize);
+    const resized = resizeImageAnnotation(annotation, sentSize, wordSize);
+
+    expect(resized).toEqual({
+      feature: 'objects',
+      objects: [{
+        id: 'object-0',
+        name: 'Cup',
+        score: 0.72,
+        vertices: [{x: 200, y: 300}, {x: 1000, y: 300}, {x: 1000, y: 900}, {x: 200, y: 900}],
+      }],
+    });
+  });
+
+  it('scales logo boxes on each axis separately', () => {
+    const [annotation] = parseImageAnnotations(response, ['logos'], sentSize);
+    const resized = resizeImageAnnotation(annotation, sentSize, wordSize);
+
+    expect(resized.feature === 'logos' && resized.logos[0].vertices).toEqual([
+      {x: 0, y: 0},
+      {x: 400, y: 0},
+      {x: 400, y: 150},
+      {x: 0, y: 150},
+    ]);
+  });
+
+  it('leaves the original annotation untouched', () => {
+    const [annotation] = parseImageAnnotations(response, ['objects'], sentSize);
+    resizeImageAnnotation(annotation, sentSize, wordSize);
+    expect(annotation.objects[0].vertices[0]).toEqual({x: 100, y: 200});
+  });
+
+  it('returns annotations without geometry as they are', () => {
+    for (const annotation of parseImageAnnotations(response, ['labels', 'safeSearch', 'imageProperties'], sentSize)) {
+      expect(resizeImageAnnotation(annotation, sentSize, wordSize)).toBe(annotation);
+    }
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @jest-environment node
+ */
+import {IncomingHttpHeaders, Server} from 'http';
+import {AddressInfo} from 'net';
+import {createStubServer} from '../server/stubVisionServer';
+
+type VisionApi = typeof import('../app/services/visionApi');
+
+// The budget ledger lives on the device's file system; here it only needs to let requests through
+jest.mock('../app/services/usage', () => ({
+  assertWithinBudget: jest.fn(async () => undefined),
+  recordUsage: jest.fn(async () => undefined),
+}));
+
+// Retry once instead of three times, so the stub's one-second Retry-After keeps the tests short
+jest.mock('../app/services/http', () => {
+  const http = jest.requireActual('../app/services/http');
+  return {
+    ...http,
+    fetchWithRetry: (url: string, init: RequestInit, overrides = {}) => http.fetchWithRetry(url, init, {...overrides, maxRetries: 1}),
+  };
+});
+
+const TOKEN = 'test-token';
+const IMAGE = 'aGVsbG8=';
+const IMAGE_SIZE = {width: 800, height: 600};
+
+const listen = (server: Server) =>
+  new Promise<number>(resolve => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+
+const close = (server: Server) => new Promise(resolve => server.close(resolve));
+
+const setEnv = (name: string, value: string | undefined) => {
+  if (value === undefined) {
+    delete process.env[name];
+  } else {
+    process.env[name] = value;
+  }
+};
+
+describe('Vision client against the stub server', () => {
+  let stub: Server;
+  // What the stub received, one entry per request
+  let requests: {url?: string; headers: IncomingHttpHeaders}[];
+
+  // Start the stub, then load the client with the proxy URL pointing at it;
+  // the client reads its configuration once, when the module loads
+  const start = async (stubOptions: {status?: number} = {}, proxyPath = '') => {
+    stub = createStubServer(stubOptions);
+    stub.on('request', req => requests.push({url: req.url, headers: req.headers}));
+    const port = await listen(stub);
+    return loadClient(`http://127.0.0.1:${port}${proxyPath}`, TOKEN);
+  };
+
+  const loadClient = (proxyUrl: string | undefined, token: string | undefined) => {
+    setEnv('EXPO_PUBLIC_VISION_PROXY_URL', proxyUrl);
+    setEnv('EXPO_PUBLIC_VISION_PROXY_TOKEN', token);
+    let client!: VisionApi;
+    jest.isolateModules(() => {
+      client = require('../app/services/visionApi');
+    });
+    return client;
+  };
+
+  beforeEach(() => {
+    requests = [];
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    delete process.env.EXPO_PUBLIC_VISION_PROXY_URL;
+    delete process.env.EXPO_PUBLIC_VISION_PROXY_TOKEN;
+    if (stub?.listening) {
+      await close(stub);
+    }
+  });
+
+  it('posts to the annotate path with the device token', async () => {
+    const {detectText} = await start();
+    await detectText(IMAGE, IMAGE_SIZE);
+
+    expect(requests).toEqual([
+      {url: '/v1/images:annotate', headers: expect.objectContaining({authorization: `Bearer ${TOKEN}`, 'content-type': 'application/json'})},
+    ]);
+  });
+
+  it('joins the annotate path onto a proxy URL with a base path and trailing slashes', async () => {
+    const {detectText} = await start({}, '/vision//');
+    await detectText(IMAGE, IMAGE_SIZE);
+
+    expect(requests.map(request => request.url)).toEqual(['/vision/v1/images:annotate']);
+  });
+
+  it('reads the words from a text detection response', async () => {
+    const {detectText} = await start();
+    const result = await detectText(IMAGE, IMAGE_SIZE);
+
+    expect(result.fullText).toBe('HELLO WORLD\n');
+    expect(result.words.map(word => [word.text, word.x, word.y, word.width, word.height])).toEqual([
+      ['HELLO', 40, 40, 100, 30],
+      ['WORLD', 160, 40, 100, 30],
+    ]);
+    expect(result.pages).toBeUndefined();
+  });
+
+  it('keeps the document structure in document mode', async () => {
+    const {detectText} = await start();
+    const result = await detectText(IMAGE, IMAGE_SIZE, 'document');
+
+    expect(result.pages).toHaveLength(1);
+    expect(result.words.map(word => word.text)).toEqual(['HELLO', 'WORLD']);
+  });
+
+  it('parses the image-level features it asked for, in order', async () => {
+    const {annotateImage} = await start();
+    const [labels, objects] = await annotateImage(IMAGE, IMAGE_SIZE, ['labels', 'objects']);
+
+    expect(labels).toEqual(expect.objectContaining({feature: 'labels'}));
+    expect(objects).toEqual(expect.objectContaining({feature: 'objects'}));
+  });
+
+  it('reports a per-image error by its RPC code', async () => {
+    const {detectText} = await start();
+
+    await expect(detectText('', IMAGE_SIZE)).rejects.toEqual(expect.objectContaining({
+      name: 'OcrError',
+      kind: 'invalid-image',
+      message: 'Vision API error: Bad image data.',
+    }));
+  });
+
+  it('reports a 429 as quota once the retry is spent', async () => {
+    const {detectText} = await start({status: 429});
+
+    await expect(detectText(IMAGE, IMAGE_SIZE)).rejects.toEqual(expect.objectContaining({kind: 'quota', status: 429}));
+    expect(requests).toHaveLength(2);
+  });
+
+  it('reports a 503 as unavailable rather than offline', async () => {
+    const {detectText} = await start({status: 503});
+
+    await expect(detectText(IMAGE, IMAGE_SIZE)).rejects.toEqual(expect.objectContaining({
+      kind: 'unavailable',
+      status: 503,
+      message: expect.stringContaining('Stubbed 503 response'),
+    }));
+    expect(requests).toHaveLength(2);
+  });
+
+  it('needs a proxy URL and token before sending anything', async () => {
+    const {detectText} = loadClient(undefined, TOKEN);
+
+    await expect(detectText(IMAGE, IMAGE_SIZE)).rejects.toEqual(expect.objectContaining({kind: 'config'}));
+  });
+});
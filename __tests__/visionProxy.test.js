@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+const http = require('http');
+const {createProxyServer, loadConfig} = require('../server/visionProxy');
+const {createStubServer} = require('../server/stubVisionServer');
+
+const TOKEN = 'test-token';
+const MAX_BYTES = 2048;
+
+const listen = (server) =>
+  new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server.address().port)));
+
+const close = (server) => new Promise((resolve) => server.close(resolve));
+
+// POST to the proxy; `chunks` are written one by one without a Content-Length
+const post = (port, {body, chunks, token = TOKEN, path = '/v1/images:annotate'}) =>
+  new Promise((resolve, reject) => {
+    const headers = {'Content-Type': 'application/json'};
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    if (body !== undefined) {
+      headers['Content-Length'] = Buffer.byteLength(body);
+    }
+
+    const req = http.request({host: '127.0.0.1', port, path, method: 'POST', headers}, (res) => {
+      const received = [];
+      res.on('data', (chunk) => received.push(chunk));
+      res.on('end', () => resolve({status: res.statusCode, headers: res.headers, body: Buffer.concat(received).toString('utf8')}));
+    });
+    req.on('error', reject);
+    (chunks || [body]).forEach((chunk) => req.write(chunk));
+    req.end();
+  });
+
+const annotateBody = (features = [{type: 'TEXT_DETECTION'}]) =>
+  JSON.stringify({requests: [{image: {content: 'aGVsbG8='}, features}]});
+
+describe('vision proxy', () => {
+  let upstream;
+  let proxy;
+  let port;
+
+  const start = async (stubOptions) => {
+    upstream = createStubServer(stubOptions);
+    const upstreamPort = await listen(upstream);
+    proxy = createProxyServer(loadConfig({
+      GOOGLE_CLOUD_API_KEY: 'test-key',
+      VISION_PROXY_TOKENS: `test-device:${TOKEN}`,
+      VISION_PROXY_MAX_BYTES: String(MAX_BYTES),
+      VISION_UPSTREAM_URL: `http://127.0.0.1:${upstreamPort}/v1/images:annotate`,
+    }));
+    port = await listen(proxy);
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await close(proxy);
+    await close(upstream);
+    jest.restoreAllMocks();
+  });
+
+  it('rejects a missing or unknown device token', async () => {
+    await start();
+    expect((await post(port, {body: annotateBody(), token: null})).status).toBe(401);
+    expect((await post(port, {body: annotateBody(), token: 'wrong'})).status).toBe(401);
+  });
+
+  it('answers an oversized body with 413 rather than a reset', async () => {
+    await start();
+    const response = await post(port, {body: 'x'.repeat(MAX_BYTES * 4)});
+    expect(response.status).toBe(413);
+    expect(JSON.parse(response.body).error.code).toBe(413);
+  });
+
+  it('answers an oversized chunked body with 413', async () => {
+    await start();
+    const chunk = 'x'.repeat(MAX_BYTES / 2);
+    const response = await post(port, {chunks: [chunk, chunk, chunk, chunk]});
+    expect(response.status).toBe(413);
+  });
+
+  it('rejects bodies that are not JSON objects and keeps serving', async () => {
+    await start();
+    expect((await post(port, {body: '{not json'})).status).toBe(400);
+    expect((await post(port, {body: 'null'})).status).toBe(400);
+    expect((await post(port, {body: '42'})).status).toBe(400);
+    expect((await post(port, {body: JSON.stringify({requests: []})})).status).toBe(400);
+    expect((await post(port, {body: annotateBody()})).status).toBe(200);
+  });
+
+  it('forwards the request upstream and relays the response', async () => {
+    await start();
+    const response = await post(port, {body: annotateBody()});
+    expect(response.status).toBe(200);
+    const [annotation] = JSON.parse(response.body).responses;
+    expect(annotation.textAnnotations.length).toBeGreaterThan(0);
+  });
+
+  it('relays upstream errors with their Retry-After', async () => {
+    await start({status: 429});
+    const response = await post(port, {body: annotateBody()});
+    expect(response.status).toBe(429);
+    expect(response.headers['retry-after']).toBe('1');
+  });
+});
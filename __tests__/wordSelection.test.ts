@@ -0,0 +1,132 @@
+import {ExtractedText, ExtractedWord, TextParagraph} from '../app/services/types';
+import {pointInPolygon, selectedTextInReadingOrder, wordAtPoint, wordsInLasso} from '../app/services/wordSelection';
+import rotated from './fixtures/ocr/layout-rotated.json';
+import twoColumns from './fixtures/ocr/layout-two-columns.json';
+
+const square = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 0, y: 10}];
+
+const box = (id: string, x: number, y: number, width = 40, height = 20): ExtractedWord => ({
+  id,
+  text: id,
+  x,
+  y,
+  width,
+  height,
+  vertices: [{x, y}, {x: x + width, y}, {x: x + width, y: y + height}, {x, y: y + height}],
+});
+
+const paragraph = (words: [string, string][]): TextParagraph => ({
+  text: words.map(([, text]) => text).join(' '),
+  vertices: [],
+  languages: [],
+  words: words.map(([id, text]) => ({id, text, vertices: [], languages: [], symbols: []})),
+});
+
+describe('pointInPolygon', () => {
+  it('finds points inside and outside a square', () => {
+    expect(pointInPolygon({x: 5, y: 5}, square)).toBe(true);
+    expect(pointInPolygon({x: 15, y: 5}, square)).toBe(false);
+    expect(pointInPolygon({x: 5, y: -1}, square)).toBe(false);
+  });
+
+  it('handles concave shapes', () => {
+    // A U shape open at the top
+    const u = [{x: 0, y: 0}, {x: 4, y: 0}, {x: 4, y: 6}, {x: 6, y: 6}, {x: 6, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 0, y: 10}];
+    expect(pointInPolygon({x: 2, y: 2}, u)).toBe(true);
+    expect(pointInPolygon({x: 5, y: 2}, u)).toBe(false);
+    expect(pointInPolygon({x: 5, y: 8}, u)).toBe(true);
+  });
+
+  it('treats the loops of a self-intersecting path with the even-odd rule', () => {
+    // A figure of eight crossing at (5, 5)
+    const bowtie = [{x: 0, y: 0}, {x: 10, y: 10}, {x: 10, y: 0}, {x: 0, y: 10}];
+    expect(pointInPolygon({x: 2, y: 5}, bowtie)).toBe(true);
+    expect(pointInPolygon({x: 8, y: 5}, bowtie)).toBe(true);
+    expect(pointInPolygon({x: 5, y: 2}, bowtie)).toBe(false);
+  });
+
+  it('never contains anything for fewer than three points', () => {
+    expect(pointInPolygon({x: 0, y: 0}, [])).toBe(false);
+    expect(pointInPolygon({x: 5, y: 0}, [{x: 0, y: 0}, {x: 10, y: 0}])).toBe(false);
+  });
+});
+
+describe('wordAtPoint', () => {
+  it('finds the word under a tap', () => {
+    const words = [box('a', 0, 0), box('b', 50, 0)];
+    expect(wordAtPoint(words, {x: 60, y: 10})?.id).toBe('b');
+    expect(wordAtPoint(words, {x: 45, y: 10})).toBeNull();
+  });
+
+  it('hits a rotated word by its quad rather than its bounding box', () => {
+    const [meeting] = rotated.words;
+
+    expect(wordAtPoint(rotated.words, {x: 179, y: 166})?.text).toBe('Meeting');
+    // Inside the axis-aligned box but above the tilted top edge
+    expect(meeting.x < 230 && 230 < meeting.x + meeting.width && meeting.y < 145).toBe(true);
+    expect(wordAtPoint([meeting], {x: 230, y: 145})).toBeNull();
+  });
+
+  it('prefers the topmost of overlapping words', () => {
+    expect(wordAtPoint([box('under', 0, 0), box('over', 20, 0)], {x: 30, y: 10})?.id).toBe('over');
+  });
+});
+
+describe('wordsInLasso', () => {
+  const words = [box('a', 0, 0), box('b', 50, 0), box('c', 0, 40)];
+
+  it('selects words whose centre is inside the lasso', () => {
+    // Around the top row, clipping the corners of both words
+    const lasso = [{x: 10, y: -5}, {x: 80, y: -5}, {x: 80, y: 25}, {x: 10, y: 25}];
+    expect(wordsInLasso(words, lasso).map(word => word.id)).toEqual(['a', 'b']);
+  });
+
+  it('leaves out words the lasso only touches', () => {
+    const lasso = [{x: -5, y: -5}, {x: 15, y: -5}, {x: 15, y: 80}, {x: -5, y: 80}];
+    expect(wordsInLasso(words, lasso)).toEqual([]);
+  });
+
+  it('selects nothing for a path too short to enclose anything', () => {
+    expect(wordsInLasso(words, [{x: 0, y: 0}, {x: 100, y: 100}])).toEqual([]);
+  });
+});
+
+describe('selectedTextInReadingOrder', () => {
+  it('is empty without a selection', () => {
+    expect(selectedTextInReadingOrder(twoColumns, new Set())).toBe('');
+  });
+
+  it('reads a selection down the left column before the right', () => {
+    // "at dawn" and "with" on the left, "Inland" on the right at the same height
+    const selected = new Set(['w7', 'w12', 'w6', 'w5']);
+    expect(selectedTextInReadingOrder(twoColumns, selected)).toBe('at dawn\nwith\nInland');
+  });
+
+  it('joins the words of each line and skips unselected lines', () => {
+    const selected = new Set(['w0', 'w1', 'w37', 'w38']);
+    expect(selectedTextInReadingOrder(twoColumns, selected)).toBe('Field Notes\ndry and');
+  });
+
+  it('follows the provider layout when there is one', () => {
+    const extractedText: ExtractedText = {
+      fullText: 'Total 4.50\nThank you',
+      imageWidth: 1000,
+      imageHeight: 1000,
+      // Listed out of reading order; the page structure decides
+      words: [box('p2-0', 0, 0), box('p1-1', 50, 100), box('p1-0', 0, 100), box('p2-1', 50, 0)],
+      pages: [{
+        width: 1000,
+        height: 1000,
+        languages: [],
+        blocks: [{
+          text: 'Total 4.50\nThank you',
+          vertices: [],
+          languages: [],
+          paragraphs: [paragraph([['p1-0', 'Total'], ['p1-1', '4.50']]), paragraph([['p2-0', 'Thank'], ['p2-1', 'you']])],
+        }],
+      }],
+    };
+
+    expect(selectedTextInReadingOrder(extractedText, new Set(['p2-1', 'p1-1', 'p1-0']))).toBe('Total 4.50\nyou');
+  });
+});
@@ -0,0 +1,14 @@
+import { getShareExtensionKey } from "expo-share-intent";
+
+// Content shared from another app opens the app with a deep link carrying the
+// share extension key; send it to the scan screen, which picks up the files.
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    if (path.includes(`dataUrl=${getShareExtensionKey()}`)) {
+      return "/";
+    }
+    return path;
+  } catch {
+    return "/";
+  }
+}
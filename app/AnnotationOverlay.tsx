@@ -0,0 +1,150 @@
+import {StyleSheet, Text, View} from "react-native";
+import {CounterScaled} from './ZoomableImage';
+import {ImageToViewTransform} from './services/coordinates';
+import {ImageAnnotation, Likelihood, LocatedAnnotation, SafeSearch} from './services/types';
+import {convertToScreenCoordinates} from './services/visionApi';
+
+const SAFE_SEARCH_LABELS: Record<keyof SafeSearch, string> = {
+  adult: "Adult",
+  spoof: "Spoof",
+  medical: "Medical",
+  violence: "Violence",
+  racy: "Racy",
+};
+
+const formatScore = (score: number) => `${Math.round(score * 100)}%`;
+
+const formatLikelihood = (likelihood: Likelihood) => likelihood.toLowerCase().replace('_', ' ');
+
+// Boxes around the objects or logos Vision located, drawn next to the word
+// boxes. They don't take touches, so word selection keeps working underneath.
+export default function AnnotationOverlay({annotation, transform}: {
+  annotation: ImageAnnotation;
+  transform: ImageToViewTransform;
+}) {
+  const located: LocatedAnnotation[] = annotation.feature === 'objects'
+    ? annotation.objects
+    : annotation.feature === 'logos' ? annotation.logos : [];
+
+  return (
+    <>
+      {located.map(item => {
+        const box = convertToScreenCoordinates(item.vertices, transform);
+        if (!box) {
+          return null;
+        }
+
+        return (
+          <View
+            key={item.id}
+            pointerEvents="none"
+            style={[
+              styles.annotationBox,
+              annotation.feature === 'logos' && styles.logoBox,
+              {
+                left: box.x,
+                top: box.y,
+                width: box.width,
+                height: box.height,
+                transform: [{rotate: `${box.angle}deg`}],
+              },
+            ]}
+          >
+            <CounterScaled style={styles.labelContainer}>
+              <Text style={[styles.label, annotation.feature === 'logos' && styles.logoLabel]} numberOfLines={1}>
+                {item.name} {formatScore(item.score)}
+              </Text>
+            </CounterScaled>
+          </View>
+        );
+      })}
+    </>
+  );
+}
+
+// What an annotation found, for the info panel: labels and safe-search as
+// text, dominant colours as swatches
+export function AnnotationSummary({annotation}: {annotation: ImageAnnotation}) {
+  switch (annotation.feature) {
+    case 'labels':
+      return (
+        <Text style={styles.summaryText} numberOfLines={2}>
+          {annotation.labels.length > 0
+            ? annotation.labels.map(label => `${label.description} ${formatScore(label.score)}`).join(' · ')
+            : "No labels found"}
+        </Text>
+      );
+    case 'safeSearch':
+      return (
+        <Text style={styles.summaryText} numberOfLines={2}>
+          {(Object.keys(SAFE_SEARCH_LABELS) as (keyof SafeSearch)[])
+            .map(category => `${SAFE_SEARCH_LABELS[category]}: ${formatLikelihood(annotation.safeSearch[category])}`)
+            .join(' · ')}
+        </Text>
+      );
+    case 'imageProperties':
+      return (
+        <View style={styles.swatchRow}>
+          {annotation.colors.slice(0, 8).map((color, index) => (
+            <View
+              key={index}
+              style={[
+                styles.swatch,
+                {backgroundColor: `rgb(${color.red}, ${color.green}, ${color.blue})`, flex: Math.max(color.pixelFraction, 0.05)},
+              ]}
+            />
+          ))}
+        </View>
+      );
+    case 'objects':
+      return <Text style={styles.summaryText}>{annotation.objects.length} objects found</Text>;
+    case 'logos':
+      return <Text style={styles.summaryText}>{annotation.logos.length} logos found</Text>;
+  }
+}
+
+const styles = StyleSheet.create({
+  annotationBox: {
+    position: "absolute",
+    zIndex: 5,
+    borderWidth: 2,
+    borderColor: "#FF8800",
+    backgroundColor: "rgba(255, 136, 0, 0.1)",
+  },
+  logoBox: {
+    borderColor: "#33B5E5",
+    backgroundColor: "rgba(51, 181, 229, 0.1)",
+  },
+  labelContainer: {
+    position: "absolute",
+    top: 2,
+    left: 2,
+  },
+  label: {
+    backgroundColor: "#FF8800",
+    color: "white",
+    fontSize: 11,
+    fontWeight: "bold",
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+    borderRadius: 4,
+    maxWidth: 200,
+  },
+  logoLabel: {
+    backgroundColor: "#33B5E5",
+  },
+  summaryText: {
+    color: "rgba(255, 255, 255, 0.9)",
+    fontSize: 12,
+    textAlign: "center",
+  },
+  swatchRow: {
+    flexDirection: "row",
+    height: 14,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  swatch: {
+    height: "100%",
+  },
+});
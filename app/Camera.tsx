@@ -1,210 +1,496 @@
+import * as Calendar from "expo-calendar";
 import {CameraView, useCameraPermissions} from "expo-camera";
-import * as ImageManipulator from 'expo-image-manipulator';
-import {useRef, useState} from "react";
-import {Alert, Dimensions, Image, ScrollView, StyleSheet, Text, TouchableOpacity, View} from "react-native";
-import {detectText, getDemoText} from './services/visionApi';
-
-interface ExtractedText {
-  fullText: string;
-  words: Array<{
-    id: string;
-    text: string;
-    confidence: number;
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  }>;
-}
+import * as Clipboard from "expo-clipboard";
+import {useEffect, useMemo, useRef, useState} from "react";
+import {Alert, Dimensions, Image, LayoutChangeEvent, Linking, ScrollView, StyleSheet, Text, TouchableOpacity, View} from "react-native";
+import AnnotationOverlay, {AnnotationSummary} from './AnnotationOverlay';
+import CodeOverlay from './CodeOverlay';
+import CornerAdjuster from './CornerAdjuster';
+import DocumentText from './DocumentText';
+import ExportBar from './ExportBar';
+import FieldsForm from './FieldsForm';
+import LiveScanner, {LiveScannerHandle} from './LiveScanner';
+import ScanSession from './ScanSession';
+import SessionPager from './SessionPager';
+import SpeechControls from './SpeechControls';
+import TranslatedText from './TranslatedText';
+import TranslationOverlay from './TranslationOverlay';
+import WordSelectionLayer from './WordSelectionLayer';
+import ZoomableImage, {CounterScaled} from './ZoomableImage';
+import {scansOnlyQrCodes} from './services/barcodes';
+import {formatConfidence, isLowConfidence} from './services/confidence';
+import {createImageToViewTransform, ResizeMode, Size} from './services/coordinates';
+import {Quad} from './services/documentDetection';
+import {DetectedDocument, detectDocumentCorners, DocumentCleanup, processDocument} from './services/documentPipeline';
+import {detectEntities, Entity, EntityType, entityUrl, parseEntityDate} from './services/entities';
+import {ImportedFile, importedFilesToImages, pickDocument, pickFromLibrary} from './services/importSources';
+import {createLogger} from './services/logger';
+import {toOcrError} from './services/ocrErrors';
+import {prepareOcrImage} from './services/ocrPipeline';
+import {OCR_PROVIDERS} from './services/ocrProvider';
+import {useScanAnalysis} from './services/scanAnalysis';
+import {getScan} from './services/scanHistory';
+import {combineSessionPages, SessionPage} from './services/scanSession';
+import {useSettings} from './services/settings';
+import {languageLabel, translateExtractedText, Translation, TRANSLATION_LANGUAGES, TRANSLATION_PROVIDERS} from './services/translation';
+import {ImageAnnotation, ImageFeature} from './services/types';
+import {annotateImage, convertToScreenCoordinates} from './services/visionApi';
+import {resizeImageAnnotation} from './services/visionAnnotations';
+import {selectedTextInReadingOrder} from './services/wordSelection';
 
 const {width: screenWidth, height: screenHeight} = Dimensions.get('window');
 
-export default function Cam() {
+const log = createLogger('camera');
+
+// Resize mode of the captured image; the overlay transform must use the same one.
+// The whole photo is shown, and zooming in brings small print up to size.
+const IMAGE_RESIZE_MODE: ResizeMode = 'contain';
+
+// Language the translate mode starts out translating into
+const DEFAULT_TRANSLATION_TARGET = 'en';
+
+// Image features the overlay mode picker offers next to the plain word boxes
+const IMAGE_FEATURE_LABELS: Record<ImageFeature, string> = {
+  objects: "Objects",
+  logos: "Logos",
+  labels: "Labels",
+  safeSearch: "Safety",
+  imageProperties: "Colors",
+};
+
+const ENTITY_ICONS: Record<EntityType, string> = {
+  url: "🔗",
+  phone: "📞",
+  email: "✉️",
+  date: "📅",
+};
+
+// `scanId` reopens a scan from history in the result view; `onScanClosed` is
+// called when the user leaves it again. `sharedFiles` are images or PDFs
+// shared from another app, imported as soon as they arrive.
+export default function Cam({scanId, onScanClosed, sharedFiles, onSharedFilesHandled}: {
+  scanId?: string;
+  onScanClosed?: () => void;
+  sharedFiles?: ImportedFile[];
+  onSharedFilesHandled?: () => void;
+}) {
   const [permission, requestPermission] = useCameraPermissions();
-  const [extractedText, setExtractedText] = useState<ExtractedText | null>(null);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [capturedImageUri, setCapturedImageUri] = useState<string | null>(null);
-  const [analysisComplete, setAnalysisComplete] = useState(false);
-  const [viewMode, setViewMode] = useState<'image' | 'text'>('image'); // Toggle between image and text view
+  const [viewMode, setViewMode] = useState<'image' | 'text' | 'fields'>('image'); // Toggle between image, text and extracted fields
+  const [viewSize, setViewSize] = useState<Size>({width: screenWidth, height: screenHeight});
+  const [captureMode, setCaptureMode] = useState<'photo' | 'document' | 'pages' | 'live'>('photo'); // One-shot photo, flattened page, multi-page session or live preview OCR
+  // Recognised pages of a finished multi-page session, reviewed one at a time
+  const [sessionPages, setSessionPages] = useState<SessionPage[] | null>(null);
+  const [sessionPageIndex, setSessionPageIndex] = useState(0);
+  // A document photo waiting for the user to confirm its corners
+  const [pendingDocument, setPendingDocument] = useState<{imageUri: string; document: DetectedDocument; captureMs?: number} | null>(null);
+  // Pages of an imported PDF or multi-image selection, opened as a session
+  const [importedPageUris, setImportedPageUris] = useState<string[] | null>(null);
+  // Words picked on the overlay by tapping or lassoing them
+  const [selectedWordIds, setSelectedWordIds] = useState<Set<string>>(new Set());
+  // Language to translate the result into; null while translate mode is off
+  const [translationTarget, setTranslationTarget] = useState<string | null>(null);
+  const [translation, setTranslation] = useState<Translation | null>(null);
+  const [translationError, setTranslationError] = useState<string | null>(null);
+  // Word currently being read aloud
+  const [spokenWordId, setSpokenWordId] = useState<string | null>(null);
+  // Image-level Vision feature shown alongside the words, or null for words only
+  const [imageFeature, setImageFeature] = useState<ImageFeature | null>(null);
+  // As returned for the image sent to Vision, scaled into the words' pixel space below
+  const [sentImageAnnotation, setSentImageAnnotation] = useState<{annotation: ImageAnnotation; sentSize: Size} | null>(null);
+  const [imageAnnotationError, setImageAnnotationError] = useState<string | null>(null);
+
+  const settings = useSettings();
+  const ocrProvider = OCR_PROVIDERS[settings.ocrProvider];
+  const ocrMode = settings.ocrMode;
+  const confidenceSettings = settings.confidence;
+  const translationProvider = TRANSLATION_PROVIDERS[settings.translationProvider];
   const cameraRef = useRef<CameraView>(null);
+  const liveScannerRef = useRef<LiveScannerHandle>(null);
+  const {
+    extractedText,
+    setExtractedText,
+    isAnalyzing,
+    setIsAnalyzing,
+    analysisComplete,
+    setAnalysisComplete,
+    unsavedScan,
+    analyzeImage,
+    rerunAnalysis,
+    keepScan,
+    saveUnsavedScan,
+    showSavedScan,
+    resetAnalysis,
+  } = useScanAnalysis({ocrProvider, ocrMode, settings, onQueued: () => closeAnalysis()});
+
+  useEffect(() => {
+    if (!scanId) {
+      return;
+    }
+
+    let cancelled = false;
+    log.info('Reopening scan from history', {scanId});
+    getScan(scanId)
+      .then(scan => {
+        if (cancelled) {
+          return;
+        }
+        if (!scan) {
+          Alert.alert('Scan Not Found', 'This scan is no longer in your history.');
+          onScanClosed?.();
+          return;
+        }
+
+        showSavedScan(scan);
+        setCapturedImageUri(scan.imageUri);
+        setSelectedWordIds(new Set());
+        setViewMode('image');
+      })
+      .catch(error => {
+        log.error('Failed to reopen scan', {scanId, error});
+        Alert.alert('Error', 'Failed to open this scan.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scanId, onScanClosed, showSavedScan]);
+
+  useEffect(() => {
+    setTranslation(null);
+    setTranslationError(null);
+    if (!extractedText?.fullText || !translationTarget) {
+      return;
+    }
+
+    let cancelled = false;
+    log.info('Translating', {target: translationTarget, provider: translationProvider.id});
+    const startTime = Date.now();
+    translateExtractedText(translationProvider, extractedText, translationTarget)
+      .then(result => {
+        if (!cancelled) {
+          log.metric('translation', Date.now() - startTime, {source: result.source, target: result.target, lineCount: result.lines.length});
+          setTranslation(result);
+        }
+      })
+      .catch(error => {
+        if (!cancelled) {
+          log.error('Translation failed', {error});
+          setTranslationError(error instanceof Error ? error.message : String(error));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [extractedText, translationTarget, translationProvider]);
+
+  // Only a new image or feature calls Vision again; re-running the text
+  // analysis or changing session pages reuses the annotation
+  useEffect(() => {
+    setSentImageAnnotation(null);
+    setImageAnnotationError(null);
+    if (!imageFeature || !capturedImageUri) {
+      return;
+    }
 
-  console.log('📱 Camera component initialized for OCR');
-  console.log('📏 Screen dimensions:', {screenWidth, screenHeight});
+    const abortController = new AbortController();
+    log.info('Annotating image', {feature: imageFeature});
+    prepareOcrImage(capturedImageUri, imageFeature)
+      .then(async image => {
+        const sentSize = {width: image.width, height: image.height};
+        const [annotation] = await annotateImage(image.base64, sentSize, [imageFeature], abortController.signal);
+        if (!abortController.signal.aborted) {
+          setSentImageAnnotation({annotation, sentSize});
+        }
+      })
+      .catch(error => {
+        if (!abortController.signal.aborted) {
+          log.error('Image annotation failed', {feature: imageFeature, error});
+          setImageAnnotationError(toOcrError(error).message);
+        }
+      });
+
+    return () => {
+      abortController.abort();
+    };
+  }, [imageFeature, capturedImageUri]);
+
+  // The image is encoded for the feature, usually smaller than the one the
+  // words were found in, so scale the geometry into the words' pixel space
+  // to share their overlay transform
+  const imageAnnotation = useMemo(() => {
+    if (!sentImageAnnotation || !extractedText) {
+      return null;
+    }
+    const wordImageSize = {width: extractedText.imageWidth, height: extractedText.imageHeight};
+    return resizeImageAnnotation(sentImageAnnotation.annotation, sentImageAnnotation.sentSize, wordImageSize);
+  }, [sentImageAnnotation, extractedText]);
+
+  // Maps word geometry from the analysed image's pixels onto the displayed image.
+  // manipulateAsync bakes the EXIF rotation into its output, so the result is always upright.
+  const imageTransform = useMemo(() => extractedText && createImageToViewTransform({
+    sourceSize: {width: extractedText.imageWidth, height: extractedText.imageHeight},
+    viewSize,
+    resizeMode: IMAGE_RESIZE_MODE,
+    orientation: 1,
+  }), [extractedText, viewSize]);
+
+  const onContainerLayout = (event: LayoutChangeEvent) => {
+    const {width, height} = event.nativeEvent.layout;
+    setViewSize({width, height});
+  };
 
   // Close analysis and return to camera
   const closeAnalysis = () => {
-    console.log('❌ Closing analysis, returning to camera view');
+    resetAnalysis();
     setCapturedImageUri(null);
-    setExtractedText(null);
-    setAnalysisComplete(false);
     setViewMode('image');
-    console.log('✅ Analysis state cleared, camera view restored');
+    setSessionPages(null);
+    setSelectedWordIds(new Set());
+    if (scanId) {
+      onScanClosed?.();
+    }
   };
 
-  // Call Google Cloud Vision API for OCR or use demo data
-  const analyzeImage = async (imageUri: string) => {
-    console.log('🔍 Starting OCR text extraction process');
-    console.log('🖼️ Image URI:', imageUri);
+  const selectedText = useMemo(
+    () => (extractedText ? selectedTextInReadingOrder(extractedText, selectedWordIds) : ''),
+    [extractedText, selectedWordIds]
+  );
+  const selectedEntities = useMemo(() => detectEntities(selectedText), [selectedText]);
 
-    setIsAnalyzing(true);
-    console.log('🔄 Set analyzing state to true');
+  const copySelection = async () => {
+    await Clipboard.setStringAsync(selectedText);
+    log.info('Copied selected words', {wordCount: selectedWordIds.size});
+  };
 
+  // Open a link, call, write an email or add a date to the calendar
+  const openEntity = async (entity: Entity) => {
     try {
-      console.log('🔧 Starting image manipulation...');
-      const manipulationStartTime = Date.now();
-
-      // Convert image to base64
-      const manipulatedImage = await ImageManipulator.manipulateAsync(
-        imageUri,
-        [{resize: {width: 800}}], // Resize to reduce API costs
-        {compress: 0.8, format: ImageManipulator.SaveFormat.JPEG, base64: true}
-      );
-
-      const manipulationDuration = Date.now() - manipulationStartTime;
-      console.log('✅ Image manipulation completed in', manipulationDuration, 'ms');
-      console.log('📊 Manipulated image info:', {
-        width: manipulatedImage.width,
-        height: manipulatedImage.height,
-        uri: manipulatedImage.uri,
-        base64Length: manipulatedImage.base64?.length || 0
-      });
-
-      if (!manipulatedImage.base64) {
-        const error = 'Failed to convert image to base64';
-        console.error('❌ Image manipulation error:', error);
-        throw new Error(error);
-      }
-
-      console.log('✅ Base64 conversion successful, length:', manipulatedImage.base64.length, 'characters');
-
-      try {
-        console.log('🚀 Attempting to use Google Cloud Vision API for OCR...');
-        // Try to use real Vision API
-        const apiStartTime = Date.now();
-        const textResult = await detectText(manipulatedImage.base64, screenWidth, screenHeight);
-        const apiDuration = Date.now() - apiStartTime;
-
-        console.log('🎉 Vision API OCR call successful!');
-        console.log('⏱️ Total API processing time:', apiDuration, 'ms');
-        console.log('📋 Extracted text length:', textResult.fullText.length, 'characters');
-        console.log('🔤 Found', textResult.words.length, 'words');
-
-        setExtractedText(textResult);
-        console.log('✅ Updated extracted text state with real API results');
-
-      } catch (apiError: any) {
-        console.log('⚠️ Vision API call failed, falling back to demo data');
-        console.log('📝 API Error details:', {
-          message: apiError.message,
-          type: apiError.constructor.name
-        });
-
-        // If API fails (no key, quota exceeded, etc.), show setup instructions and use demo data
-        if (apiError.message.includes('not configured')) {
-          console.log('🔑 API key not configured, showing setup instructions');
-          Alert.alert(
-            "Google Cloud Vision API Setup Required",
-            "To use real OCR text extraction, follow the setup instructions in VISION_API_SETUP.md\n\nShowing demo text for now...",
-            [{text: "OK"}]
-          );
-        } else {
-          console.log('💥 API error occurred, showing error dialog');
-          Alert.alert(
-            "Vision API Error",
-            `${apiError.message}\n\nShowing demo text for now...`,
-            [{text: "OK"}]
-          );
+      if (entity.type === 'date') {
+        const date = parseEntityDate(entity.text);
+        if (!date) {
+          Alert.alert('Unknown Date', `"${entity.text}" couldn't be read as a date.`);
+          return;
         }
-
-        console.log('🎭 Generating demo text as fallback...');
-        // Use demo data as fallback
-        const demoText = getDemoText(screenWidth, screenHeight);
-        setExtractedText(demoText);
-        console.log('✅ Updated extracted text state with demo data');
+        await Calendar.createEventInCalendarAsync({title: selectedText, startDate: date, endDate: date, allDay: true});
+        return;
       }
 
+      const url = entityUrl(entity);
+      if (!url) {
+        Alert.alert('Unsupported Item', `"${entity.text}" can't be opened.`);
+        return;
+      }
+      await Linking.openURL(url);
     } catch (error) {
-      console.error('💥 Critical error in OCR analysis:');
-      console.error('   Error type:', error instanceof Error ? error.constructor.name : 'Unknown');
-      console.error('   Error message:', error instanceof Error ? error.message : String(error));
-      console.error('   Stack trace:', error instanceof Error ? error.stack : 'Not available');
-
-      Alert.alert('Error', 'Failed to process image for OCR. Please try again.');
-    } finally {
-      console.log('🔄 Setting analyzing state to false and analysis complete to true');
-      setIsAnalyzing(false);
-      setAnalysisComplete(true);
+      log.error('Failed to open entity', {type: entity.type, error});
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
     }
   };
 
   // Capture photo and analyze
   const captureAndAnalyze = async () => {
-    console.log('📸 Capture button pressed for OCR');
-
     if (!cameraRef.current) {
-      console.error('❌ Camera ref is null, cannot capture photo');
+      log.error('Camera ref is null, cannot capture photo');
       return;
     }
 
-    console.log('✅ Camera ref is available, proceeding with capture');
-
     try {
-      console.log('🔄 Setting analyzing state to true (capture phase)');
       setIsAnalyzing(true);
 
-      console.log('📱 Taking photo with camera...');
       const captureStartTime = Date.now();
 
       const photo = await cameraRef.current.takePictureAsync({
-        quality: 0.8,
+        quality: settings.captureQuality,
         base64: false,
       });
 
       const captureDuration = Date.now() - captureStartTime;
-      console.log('📸 Photo capture completed in', captureDuration, 'ms');
 
       if (photo?.uri) {
-        console.log('✅ Photo captured successfully');
-        console.log('📊 Photo details:', {
-          uri: photo.uri,
-          width: photo.width,
-          height: photo.height
-        });
+        log.metric('capture', captureDuration, {width: photo.width, height: photo.height, captureMode});
+
+        if (captureMode === 'document') {
+          const document = await detectDocumentCorners(photo.uri);
+          setPendingDocument({imageUri: photo.uri, document, captureMs: captureDuration});
+          setIsAnalyzing(false);
+          return;
+        }
 
         // Set the captured image URI to show the static image
         setCapturedImageUri(photo.uri);
-        console.log('🖼️ Set captured image URI for display');
-
-        console.log('🔍 Starting OCR analysis of captured photo...');
-        await analyzeImage(photo.uri);
-        console.log('✅ OCR analysis completed');
+        await analyzeImage(photo.uri, {captureMs: captureDuration});
       } else {
-        console.error('❌ Photo capture failed: no URI returned');
+        log.error('Photo capture returned no URI');
         Alert.alert('Error', 'Failed to capture photo. Please try again.');
         setIsAnalyzing(false);
       }
     } catch (error) {
-      console.error('💥 Error during photo capture:');
-      console.error('   Error type:', error instanceof Error ? error.constructor.name : 'Unknown');
-      console.error('   Error message:', error instanceof Error ? error.message : String(error));
-      console.error('   Stack trace:', error instanceof Error ? error.stack : 'Not available');
-
+      log.error('Photo capture failed', {error});
       Alert.alert('Error', 'Failed to capture photo. Please try again.');
       setIsAnalyzing(false);
-    } finally {
-      console.log('📸 Capture function completed');
     }
   };
 
-  // Log permission state changes
-  console.log('🔐 Camera permission state:', {
-    granted: permission?.granted,
-    canAskAgain: permission?.canAskAgain,
-    status: permission?.status
-  });
+  // Flatten the confirmed page and run OCR on the result
+  const extractDocument = async (quad: Quad, cleanup: DocumentCleanup) => {
+    if (!pendingDocument) {
+      return;
+    }
+
+    const {imageUri, document, captureMs} = pendingDocument;
+    setPendingDocument(null);
+    setIsAnalyzing(true);
+
+    try {
+      log.info('Flattening document', {cleanup});
+      const page = await processDocument(imageUri, {imageSize: document.imageSize, quad}, cleanup);
+      setCapturedImageUri(page.uri);
+      await analyzeImage(page.uri, {captureMs});
+    } catch (error) {
+      log.error('Failed to process document', {error});
+      Alert.alert('Error', 'Failed to process the document. Please try again.');
+      setIsAnalyzing(false);
+    }
+  };
+
+  const showSessionPage = (pages: SessionPage[], index: number) => {
+    setSessionPageIndex(index);
+    setCapturedImageUri(pages[index].imageUri);
+    setExtractedText(pages[index].extractedText || null);
+    setSelectedWordIds(new Set());
+  };
+
+  // Review a finished session and keep the combined document in history.
+  // Pages that failed to recognise are left out, and the user is told which.
+  const completeSession = (pages: SessionPage[]) => {
+    const recognized = pages.filter(page => page.extractedText);
+    const skipped = pages.flatMap((page, index) => (page.extractedText ? [] : [index + 1]));
+    log.info('Scan session complete', {pageCount: recognized.length, skippedCount: skipped.length});
+    if (recognized.length === 0) {
+      return;
+    }
+    if (skipped.length > 0) {
+      Alert.alert(
+        skipped.length === 1 ? 'Page Skipped' : 'Pages Skipped',
+        `No text could be recognised on page ${skipped.join(', ')}, so ${skipped.length === 1 ? "it isn't" : "they aren't"} included.`
+      );
+    }
+
+    setSessionPages(recognized);
+    showSessionPage(recognized, 0);
+    setViewMode('image');
+    setAnalysisComplete(true);
+
+    keepScan({
+      sourceUri: recognized[0].imageUri,
+      providerId: ocrProvider.id,
+      mode: ocrMode,
+      extractedText: combineSessionPages(recognized.flatMap(page => (page.extractedText ? [page.extractedText] : []))),
+      timings: {}
+    });
+  };
+
+  // Bring in images or PDFs from outside the camera. A single image goes
+  // through the same path as a photo; several pages open as a session.
+  const importFiles = async (files: ImportedFile[]) => {
+    if (files.length === 0) {
+      return;
+    }
+
+    log.info('Importing files', {count: files.length});
+    closeAnalysis();
+    setIsAnalyzing(true);
+
+    try {
+      const images = await importedFilesToImages(files);
+      if (images.length === 0) {
+        setIsAnalyzing(false);
+        return;
+      }
+
+      if (images.length > 1) {
+        setImportedPageUris(images);
+        setCaptureMode('pages');
+        setIsAnalyzing(false);
+        return;
+      }
+
+      if (captureMode === 'document') {
+        const document = await detectDocumentCorners(images[0]);
+        setPendingDocument({imageUri: images[0], document});
+        setIsAnalyzing(false);
+        return;
+      }
+
+      setCapturedImageUri(images[0]);
+      await analyzeImage(images[0]);
+    } catch (error) {
+      log.error('Failed to import files', {error});
+      Alert.alert('Import Failed', 'The selected file could not be opened.');
+      setIsAnalyzing(false);
+    }
+  };
+
+  const importFrom = async (pick: () => Promise<ImportedFile[]>) => {
+    try {
+      await importFiles(await pick());
+    } catch (error) {
+      log.error('Failed to open picker', {error});
+      Alert.alert('Import Failed', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Read through a ref so the effect below only reruns when new files are shared
+  const importFilesRef = useRef(importFiles);
+  importFilesRef.current = importFiles;
+
+  useEffect(() => {
+    if (!sharedFiles?.length) {
+      return;
+    }
+    onSharedFilesHandled?.();
+    importFilesRef.current(sharedFiles);
+  }, [sharedFiles, onSharedFilesHandled]);
+
+  // Freeze the live preview, keeping the boxes recognised on it
+  const freezeLiveFrame = async () => {
+    if (!liveScannerRef.current) {
+      log.error('Live scanner ref is null, cannot freeze frame');
+      return;
+    }
+
+    try {
+      setIsAnalyzing(true);
+      const frozen = await liveScannerRef.current.freeze();
+      if (!frozen) {
+        Alert.alert('Nothing to Freeze', 'Wait for the preview to start recognising text.');
+        return;
+      }
+
+      log.info('Froze live frame', {wordCount: frozen.extractedText.words.length});
+      setCapturedImageUri(frozen.imageUri);
+      setExtractedText(frozen.extractedText);
+      setAnalysisComplete(true);
+
+      // Live recognition runs ML Kit on the device
+      keepScan({
+        sourceUri: frozen.imageUri,
+        providerId: 'on-device',
+        mode: 'text',
+        extractedText: frozen.extractedText,
+        timings: {}
+      });
+    } catch (error) {
+      log.error('Failed to freeze live frame', {error});
+      Alert.alert('Error', 'Failed to freeze the frame. Please try again.');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
 
   if (!permission) {
-    console.log('⏳ Camera permissions are being requested...');
     return (
       <View style={styles.center}>
         <Text>Requesting camera permissions...</Text>
@@ -213,58 +499,173 @@ export default function Cam() {
   }
 
   if (!permission.granted) {
-    console.log('🚫 Camera permission not granted, showing permission request UI');
     return (
       <View style={styles.center}>
         <Text style={styles.message}>We need your permission to show the camera</Text>
-        <TouchableOpacity style={styles.button} onPress={() => {
-          console.log('🔐 User requested camera permission');
-          requestPermission();
-        }}>
+        <TouchableOpacity style={styles.button} onPress={requestPermission}>
           <Text style={styles.buttonText}>Grant permission</Text>
         </TouchableOpacity>
       </View>
     );
   }
 
-  console.log('✅ Camera permission granted, rendering camera interface');
-  console.log('📝 Current extracted text available:', !!extractedText);
-  console.log('🔄 Currently analyzing:', isAnalyzing);
-  console.log('🖼️ Captured image URI:', capturedImageUri ? 'Set' : 'None');
-  console.log('📊 Analysis complete:', analysisComplete);
-  console.log('👁️ Current view mode:', viewMode);
+  if (pendingDocument) {
+    return (
+      <CornerAdjuster
+        document={pendingDocument.document}
+        imageUri={pendingDocument.imageUri}
+        onCancel={() => setPendingDocument(null)}
+        onConfirm={extractDocument}
+      />
+    );
+  }
+
+  if (captureMode === 'pages' && !analysisComplete) {
+    return (
+      <ScanSession
+        key={importedPageUris?.join('|') || 'camera'}
+        ocrProvider={ocrProvider}
+        ocrMode={ocrMode}
+        initialImageUris={importedPageUris || undefined}
+        onCancel={() => {
+          setCaptureMode('photo');
+          setImportedPageUris(null);
+        }}
+        onComplete={pages => {
+          setImportedPageUris(null);
+          completeSession(pages);
+        }}
+      />
+    );
+  }
 
   return (
-    <View style={styles.container}>
+    <View style={styles.container} onLayout={onContainerLayout}>
       {/* Show either live camera, captured image, or text view */}
       {capturedImageUri && analysisComplete ? (
-        viewMode === 'image' ? (
+        viewMode === 'image' && imageTransform && extractedText ? (
+          <ZoomableImage
+            imageUri={capturedImageUri}
+            transform={imageTransform}
+            viewSize={viewSize}
+            resizeMode={IMAGE_RESIZE_MODE}
+          >
+            {/* Translated lines drawn over the text in translate mode */}
+            {translation && (
+              <TranslationOverlay translation={translation} transform={imageTransform} />
+            )}
+
+            {/* Word detection overlays, zoomed with the image */}
+            {!translation && extractedText.words.map((word) => {
+              const lowConfidence = isLowConfidence(word.confidence, confidenceSettings.threshold);
+              if (lowConfidence && confidenceSettings.lowConfidenceDisplay === 'hide') {
+                return null;
+              }
+
+              const box = convertToScreenCoordinates(word.vertices, imageTransform);
+              if (!box) {
+                return null;
+              }
+
+              return (
+                <View
+                  key={word.id}
+                  style={[
+                    styles.detectionBox,
+                    lowConfidence && styles.detectionBoxLowConfidence,
+                    selectedWordIds.has(word.id) && styles.detectionBoxSelected,
+                    word.id === spokenWordId && styles.detectionBoxSpoken,
+                    {
+                      left: box.x,
+                      top: box.y,
+                      width: box.width,
+                      height: box.height,
+                      transform: [{rotate: `${box.angle}deg`}],
+                    },
+                  ]}
+                >
+                  <CounterScaled style={styles.labelContainer}>
+                    <Text style={styles.wordLabel}>{word.text}</Text>
+                    {word.confidence !== undefined && (
+                      <Text style={[styles.confidence, lowConfidence && styles.confidenceLow]}>
+                        {formatConfidence(word.confidence)}
+                      </Text>
+                    )}
+                  </CounterScaled>
+                </View>
+              );
+            })}
+
+            {/* Objects or logos from the overlay mode picker */}
+            {imageAnnotation && (
+              <AnnotationOverlay annotation={imageAnnotation} transform={imageTransform} />
+            )}
+
+            {extractedText.words.length > 0 && (
+              <WordSelectionLayer
+                words={extractedText.words}
+                transform={imageTransform}
+                selectedIds={selectedWordIds}
+                onChangeSelection={setSelectedWordIds}
+              />
+            )}
+
+            {/* Barcodes and QR codes, above the selection layer so they can be tapped */}
+            {extractedText.codes && (
+              <CodeOverlay codes={extractedText.codes} transform={imageTransform} />
+            )}
+          </ZoomableImage>
+        ) : viewMode === 'image' ? (
           <Image
             source={{uri: capturedImageUri}}
             style={StyleSheet.absoluteFill}
-            resizeMode="cover"
+            resizeMode={IMAGE_RESIZE_MODE}
           />
+        ) : viewMode === 'fields' && extractedText ? (
+          <ScrollView
+            style={styles.fieldsScrollView}
+            contentContainerStyle={styles.fieldsContentContainer}
+            keyboardShouldPersistTaps="handled"
+          >
+            <FieldsForm extractedText={extractedText} />
+          </ScrollView>
         ) : (
           // Text view
           <View style={styles.textContainer}>
+            {/* A session exports all its pages */}
+            {extractedText?.fullText ? (
+              <ExportBar
+                pages={sessionPages
+                  ? sessionPages.flatMap(page => (page.extractedText ? [{extractedText: page.extractedText, imageUri: page.imageUri}] : []))
+                  : [{extractedText, imageUri: capturedImageUri}]}
+                belowPager={!!sessionPages && sessionPages.length > 1}
+              />
+            ) : null}
             <ScrollView
               style={styles.textScrollView}
               contentContainerStyle={styles.textContentContainer}
             >
-              <Text
-                style={styles.extractedText}
-                selectable={true}
-              >
-                {extractedText?.fullText || 'No text found in image'}
-              </Text>
+              {translation ? (
+                <TranslatedText translation={translation} />
+              ) : (
+                <DocumentText
+                  extractedText={extractedText}
+                  confidenceThreshold={confidenceSettings.threshold}
+                  highlightedWordId={spokenWordId}
+                />
+              )}
             </ScrollView>
           </View>
         )
+      ) : captureMode === 'live' ? (
+        <LiveScanner ref={liveScannerRef} />
       ) : (
         <CameraView
           ref={cameraRef}
           style={StyleSheet.absoluteFill}
-          facing="back"
+          facing={settings.cameraFacing}
+          flash={settings.flash}
+          enableTorch={settings.torch}
         />
       )}
 
@@ -277,43 +678,107 @@ export default function Cam() {
         </Text>
       </View>
 
-      {/* Word detection overlays - only show in image view */}
-      {viewMode === 'image' && extractedText?.words.map((word) => {
-        console.log('🎯 Rendering word overlay for:', word.text, 'at', {x: word.x, y: word.y, w: word.width, h: word.height});
-        return (
-          <View
-            key={word.id}
-            style={[
-              styles.detectionBox,
-              {
-                left: word.x,
-                top: word.y,
-                width: word.width,
-                height: word.height,
-              },
-            ]}
-          >
-            <View style={styles.labelContainer}>
-              <Text style={styles.wordLabel}>{word.text}</Text>
-              <Text style={styles.confidence}>
-                {Math.round(word.confidence * 100)}%
-              </Text>
-            </View>
+      {/* Page switcher for a multi-page session */}
+      {sessionPages && sessionPages.length > 1 && analysisComplete && (
+        <SessionPager
+          pageCount={sessionPages.length}
+          pageIndex={sessionPageIndex}
+          onChange={index => showSessionPage(sessionPages, index)}
+        />
+      )}
+
+      {/* Read-aloud controls */}
+      {analysisComplete && extractedText?.fullText ? (
+        <View style={styles.speechContainer}>
+          <SpeechControls extractedText={extractedText} onWordChange={setSpokenWordId} />
+        </View>
+      ) : null}
+
+      {/* Copy and actions for the selected words */}
+      {viewMode === 'image' && selectedText ? (
+        <View style={styles.selectionBar}>
+          <View style={styles.selectionRow}>
+            <Text style={styles.selectionText}>{selectedWordIds.size} selected</Text>
+            <TouchableOpacity style={styles.selectionButton} onPress={copySelection}>
+              <Text style={styles.selectionButtonText}>Copy</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.selectionButton} onPress={() => setSelectedWordIds(new Set())}>
+              <Text style={styles.selectionButtonText}>Clear</Text>
+            </TouchableOpacity>
           </View>
-        );
-      })}
+          {selectedEntities.length > 0 && (
+            <ScrollView horizontal contentContainerStyle={styles.entityRow}>
+              {selectedEntities.map(entity => (
+                <TouchableOpacity key={`${entity.type}-${entity.index}`} style={styles.entityChip} onPress={() => openEntity(entity)}>
+                  <Text style={styles.entityChipText} numberOfLines={1}>
+                    {ENTITY_ICONS[entity.type]} {entity.text}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      ) : null}
 
       {/* Text extraction info panel */}
       <View style={styles.infoPanel}>
-        <Text style={styles.infoTitle}>📝 OCR Text Extraction</Text>
+        <Text style={styles.infoTitle}>📝 OCR Text Extraction ({ocrProvider.label})</Text>
         <Text style={styles.infoText}>
           {extractedText?.fullText
-            ? `Extracted ${extractedText.words.length} words (${extractedText.fullText.length} characters)`
+            ? `Extracted ${extractedText.words.length} words (${extractedText.fullText.length} characters)${extractedText.codes?.length ? ` and ${extractedText.codes.length} codes` : ''}`
             : analysisComplete
               ? "No text detected in this image"
               : "Tap the capture button to extract text"
           }
         </Text>
+        {analysisComplete && scansOnlyQrCodes && captureMode !== 'live' && !extractedText?.codes?.length ? (
+          <Text style={styles.infoNote}>Barcodes other than QR codes aren&apos;t detected in photos on iOS. Use live mode to read them.</Text>
+        ) : null}
+        {translationTarget && analysisComplete ? (
+          <View style={styles.translationRow}>
+            <Text style={styles.translationText} numberOfLines={1}>
+              {translationError
+                ? `⚠️ ${translationError}`
+                : translation ? `${languageLabel(translation.source)} →` : "Translating..."}
+            </Text>
+            {TRANSLATION_LANGUAGES.map(language => (
+              <TouchableOpacity
+                key={language.code}
+                style={[styles.languageChip, translationTarget === language.code && styles.languageChipActive]}
+                onPress={() => setTranslationTarget(language.code)}
+              >
+                <Text style={[styles.languageChipText, translationTarget === language.code && styles.languageChipTextActive]}>
+                  {language.code.toUpperCase()}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : analysisComplete && viewMode === 'image' ? (
+          <>
+            <View style={styles.translationRow}>
+              {([null, ...Object.keys(IMAGE_FEATURE_LABELS)] as (ImageFeature | null)[]).map(feature => (
+                <TouchableOpacity
+                  key={feature || 'words'}
+                  style={[styles.languageChip, imageFeature === feature && styles.languageChipActive]}
+                  onPress={() => setImageFeature(feature)}
+                >
+                  <Text style={[styles.languageChipText, imageFeature === feature && styles.languageChipTextActive]}>
+                    {feature ? IMAGE_FEATURE_LABELS[feature] : "Words"}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {imageFeature ? (
+              imageAnnotationError ? (
+                <Text style={styles.translationText} numberOfLines={1}>⚠️ {imageAnnotationError}</Text>
+              ) : imageAnnotation ? (
+                <AnnotationSummary annotation={imageAnnotation} />
+              ) : (
+                <Text style={styles.translationText}>Annotating...</Text>
+              )
+            ) : null}
+          </>
+        ) : null}
       </View>
 
       {/* View toggle buttons - only show when analysis is complete */}
@@ -321,10 +786,7 @@ export default function Cam() {
         <View style={styles.toggleContainer}>
           <TouchableOpacity
             style={[styles.toggleButton, viewMode === 'image' && styles.toggleButtonActive]}
-            onPress={() => {
-              console.log('🖼️ Switching to image view');
-              setViewMode('image');
-            }}
+            onPress={() => setViewMode('image')}
           >
             <Text style={[styles.toggleButtonText, viewMode === 'image' && styles.toggleButtonTextActive]}>
               📷 Image
@@ -332,58 +794,147 @@ export default function Cam() {
           </TouchableOpacity>
           <TouchableOpacity
             style={[styles.toggleButton, viewMode === 'text' && styles.toggleButtonActive]}
-            onPress={() => {
-              console.log('📝 Switching to text view');
-              setViewMode('text');
-            }}
+            onPress={() => setViewMode('text')}
           >
             <Text style={[styles.toggleButtonText, viewMode === 'text' && styles.toggleButtonTextActive]}>
               📝 Text
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.toggleButton, viewMode === 'fields' && styles.toggleButtonActive]}
+            onPress={() => setViewMode('fields')}
+          >
+            <Text style={[styles.toggleButtonText, viewMode === 'fields' && styles.toggleButtonTextActive]}>
+              🧾 Fields
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.toggleButton, translationTarget !== null && styles.toggleButtonActive]}
+            onPress={() => setTranslationTarget(current => (current ? null : DEFAULT_TRANSLATION_TARGET))}
+          >
+            <Text style={[styles.toggleButtonText, translationTarget !== null && styles.toggleButtonTextActive]}>
+              🌐 Translate
+            </Text>
+          </TouchableOpacity>
         </View>
       )}
 
-      {/* Action buttons */}
-      <View style={styles.actionContainer}>
-        {analysisComplete ? (
-          // Show close button when analysis is complete
+      {/* Capture mode buttons - only show while the camera is live */}
+      {!analysisComplete && !capturedImageUri && (
+        <View style={styles.toggleContainer}>
           <TouchableOpacity
-            style={styles.closeButton}
-            onPress={() => {
-              console.log('🔄 Close button pressed, returning to camera');
-              closeAnalysis();
-            }}
+            style={[styles.toggleButton, captureMode === 'photo' && styles.toggleButtonActive]}
+            onPress={() => setCaptureMode('photo')}
+            disabled={isAnalyzing}
           >
-            <Text style={styles.closeButtonText}>
-              📸 Take Another Photo
+            <Text style={[styles.toggleButtonText, captureMode === 'photo' && styles.toggleButtonTextActive]}>
+              📸 Photo
             </Text>
           </TouchableOpacity>
-        ) : (
-          // Show capture button when ready to capture
           <TouchableOpacity
-            style={[styles.captureButton, isAnalyzing && styles.captureButtonDisabled]}
-            onPress={() => {
-              console.log('🎯 Capture button touched, isAnalyzing:', isAnalyzing);
-              if (!isAnalyzing) {
-                captureAndAnalyze();
-              } else {
-                console.log('⏳ Ignoring capture button press - analysis in progress');
-              }
-            }}
+            style={[styles.toggleButton, captureMode === 'document' && styles.toggleButtonActive]}
+            onPress={() => setCaptureMode('document')}
+            disabled={isAnalyzing}
+          >
+            <Text style={[styles.toggleButtonText, captureMode === 'document' && styles.toggleButtonTextActive]}>
+              📄 Document
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.toggleButton, captureMode === 'pages' && styles.toggleButtonActive]}
+            onPress={() => setCaptureMode('pages')}
             disabled={isAnalyzing}
           >
-            <Text style={styles.captureButtonText}>
-              {isAnalyzing ? "Extracting..." : "Capture & Extract Text"}
+            <Text style={[styles.toggleButtonText, captureMode === 'pages' && styles.toggleButtonTextActive]}>
+              📚 Pages
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.toggleButton, captureMode === 'live' && styles.toggleButtonActive]}
+            onPress={() => setCaptureMode('live')}
+            disabled={isAnalyzing}
+          >
+            <Text style={[styles.toggleButtonText, captureMode === 'live' && styles.toggleButtonTextActive]}>
+              ⚡ Live
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Action buttons */}
+      <View style={styles.actionContainer}>
+        {analysisComplete ? (
+          // Show close button when analysis is complete, Re-run for a single photo and Save when auto-save is off
+          <View style={styles.captureRow}>
+            {!sessionPages && (
+              <TouchableOpacity
+                style={[styles.saveButton, styles.rerunButton, isAnalyzing && styles.captureButtonDisabled]}
+                onPress={() => capturedImageUri && rerunAnalysis(capturedImageUri)}
+                disabled={isAnalyzing}
+              >
+                <Text style={styles.closeButtonText}>🔄 Re-run</Text>
+              </TouchableOpacity>
+            )}
+            {unsavedScan && (
+              <TouchableOpacity style={styles.saveButton} onPress={saveUnsavedScan}>
+                <Text style={styles.closeButtonText}>💾 Save</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={closeAnalysis}
+            >
+              <Text style={styles.closeButtonText}>
+                📸 Take Another Photo
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          // Show capture button when ready to capture, with import on either side
+          <View style={styles.captureRow}>
+            {captureMode !== 'live' && (
+              <TouchableOpacity
+                style={styles.importButton}
+                onPress={() => importFrom(pickFromLibrary)}
+                disabled={isAnalyzing}
+              >
+                <Text style={styles.importButtonText}>🖼️</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.captureButton, isAnalyzing && styles.captureButtonDisabled]}
+              onPress={() => {
+                if (!isAnalyzing) {
+                  if (captureMode === 'live') {
+                    freezeLiveFrame();
+                  } else {
+                    captureAndAnalyze();
+                  }
+                }
+              }}
+              disabled={isAnalyzing}
+            >
+              <Text style={styles.captureButtonText}>
+                {isAnalyzing ? "Extracting..." : captureMode === 'live' ? "Freeze Frame" : captureMode === 'document' ? "Capture Document" : "Capture & Extract Text"}
+              </Text>
+            </TouchableOpacity>
+            {captureMode !== 'live' && (
+              <TouchableOpacity
+                style={styles.importButton}
+                onPress={() => importFrom(pickDocument)}
+                disabled={isAnalyzing}
+              >
+                <Text style={styles.importButtonText}>📁</Text>
+              </TouchableOpacity>
+            )}
+          </View>
         )}
       </View>
 
       {/* Instructions */}
       <View style={styles.instructionsContainer}>
         <Text style={styles.instructionsText}>
-          💡 See VISION_API_SETUP.md for Google Cloud Vision API setup
+          💡 See the README for Vision proxy setup
         </Text>
       </View>
     </View>
@@ -446,6 +997,23 @@ const styles = StyleSheet.create({
     borderColor: "#00C851",
     backgroundColor: "transparent",
   },
+  detectionBoxLowConfidence: {
+    borderColor: "#FFBB33",
+    borderStyle: "dashed",
+    opacity: 0.4,
+  },
+  detectionBoxSpoken: {
+    borderColor: "#FFD700",
+    borderWidth: 3,
+    backgroundColor: "rgba(255, 215, 0, 0.3)",
+    opacity: 1,
+  },
+  detectionBoxSelected: {
+    borderColor: "#33B5E5",
+    borderStyle: "solid",
+    backgroundColor: "rgba(51, 181, 229, 0.3)",
+    opacity: 1,
+  },
   labelContainer: {
     backgroundColor: "rgba(255, 255, 255, 0.9)",
     paddingHorizontal: 8,
@@ -473,6 +1041,65 @@ const styles = StyleSheet.create({
     textAlign: "center",
     marginTop: 1,
   },
+  confidenceLow: {
+    color: "#FF8800",
+  },
+  speechContainer: {
+    position: "absolute",
+    bottom: 310,
+    left: 20,
+    right: 20,
+    alignItems: "center",
+    zIndex: 10,
+  },
+  selectionBar: {
+    position: "absolute",
+    bottom: 370,
+    left: 20,
+    right: 20,
+    backgroundColor: "rgba(0, 0, 0, 0.8)",
+    borderRadius: 12,
+    padding: 10,
+    zIndex: 10,
+  },
+  selectionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  selectionText: {
+    flex: 1,
+    color: "white",
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+  selectionButton: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginLeft: 8,
+    borderRadius: 14,
+  },
+  selectionButtonText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
+  entityRow: {
+    paddingTop: 8,
+  },
+  entityChip: {
+    maxWidth: 220,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    marginRight: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.6)",
+  },
+  entityChipText: {
+    color: "white",
+    fontSize: 12,
+  },
   infoPanel: {
     position: "absolute",
     bottom: 180,
@@ -497,6 +1124,43 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     textAlign: "center",
   },
+  infoNote: {
+    color: "rgba(255, 255, 255, 0.6)",
+    fontSize: 12,
+    marginTop: -4,
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  translationRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  translationText: {
+    flexShrink: 1,
+    color: "rgba(255, 255, 255, 0.9)",
+    fontSize: 12,
+    marginRight: 4,
+  },
+  languageChip: {
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    marginHorizontal: 2,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.6)",
+  },
+  languageChipActive: {
+    backgroundColor: "white",
+  },
+  languageChipText: {
+    color: "white",
+    fontSize: 10,
+    fontWeight: "bold",
+  },
+  languageChipTextActive: {
+    color: "#007AFF",
+  },
   actionContainer: {
     position: "absolute",
     bottom: 50,
@@ -505,6 +1169,22 @@ const styles = StyleSheet.create({
     alignItems: "center",
     zIndex: 10,
   },
+  captureRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  importButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    marginHorizontal: 8,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+  },
+  importButtonText: {
+    fontSize: 20,
+  },
   captureButton: {
     backgroundColor: "#007AFF",
     paddingHorizontal: 30,
@@ -535,6 +1215,21 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 5,
   },
+  saveButton: {
+    backgroundColor: "#34C759",
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderRadius: 25,
+    marginRight: 10,
+    shadowColor: "#000",
+    shadowOffset: {width: 0, height: 2},
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  rerunButton: {
+    backgroundColor: "#007AFF",
+  },
   closeButtonText: {
     color: "white",
     fontSize: 16,
@@ -569,15 +1264,19 @@ const styles = StyleSheet.create({
     width: '100%',
     padding: 20,
   },
+  fieldsScrollView: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  fieldsContentContainer: {
+    paddingHorizontal: 20,
+    paddingTop: 160,
+    // Clear the info panel and buttons drawn over the bottom of the screen
+    paddingBottom: 320,
+  },
   textContentContainer: {
     alignItems: 'center',
   },
-  extractedText: {
-    color: 'white',
-    fontSize: 18,
-    textAlign: 'center',
-    lineHeight: 24,
-  },
   toggleContainer: {
     position: "absolute",
     bottom: 120,
@@ -588,7 +1287,7 @@ const styles = StyleSheet.create({
     zIndex: 10,
   },
   toggleButton: {
-    paddingHorizontal: 20,
+    paddingHorizontal: 12,
     paddingVertical: 10,
     borderRadius: 20,
     borderWidth: 1,
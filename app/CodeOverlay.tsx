@@ -0,0 +1,136 @@
+import * as Clipboard from "expo-clipboard";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import {Alert, AlertButton, Linking, Platform, StyleSheet, Text, TouchableOpacity, View} from "react-native";
+import {CounterScaled} from './ZoomableImage';
+import {CodePayload, describeCodePayload, parseCodePayload} from './services/barcodes';
+import {ImageToViewTransform} from './services/coordinates';
+import {createLogger} from './services/logger';
+import {DetectedCode} from './services/types';
+import {convertToScreenCoordinates} from './services/visionApi';
+
+const log = createLogger('codes');
+
+// Actions that hand off to another app report why they couldn't
+const showError = (error: unknown) => Alert.alert('Error', error instanceof Error ? error.message : String(error));
+
+const copyButton = (label: string, text: string): AlertButton => ({
+  text: label,
+  onPress: () => {
+    Clipboard.setStringAsync(text).catch(error => log.error('Failed to copy code', {error}));
+  },
+});
+
+// Hand the contact to the system as a .vcf file, which Contacts offers to import
+const shareContact = async (data: string) => {
+  const uri = `${FileSystem.cacheDirectory}contact-${Date.now()}.vcf`;
+  await FileSystem.writeAsStringAsync(uri, data);
+  await Sharing.shareAsync(uri, {mimeType: 'text/vcard', UTI: 'public.vcard', dialogTitle: 'Add contact'});
+};
+
+const actionsFor = (payload: CodePayload, data: string): AlertButton[] => {
+  switch (payload.kind) {
+    case 'url':
+      return [{text: 'Open', onPress: () => Linking.openURL(payload.url).catch(showError)}, copyButton('Copy Link', payload.url)];
+    case 'wifi':
+      return [
+        ...(payload.password ? [copyButton('Copy Password', payload.password)] : []),
+        // iOS has no public way into the Wi-Fi settings
+        ...(Platform.OS === 'android'
+          ? [{text: 'Wi-Fi Settings', onPress: () => Linking.sendIntent('android.settings.WIFI_SETTINGS').catch(showError)}]
+          : []),
+      ];
+    case 'vcard':
+      return [
+        {
+          text: 'Add to Contacts',
+          onPress: () => shareContact(data).catch(showError),
+        },
+        copyButton('Copy', data),
+      ];
+    default:
+      return [copyButton('Copy', payload.text)];
+  }
+};
+
+const showCodeActions = (code: DetectedCode) => {
+  const payload = parseCodePayload(code.data);
+  const message = payload.kind === 'wifi'
+    ? `Network: ${payload.ssid}\nSecurity: ${payload.security || 'none'}${payload.hidden ? '\nHidden network' : ''}`
+    : describeCodePayload(payload);
+
+  Alert.alert(code.format.toUpperCase(), message, [...actionsFor(payload, code.data), {text: 'Cancel', style: 'cancel'}]);
+};
+
+// Boxes around the barcodes and QR codes in the image, labelled with what they
+// hold; tapping one offers what can be done with it
+export default function CodeOverlay({codes, transform}: {
+  codes: DetectedCode[];
+  transform: ImageToViewTransform;
+}) {
+  return (
+    <>
+      {codes.map(code => {
+        const box = convertToScreenCoordinates(code.vertices, transform);
+        if (!box) {
+          return null;
+        }
+
+        return (
+          <TouchableOpacity
+            key={code.id}
+            style={[
+              styles.codeBox,
+              {
+                left: box.x,
+                top: box.y,
+                width: box.width,
+                height: box.height,
+                transform: [{rotate: `${box.angle}deg`}],
+              },
+            ]}
+            onPress={() => showCodeActions(code)}
+          >
+            <CounterScaled style={styles.labelContainer}>
+              <View style={styles.label}>
+                <Text style={styles.format}>{code.format.toUpperCase()}</Text>
+                <Text style={styles.payload} numberOfLines={1}>{describeCodePayload(parseCodePayload(code.data))}</Text>
+              </View>
+            </CounterScaled>
+          </TouchableOpacity>
+        );
+      })}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  codeBox: {
+    position: "absolute",
+    zIndex: 7,
+    borderWidth: 3,
+    borderColor: "#AA66CC",
+    backgroundColor: "rgba(170, 102, 204, 0.15)",
+  },
+  labelContainer: {
+    position: "absolute",
+    top: -40,
+    left: 0,
+  },
+  label: {
+    backgroundColor: "#AA66CC",
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    maxWidth: 220,
+  },
+  format: {
+    color: "white",
+    fontSize: 10,
+    fontWeight: "bold",
+  },
+  payload: {
+    color: "white",
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,247 @@
+import {useMemo, useRef, useState} from "react";
+import {Image, LayoutChangeEvent, PanResponder, StyleSheet, Text, TouchableOpacity, View} from "react-native";
+import {createImageToViewTransform, ImageToViewTransform, mapPointFromView, mapPointToView, Point, Size} from './services/coordinates';
+import {isConvexQuad, Quad} from './services/documentDetection';
+import {DEFAULT_DOCUMENT_CLEANUP, DetectedDocument, DocumentCleanup} from './services/documentPipeline';
+
+// How close (in points) a touch has to land to a corner to pick it up
+const HANDLE_TOUCH_RADIUS = 44;
+
+const CLEANUP_OPTIONS: {key: keyof DocumentCleanup; label: string}[] = [
+  {key: 'deskew', label: "Deskew"},
+  {key: 'contrast', label: "Contrast"},
+  {key: 'binarize', label: "B&W"},
+];
+
+// Shows the captured photo with the detected page outline and lets the user
+// drag its corners before the page is flattened
+export default function CornerAdjuster({document, imageUri, onCancel, onConfirm}: {
+  document: DetectedDocument;
+  imageUri: string;
+  onCancel: () => void;
+  onConfirm: (quad: Quad, cleanup: DocumentCleanup) => void;
+}) {
+  const [quad, setQuad] = useState<Quad>(document.quad);
+  const [cleanup, setCleanup] = useState<DocumentCleanup>(DEFAULT_DOCUMENT_CLEANUP);
+  const [viewSize, setViewSize] = useState<Size | null>(null);
+
+  const transform = useMemo(() => viewSize && createImageToViewTransform({
+    sourceSize: document.imageSize,
+    viewSize,
+    resizeMode: 'contain',
+  }), [viewSize, document.imageSize]);
+
+  // The responder is created once, so it reads the latest values through refs
+  const transformRef = useRef<ImageToViewTransform | null>(null);
+  const quadRef = useRef(quad);
+  const dragRef = useRef<{corner: number; start: Point} | null>(null);
+  transformRef.current = transform;
+  quadRef.current = quad;
+
+  const panResponder = useRef(PanResponder.create({
+    onStartShouldSetPanResponder: event => {
+      const current = transformRef.current;
+      if (!current) {
+        return false;
+      }
+
+      const {locationX, locationY} = event.nativeEvent;
+      const distances = quadRef.current.map(corner => {
+        const point = mapPointToView(corner, current);
+        return Math.hypot(point.x - locationX, point.y - locationY);
+      });
+      const nearest = distances.indexOf(Math.min(...distances));
+      if (distances[nearest] > HANDLE_TOUCH_RADIUS) {
+        return false;
+      }
+
+      dragRef.current = {corner: nearest, start: mapPointToView(quadRef.current[nearest], current)};
+      return true;
+    },
+    onPanResponderMove: (_event, gesture) => {
+      const current = transformRef.current;
+      const drag = dragRef.current;
+      if (!current || !drag) {
+        return;
+      }
+
+      const point = mapPointFromView({x: drag.start.x + gesture.dx, y: drag.start.y + gesture.dy}, current);
+      const {width, height} = current.sourceSize;
+      const next = [...quadRef.current] as Quad;
+      next[drag.corner] = {
+        x: Math.max(0, Math.min(width, point.x)),
+        y: Math.max(0, Math.min(height, point.y)),
+      };
+      setQuad(next);
+    },
+    onPanResponderRelease: () => {
+      dragRef.current = null;
+    },
+    onPanResponderTerminate: () => {
+      dragRef.current = null;
+    },
+  })).current;
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    const {width, height} = event.nativeEvent.layout;
+    setViewSize({width, height});
+  };
+
+  const viewCorners = transform ? quad.map(corner => mapPointToView(corner, transform)) : [];
+  const isValid = isConvexQuad(quad);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.imageArea} onLayout={onLayout} {...panResponder.panHandlers}>
+        <Image source={{uri: imageUri}} style={StyleSheet.absoluteFill} resizeMode="contain" />
+
+        {viewCorners.map((start, index) => {
+          const end = viewCorners[(index + 1) % 4];
+          const length = Math.hypot(end.x - start.x, end.y - start.y);
+          return (
+            <View
+              key={`edge-${index}`}
+              pointerEvents="none"
+              style={[
+                styles.edge,
+                !isValid && styles.edgeInvalid,
+                {
+                  left: (start.x + end.x) / 2 - length / 2,
+                  top: (start.y + end.y) / 2 - 1,
+                  width: length,
+                  transform: [{rotate: `${Math.atan2(end.y - start.y, end.x - start.x)}rad`}],
+                },
+              ]}
+            />
+          );
+        })}
+
+        {viewCorners.map((corner, index) => (
+          <View
+            key={`corner-${index}`}
+            pointerEvents="none"
+            style={[styles.handle, {left: corner.x - 14, top: corner.y - 14}]}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.hint}>
+        {document.detected ? "Drag the corners to fit the page" : "No page found - drag the corners onto the page"}
+      </Text>
+
+      <View style={styles.optionRow}>
+        {CLEANUP_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.option, cleanup[option.key] && styles.optionActive]}
+            onPress={() => setCleanup(current => ({...current, [option.key]: !current[option.key]}))}
+          >
+            <Text style={[styles.optionText, cleanup[option.key] && styles.optionTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={onCancel}>
+          <Text style={styles.buttonText}>Retake</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setQuad(document.quad)}>
+          <Text style={styles.buttonText}>Reset</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, !isValid && styles.primaryButtonDisabled]}
+          onPress={() => onConfirm(quad, cleanup)}
+          disabled={!isValid}
+        >
+          <Text style={styles.buttonText}>Extract Text</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "black",
+    paddingTop: 100,
+    paddingBottom: 40,
+  },
+  imageArea: {
+    flex: 1,
+  },
+  edge: {
+    position: "absolute",
+    height: 2,
+    backgroundColor: "#33B5E5",
+  },
+  edgeInvalid: {
+    backgroundColor: "#FF4444",
+  },
+  handle: {
+    position: "absolute",
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 3,
+    borderColor: "#33B5E5",
+    backgroundColor: "rgba(255, 255, 255, 0.5)",
+  },
+  hint: {
+    color: "rgba(255, 255, 255, 0.8)",
+    fontSize: 13,
+    textAlign: "center",
+    marginTop: 12,
+  },
+  optionRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    marginTop: 12,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginHorizontal: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.6)",
+  },
+  optionActive: {
+    backgroundColor: "white",
+  },
+  optionText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
+  optionTextActive: {
+    color: "#007AFF",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    marginTop: 16,
+    paddingHorizontal: 20,
+  },
+  secondaryButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 25,
+    borderWidth: 1,
+    borderColor: "white",
+  },
+  primaryButton: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 25,
+  },
+  primaryButtonDisabled: {
+    backgroundColor: "#666",
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+});
@@ -0,0 +1,255 @@
+import {useMemo} from "react";
+import {StyleSheet, Text, View} from "react-native";
+import {isLowConfidence} from './services/confidence';
+import {analyzeLayout, LayoutLine, LayoutParagraph} from './services/layout';
+import {DetectedLanguage, ExtractedText, ExtractedWord, TextParagraph} from './services/types';
+import {wordTextWithBreak} from './services/visionDocument';
+
+const languageCodes = (languages: DetectedLanguage[]) =>
+  languages.map(language => language.languageCode).join(' · ');
+
+// Paragraph text with words below the threshold flagged inline, and the word
+// being read aloud highlighted
+function ParagraphText({paragraph, confidenceThreshold, highlightedWordId}: {
+  paragraph: TextParagraph;
+  confidenceThreshold: number;
+  highlightedWordId?: string | null;
+}) {
+  return (
+    <Text style={styles.paragraph} selectable={true}>
+      {paragraph.words.map((word, index) => (
+        <Text
+          key={word.id}
+          style={[
+            isLowConfidence(word.confidence, confidenceThreshold) && styles.lowConfidenceWord,
+            word.id === highlightedWordId && styles.highlightedWord,
+          ]}
+        >
+          {index === paragraph.words.length - 1 ? word.text : wordTextWithBreak(word)}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+// Words of a recovered paragraph. Left-aligned and justified text reflows to
+// the screen; centred and right-aligned lines keep their breaks.
+function LayoutParagraphText({paragraph, confidenceThreshold, highlightedWordId}: {
+  paragraph: LayoutParagraph;
+  confidenceThreshold: number;
+  highlightedWordId?: string | null;
+}) {
+  const keepBreaks = paragraph.alignment === 'center' || paragraph.alignment === 'right';
+  return (
+    <Text style={[styles.paragraph, {textAlign: paragraph.alignment}]} selectable={true}>
+      {paragraph.lines.map((line, lineIndex) => (
+        <Text key={`line-${lineIndex}`}>
+          {lineIndex > 0 ? (keepBreaks ? '\n' : ' ') : ''}
+          <WordSpans words={line.words} confidenceThreshold={confidenceThreshold} highlightedWordId={highlightedWordId} />
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+function WordSpans({words, confidenceThreshold, highlightedWordId}: {
+  words: ExtractedWord[];
+  confidenceThreshold: number;
+  highlightedWordId?: string | null;
+}) {
+  return words.map((word, index) => (
+    <Text key={word.id}>
+      {index > 0 ? ' ' : ''}
+      <Text
+        style={[
+          isLowConfidence(word.confidence, confidenceThreshold) && styles.lowConfidenceWord,
+          word.id === highlightedWordId && styles.highlightedWord,
+        ]}
+      >
+        {word.text}
+      </Text>
+    </Text>
+  ));
+}
+
+function TableRow({cells, confidenceThreshold, highlightedWordId}: {
+  cells: LayoutLine[];
+  confidenceThreshold: number;
+  highlightedWordId?: string | null;
+}) {
+  return (
+    <View style={styles.tableRow}>
+      {cells.map((cell, index) => (
+        <Text key={`cell-${index}`} style={styles.tableCell} selectable={true}>
+          <WordSpans words={cell.words} confidenceThreshold={confidenceThreshold} highlightedWordId={highlightedWordId} />
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+// Text without document structure, laid out from its word boxes: columns in
+// reading order, paragraphs with their alignment, and tables as grids
+function RecoveredLayout({words, confidenceThreshold, highlightedWordId}: {
+  words: ExtractedWord[];
+  confidenceThreshold: number;
+  highlightedWordId?: string | null;
+}) {
+  const layout = useMemo(() => analyzeLayout(words), [words]);
+
+  return (
+    <View style={styles.document}>
+      {layout.blocks.map((block, blockIndex) => (block.kind === 'table' ? (
+        <View key={`block-${blockIndex}`} style={styles.table}>
+          {block.rows.map((cells, rowIndex) => (
+            <TableRow
+              key={`row-${rowIndex}`}
+              cells={cells}
+              confidenceThreshold={confidenceThreshold}
+              highlightedWordId={highlightedWordId}
+            />
+          ))}
+        </View>
+      ) : (
+        <View key={`block-${blockIndex}`} style={styles.block}>
+          {block.paragraphs.map((paragraph, paragraphIndex) => (
+            <LayoutParagraphText
+              key={`paragraph-${paragraphIndex}`}
+              paragraph={paragraph}
+              confidenceThreshold={confidenceThreshold}
+              highlightedWordId={highlightedWordId}
+            />
+          ))}
+        </View>
+      )))}
+    </View>
+  );
+}
+
+// Renders recognised text, keeping blocks and paragraphs apart when the
+// provider returned document structure, and otherwise recovering it from the
+// word boxes
+export default function DocumentText({extractedText, confidenceThreshold, highlightedWordId}: {
+  extractedText: ExtractedText | null;
+  confidenceThreshold: number;
+  highlightedWordId?: string | null;
+}) {
+  if (!extractedText?.fullText) {
+    return <Text style={[styles.plainText, styles.centered]}>No text found in image</Text>;
+  }
+
+  const pages = extractedText.pages;
+  if (!pages?.length && extractedText.words.length > 0) {
+    return (
+      <RecoveredLayout
+        words={extractedText.words}
+        confidenceThreshold={confidenceThreshold}
+        highlightedWordId={highlightedWordId}
+      />
+    );
+  }
+
+  if (!pages?.length) {
+    return (
+      <Text style={styles.plainText} selectable={true}>
+        {extractedText.fullText}
+      </Text>
+    );
+  }
+
+  return (
+    <View style={styles.document}>
+      {pages.map((page, pageIndex) => (
+        <View key={`page-${pageIndex}`} style={styles.page}>
+          {pages.length > 1 && (
+            <Text style={styles.pageHeader}>Page {pageIndex + 1}</Text>
+          )}
+          {page.blocks.map((block, blockIndex) => (
+            <View key={`block-${blockIndex}`} style={styles.block}>
+              {block.languages.length > 0 && (
+                <Text style={styles.languages}>{languageCodes(block.languages)}</Text>
+              )}
+              {block.paragraphs.map((paragraph, paragraphIndex) => (
+                <ParagraphText
+                  key={`paragraph-${paragraphIndex}`}
+                  paragraph={paragraph}
+                  confidenceThreshold={confidenceThreshold}
+                  highlightedWordId={highlightedWordId}
+                />
+              ))}
+            </View>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  plainText: {
+    color: 'white',
+    fontSize: 18,
+    lineHeight: 24,
+  },
+  centered: {
+    textAlign: 'center',
+  },
+  document: {
+    width: '100%',
+  },
+  page: {
+    marginBottom: 24,
+  },
+  pageHeader: {
+    color: "rgba(255, 255, 255, 0.6)",
+    fontSize: 12,
+    fontWeight: "bold",
+    marginBottom: 8,
+    textTransform: "uppercase",
+  },
+  block: {
+    borderLeftWidth: 2,
+    borderLeftColor: "rgba(0, 200, 81, 0.6)",
+    paddingLeft: 10,
+    marginBottom: 16,
+  },
+  languages: {
+    color: "#00C851",
+    fontSize: 10,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  paragraph: {
+    color: 'white',
+    fontSize: 16,
+    lineHeight: 22,
+    marginBottom: 8,
+  },
+  table: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderLeftWidth: StyleSheet.hairlineWidth,
+    borderColor: "rgba(255, 255, 255, 0.4)",
+    marginBottom: 16,
+  },
+  tableRow: {
+    flexDirection: "row",
+  },
+  tableCell: {
+    flex: 1,
+    color: 'white',
+    fontSize: 14,
+    padding: 4,
+    borderRightWidth: StyleSheet.hairlineWidth,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderColor: "rgba(255, 255, 255, 0.4)",
+  },
+  highlightedWord: {
+    backgroundColor: "#33B5E5",
+    color: "white",
+  },
+  lowConfidenceWord: {
+    color: "#FFBB33",
+    textDecorationLine: "underline",
+    textDecorationStyle: "dotted",
+  },
+});
@@ -0,0 +1,82 @@
+import {useState} from "react";
+import {Alert, StyleSheet, Text, TouchableOpacity, View} from "react-native";
+import {EXPORT_FORMATS, ExportFormat} from './services/exporters';
+import {createLogger} from './services/logger';
+import {ExportPage, shareExport} from './services/shareExport';
+
+const log = createLogger('export');
+
+// A button per export format. Writes the pages in the chosen format and opens
+// the share sheet; `belowPager` leaves room for a session's page switcher.
+export default function ExportBar({pages, belowPager}: {
+  pages: ExportPage[];
+  belowPager?: boolean;
+}) {
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+
+  const exportText = async (format: ExportFormat) => {
+    if (exportingFormat) {
+      return;
+    }
+
+    setExportingFormat(format);
+    try {
+      await shareExport(format, pages);
+    } catch (error) {
+      log.error('Export failed', {format, error});
+      Alert.alert('Export Failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <View style={[styles.container, belowPager && styles.containerBelowPager]}>
+      <Text style={styles.label}>Share as</Text>
+      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+        <TouchableOpacity
+          key={format}
+          style={[styles.button, exportingFormat === format && styles.buttonActive]}
+          onPress={() => exportText(format)}
+          disabled={exportingFormat !== null}
+        >
+          <Text style={styles.buttonText}>{EXPORT_FORMATS[format].extension.toUpperCase()}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 110,
+    marginBottom: 8,
+  },
+  containerBelowPager: {
+    marginTop: 160,
+  },
+  label: {
+    color: "rgba(255, 255, 255, 0.7)",
+    fontSize: 12,
+    marginRight: 8,
+  },
+  button: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginHorizontal: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.6)",
+  },
+  buttonActive: {
+    backgroundColor: "rgba(255, 255, 255, 0.3)",
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
+});
@@ -0,0 +1,207 @@
+import {useEffect, useState} from "react";
+import {Alert, Share, StyleSheet, Text, TextInput, TouchableOpacity, View} from "react-native";
+import {ExtractedFields, extractFields, FIELD_TEMPLATES, FieldTemplateId, fieldsToText, LineItem} from './services/fieldExtraction';
+import {ExtractedText} from './services/types';
+
+// Fields extracted with the chosen template, editable before sharing
+export default function FieldsForm({extractedText}: {extractedText: ExtractedText}) {
+  const [templateId, setTemplateId] = useState<FieldTemplateId>('receipt');
+  const [fields, setFields] = useState<ExtractedFields>(() => extractFields('receipt', extractedText));
+
+  useEffect(() => {
+    setFields(extractFields(templateId, extractedText));
+  }, [templateId, extractedText]);
+
+  const updateField = (key: string, value: string) =>
+    setFields(current => ({
+      ...current,
+      fields: current.fields.map(field => (field.key === key ? {...field, value} : field)),
+    }));
+
+  const updateLineItem = (id: string, update: Partial<LineItem>) =>
+    setFields(current => ({
+      ...current,
+      lineItems: current.lineItems?.map(item => (item.id === id ? {...item, ...update} : item)),
+    }));
+
+  const removeLineItem = (id: string) =>
+    setFields(current => ({...current, lineItems: current.lineItems?.filter(item => item.id !== id)}));
+
+  const addLineItem = () =>
+    setFields(current => ({
+      ...current,
+      lineItems: [...(current.lineItems || []), {id: `item-${Date.now()}`, description: '', amount: '', wordIds: []}],
+    }));
+
+  const shareFields = async () => {
+    try {
+      await Share.share({message: fieldsToText(fields)});
+    } catch (error) {
+      Alert.alert('Share Failed', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <View style={styles.form}>
+      <View style={styles.templateRow}>
+        {(Object.keys(FIELD_TEMPLATES) as FieldTemplateId[]).map(id => (
+          <TouchableOpacity
+            key={id}
+            style={[styles.templateButton, templateId === id && styles.templateButtonActive]}
+            onPress={() => setTemplateId(id)}
+          >
+            <Text style={[styles.templateButtonText, templateId === id && styles.templateButtonTextActive]}>
+              {FIELD_TEMPLATES[id].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {fields.fields.map(field => (
+        <View key={field.key} style={styles.field}>
+          <Text style={styles.label}>{field.label}</Text>
+          <TextInput
+            style={styles.input}
+            value={field.value}
+            onChangeText={value => updateField(field.key, value)}
+            placeholder="Not found"
+            placeholderTextColor="rgba(255, 255, 255, 0.3)"
+          />
+        </View>
+      ))}
+
+      {fields.lineItems && (
+        <View style={styles.field}>
+          <Text style={styles.label}>Items</Text>
+          {fields.lineItems.map(item => (
+            <View key={item.id} style={styles.itemRow}>
+              <TextInput
+                style={[styles.input, styles.itemQuantity]}
+                value={item.quantity || ''}
+                onChangeText={quantity => updateLineItem(item.id, {quantity})}
+                placeholder="Qty"
+                placeholderTextColor="rgba(255, 255, 255, 0.3)"
+                keyboardType="numeric"
+              />
+              <TextInput
+                style={[styles.input, styles.itemDescription]}
+                value={item.description}
+                onChangeText={description => updateLineItem(item.id, {description})}
+                placeholder="Description"
+                placeholderTextColor="rgba(255, 255, 255, 0.3)"
+              />
+              <TextInput
+                style={[styles.input, styles.itemAmount]}
+                value={item.amount}
+                onChangeText={amount => updateLineItem(item.id, {amount})}
+                placeholder="0.00"
+                placeholderTextColor="rgba(255, 255, 255, 0.3)"
+                keyboardType="decimal-pad"
+              />
+              <TouchableOpacity style={styles.removeButton} onPress={() => removeLineItem(item.id)}>
+                <Text style={styles.removeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+          <TouchableOpacity onPress={addLineItem}>
+            <Text style={styles.addItemText}>+ Add item</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <TouchableOpacity style={styles.shareButton} onPress={shareFields}>
+        <Text style={styles.shareButtonText}>Share Fields</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  form: {
+    width: '100%',
+  },
+  templateRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    marginBottom: 16,
+  },
+  templateButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginHorizontal: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.6)",
+  },
+  templateButtonActive: {
+    backgroundColor: "white",
+  },
+  templateButtonText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
+  templateButtonTextActive: {
+    color: "#007AFF",
+  },
+  field: {
+    marginBottom: 12,
+  },
+  label: {
+    color: "rgba(255, 255, 255, 0.6)",
+    fontSize: 12,
+    fontWeight: "bold",
+    marginBottom: 4,
+    textTransform: "uppercase",
+  },
+  input: {
+    color: "white",
+    fontSize: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(255, 255, 255, 0.3)",
+    paddingVertical: 6,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  itemQuantity: {
+    width: 40,
+    marginRight: 8,
+  },
+  itemDescription: {
+    flex: 1,
+    marginRight: 8,
+  },
+  itemAmount: {
+    width: 80,
+    textAlign: "right",
+  },
+  removeButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  removeButtonText: {
+    color: "#FF6B6B",
+    fontSize: 14,
+  },
+  addItemText: {
+    color: "#33B5E5",
+    fontSize: 14,
+    marginTop: 6,
+  },
+  shareButton: {
+    alignSelf: "center",
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 20,
+    marginTop: 8,
+  },
+  shareButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+});
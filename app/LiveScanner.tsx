@@ -0,0 +1,204 @@
+import {Ref, useEffect, useImperativeHandle, useMemo, useRef, useState} from "react";
+import {LayoutChangeEvent, StyleSheet, Text, View} from "react-native";
+import {Camera, runAtTargetFps, useCameraDevice, useCodeScanner, useFrameProcessor} from "react-native-vision-camera";
+import {useTextRecognition} from "react-native-vision-camera-text-recognition";
+import {useRunOnJS} from "react-native-worklets-core";
+import CodeOverlay from './CodeOverlay';
+import {LIVE_CODE_TYPES, liveCodesToDetected, scansLiveCodes, uprightCodeFrameSize} from './services/barcodes';
+import {boundingRect, createImageToViewTransform, mapQuadToView, Size} from './services/coordinates';
+import {FrameOrientation, isLiveScanResult, LiveScanResult, liveResultToExtractedText, uprightFrameSize} from './services/liveOcr';
+import {TrackedWord, updateTrackedWords, visibleTrackedWords} from './services/liveTracking';
+import {createLogger} from './services/logger';
+import {useSettings} from './services/settings';
+import {DetectedCode, ExtractedText} from './services/types';
+import {convertToScreenCoordinates} from './services/visionApi';
+
+const log = createLogger('live');
+
+// The code scanner only reports while it sees codes, so codes it stops
+// reporting are cleared after this long
+const LIVE_CODE_HOLD_MS = 500;
+
+export interface LiveScannerHandle {
+  // Capture the current preview together with the boxes on screen
+  freeze: () => Promise<{imageUri: string; extractedText: ExtractedText} | null>;
+}
+
+// Live text recognition on VisionCamera preview frames. Recognition runs on
+// the frame processor thread at the frame rate picked in Settings; results are
+// tracked across frames so the boxes drawn over the preview stay steady.
+// On iOS barcodes and QR codes are read from the preview alongside.
+export default function LiveScanner({ref}: {ref?: Ref<LiveScannerHandle>}) {
+  const {cameraFacing, torch, liveOcrFps} = useSettings();
+  const device = useCameraDevice(cameraFacing);
+  const cameraRef = useRef<Camera>(null);
+  const [viewSize, setViewSize] = useState<Size | null>(null);
+  const [frameSize, setFrameSize] = useState<Size | null>(null);
+  const [trackedWords, setTrackedWords] = useState<TrackedWord[]>([]);
+  const lastResultRef = useRef<LiveScanResult | null>(null);
+  const warnedRef = useRef(false);
+  const {scanText} = useTextRecognition({language: 'latin'});
+  // Codes in the upright sensor frame, which is `frameSize` pixels
+  const [liveCodes, setLiveCodes] = useState<{codes: DetectedCode[]; frameSize: Size} | null>(null);
+  const codeExpiryRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const codeScanner = useCodeScanner({
+    codeTypes: LIVE_CODE_TYPES,
+    onCodeScanned: (codes, frame) => {
+      setLiveCodes({codes: liveCodesToDetected(codes, frame), frameSize: uprightCodeFrameSize(frame)});
+      if (codeExpiryRef.current) {
+        clearTimeout(codeExpiryRef.current);
+      }
+      codeExpiryRef.current = setTimeout(() => setLiveCodes(null), LIVE_CODE_HOLD_MS);
+    },
+  });
+
+  useEffect(() => () => {
+    if (codeExpiryRef.current) {
+      clearTimeout(codeExpiryRef.current);
+    }
+  }, []);
+
+  const onScanResult = useRunOnJS((result: unknown, width: number, height: number, orientation: FrameOrientation) => {
+    if (!isLiveScanResult(result)) {
+      // Once per session, as this repeats on every frame
+      if (!warnedRef.current) {
+        warnedRef.current = true;
+        log.warn('Live text recognition returned an unexpected result', {type: Array.isArray(result) ? 'array' : typeof result});
+      }
+      return;
+    }
+
+    const upright = uprightFrameSize({width, height}, orientation);
+    lastResultRef.current = result;
+    setFrameSize(current =>
+      current?.width === upright.width && current?.height === upright.height ? current : upright
+    );
+    setTrackedWords(current => updateTrackedWords(current, liveResultToExtractedText(result, upright).words));
+  }, []);
+
+  const frameProcessor = useFrameProcessor(frame => {
+    'worklet';
+    runAtTargetFps(liveOcrFps, () => {
+      'worklet';
+      onScanResult(scanText(frame), frame.width, frame.height, frame.orientation);
+    });
+  }, [scanText, onScanResult, liveOcrFps]);
+
+  const visibleWords = useMemo(() => visibleTrackedWords(trackedWords), [trackedWords]);
+
+  // The preview fills the view like an Image with resizeMode="cover"
+  const transform = useMemo(() => viewSize && frameSize && createImageToViewTransform({
+    sourceSize: frameSize,
+    viewSize,
+    resizeMode: 'cover',
+  }), [viewSize, frameSize]);
+
+  const codeTransform = useMemo(() => viewSize && liveCodes && createImageToViewTransform({
+    sourceSize: liveCodes.frameSize,
+    viewSize,
+    resizeMode: 'cover',
+  }), [viewSize, liveCodes]);
+
+  useImperativeHandle(ref, () => ({
+    freeze: async () => {
+      if (!cameraRef.current || !frameSize) {
+        return null;
+      }
+
+      const snapshot = await cameraRef.current.takeSnapshot({quality: 85});
+      const snapshotSize = {width: snapshot.width, height: snapshot.height};
+      // Snapshots are either the full frame (iOS) or the visible preview
+      // (Android); mapping with cover handles both, cropping where needed.
+      const toSnapshot = createImageToViewTransform({sourceSize: frameSize, viewSize: snapshotSize, resizeMode: 'cover'});
+      const extractedText = liveResultToExtractedText(lastResultRef.current || {}, snapshotSize);
+
+      extractedText.words = visibleWords.map(word => {
+        const vertices = mapQuadToView(word.vertices, toSnapshot);
+        return {id: word.id, text: word.text, ...boundingRect(vertices), vertices};
+      });
+
+      if (liveCodes?.codes.length) {
+        const codesToSnapshot = createImageToViewTransform({sourceSize: liveCodes.frameSize, viewSize: snapshotSize, resizeMode: 'cover'});
+        extractedText.codes = liveCodes.codes.map(code => ({...code, vertices: mapQuadToView(code.vertices, codesToSnapshot)}));
+        log.info('Froze live codes', {count: extractedText.codes.length});
+      }
+
+      return {imageUri: `file://${snapshot.path}`, extractedText};
+    },
+  }), [frameSize, visibleWords, liveCodes]);
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    const {width, height} = event.nativeEvent.layout;
+    setViewSize({width, height});
+  };
+
+  if (!device) {
+    return (
+      <View style={styles.unavailable}>
+        <Text style={styles.unavailableText}>No camera available for live scanning</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={StyleSheet.absoluteFill} onLayout={onLayout}>
+      <Camera
+        ref={cameraRef}
+        style={StyleSheet.absoluteFill}
+        device={device}
+        isActive={true}
+        torch={torch && device.hasTorch ? "on" : "off"}
+        video={true}
+        pixelFormat="yuv"
+        resizeMode="cover"
+        frameProcessor={frameProcessor}
+        codeScanner={scansLiveCodes ? codeScanner : undefined}
+      />
+      {transform && visibleWords.map(word => {
+        const box = convertToScreenCoordinates(word.vertices, transform);
+        if (!box) {
+          return null;
+        }
+
+        return (
+          <View
+            key={word.id}
+            pointerEvents="none"
+            style={[
+              styles.liveBox,
+              {
+                left: box.x,
+                top: box.y,
+                width: box.width,
+                height: box.height,
+                transform: [{rotate: `${box.angle}deg`}],
+              },
+            ]}
+          />
+        );
+      })}
+      {codeTransform && liveCodes && <CodeOverlay codes={liveCodes.codes} transform={codeTransform} />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  liveBox: {
+    position: "absolute",
+    borderWidth: 2,
+    borderColor: "#33B5E5",
+    backgroundColor: "rgba(51, 181, 229, 0.15)",
+    borderRadius: 3,
+  },
+  unavailable: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "black",
+  },
+  unavailableText: {
+    color: "white",
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,380 @@
+import {CameraView} from "expo-camera";
+import {useCallback, useEffect, useRef, useState} from "react";
+import {Alert, Image, ScrollView, StyleSheet, Text, TouchableOpacity, View} from "react-native";
+import {createLogger} from './services/logger';
+import {OcrProvider} from './services/ocrProvider';
+import {recognizeImage} from './services/ocrPipeline';
+import {toOcrError} from './services/ocrErrors';
+import {
+  createSessionPage,
+  isSessionSettled,
+  moveSessionPage,
+  removeSessionPage,
+  replaceSessionPage,
+  SessionPage,
+  SessionPageStatus,
+  updateSessionPage,
+} from './services/scanSession';
+import {getSettings, useSettings} from './services/settings';
+import {createTaskQueue} from './services/taskQueue';
+import {OcrMode} from './services/types';
+
+const log = createLogger('session');
+
+// Pages recognised at the same time; more would mostly wait on the network
+const SESSION_OCR_CONCURRENCY = 2;
+
+const STATUS_LABELS: Record<SessionPageStatus, string> = {
+  queued: "⏳",
+  recognizing: "🔍",
+  done: "✅",
+  failed: "⚠️",
+};
+
+// Capture many pages in a row. Each page is queued for OCR as soon as it's
+// taken; pages can be reordered, retaken or removed while the queue runs.
+// `initialImageUris` starts the session with imported pages, e.g. from a PDF.
+export default function ScanSession({ocrProvider, ocrMode, initialImageUris = [], onCancel, onComplete}: {
+  ocrProvider: OcrProvider;
+  ocrMode: OcrMode;
+  initialImageUris?: string[];
+  onCancel: () => void;
+  onComplete: (pages: SessionPage[]) => void;
+}) {
+  const cameraRef = useRef<CameraView>(null);
+  const [initialPages] = useState(() => initialImageUris.map(uri => createSessionPage(uri)));
+  const [pages, setPages] = useState<SessionPage[]>(initialPages);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [retakeId, setRetakeId] = useState<string | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const queueRef = useRef(createTaskQueue(SESSION_OCR_CONCURRENCY));
+  // One controller per page still waiting or in flight, so removing it stops the work
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  const settings = useSettings();
+
+  useEffect(() => {
+    const controllers = abortControllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const cancelPage = (id: string) => {
+    abortControllersRef.current.get(id)?.abort();
+    abortControllersRef.current.delete(id);
+  };
+
+  const enqueuePage = useCallback((page: SessionPage) => {
+    const controller = new AbortController();
+    abortControllersRef.current.set(page.id, controller);
+
+    queueRef.current
+      .run(() => {
+        setPages(current => updateSessionPage(current, page.id, {status: 'recognizing'}));
+        // Read when the page's turn comes, so a settings change doesn't re-queue pages
+        const {languageHints, maxResults} = getSettings();
+        return recognizeImage(ocrProvider, page.imageUri, {mode: ocrMode, signal: controller.signal, languageHints, maxResults});
+      }, controller.signal)
+      .then(result => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        log.info('Session page recognised', {pageId: page.id, wordCount: result.extractedText.words.length});
+        setPages(current => updateSessionPage(current, page.id, {
+          status: 'done',
+          extractedText: result.extractedText,
+          timings: {...page.timings, ...result.timings},
+        }));
+      })
+      .catch(error => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        const ocrError = toOcrError(error);
+        log.warn('Session page failed', {pageId: page.id, kind: ocrError.kind, message: ocrError.message});
+        setPages(current => updateSessionPage(current, page.id, {status: 'failed', error: ocrError.message}));
+      })
+      .finally(() => {
+        if (abortControllersRef.current.get(page.id) === controller) {
+          abortControllersRef.current.delete(page.id);
+        }
+      });
+  }, [ocrProvider, ocrMode]);
+
+  // Imported pages start recognising straight away, once: enqueuePage changes
+  // with the provider and mode, and those pages are already in the queue
+  const initialPagesEnqueuedRef = useRef(false);
+  useEffect(() => {
+    if (initialPagesEnqueuedRef.current) {
+      return;
+    }
+    initialPagesEnqueuedRef.current = true;
+    initialPages.forEach(enqueuePage);
+  }, [initialPages, enqueuePage]);
+
+  const capturePage = async () => {
+    if (!cameraRef.current || isCapturing) {
+      return;
+    }
+
+    setIsCapturing(true);
+    try {
+      const captureStartTime = Date.now();
+      const photo = await cameraRef.current.takePictureAsync({quality: settings.captureQuality, base64: false});
+      if (!photo?.uri) {
+        Alert.alert('Error', 'Failed to capture photo. Please try again.');
+        return;
+      }
+
+      const page = createSessionPage(photo.uri, {captureMs: Date.now() - captureStartTime});
+      if (retakeId) {
+        log.info('Retook session page', {pageId: retakeId});
+        cancelPage(retakeId);
+        setPages(current => replaceSessionPage(current, retakeId, page));
+        setRetakeId(null);
+      } else {
+        log.info('Added session page', {pageId: page.id});
+        setPages(current => [...current, page]);
+      }
+      setSelectedId(page.id);
+      enqueuePage(page);
+    } catch (error) {
+      log.error('Failed to capture session page', {error});
+      Alert.alert('Error', 'Failed to capture photo. Please try again.');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const removePage = (id: string) => {
+    cancelPage(id);
+    setPages(current => removeSessionPage(current, id));
+    setSelectedId(null);
+    setRetakeId(current => (current === id ? null : current));
+  };
+
+  const retryPage = (page: SessionPage) => {
+    setPages(current => updateSessionPage(current, page.id, {status: 'queued', error: undefined}));
+    enqueuePage(page);
+  };
+
+  const cancelSession = () => {
+    if (pages.length === 0) {
+      onCancel();
+      return;
+    }
+    Alert.alert('Discard Pages?', `${pages.length} captured page(s) will be discarded.`, [
+      {text: 'Keep Scanning', style: 'cancel'},
+      {text: 'Discard', style: 'destructive', onPress: onCancel},
+    ]);
+  };
+
+  const selectedIndex = pages.findIndex(page => page.id === selectedId);
+  const selectedPage = selectedIndex >= 0 ? pages[selectedIndex] : null;
+  const settled = isSessionSettled(pages);
+  const remaining = pages.filter(page => page.status === 'queued' || page.status === 'recognizing').length;
+  const hasResults = pages.some(page => page.status === 'done');
+
+  return (
+    <View style={styles.container}>
+      <CameraView
+        ref={cameraRef}
+        style={StyleSheet.absoluteFill}
+        facing={settings.cameraFacing}
+        flash={settings.flash}
+        enableTorch={settings.torch}
+      />
+
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={cancelSession}>
+          <Text style={styles.headerButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>
+          {retakeId
+            ? `Retaking page ${pages.findIndex(page => page.id === retakeId) + 1}`
+            : remaining > 0 ? `Recognising ${remaining} of ${pages.length} pages...` : `${pages.length} pages`}
+        </Text>
+        <TouchableOpacity
+          style={[styles.headerButton, (!settled || !hasResults) && styles.headerButtonDisabled]}
+          onPress={() => onComplete(pages)}
+          disabled={!settled || !hasResults}
+        >
+          <Text style={styles.headerButtonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.bottomPanel}>
+        {selectedPage && (
+          <View style={styles.pageActions}>
+            <TouchableOpacity
+              style={styles.pageAction}
+              onPress={() => setPages(current => moveSessionPage(current, selectedPage.id, -1))}
+              disabled={selectedIndex === 0}
+            >
+              <Text style={styles.pageActionText}>◀ Move</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.pageAction}
+              onPress={() => setPages(current => moveSessionPage(current, selectedPage.id, 1))}
+              disabled={selectedIndex === pages.length - 1}
+            >
+              <Text style={styles.pageActionText}>Move ▶</Text>
+            </TouchableOpacity>
+            {selectedPage.status === 'failed' ? (
+              <TouchableOpacity style={styles.pageAction} onPress={() => retryPage(selectedPage)}>
+                <Text style={styles.pageActionText}>Retry</Text>
+              </TouchableOpacity>
+            ) : null}
+            <TouchableOpacity
+              style={[styles.pageAction, retakeId === selectedPage.id && styles.pageActionActive]}
+              onPress={() => setRetakeId(current => (current === selectedPage.id ? null : selectedPage.id))}
+            >
+              <Text style={styles.pageActionText}>Retake</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.pageAction} onPress={() => removePage(selectedPage.id)}>
+              <Text style={[styles.pageActionText, styles.removeText]}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {selectedPage?.error ? <Text style={styles.errorText}>{selectedPage.error}</Text> : null}
+
+        <ScrollView horizontal contentContainerStyle={styles.pageStrip}>
+          {pages.map((page, index) => (
+            <TouchableOpacity
+              key={page.id}
+              style={[styles.thumbnail, page.id === selectedId && styles.thumbnailSelected]}
+              onPress={() => setSelectedId(current => (current === page.id ? null : page.id))}
+            >
+              <Image source={{uri: page.imageUri}} style={styles.thumbnailImage} />
+              <Text style={styles.thumbnailLabel}>{index + 1} {STATUS_LABELS[page.status]}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <TouchableOpacity
+          style={[styles.captureButton, isCapturing && styles.captureButtonDisabled]}
+          onPress={capturePage}
+          disabled={isCapturing}
+        >
+          <Text style={styles.captureButtonText}>
+            {retakeId ? "Retake Page" : `Capture Page ${pages.length + 1}`}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    position: "absolute",
+    top: 60,
+    left: 20,
+    right: 20,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  headerTitle: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "bold",
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    overflow: "hidden",
+  },
+  headerButton: {
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  headerButtonDisabled: {
+    opacity: 0.4,
+  },
+  headerButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+  bottomPanel: {
+    position: "absolute",
+    bottom: 40,
+    left: 0,
+    right: 0,
+    alignItems: "center",
+  },
+  pageActions: {
+    flexDirection: "row",
+    justifyContent: "center",
+    marginBottom: 8,
+  },
+  pageAction: {
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginHorizontal: 3,
+    borderRadius: 14,
+  },
+  pageActionActive: {
+    backgroundColor: "#007AFF",
+  },
+  pageActionText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
+  removeText: {
+    color: "#FF6B6B",
+  },
+  errorText: {
+    color: "#FFBB33",
+    fontSize: 12,
+    marginBottom: 8,
+    paddingHorizontal: 20,
+    textAlign: "center",
+  },
+  pageStrip: {
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  thumbnail: {
+    width: 60,
+    marginRight: 8,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: "transparent",
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+    overflow: "hidden",
+  },
+  thumbnailSelected: {
+    borderColor: "#007AFF",
+  },
+  thumbnailImage: {
+    width: 56,
+    height: 76,
+  },
+  thumbnailLabel: {
+    color: "white",
+    fontSize: 11,
+    textAlign: "center",
+    paddingVertical: 2,
+  },
+  captureButton: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 30,
+    paddingVertical: 15,
+    borderRadius: 25,
+  },
+  captureButtonDisabled: {
+    backgroundColor: "#666",
+  },
+  captureButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+});
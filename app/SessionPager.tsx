@@ -0,0 +1,58 @@
+import {StyleSheet, Text, TouchableOpacity, View} from "react-native";
+
+// Steps through the pages of a finished multi-page session, one at a time
+export default function SessionPager({pageCount, pageIndex, onChange}: {
+  pageCount: number;
+  pageIndex: number;
+  onChange: (pageIndex: number) => void;
+}) {
+  const isFirst = pageIndex === 0;
+  const isLast = pageIndex === pageCount - 1;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.button} onPress={() => onChange(pageIndex - 1)} disabled={isFirst}>
+        <Text style={[styles.buttonText, isFirst && styles.buttonTextDisabled]}>‹</Text>
+      </TouchableOpacity>
+      <Text style={styles.text}>Page {pageIndex + 1} of {pageCount}</Text>
+      <TouchableOpacity style={styles.button} onPress={() => onChange(pageIndex + 1)} disabled={isLast}>
+        <Text style={[styles.buttonText, isLast && styles.buttonTextDisabled]}>›</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    top: 110,
+    left: 20,
+    right: 20,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 10,
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 28,
+    fontWeight: "bold",
+  },
+  buttonTextDisabled: {
+    color: "rgba(255, 255, 255, 0.3)",
+  },
+  text: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "bold",
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    overflow: "hidden",
+  },
+});
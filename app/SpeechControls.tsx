@@ -0,0 +1,185 @@
+import * as Speech from "expo-speech";
+import {useEffect, useMemo, useRef, useState} from "react";
+import {StyleSheet, Text, TouchableOpacity, View} from "react-native";
+import {createLogger} from './services/logger';
+import {buildSpeechScript, SPEECH_RATES, speechChunkEnd, wordIndexAtOffset} from './services/speech';
+import {detectLanguage} from './services/translation';
+import {ExtractedText} from './services/types';
+
+const log = createLogger('speech');
+
+interface VoiceOptions {
+  rate: number;
+  voiceId?: string;
+}
+
+// Reads the text aloud in reading order and reports the word being spoken.
+// Pausing stops the engine and remembers the word, since Android can't pause;
+// playing again picks up from that word, or from the start of the chunk being
+// read when the result has no word geometry.
+export default function SpeechControls({extractedText, onWordChange}: {
+  extractedText: ExtractedText;
+  onWordChange: (wordId: string | null) => void;
+}) {
+  const script = useMemo(() => buildSpeechScript(extractedText), [extractedText]);
+  const language = useMemo(() => detectLanguage(extractedText), [extractedText]);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [rate, setRate] = useState(1);
+  const [voices, setVoices] = useState<Speech.Voice[]>([]);
+  const [voiceId, setVoiceId] = useState<string | undefined>(undefined);
+  // Offset in the script to continue from, and the current utterance, so callbacks of a stopped one are ignored
+  const positionRef = useRef(0);
+  const utteranceRef = useRef(0);
+  const onWordChangeRef = useRef(onWordChange);
+  onWordChangeRef.current = onWordChange;
+
+  useEffect(() => {
+    Speech.getAvailableVoicesAsync()
+      .then(available => setVoices(available.filter(voice => !language || voice.language.startsWith(language))))
+      .catch(error => log.error('Failed to list voices', {error}));
+  }, [language]);
+
+  // A new text starts from the top; leaving stops the voice
+  useEffect(() => {
+    const utterances = utteranceRef;
+    positionRef.current = 0;
+    return () => {
+      utterances.current++;
+      setIsSpeaking(false);
+      onWordChangeRef.current(null);
+      Speech.stop();
+    };
+  }, [script]);
+
+  const speakFrom = (start: number, voiceOptions: VoiceOptions = {rate, voiceId}) => {
+    const utterance = ++utteranceRef.current;
+    positionRef.current = start;
+    // Long text is read in chunks the engine accepts
+    const end = speechChunkEnd(script.text, start, Speech.maxSpeechInputLength);
+
+    setIsSpeaking(true);
+    Speech.speak(script.text.slice(start, end), {
+      rate: voiceOptions.rate,
+      voice: voiceOptions.voiceId,
+      language: language || undefined,
+      onBoundary: (event: {charIndex: number}) => {
+        if (utterance !== utteranceRef.current || script.words.length === 0) {
+          return;
+        }
+        const word = script.words[wordIndexAtOffset(script, start + event.charIndex)];
+        positionRef.current = word.start;
+        onWordChangeRef.current(word.id);
+      },
+      onDone: () => {
+        if (utterance !== utteranceRef.current) {
+          return;
+        }
+        if (end < script.text.length) {
+          speakFrom(end, voiceOptions);
+          return;
+        }
+        positionRef.current = 0;
+        setIsSpeaking(false);
+        onWordChangeRef.current(null);
+      },
+      onError: error => {
+        log.error('Speech failed', {error});
+        setIsSpeaking(false);
+      },
+    });
+  };
+
+  const pause = () => {
+    utteranceRef.current++;
+    setIsSpeaking(false);
+    Speech.stop();
+  };
+
+  // Changing speed or voice mid-sentence restarts from the current word
+  const changeVoice = (voiceOptions: VoiceOptions) => {
+    setRate(voiceOptions.rate);
+    setVoiceId(voiceOptions.voiceId);
+    if (isSpeaking) {
+      Speech.stop();
+      speakFrom(positionRef.current, voiceOptions);
+    }
+  };
+
+  const cycleVoice = () => {
+    const index = voices.findIndex(voice => voice.identifier === voiceId);
+    changeVoice({rate, voiceId: voices[(index + 1) % voices.length]?.identifier});
+  };
+
+  const voiceName = voices.find(voice => voice.identifier === voiceId)?.name || "Default voice";
+
+  return (
+    <View style={styles.bar}>
+      <TouchableOpacity
+        style={styles.playButton}
+        onPress={() => (isSpeaking ? pause() : speakFrom(positionRef.current))}
+      >
+        <Text style={styles.playButtonText}>{isSpeaking ? "⏸" : "🔊"}</Text>
+      </TouchableOpacity>
+      {SPEECH_RATES.map(option => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.chip, rate === option && styles.chipActive]}
+          onPress={() => changeVoice({rate: option, voiceId})}
+        >
+          <Text style={[styles.chipText, rate === option && styles.chipTextActive]}>{option}×</Text>
+        </TouchableOpacity>
+      ))}
+      {voices.length > 1 && (
+        <TouchableOpacity style={[styles.chip, styles.voiceChip]} onPress={cycleVoice}>
+          <Text style={styles.chipText} numberOfLines={1}>{voiceName}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.8)",
+    borderRadius: 22,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: "#007AFF",
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 6,
+  },
+  playButtonText: {
+    fontSize: 16,
+  },
+  chip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginHorizontal: 2,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.6)",
+  },
+  chipActive: {
+    backgroundColor: "white",
+  },
+  chipText: {
+    color: "white",
+    fontSize: 11,
+    fontWeight: "bold",
+  },
+  chipTextActive: {
+    color: "#007AFF",
+  },
+  voiceChip: {
+    flexShrink: 1,
+    marginLeft: 6,
+  },
+});
@@ -0,0 +1,52 @@
+import {StyleSheet, Text, View} from "react-native";
+import {languageLabel, Translation} from './services/translation';
+
+// The original text and its translation side by side, a line per row
+export default function TranslatedText({translation}: {translation: Translation}) {
+  return (
+    <View style={styles.table}>
+      <View style={styles.row}>
+        <Text style={[styles.cell, styles.header]}>{languageLabel(translation.source)}</Text>
+        <Text style={[styles.cell, styles.header]}>{languageLabel(translation.target)}</Text>
+      </View>
+      {translation.lines.map((line, index) => (
+        <View key={`line-${index}`} style={styles.row}>
+          <Text style={[styles.cell, styles.original]} selectable={true}>{line.original}</Text>
+          <Text style={[styles.cell, styles.translated]} selectable={true}>{line.translated}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  table: {
+    width: '100%',
+  },
+  row: {
+    flexDirection: "row",
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "rgba(255, 255, 255, 0.2)",
+    paddingVertical: 6,
+  },
+  cell: {
+    flex: 1,
+    paddingHorizontal: 4,
+  },
+  header: {
+    color: "rgba(255, 255, 255, 0.6)",
+    fontSize: 12,
+    fontWeight: "bold",
+    textTransform: "uppercase",
+  },
+  original: {
+    color: "rgba(255, 255, 255, 0.7)",
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  translated: {
+    color: 'white',
+    fontSize: 15,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,52 @@
+import {StyleSheet, Text, View} from "react-native";
+import {ImageToViewTransform, mapPointToView} from './services/coordinates';
+import {Translation} from './services/translation';
+
+// Draws each translated line over the words it replaces, like a sign read
+// through the camera in the target language
+export default function TranslationOverlay({translation, transform}: {
+  translation: Translation;
+  transform: ImageToViewTransform;
+}) {
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none">
+      {translation.lines.map((line, index) => {
+        if (!line.box) {
+          return null;
+        }
+
+        const topLeft = mapPointToView({x: line.box.x, y: line.box.y}, transform);
+        const bottomRight = mapPointToView({x: line.box.x + line.box.width, y: line.box.y + line.box.height}, transform);
+        const height = bottomRight.y - topLeft.y;
+        return (
+          <View
+            key={`line-${index}`}
+            style={[styles.line, {left: topLeft.x, top: topLeft.y, width: bottomRight.x - topLeft.x, height}]}
+          >
+            <Text
+              style={[styles.lineText, {fontSize: Math.max(8, height * 0.75)}]}
+              numberOfLines={1}
+              adjustsFontSizeToFit={true}
+            >
+              {line.translated}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  line: {
+    position: "absolute",
+    justifyContent: "center",
+    backgroundColor: "rgba(255, 255, 255, 0.92)",
+    borderRadius: 2,
+    zIndex: 5,
+  },
+  lineText: {
+    color: "#000",
+    paddingHorizontal: 2,
+  },
+});
@@ -0,0 +1,109 @@
+import {useRef, useState} from "react";
+import {PanResponder, StyleSheet, View} from "react-native";
+import {ImageToViewTransform, mapPointFromView, Point} from './services/coordinates';
+import {ExtractedWord} from './services/types';
+import {wordAtPoint, wordsInLasso} from './services/wordSelection';
+
+// Finger travel (in points) below which a touch counts as a tap, not a lasso
+const TAP_SLOP = 10;
+// Minimum spacing of recorded lasso points, to keep the path short
+const LASSO_POINT_SPACING = 6;
+
+// Sits over the word boxes: tapping a word toggles it, dragging draws a lasso
+// that adds every word inside it to the selection
+export default function WordSelectionLayer({words, transform, selectedIds, onChangeSelection}: {
+  words: ExtractedWord[];
+  transform: ImageToViewTransform;
+  selectedIds: Set<string>;
+  onChangeSelection: (selectedIds: Set<string>) => void;
+}) {
+  const [lasso, setLasso] = useState<Point[]>([]);
+
+  // The responder is created once, so it reads the latest values through refs
+  const latestRef = useRef({words, transform, selectedIds, onChangeSelection});
+  latestRef.current = {words, transform, selectedIds, onChangeSelection};
+  const pathRef = useRef<Point[]>([]);
+
+  const panResponder = useRef(PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onPanResponderGrant: event => {
+      const {locationX, locationY} = event.nativeEvent;
+      pathRef.current = [{x: locationX, y: locationY}];
+    },
+    // Locations are in the layer's own space, so the path stays right while the image is zoomed
+    onPanResponderMove: event => {
+      const path = pathRef.current;
+      const point = {x: event.nativeEvent.locationX, y: event.nativeEvent.locationY};
+      const last = path[path.length - 1];
+      if (Math.hypot(point.x - last.x, point.y - last.y) >= LASSO_POINT_SPACING) {
+        pathRef.current = [...path, point];
+        setLasso(pathRef.current);
+      }
+    },
+    onPanResponderRelease: (_event, gesture) => {
+      const {words, transform, selectedIds, onChangeSelection} = latestRef.current;
+      const path = pathRef.current;
+      const next = new Set(selectedIds);
+
+      if (Math.hypot(gesture.dx, gesture.dy) < TAP_SLOP) {
+        const word = wordAtPoint(words, mapPointFromView(path[0], transform));
+        if (!word) {
+          return;
+        }
+        if (next.has(word.id)) {
+          next.delete(word.id);
+        } else {
+          next.add(word.id);
+        }
+      } else {
+        const polygon = path.map(point => mapPointFromView(point, transform));
+        wordsInLasso(words, polygon).forEach(word => next.add(word.id));
+      }
+
+      pathRef.current = [];
+      setLasso([]);
+      onChangeSelection(next);
+    },
+    onPanResponderTerminate: () => {
+      pathRef.current = [];
+      setLasso([]);
+    },
+  })).current;
+
+  return (
+    <View style={styles.layer} {...panResponder.panHandlers}>
+      {lasso.slice(1).map((point, index) => {
+        const previous = lasso[index];
+        const length = Math.hypot(point.x - previous.x, point.y - previous.y);
+        const angle = Math.atan2(point.y - previous.y, point.x - previous.x);
+        return (
+          <View
+            key={index}
+            pointerEvents="none"
+            style={[
+              styles.lassoSegment,
+              {
+                left: (previous.x + point.x) / 2 - length / 2,
+                top: (previous.y + point.y) / 2 - 1,
+                width: length,
+                transform: [{rotate: `${angle}rad`}],
+              },
+            ]}
+          />
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  layer: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 6,
+  },
+  lassoSegment: {
+    position: "absolute",
+    height: 2,
+    backgroundColor: "#33B5E5",
+  },
+});
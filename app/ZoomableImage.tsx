@@ -0,0 +1,159 @@
+import {createContext, ReactNode, useContext, useMemo} from "react";
+import {Image, StyleProp, StyleSheet, View, ViewStyle} from "react-native";
+import {Gesture, GestureDetector} from "react-native-gesture-handler";
+import Animated, {SharedValue, useAnimatedStyle, useSharedValue, withTiming} from "react-native-reanimated";
+import {
+  clampViewport,
+  displayedImageRect,
+  IDENTITY_VIEWPORT,
+  ImageToViewTransform,
+  ResizeMode,
+  Size,
+  Viewport,
+  visibleContentRect,
+  zoomViewportAt,
+} from './services/coordinates';
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+// Zoom a double tap jumps to when the image isn't zoomed in yet
+const DOUBLE_TAP_ZOOM = 2.5;
+const MINIMAP_WIDTH = 90;
+
+const ZoomScaleContext = createContext<SharedValue<number> | null>(null);
+
+// Keeps its children the same size on screen however far the image is zoomed,
+// e.g. word labels that would otherwise grow unreadably large
+export function CounterScaled({style, children}: {style?: StyleProp<ViewStyle>; children: ReactNode}) {
+  const scale = useContext(ZoomScaleContext);
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{scale: scale ? 1 / scale.value : 1}],
+  }));
+
+  return <Animated.View style={[style, styles.counterScaled, animatedStyle]}>{children}</Animated.View>;
+}
+
+// The captured image with pinch-zoom, two-finger pan and double-tap zoom.
+// Children are drawn in the image's unzoomed view space and move with it, so
+// overlays placed with `transform` stay on their words. One-finger touches are
+// left to the children, e.g. for selecting words.
+export default function ZoomableImage({imageUri, transform, viewSize, resizeMode, children}: {
+  imageUri: string;
+  transform: ImageToViewTransform;
+  viewSize: Size;
+  resizeMode: ResizeMode;
+  children?: ReactNode;
+}) {
+  const scale = useSharedValue(IDENTITY_VIEWPORT.scale);
+  const translateX = useSharedValue(IDENTITY_VIEWPORT.translateX);
+  const translateY = useSharedValue(IDENTITY_VIEWPORT.translateY);
+  const pinchStart = useSharedValue({viewport: IDENTITY_VIEWPORT, focalX: 0, focalY: 0});
+  const content = useMemo(() => displayedImageRect(transform), [transform]);
+
+  const gesture = useMemo(() => {
+    const setViewport = (viewport: Viewport, animate: boolean) => {
+      'worklet';
+      const clamped = clampViewport(viewport, viewSize, content, MIN_ZOOM, MAX_ZOOM);
+      scale.value = animate ? withTiming(clamped.scale) : clamped.scale;
+      translateX.value = animate ? withTiming(clamped.translateX) : clamped.translateX;
+      translateY.value = animate ? withTiming(clamped.translateY) : clamped.translateY;
+    };
+
+    // Pinching zooms about the fingers, and moving them together pans
+    const pinch = Gesture.Pinch()
+      .onStart(event => {
+        pinchStart.value = {
+          viewport: {scale: scale.value, translateX: translateX.value, translateY: translateY.value},
+          focalX: event.focalX,
+          focalY: event.focalY,
+        };
+      })
+      .onUpdate(event => {
+        const start = pinchStart.value;
+        const zoomed = zoomViewportAt(start.viewport, {x: start.focalX, y: start.focalY}, start.viewport.scale * event.scale, viewSize);
+        setViewport({
+          scale: zoomed.scale,
+          translateX: zoomed.translateX + event.focalX - start.focalX,
+          translateY: zoomed.translateY + event.focalY - start.focalY,
+        }, false);
+      });
+
+    const doubleTap = Gesture.Tap()
+      .numberOfTaps(2)
+      .onEnd(event => {
+        const current = {scale: scale.value, translateX: translateX.value, translateY: translateY.value};
+        setViewport(
+          current.scale > MIN_ZOOM ? IDENTITY_VIEWPORT : zoomViewportAt(current, {x: event.x, y: event.y}, DOUBLE_TAP_ZOOM, viewSize),
+          true
+        );
+      });
+
+    return Gesture.Simultaneous(pinch, doubleTap);
+  }, [viewSize, content, scale, translateX, translateY, pinchStart]);
+
+  const zoomStyle = useAnimatedStyle(() => ({
+    transform: [{translateX: translateX.value}, {translateY: translateY.value}, {scale: scale.value}],
+  }));
+
+  // The minimap shows the whole image with the part on screen outlined
+  const minimapScale = MINIMAP_WIDTH / Math.max(1, content.width);
+  const minimapStyle = useAnimatedStyle(() => ({
+    opacity: scale.value > MIN_ZOOM + 0.01 ? 1 : 0,
+  }));
+  const minimapRegionStyle = useAnimatedStyle(() => {
+    const visible = visibleContentRect(
+      {scale: scale.value, translateX: translateX.value, translateY: translateY.value},
+      viewSize,
+      content
+    );
+    return {
+      left: (visible.x - content.x) * minimapScale,
+      top: (visible.y - content.y) * minimapScale,
+      width: visible.width * minimapScale,
+      height: visible.height * minimapScale,
+    };
+  });
+
+  return (
+    <ZoomScaleContext.Provider value={scale}>
+      <GestureDetector gesture={gesture}>
+        <View style={StyleSheet.absoluteFill}>
+          <Animated.View style={[StyleSheet.absoluteFill, zoomStyle]}>
+            <Image source={{uri: imageUri}} style={StyleSheet.absoluteFill} resizeMode={resizeMode} />
+            {children}
+          </Animated.View>
+        </View>
+      </GestureDetector>
+
+      <Animated.View
+        pointerEvents="none"
+        style={[styles.minimap, {height: content.height * minimapScale}, minimapStyle]}
+      >
+        <Image source={{uri: imageUri}} style={StyleSheet.absoluteFill} resizeMode="stretch" />
+        <Animated.View style={[styles.minimapRegion, minimapRegionStyle]} />
+      </Animated.View>
+    </ZoomScaleContext.Provider>
+  );
+}
+
+const styles = StyleSheet.create({
+  counterScaled: {
+    transformOrigin: "left bottom",
+  },
+  minimap: {
+    position: "absolute",
+    top: 160,
+    right: 20,
+    width: MINIMAP_WIDTH,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.8)",
+    backgroundColor: "black",
+    overflow: "hidden",
+    zIndex: 10,
+  },
+  minimapRegion: {
+    position: "absolute",
+    borderWidth: 2,
+    borderColor: "#33B5E5",
+  },
+});
@@ -1,5 +1,91 @@
-import { Stack } from "expo-router";
+import { Link, Stack } from "expo-router";
+import { ShareIntentProvider } from "expo-share-intent";
+import { useEffect, useState } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { GestureHandlerRootView } from "react-native-gesture-handler";
+import { ocrQueue } from "./services/ocrQueue";
+import { loadSettings } from "./services/settings";
 
 export default function RootLayout() {
-  return <Stack />;
+  // Screens read the settings as they mount, so none are shown until the
+  // stored ones have replaced the defaults
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+
+  // Scans queued while offline are recognised whenever the network comes
+  // back, with the stored language hints, result limit and encoding, so the
+  // queue only starts once the settings have been read
+  useEffect(() => {
+    let stopQueue: (() => void) | null = null;
+    let unmounted = false;
+    loadSettings().then(() => {
+      if (!unmounted) {
+        setSettingsLoaded(true);
+        stopQueue = ocrQueue.start();
+      }
+    });
+    return () => {
+      unmounted = true;
+      stopQueue?.();
+    };
+  }, []);
+
+  if (!settingsLoaded) {
+    return null;
+  }
+
+  return (
+    // Gestures such as pinch-zoom on the captured image need the root view
+    <GestureHandlerRootView style={styles.root}>
+      {/* Receives images and PDFs shared from other apps; see app/+native-intent.tsx */}
+      <ShareIntentProvider>
+        <Stack>
+          <Stack.Screen
+            name="index"
+            options={{
+              title: "Scan",
+              headerRight: () => (
+                <View style={styles.headerLinks}>
+                  <Link href="/settings" style={styles.headerLink}>
+                    <Text style={styles.headerLinkText}>Settings</Text>
+                  </Link>
+                  <Link href="/history" style={styles.headerLink}>
+                    <Text style={styles.headerLinkText}>History</Text>
+                  </Link>
+                </View>
+              ),
+            }}
+          />
+          <Stack.Screen
+            name="history"
+            options={{
+              title: "History",
+              headerRight: () => (
+                <Link href="/debug" style={styles.headerLink}>
+                  <Text style={styles.headerLinkText}>Logs</Text>
+                </Link>
+              ),
+            }}
+          />
+          <Stack.Screen name="debug" options={{ title: "Logs" }} />
+          <Stack.Screen name="settings" options={{ title: "Settings" }} />
+        </Stack>
+      </ShareIntentProvider>
+    </GestureHandlerRootView>
+  );
 }
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+  headerLinks: {
+    flexDirection: "row",
+  },
+  headerLink: {
+    paddingHorizontal: 8,
+  },
+  headerLinkText: {
+    color: "#007AFF",
+    fontSize: 16,
+  },
+});
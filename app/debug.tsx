@@ -0,0 +1,187 @@
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import {useEffect, useMemo, useState} from "react";
+import {Alert, FlatList, StyleSheet, Text, TouchableOpacity, View} from "react-native";
+import {
+  clearLogEntries,
+  formatLogEntries,
+  getLogEntries,
+  LOG_LEVELS,
+  LogEntry,
+  LogLevel,
+  subscribeToLogs,
+} from './services/logger';
+import {isSimulatedNetwork} from './services/network';
+import {ocrQueue} from './services/ocrQueue';
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: "#888",
+  info: "#007AFF",
+  warn: "#FF8800",
+  error: "#CC0000",
+};
+
+const LEVEL_RANK = Object.fromEntries(LOG_LEVELS.map((level, index) => [level, index])) as Record<LogLevel, number>;
+
+// Present when EXPO_PUBLIC_SIMULATED_NETWORK replaces the real connectivity
+const simulatedNetwork = isSimulatedNetwork(ocrQueue.network) ? ocrQueue.network : null;
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+// Write the buffered entries to a file and hand it to the share sheet
+const shareLogs = async (entries: LogEntry[]) => {
+  const uri = `${FileSystem.cacheDirectory}logs-${Date.now()}.jsonl`;
+  await FileSystem.writeAsStringAsync(uri, formatLogEntries(entries));
+  await Sharing.shareAsync(uri, {mimeType: 'text/plain', dialogTitle: 'Share logs'});
+};
+
+// The most recent log entries, newest first, for diagnosing a problem on a device
+export default function Debug() {
+  const [entries, setEntries] = useState<LogEntry[]>(getLogEntries);
+  const [minimumLevel, setMinimumLevel] = useState<LogLevel>('debug');
+  const [simulatedOnline, setSimulatedOnline] = useState<boolean | null>(null);
+
+  useEffect(() => subscribeToLogs(() => setEntries(getLogEntries())), []);
+
+  useEffect(() => {
+    if (!simulatedNetwork) {
+      return;
+    }
+    simulatedNetwork.isOnline().then(setSimulatedOnline);
+    return simulatedNetwork.subscribe(setSimulatedOnline);
+  }, []);
+
+  const visibleEntries = useMemo(
+    () => entries.filter(entry => LEVEL_RANK[entry.level] >= LEVEL_RANK[minimumLevel]).reverse(),
+    [entries, minimumLevel]
+  );
+
+  const exportLogs = () => {
+    shareLogs(entries).catch(error => Alert.alert('Export Failed', error instanceof Error ? error.message : String(error)));
+  };
+
+  return (
+    <View style={styles.container}>
+      {simulatedNetwork && simulatedOnline !== null && (
+        <View style={styles.toolbar}>
+          <Text style={styles.networkText}>Simulated network: {simulatedOnline ? "online" : "offline"}</Text>
+          <View style={styles.toolbarSpacer} />
+          <TouchableOpacity onPress={() => simulatedNetwork.setOnline(!simulatedOnline)}>
+            <Text style={styles.toolbarButton}>{simulatedOnline ? "Go Offline" : "Go Online"}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      <View style={styles.toolbar}>
+        {LOG_LEVELS.map(level => (
+          <TouchableOpacity
+            key={level}
+            style={[styles.levelChip, minimumLevel === level && styles.levelChipActive]}
+            onPress={() => setMinimumLevel(level)}
+          >
+            <Text style={[styles.levelChipText, minimumLevel === level && styles.levelChipTextActive]}>{level}</Text>
+          </TouchableOpacity>
+        ))}
+        <View style={styles.toolbarSpacer} />
+        <TouchableOpacity onPress={exportLogs} disabled={entries.length === 0}>
+          <Text style={styles.toolbarButton}>Share</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={clearLogEntries}>
+          <Text style={styles.toolbarButton}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+      <FlatList
+        data={visibleEntries}
+        keyExtractor={(entry, index) => `${entry.timestamp}-${index}`}
+        contentContainerStyle={visibleEntries.length === 0 && styles.emptyContainer}
+        ListEmptyComponent={<Text style={styles.emptyText}>No log entries</Text>}
+        renderItem={({item: entry}) => (
+          <View style={styles.row}>
+            <Text style={styles.meta}>
+              {formatTime(entry.timestamp)} <Text style={{color: LEVEL_COLORS[entry.level]}}>{entry.level.toUpperCase()}</Text> {entry.namespace}
+            </Text>
+            <Text style={[styles.message, entry.metric && styles.metric]}>{entry.message}</Text>
+            {entry.data && (
+              <Text style={styles.data} numberOfLines={6}>{JSON.stringify(entry.data)}</Text>
+            )}
+          </View>
+        )}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "white",
+  },
+  toolbar: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#DDD",
+  },
+  levelChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginRight: 6,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#007AFF",
+  },
+  levelChipActive: {
+    backgroundColor: "#007AFF",
+  },
+  levelChipText: {
+    color: "#007AFF",
+    fontSize: 12,
+  },
+  levelChipTextActive: {
+    color: "white",
+  },
+  networkText: {
+    color: "#222",
+    fontSize: 14,
+  },
+  toolbarSpacer: {
+    flex: 1,
+  },
+  toolbarButton: {
+    color: "#007AFF",
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  emptyContainer: {
+    flexGrow: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  emptyText: {
+    color: "#888",
+    fontSize: 16,
+  },
+  row: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#EEE",
+  },
+  meta: {
+    color: "#888",
+    fontSize: 11,
+  },
+  message: {
+    color: "#222",
+    fontSize: 14,
+  },
+  metric: {
+    fontWeight: "bold",
+  },
+  data: {
+    color: "#555",
+    fontSize: 11,
+    fontFamily: "monospace",
+  },
+});
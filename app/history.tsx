@@ -0,0 +1,240 @@
+import {useFocusEffect, useRouter} from "expo-router";
+import {useCallback, useEffect, useMemo, useState} from "react";
+import {Alert, FlatList, Image, StyleSheet, Text, TextInput, TouchableOpacity, View} from "react-native";
+import {createLogger} from './services/logger';
+import {OCR_PROVIDERS} from './services/ocrProvider';
+import {ocrQueue, QueuedScan, QueuedScanStatus} from './services/ocrQueue';
+import {deleteScan, listScans, matchSnippet, ScanSummary, searchScans} from './services/scanHistory';
+
+const log = createLogger('history');
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const QUEUE_STATUS_LABELS: Record<QueuedScanStatus, string> = {
+  pending: "⏳ Pending — waiting for a connection",
+  recognizing: "🔍 Recognising…",
+  failed: "⚠️ Failed",
+};
+
+export default function History() {
+  const router = useRouter();
+  const [scans, setScans] = useState<ScanSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  // Scans captured offline, not yet recognised
+  const [queued, setQueued] = useState<QueuedScan[]>([]);
+
+  const loadScans = useCallback(() => {
+    listScans()
+      .then(setScans)
+      .catch(error => {
+        log.error('Failed to load scan history', {error});
+        Alert.alert('Error', 'Failed to load scan history.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const loadQueue = useCallback(() => {
+    ocrQueue.list()
+      .then(setQueued)
+      .catch(error => log.error('Failed to load queued scans', {error}));
+  }, []);
+
+  // Reload whenever the screen comes back into view, e.g. after a new capture
+  useFocusEffect(loadScans);
+  useFocusEffect(loadQueue);
+
+  // Queued scans change state in the background and land in history when done
+  useEffect(() => ocrQueue.subscribe(() => {
+    loadQueue();
+    loadScans();
+  }), [loadQueue, loadScans]);
+
+  const results = useMemo(() => searchScans(scans, query), [scans, query]);
+
+  const openScan = (scan: ScanSummary) => {
+    log.info('Opening scan from history', {scanId: scan.id});
+    router.navigate({pathname: '/', params: {scanId: scan.id}});
+  };
+
+  const confirmDelete = (scan: ScanSummary) => {
+    Alert.alert('Delete Scan', 'This removes the photo and its extracted text.', [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          setScans(current => current.filter(item => item.id !== scan.id));
+          deleteScan(scan.id).catch(error => {
+            log.error('Failed to delete scan', {scanId: scan.id, error});
+            loadScans();
+          });
+        },
+      },
+    ]);
+  };
+
+  const confirmRemoveQueued = (scan: QueuedScan) => {
+    Alert.alert('Remove Scan', "This photo hasn't been recognised yet and will be discarded.", [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => {
+          ocrQueue.remove(scan.id).catch(error => log.error('Failed to remove queued scan', {queueId: scan.id, error}));
+        },
+      },
+    ]);
+  };
+
+  const retryQueue = () => {
+    ocrQueue.retry().catch(error => log.error('Failed to retry queued scans', {error}));
+  };
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.searchInput}
+        placeholder="Search scanned text"
+        value={query}
+        onChangeText={setQuery}
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+      />
+      <FlatList
+        data={results}
+        keyExtractor={scan => scan.id}
+        contentContainerStyle={results.length === 0 && queued.length === 0 && styles.emptyContainer}
+        ListHeaderComponent={queued.length > 0 ? (
+          <View style={styles.queueSection}>
+            <View style={styles.queueHeader}>
+              <Text style={styles.queueTitle}>Waiting to be recognised</Text>
+              <TouchableOpacity onPress={retryQueue}>
+                <Text style={styles.queueAction}>Retry Now</Text>
+              </TouchableOpacity>
+            </View>
+            {queued.map(scan => (
+              <View key={scan.id} style={styles.row}>
+                <Image source={{uri: scan.imageUri}} style={styles.thumbnail} />
+                <View style={styles.rowText}>
+                  <Text style={styles.snippet}>{QUEUE_STATUS_LABELS[scan.status]}</Text>
+                  <Text style={styles.meta} numberOfLines={2}>
+                    {formatDate(scan.createdAt)}{scan.lastError ? ` · ${scan.lastError}` : ''}
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.deleteButton} onPress={() => confirmRemoveQueued(scan)}>
+                  <Text style={styles.deleteButtonText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        ) : null}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {isLoading ? 'Loading…' : query ? 'No scans match your search' : 'No scans yet'}
+          </Text>
+        }
+        renderItem={({item: scan}) => (
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() => openScan(scan)}
+            onLongPress={() => confirmDelete(scan)}
+          >
+            <Image source={{uri: scan.thumbnailUri}} style={styles.thumbnail} />
+            <View style={styles.rowText}>
+              <Text style={styles.snippet} numberOfLines={2}>
+                {scan.fullText ? matchSnippet(scan.fullText, query) : 'No text found'}
+              </Text>
+              <Text style={styles.meta}>
+                {formatDate(scan.createdAt)} · {scan.wordCount} words · {OCR_PROVIDERS[scan.providerId]?.label ?? scan.providerId}
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.deleteButton} onPress={() => confirmDelete(scan)}>
+              <Text style={styles.deleteButtonText}>Delete</Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "white",
+  },
+  searchInput: {
+    margin: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: "#F0F0F0",
+    fontSize: 16,
+  },
+  emptyContainer: {
+    flexGrow: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  emptyText: {
+    color: "#888",
+    fontSize: 16,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#DDD",
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+    backgroundColor: "#EEE",
+  },
+  rowText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  snippet: {
+    fontSize: 14,
+    color: "#000",
+  },
+  meta: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 4,
+  },
+  deleteButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  deleteButtonText: {
+    color: "#FF6B6B",
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+  queueSection: {
+    backgroundColor: "#FFF8E6",
+  },
+  queueHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingTop: 8,
+  },
+  queueTitle: {
+    fontSize: 13,
+    fontWeight: "bold",
+    color: "#8A6D00",
+  },
+  queueAction: {
+    color: "#007AFF",
+    fontSize: 14,
+  },
+});
@@ -1,8 +1,25 @@
+import {useLocalSearchParams, useRouter} from "expo-router";
+import {useShareIntentContext} from "expo-share-intent";
+import {useCallback, useMemo} from "react";
 import {Text, View} from "react-native";
 import "react-native-worklets-core";
 import Cam from "./Camera";
+import {ImportedFile} from "./services/importSources";
 
 export default function Index() {
+  // Set by the history screen to reopen a past scan
+  const {scanId} = useLocalSearchParams<{scanId?: string}>();
+  const router = useRouter();
+  const onScanClosed = useCallback(() => router.setParams({scanId: undefined}), [router]);
+  // Images and PDFs shared into the app from elsewhere
+  const {hasShareIntent, shareIntent, resetShareIntent} = useShareIntentContext();
+  const sharedFiles = useMemo<ImportedFile[] | undefined>(() => {
+    if (!hasShareIntent || !shareIntent.files?.length) {
+      return undefined;
+    }
+    return shareIntent.files.map(file => ({uri: file.path, mimeType: file.mimeType, name: file.fileName}));
+  }, [hasShareIntent, shareIntent]);
+
   return (
     <View
       style={{
@@ -12,7 +29,12 @@ export default function Index() {
       <Text>hello, world!</Text>
       <Text>yay!!!!</Text>
       <Text style={{textAlign: 'right'}}>you did it!</Text>
-      <Cam />
+      <Cam
+        scanId={scanId}
+        onScanClosed={onScanClosed}
+        sharedFiles={sharedFiles}
+        onSharedFilesHandled={resetShareIntent}
+      />
     </View>
   );
 }
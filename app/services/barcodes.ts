@@ -0,0 +1,168 @@
+import {BarcodeScanningResult, scanFromURLAsync} from 'expo-camera';
+import {Platform} from 'react-native';
+import type {Code, CodeScannerFrame, CodeType} from 'react-native-vision-camera';
+import {Point, Size} from './coordinates';
+import {createLogger} from './logger';
+import {DetectedCode} from './types';
+
+// Barcodes and QR codes decoded on the device from a still image, and what
+// their payloads mean.
+
+const log = createLogger('codes');
+
+// On iOS expo-camera scans stills with Core Image's QR detector, so 1-D
+// barcodes such as EAN or Code 128 in photos are only found on Android. The
+// live scanner finds them on iOS too.
+export const scansOnlyQrCodes = Platform.OS === 'ios';
+
+// VisionCamera's code scanner reads 1-D barcodes from the preview through
+// AVFoundation. Only iOS needs it, and Android can't run it next to the text
+// frame processor, so the live scanner only uses it on iOS.
+export const scansLiveCodes = Platform.OS === 'ios';
+
+export const LIVE_CODE_TYPES: CodeType[] = [
+  'qr',
+  'ean-13',
+  'ean-8',
+  'upc-e',
+  'code-128',
+  'code-39',
+  'code-93',
+  'itf',
+  'pdf-417',
+  'aztec',
+  'data-matrix',
+];
+
+// Core Image reports positions from the bottom-left corner of the image
+const flipsY = Platform.OS === 'ios';
+
+// Corners in image pixels from the top-left, like the word boxes
+export const codeVertices = (result: BarcodeScanningResult, imageSize: Size, bottomLeftOrigin = flipsY): Point[] => {
+  if (result.cornerPoints.length >= 4) {
+    // Core Image names the corners as seen upright, so only y needs flipping
+    return result.cornerPoints.map(point => ({x: point.x, y: bottomLeftOrigin ? imageSize.height - point.y : point.y}));
+  }
+
+  const {origin, size} = result.bounds;
+  const top = bottomLeftOrigin ? imageSize.height - origin.y - size.height : origin.y;
+  return [
+    {x: origin.x, y: top},
+    {x: origin.x + size.width, y: top},
+    {x: origin.x + size.width, y: top + size.height},
+    {x: origin.x, y: top + size.height},
+  ];
+};
+
+// Every code the platform scanner finds in the image, which is `imageSize`
+// pixels. Codes are extras on top of the text, so a scanner failure yields
+// none rather than failing the scan.
+export const detectCodes = async (imageUri: string, imageSize: Size): Promise<DetectedCode[]> => {
+  try {
+    const results = await scanFromURLAsync(imageUri);
+    log.info('Scanned image for codes', {count: results.length});
+    return results.map((result, index) => ({
+      id: `code-${index}`,
+      format: result.type,
+      data: result.data,
+      vertices: codeVertices(result, imageSize),
+    }));
+  } catch (error) {
+    log.error('Code scanning failed', {error});
+    return [];
+  }
+};
+
+// Upright size of the image live codes are placed in: the scanner reports
+// positions in the camera's landscape sensor frame, which a portrait preview
+// shows turned a quarter clockwise
+export const uprightCodeFrameSize = (frame: CodeScannerFrame): Size => ({width: frame.height, height: frame.width});
+
+// Codes from the live scanner, with their corners turned from the sensor frame
+// into the upright image so they line up with the live word boxes. Codes it
+// couldn't decode are left out.
+export const liveCodesToDetected = (codes: Code[], frame: CodeScannerFrame): DetectedCode[] =>
+  codes.flatMap((code, index) => {
+    if (!code.value) {
+      return [];
+    }
+
+    const {x = 0, y = 0, width = 0, height = 0} = code.frame ?? {};
+    const corners = code.corners?.length === 4
+      ? code.corners
+      : [{x, y}, {x: x + width, y}, {x: x + width, y: y + height}, {x, y: y + height}];
+    const turned = corners.map(point => ({x: frame.height - point.y, y: point.x}));
+    // The sensor frame's bottom-left corner is the upright image's top-left
+    const vertices = [turned[3], ...turned.slice(0, 3)];
+    // Matches the still scanner's names, e.g. ean13 rather than ean-13
+    return [{id: `live-code-${index}`, format: code.type.replace(/-/g, ''), data: code.value, vertices}];
+  });
+
+export type CodePayload =
+  | {kind: 'url'; url: string}
+  | {kind: 'wifi'; ssid: string; password?: string; security?: string; hidden: boolean}
+  | {kind: 'vcard'; name?: string; organization?: string; phones: string[]; emails: string[]}
+  | {kind: 'text'; text: string};
+
+// Fields of a WIFI:T:WPA;S:name;P:secret;; payload; backslash escapes \ ; , : and "
+const parseWifi = (data: string): CodePayload => {
+  const fields: Record<string, string> = {};
+  for (const match of data.slice('WIFI:'.length).matchAll(/([A-Z]):((?:\\.|[^;])*);/g)) {
+    fields[match[1]] = match[2].replace(/\\(.)/g, '$1');
+  }
+  return {
+    kind: 'wifi',
+    ssid: fields.S || '',
+    password: fields.P || undefined,
+    security: fields.T && fields.T !== 'nopass' ? fields.T : undefined,
+    hidden: fields.H === 'true',
+  };
+};
+
+// vCard properties, ignoring parameters such as TEL;TYPE=work
+const parseVcard = (data: string): CodePayload => {
+  const properties = data
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .map(line => line.match(/^([A-Z-]+)(?:;[^:]*)?:(.*)$/i))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => ({name: match[1].toUpperCase(), value: match[2].trim()}));
+  const values = (name: string) => properties.filter(property => property.name === name).map(property => property.value);
+  const [structuredName] = values('N');
+
+  return {
+    kind: 'vcard',
+    name: values('FN')[0] || structuredName?.split(';').slice(0, 2).reverse().join(' ').trim() || undefined,
+    organization: values('ORG')[0]?.replace(/;/g, ' ').trim() || undefined,
+    phones: values('TEL'),
+    emails: values('EMAIL'),
+  };
+};
+
+export const parseCodePayload = (data: string): CodePayload => {
+  const trimmed = data.trim();
+  if (/^https?:\/\/\S+$/i.test(trimmed)) {
+    return {kind: 'url', url: trimmed};
+  }
+  if (/^WIFI:/i.test(trimmed)) {
+    return parseWifi(trimmed);
+  }
+  if (/^BEGIN:VCARD/i.test(trimmed)) {
+    return parseVcard(trimmed);
+  }
+  return {kind: 'text', text: trimmed};
+};
+
+// One-line description for the overlay label
+export const describeCodePayload = (payload: CodePayload): string => {
+  switch (payload.kind) {
+    case 'url':
+      return payload.url;
+    case 'wifi':
+      return `Wi-Fi: ${payload.ssid}`;
+    case 'vcard':
+      return `Contact: ${payload.name || payload.organization || payload.phones[0] || payload.emails[0] || 'unnamed'}`;
+    default:
+      return payload.text;
+  }
+};
@@ -0,0 +1,41 @@
+// Base64 <-> bytes without relying on atob/btoa or Buffer being available
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const LOOKUP = new Map(ALPHABET.split('').map((character, index) => [character, index]));
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = LOOKUP.get(clean[i]) ?? 0;
+    const b = LOOKUP.get(clean[i + 1]) ?? 0;
+    const c = LOOKUP.get(clean[i + 2]) ?? 0;
+    const d = LOOKUP.get(clean[i + 3]) ?? 0;
+    const chunk = (a << 18) | (b << 12) | (c << 6) | d;
+
+    bytes[byteIndex++] = (chunk >> 16) & 0xff;
+    if (i + 2 < clean.length) {
+      bytes[byteIndex++] = (chunk >> 8) & 0xff;
+    }
+    if (i + 3 < clean.length) {
+      bytes[byteIndex++] = chunk & 0xff;
+    }
+  }
+
+  return bytes.subarray(0, byteIndex);
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let output = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    output += ALPHABET[(chunk >> 18) & 63] + ALPHABET[(chunk >> 12) & 63];
+    output += i + 1 < bytes.length ? ALPHABET[(chunk >> 6) & 63] : '=';
+    output += i + 2 < bytes.length ? ALPHABET[chunk & 63] : '=';
+  }
+
+  return output;
+};
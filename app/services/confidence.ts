@@ -0,0 +1,27 @@
+// How overlay boxes for words below the confidence threshold are shown
+export type LowConfidenceDisplay = 'dim' | 'hide';
+
+export interface ConfidenceSettings {
+  threshold: number;
+  lowConfidenceDisplay: LowConfidenceDisplay;
+}
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.6;
+
+// Threshold and display from EXPO_PUBLIC_CONFIDENCE_THRESHOLD and EXPO_PUBLIC_LOW_CONFIDENCE_DISPLAY
+export const getConfiguredConfidenceSettings = (): ConfidenceSettings => {
+  const threshold = Number(process.env.EXPO_PUBLIC_CONFIDENCE_THRESHOLD);
+
+  return {
+    threshold: Number.isFinite(threshold) && threshold >= 0 && threshold <= 1
+      ? threshold
+      : DEFAULT_CONFIDENCE_THRESHOLD,
+    lowConfidenceDisplay: process.env.EXPO_PUBLIC_LOW_CONFIDENCE_DISPLAY === 'hide' ? 'hide' : 'dim',
+  };
+};
+
+// A word without a reported confidence is never treated as low confidence
+export const isLowConfidence = (confidence: number | undefined, threshold: number): boolean =>
+  confidence !== undefined && confidence < threshold;
+
+export const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
@@ -0,0 +1,294 @@
+// Geometry helpers for placing Vision API results over a rendered image.
+//
+// Vision returns vertices in the pixel space of the image we uploaded. The
+// photo on screen is drawn by an <Image> with a resize mode inside a view of
+// some other size, and may additionally carry an EXIF orientation. These
+// helpers map points from the former space into the latter.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A box of the given size centred on (x + width / 2, y + height / 2), rotated
+// by `angle` degrees clockwise around its centre.
+export interface RotatedRect extends Rect {
+  angle: number;
+}
+
+export type ResizeMode = 'cover' | 'contain';
+
+// EXIF orientation tag values, see https://exiftool.org/TagNames/EXIF.html
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export interface ImageToViewTransform {
+  // Size of the source image as stored, before orientation is applied
+  sourceSize: Size;
+  orientation: ExifOrientation;
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Orientations 5-8 swap the width and height of the displayed image
+export const orientSize = (size: Size, orientation: ExifOrientation): Size =>
+  orientation >= 5
+    ? {width: size.height, height: size.width}
+    : {width: size.width, height: size.height};
+
+// Map a point in stored pixel space to the upright (displayed) pixel space
+export const orientPoint = (point: Point, size: Size, orientation: ExifOrientation): Point => {
+  const {x, y} = point;
+  const {width: w, height: h} = size;
+
+  switch (orientation) {
+    case 2: // mirrored horizontally
+      return {x: w - x, y};
+    case 3: // rotated 180°
+      return {x: w - x, y: h - y};
+    case 4: // mirrored vertically
+      return {x, y: h - y};
+    case 5: // transposed
+      return {x: y, y: x};
+    case 6: // rotated 90° clockwise
+      return {x: h - y, y: x};
+    case 7: // transversed
+      return {x: h - y, y: w - x};
+    case 8: // rotated 90° counter-clockwise
+      return {x: y, y: w - x};
+    default:
+      return {x, y};
+  }
+};
+
+// Inverse of orientPoint: map a point in upright pixel space back to stored pixel space
+export const unorientPoint = (point: Point, size: Size, orientation: ExifOrientation): Point => {
+  const {x, y} = point;
+  const {width: w, height: h} = size;
+
+  switch (orientation) {
+    case 2:
+      return {x: w - x, y};
+    case 3:
+      return {x: w - x, y: h - y};
+    case 4:
+      return {x, y: h - y};
+    case 5:
+      return {x: y, y: x};
+    case 6:
+      return {x: y, y: h - x};
+    case 7:
+      return {x: w - y, y: h - x};
+    case 8:
+      return {x: w - y, y: x};
+    default:
+      return {x, y};
+  }
+};
+
+export const createImageToViewTransform = ({
+  sourceSize,
+  viewSize,
+  resizeMode,
+  orientation = 1,
+}: {
+  sourceSize: Size;
+  viewSize: Size;
+  resizeMode: ResizeMode;
+  orientation?: ExifOrientation;
+}): ImageToViewTransform => {
+  const displayed = orientSize(sourceSize, orientation);
+
+  if (displayed.width <= 0 || displayed.height <= 0) {
+    return {sourceSize, orientation, scale: 0, offsetX: 0, offsetY: 0};
+  }
+
+  const scaleX = viewSize.width / displayed.width;
+  const scaleY = viewSize.height / displayed.height;
+  const scale = resizeMode === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+
+  return {
+    sourceSize,
+    orientation,
+    scale,
+    // Both modes centre the image; cover yields negative offsets (cropping)
+    offsetX: (viewSize.width - displayed.width * scale) / 2,
+    offsetY: (viewSize.height - displayed.height * scale) / 2,
+  };
+};
+
+export const mapPointToView = (point: Point, transform: ImageToViewTransform): Point => {
+  const oriented = orientPoint(point, transform.sourceSize, transform.orientation);
+  return {
+    x: oriented.x * transform.scale + transform.offsetX,
+    y: oriented.y * transform.scale + transform.offsetY,
+  };
+};
+
+// Inverse of mapPointToView, e.g. for turning a touch into image pixels
+export const mapPointFromView = (point: Point, transform: ImageToViewTransform): Point => {
+  if (transform.scale === 0) {
+    return {x: 0, y: 0};
+  }
+
+  return unorientPoint(
+    {
+      x: (point.x - transform.offsetX) / transform.scale,
+      y: (point.y - transform.offsetY) / transform.scale,
+    },
+    transform.sourceSize,
+    transform.orientation
+  );
+};
+
+// Vision omits coordinates that are zero, so missing values default to 0
+export const mapQuadToView = (
+  vertices: {x?: number; y?: number}[],
+  transform: ImageToViewTransform
+): Point[] => vertices.map(v => mapPointToView({x: v.x || 0, y: v.y || 0}, transform));
+
+export const boundingRect = (points: Point[]): Rect => {
+  if (points.length === 0) {
+    return {x: 0, y: 0, width: 0, height: 0};
+  }
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+  };
+};
+
+// Vision lists vertices clockwise starting from the top-left corner of the
+// text as read, so the first edge runs along the baseline direction.
+export const quadToRotatedRect = (quad: Point[]): RotatedRect => {
+  if (quad.length < 4) {
+    return {...boundingRect(quad), angle: 0};
+  }
+
+  const [p0, p1, , p3] = quad;
+  const width = Math.hypot(p1.x - p0.x, p1.y - p0.y);
+  const height = Math.hypot(p3.x - p0.x, p3.y - p0.y);
+  const centerX = quad.reduce((sum, p) => sum + p.x, 0) / quad.length;
+  const centerY = quad.reduce((sum, p) => sum + p.y, 0) / quad.length;
+
+  return {
+    x: centerX - width / 2,
+    y: centerY - height / 2,
+    width,
+    height,
+    angle: (Math.atan2(p1.y - p0.y, p1.x - p0.x) * 180) / Math.PI,
+  };
+};
+
+// Pinch-zoom and pan applied on top of the image-to-view transform. The view
+// is scaled about its centre and then shifted:
+//   screen = centre + (point - centre) * scale + translate
+// These run inside gesture handlers on the UI thread, hence the 'worklet' directives.
+export interface Viewport {
+  scale: number;
+  translateX: number;
+  translateY: number;
+}
+
+export const IDENTITY_VIEWPORT: Viewport = {scale: 1, translateX: 0, translateY: 0};
+
+export const applyViewport = (point: Point, viewport: Viewport, viewSize: Size): Point => {
+  'worklet';
+  return {
+    x: viewSize.width / 2 + (point.x - viewSize.width / 2) * viewport.scale + viewport.translateX,
+    y: viewSize.height / 2 + (point.y - viewSize.height / 2) * viewport.scale + viewport.translateY,
+  };
+};
+
+// Inverse of applyViewport, e.g. for turning a screen point into unzoomed view space
+export const invertViewport = (point: Point, viewport: Viewport, viewSize: Size): Point => {
+  'worklet';
+  return {
+    x: viewSize.width / 2 + (point.x - viewSize.width / 2 - viewport.translateX) / viewport.scale,
+    y: viewSize.height / 2 + (point.y - viewSize.height / 2 - viewport.translateY) / viewport.scale,
+  };
+};
+
+// Zoom to `scale` while the content under `focal` (a screen point) stays put
+export const zoomViewportAt = (viewport: Viewport, focal: Point, scale: number, viewSize: Size): Viewport => {
+  'worklet';
+  const anchor = invertViewport(focal, viewport, viewSize);
+  return {
+    scale,
+    translateX: focal.x - viewSize.width / 2 - (anchor.x - viewSize.width / 2) * scale,
+    translateY: focal.y - viewSize.height / 2 - (anchor.y - viewSize.height / 2) * scale,
+  };
+};
+
+// Where the displayed image sits in unzoomed view space; with 'cover' it overflows the view
+export const displayedImageRect = (transform: ImageToViewTransform): Rect => {
+  const displayed = orientSize(transform.sourceSize, transform.orientation);
+  return {
+    x: transform.offsetX,
+    y: transform.offsetY,
+    width: displayed.width * transform.scale,
+    height: displayed.height * transform.scale,
+  };
+};
+
+const clampTranslate = (translate: number, scale: number, viewLength: number, start: number, length: number) => {
+  'worklet';
+  const scaledStart = viewLength / 2 + (start - viewLength / 2) * scale;
+  const scaledLength = length * scale;
+  if (scaledLength <= viewLength) {
+    return (viewLength - scaledLength) / 2 - scaledStart;
+  }
+  return Math.min(-scaledStart, Math.max(viewLength - scaledLength - scaledStart, translate));
+};
+
+// Limit the zoom and keep `content` covering the view on each axis where it's
+// big enough to, centred where it isn't
+export const clampViewport = (
+  viewport: Viewport,
+  viewSize: Size,
+  content: Rect,
+  minScale: number,
+  maxScale: number
+): Viewport => {
+  'worklet';
+  const scale = Math.min(maxScale, Math.max(minScale, viewport.scale));
+  return {
+    scale,
+    translateX: clampTranslate(viewport.translateX, scale, viewSize.width, content.x, content.width),
+    translateY: clampTranslate(viewport.translateY, scale, viewSize.height, content.y, content.height),
+  };
+};
+
+// Part of `content` (in unzoomed view space) currently on screen, for a minimap
+export const visibleContentRect = (viewport: Viewport, viewSize: Size, content: Rect): Rect => {
+  'worklet';
+  const topLeft = invertViewport({x: 0, y: 0}, viewport, viewSize);
+  const bottomRight = invertViewport({x: viewSize.width, y: viewSize.height}, viewport, viewSize);
+  const left = Math.max(content.x, topLeft.x);
+  const top = Math.max(content.y, topLeft.y);
+  return {
+    x: left,
+    y: top,
+    width: Math.max(0, Math.min(content.x + content.width, bottomRight.x) - left),
+    height: Math.max(0, Math.min(content.y + content.height, bottomRight.y) - top),
+  };
+};
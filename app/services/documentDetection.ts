@@ -0,0 +1,225 @@
+import {Point, Size} from './coordinates';
+import {GrayImage} from './rasterImage';
+
+// Corners of a document in the photo: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export const fullImageQuad = (size: Size, inset = 0): Quad => [
+  {x: inset, y: inset},
+  {x: size.width - inset, y: inset},
+  {x: size.width - inset, y: size.height - inset},
+  {x: inset, y: size.height - inset},
+];
+
+// Shoelace formula; positive for clockwise quads in screen coordinates
+export const quadArea = (quad: Quad): number =>
+  quad.reduce((sum, p, i) => {
+    const q = quad[(i + 1) % 4];
+    return sum + (p.x * q.y - q.x * p.y);
+  }, 0) / 2;
+
+export const isConvexQuad = (quad: Quad): boolean => {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    const c = quad[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross !== 0) {
+      if (sign !== 0 && Math.sign(cross) !== sign) {
+        return false;
+      }
+      sign = Math.sign(cross);
+    }
+  }
+  return sign !== 0;
+};
+
+// Put four points into top-left, top-right, bottom-right, bottom-left order
+export const orderQuad = (points: Point[]): Quad => {
+  const bySum = [...points].sort((a, b) => a.x + a.y - (b.x + b.y));
+  const byDiff = [...points].sort((a, b) => a.x - a.y - (b.x - b.y));
+  return [bySum[0], byDiff[byDiff.length - 1], bySum[bySum.length - 1], byDiff[0]];
+};
+
+export const scaleQuad = (quad: Quad, scaleX: number, scaleY: number): Quad =>
+  quad.map(p => ({x: p.x * scaleX, y: p.y * scaleY})) as Quad;
+
+// Separable box blur with the given radius
+export const boxBlur = (image: GrayImage, radius: number): GrayImage => {
+  const {width, height} = image;
+  const temp = new Float32Array(width * height);
+  const data = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = x + k;
+        if (sx >= 0 && sx < width) {
+          sum += image.data[y * width + sx];
+          count++;
+        }
+      }
+      temp[y * width + x] = sum / count;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = y + k;
+        if (sy >= 0 && sy < height) {
+          sum += temp[sy * width + x];
+          count++;
+        }
+      }
+      data[y * width + x] = sum / count;
+    }
+  }
+
+  return {width, height, data};
+};
+
+// Otsu's method: the threshold that best separates the histogram into two classes
+export const otsuThreshold = (data: Uint8Array): number => {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < data.length; i++) {
+    histogram[data[i]]++;
+  }
+
+  const total = data.length;
+  const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let threshold = 127;
+
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) {
+      continue;
+    }
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) {
+      break;
+    }
+
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+
+  return threshold;
+};
+
+// Pixels of the largest 4-connected region of `mask`, as flat indices
+const largestComponent = (mask: Uint8Array, width: number, height: number): Int32Array => {
+  const labels = new Int32Array(width * height);
+  const queue = new Int32Array(width * height);
+  let best = new Int32Array(0);
+  let label = 0;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) {
+      continue;
+    }
+
+    label++;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = label;
+
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && next < mask.length && mask[next] && !labels[next]) {
+          labels[next] = label;
+          queue[tail++] = next;
+        }
+      }
+    }
+
+    if (tail > best.length) {
+      best = queue.slice(0, tail);
+    }
+  }
+
+  return best;
+};
+
+export interface DetectionOptions {
+  // Smallest document area accepted, as a fraction of the image
+  minAreaRatio: number;
+  blurRadius: number;
+}
+
+export const DEFAULT_DETECTION_OPTIONS: DetectionOptions = {
+  minAreaRatio: 0.15,
+  blurRadius: 2,
+};
+
+// Find a bright page on a darker background: blur away the text, split the
+// image with Otsu's threshold, keep the largest bright region and take its
+// extreme points along both diagonals as the corners. Returns null when no
+// plausible document is found, in which case callers fall back to the full image.
+export const detectDocumentQuad = (
+  image: GrayImage,
+  overrides: Partial<DetectionOptions> = {}
+): Quad | null => {
+  const options = {...DEFAULT_DETECTION_OPTIONS, ...overrides};
+  const {width, height} = image;
+  const blurred = boxBlur(image, options.blurRadius);
+  const threshold = otsuThreshold(blurred.data);
+
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = blurred.data[i] > threshold ? 1 : 0;
+  }
+
+  const region = largestComponent(mask, width, height);
+  if (region.length < width * height * options.minAreaRatio) {
+    return null;
+  }
+
+  let topLeft = region[0];
+  let topRight = region[0];
+  let bottomRight = region[0];
+  let bottomLeft = region[0];
+  const sum = (i: number) => (i % width) + Math.floor(i / width);
+  const diff = (i: number) => (i % width) - Math.floor(i / width);
+
+  for (const index of region) {
+    if (sum(index) < sum(topLeft)) topLeft = index;
+    if (sum(index) > sum(bottomRight)) bottomRight = index;
+    if (diff(index) > diff(topRight)) topRight = index;
+    if (diff(index) < diff(bottomLeft)) bottomLeft = index;
+  }
+
+  const toPoint = (i: number): Point => ({x: i % width, y: Math.floor(i / width)});
+  const quad: Quad = [toPoint(topLeft), toPoint(topRight), toPoint(bottomRight), toPoint(bottomLeft)];
+
+  // A region spanning the whole frame is the background, not a page
+  if (!isConvexQuad(quad) || Math.abs(quadArea(quad)) < width * height * options.minAreaRatio
+    || Math.abs(quadArea(quad)) > width * height * 0.98) {
+    return null;
+  }
+
+  return quad;
+};
@@ -0,0 +1,119 @@
+import * as FileSystem from 'expo-file-system';
+import * as ImageManipulator from 'expo-image-manipulator';
+import {decode} from 'jpeg-js';
+import {base64ToBytes, bytesToBase64} from './base64';
+import {Size} from './coordinates';
+import {detectDocumentQuad, fullImageQuad, Quad, scaleQuad} from './documentDetection';
+import {binarize, estimateSkewAngle, rotateImage, stretchContrast} from './imageFilters';
+import {createLogger} from './logger';
+import {warpedSize, warpPerspective} from './perspective';
+import {encodeBmp, RgbaImage, toGray} from './rasterImage';
+
+const log = createLogger('document');
+
+// Width corner detection runs at; plenty for finding page edges
+const DETECTION_WIDTH = 320;
+// Width the photo is decoded at for flattening, and the widest the flattened
+// page may be. The page is cropped from the decoded photo, so a wider output
+// would only be upsampled. Document mode encodes with the 2048px 'dense'
+// profile, which never upscales, so a flattened page is sent at its own width.
+const PROCESSING_WIDTH = 2000;
+const OUTPUT_MAX_WIDTH = 1600;
+
+export interface DocumentCleanup {
+  deskew: boolean;
+  contrast: boolean;
+  binarize: boolean;
+}
+
+export const DEFAULT_DOCUMENT_CLEANUP: DocumentCleanup = {
+  deskew: true,
+  contrast: true,
+  binarize: false,
+};
+
+export interface DetectedDocument {
+  // Upright size of the downscaled copy the corners refer to; only its aspect
+  // ratio matters, as processDocument rescales the corners to its own copy
+  imageSize: Size;
+  quad: Quad;
+  // False when no page was found and `quad` is a default inset rectangle
+  detected: boolean;
+}
+
+// Decode a photo into pixels, upright (manipulateAsync applies EXIF orientation)
+export const loadRgba = async (imageUri: string, width?: number): Promise<RgbaImage> => {
+  const image = await ImageManipulator.manipulateAsync(
+    imageUri,
+    width ? [{resize: {width}}] : [],
+    {compress: 0.9, format: ImageManipulator.SaveFormat.JPEG, base64: true}
+  );
+  if (!image.base64) {
+    throw new Error('Failed to read image pixels');
+  }
+
+  const decoded = decode(base64ToBytes(image.base64), {useTArray: true, formatAsRGBA: true});
+  return {width: decoded.width, height: decoded.height, data: decoded.data};
+};
+
+// Find the page corners in a photo
+export const detectDocumentCorners = async (imageUri: string): Promise<DetectedDocument> => {
+  const startTime = Date.now();
+  const small = await loadRgba(imageUri, DETECTION_WIDTH);
+  const imageSize = {width: small.width, height: small.height};
+  const quad = detectDocumentQuad(toGray(small));
+  log.metric('documentDetection', Date.now() - startTime, {detected: !!quad});
+
+  if (quad) {
+    return {imageSize, quad, detected: true};
+  }
+
+  const inset = Math.min(imageSize.width, imageSize.height) * 0.05;
+  return {imageSize, quad: fullImageQuad(imageSize, inset), detected: false};
+};
+
+// Flatten the page inside the detected (and possibly adjusted) corners, clean
+// it up and write it out as a new JPEG
+export const processDocument = async (
+  imageUri: string,
+  {imageSize, quad}: Pick<DetectedDocument, 'imageSize' | 'quad'>,
+  cleanup: DocumentCleanup = DEFAULT_DOCUMENT_CLEANUP
+): Promise<{uri: string; width: number; height: number}> => {
+  const startTime = Date.now();
+  const source = await loadRgba(imageUri, PROCESSING_WIDTH);
+  const sourceQuad = scaleQuad(quad, source.width / imageSize.width, source.height / imageSize.height);
+
+  let page = warpPerspective(source, sourceQuad, warpedSize(sourceQuad, OUTPUT_MAX_WIDTH));
+  if (!page) {
+    throw new Error('The selected corners do not form a valid page outline');
+  }
+
+  if (cleanup.deskew) {
+    const skew = estimateSkewAngle(page);
+    log.debug('Estimated text skew', {degrees: skew});
+    page = rotateImage(page, -skew);
+  }
+  if (cleanup.contrast) {
+    page = stretchContrast(page);
+  }
+  if (cleanup.binarize) {
+    page = binarize(page);
+  }
+
+  // jpeg-js can't encode without Buffer, so hand a BMP to the native encoder
+  const bmpUri = `${FileSystem.cacheDirectory}document-${Date.now()}.bmp`;
+  await FileSystem.writeAsStringAsync(bmpUri, bytesToBase64(encodeBmp(page)), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  try {
+    const result = await ImageManipulator.manipulateAsync(bmpUri, [], {
+      compress: 0.9,
+      format: ImageManipulator.SaveFormat.JPEG,
+    });
+    log.metric('documentProcessing', Date.now() - startTime, {width: result.width, height: result.height});
+    return {uri: result.uri, width: result.width, height: result.height};
+  } finally {
+    await FileSystem.deleteAsync(bmpUri, {idempotent: true});
+  }
+};
@@ -0,0 +1,126 @@
+// Things in recognised text the user can act on: links, phone numbers, email
+// addresses and dates. The patterns are shared with the field templates.
+
+export type EntityType = 'url' | 'phone' | 'email' | 'date';
+
+export interface Entity {
+  type: EntityType;
+  text: string;
+  // Offset of `text` in the string it was found in
+  index: number;
+}
+
+export const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+// Either explicitly a link, or a domain with a common top-level domain. A link
+// never ends in punctuation, which is far more often the sentence's.
+const URL_END = '[^\\s.,;:!?)\\]\'"]';
+export const URL_PATTERN = new RegExp(
+  `\\b(?:(?:https?:\\/\\/|www\\.)(?:[^\\s,]*${URL_END})?`
+    + `|[a-z0-9-]+(?:\\.[a-z0-9-]+)*\\.(?:com|org|net|io|co|dev|app|ai|biz|info|me|us|uk|de|fr|ca|au)\\b(?:\\/(?:\\S*${URL_END})?)?)`,
+  'i'
+);
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+
+export const DATE_PATTERNS = [
+  /\b\d{4}[-/.]\d{1,2}[-/.]\d{1,2}\b/,
+  /\b\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}\b/,
+  new RegExp(`\\b${MONTH_NAME}\\s+\\d{1,2},?\\s+\\d{2,4}\\b`, 'i'),
+  new RegExp(`\\b\\d{1,2}\\s+${MONTH_NAME},?\\s+\\d{2,4}\\b`, 'i'),
+];
+
+// A phone number is 7 to 15 digits, written with a leading + or (, or split
+// into groups. That leaves out order numbers and other long digit runs, IBANs
+// (too many digits, glued to the country code), prices and dotted dates.
+export const PHONE_PATTERN = new RegExp(
+  // Not the middle of a word, a reference or a longer number
+  '(?<![\\w+.#/-])(?<!\\d[\\s().-]*)'
+    // 7 to 15 digits in the whole run
+    + '(?=\\+?(?:[\\s().-]*\\d){7,15}(?![\\s().-]*\\d))'
+    // Not a numeric date
+    + '(?!\\d{4}[-/.]\\d{1,2}[-/.]\\d{1,2}\\b|\\d{1,2}[-/.]\\d{1,2}[-/.]\\d{2,4}\\b)'
+    // A leading + or (, or at least two groups
+    + '(?=[+(]|\\d+[\\s().-]+\\d)'
+    + '\\+?\\(?\\d[\\d\\s().-]{5,}\\d'
+);
+
+const ENTITY_PATTERNS: {type: EntityType; patterns: RegExp[]}[] = [
+  {type: 'email', patterns: [EMAIL_PATTERN]},
+  {type: 'url', patterns: [URL_PATTERN]},
+  {type: 'date', patterns: DATE_PATTERNS},
+  {type: 'phone', patterns: [PHONE_PATTERN]},
+];
+
+// Every entity in `text`, in order of appearance. Earlier types win where
+// matches overlap, so an email's domain isn't also reported as a link and a
+// date isn't read as a phone number.
+export const detectEntities = (text: string): Entity[] => {
+  const entities: Entity[] = [];
+  const overlaps = (index: number, length: number) =>
+    entities.some(entity => index < entity.index + entity.text.length && entity.index < index + length);
+
+  for (const {type, patterns} of ENTITY_PATTERNS) {
+    for (const pattern of patterns) {
+      for (const match of text.matchAll(new RegExp(pattern.source, `${pattern.flags}g`))) {
+        const index = match.index ?? 0;
+        const value = match[0].trim();
+        if (!overlaps(index, value.length)) {
+          entities.push({type, text: value, index});
+        }
+      }
+    }
+  }
+
+  return entities.sort((a, b) => a.index - b.index);
+};
+
+const fullYear = (year: number) => (year < 100 ? 2000 + year : year);
+
+const monthNumber = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+const validDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+// Read a date found by DATE_PATTERNS. Numeric dates are taken as month/day
+// unless the first number can only be a day.
+export const parseEntityDate = (text: string): Date | null => {
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (match) {
+    return validDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/);
+  if (match) {
+    const [first, second, year] = [Number(match[1]), Number(match[2]), fullYear(Number(match[3]))];
+    return first > 12 ? validDate(year, second, first) : validDate(year, first, second);
+  }
+
+  match = text.match(/^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{2,4})$/i);
+  if (match) {
+    return validDate(fullYear(Number(match[3])), monthNumber(match[1]), Number(match[2]));
+  }
+
+  match = text.match(/^(\d{1,2})\s+([a-z]+)\.?,?\s+(\d{2,4})$/i);
+  if (match) {
+    return validDate(fullYear(Number(match[3])), monthNumber(match[2]), Number(match[1]));
+  }
+
+  return null;
+};
+
+// Link that opens the entity in the app that handles it; dates have none
+export const entityUrl = (entity: Entity): string | null => {
+  switch (entity.type) {
+    case 'url':
+      return /^https?:\/\//i.test(entity.text) ? entity.text : `https://${entity.text}`;
+    case 'phone':
+      return `tel:${entity.text.replace(/[^\d+]/g, '')}`;
+    case 'email':
+      return `mailto:${entity.text}`;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,86 @@
+import {ExtractedText, TextParagraph} from './types';
+import {wordTextWithBreak} from './visionDocument';
+
+// Serialisers for sharing an ExtractedText; all pure so their output is stable
+
+export type ExportFormat = 'txt' | 'md' | 'json' | 'pdf';
+
+export const EXPORT_FORMATS: Record<ExportFormat, {label: string; extension: string; mimeType: string; uti: string}> = {
+  txt: {label: 'Plain text', extension: 'txt', mimeType: 'text/plain', uti: 'public.plain-text'},
+  md: {label: 'Markdown', extension: 'md', mimeType: 'text/markdown', uti: 'net.daringfireball.markdown'},
+  json: {label: 'JSON', extension: 'json', mimeType: 'application/json', uti: 'public.json'},
+  pdf: {label: 'Searchable PDF', extension: 'pdf', mimeType: 'application/pdf', uti: 'com.adobe.pdf'},
+};
+
+const normaliseNewlines = (text: string) => text.replace(/\r\n?/g, '\n');
+
+export const toPlainText = (extractedText: ExtractedText): string => {
+  const text = normaliseNewlines(extractedText.fullText).replace(/\s+$/, '');
+  return text ? `${text}\n` : '';
+};
+
+// Escape what Markdown would otherwise read as formatting or block syntax
+const escapeMarkdown = (line: string) =>
+  line
+    .replace(/([\\`*_[\]])/g, '\\$1')
+    .replace(/^(\s*)(#{1,6}\s|>|[-+]\s)/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)]\s)/, '$1\\$2');
+
+// Paragraphs reflow into one line; words hyphenated across a line break are rejoined
+const paragraphMarkdown = (paragraph: TextParagraph) =>
+  escapeMarkdown(
+    paragraph.words
+      .map((word, index) => {
+        if (index === paragraph.words.length - 1) {
+          return word.text;
+        }
+        const lastBreak = word.symbols[word.symbols.length - 1]?.break;
+        return lastBreak === 'HYPHEN' ? word.text : wordTextWithBreak(word);
+      })
+      .join('')
+      .replace(/\s*\n\s*/g, ' ')
+      .trim()
+  );
+
+// Without document structure, blank lines separate paragraphs and single line
+// breaks become Markdown hard breaks so short lines (signs, labels) stay apart
+const plainTextMarkdown = (fullText: string) =>
+  normaliseNewlines(fullText)
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => paragraph.split('\n').map(line => escapeMarkdown(line.trim())).join('  \n'))
+    .join('\n\n');
+
+export const toMarkdown = (extractedText: ExtractedText): string => {
+  const pages = extractedText.pages;
+  if (!pages?.length) {
+    const body = plainTextMarkdown(extractedText.fullText);
+    return body ? `${body}\n` : '';
+  }
+
+  const sections = pages.map((page, pageIndex) => {
+    const paragraphs = page.blocks
+      .flatMap(block => block.paragraphs)
+      .map(paragraphMarkdown)
+      .filter(Boolean);
+    return pages.length > 1 ? [`## Page ${pageIndex + 1}`, ...paragraphs] : paragraphs;
+  });
+
+  return `${sections.flat().join('\n\n')}\n`;
+};
+
+export const toJson = (extractedText: ExtractedText): string =>
+  `${JSON.stringify({
+    version: 1,
+    fullText: extractedText.fullText,
+    image: {width: extractedText.imageWidth, height: extractedText.imageHeight},
+    words: extractedText.words.map(word => ({
+      id: word.id,
+      text: word.text,
+      ...(word.confidence === undefined ? {} : {confidence: word.confidence}),
+      box: {x: word.x, y: word.y, width: word.width, height: word.height},
+      vertices: word.vertices,
+    })),
+    ...(extractedText.pages ? {pages: extractedText.pages} : {}),
+  }, null, 2)}\n`;
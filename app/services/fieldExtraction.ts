@@ -0,0 +1,243 @@
+import {DATE_PATTERNS, EMAIL_PATTERN, PHONE_PATTERN, URL_PATTERN} from './entities';
+import {groupWordsIntoLines, TextLine} from './layout';
+import {ExtractedText} from './types';
+
+// Structured fields pulled out of recognised text with per-document templates.
+// Templates look at both what the text says and where it sits: the merchant is
+// usually the biggest line at the top of a receipt, amounts are right-aligned,
+// and the name on a business card is set larger than everything around it.
+
+export type FieldTemplateId = 'receipt' | 'business-card';
+
+export interface ExtractedField {
+  key: string;
+  label: string;
+  value: string;
+  // Words the value was read from, so the overlay can point at them
+  wordIds: string[];
+}
+
+export interface LineItem {
+  id: string;
+  description: string;
+  quantity?: string;
+  amount: string;
+  wordIds: string[];
+}
+
+export interface ExtractedFields {
+  templateId: FieldTemplateId;
+  fields: ExtractedField[];
+  // Receipts only
+  lineItems?: LineItem[];
+}
+
+export const FIELD_TEMPLATES: Record<FieldTemplateId, {label: string; fields: {key: string; label: string}[]}> = {
+  'receipt': {
+    label: 'Receipt',
+    fields: [
+      {key: 'merchant', label: 'Merchant'},
+      {key: 'date', label: 'Date'},
+      {key: 'subtotal', label: 'Subtotal'},
+      {key: 'tax', label: 'Tax'},
+      {key: 'total', label: 'Total'},
+    ],
+  },
+  'business-card': {
+    label: 'Business card',
+    fields: [
+      {key: 'name', label: 'Name'},
+      {key: 'title', label: 'Title'},
+      {key: 'phone', label: 'Phone'},
+      {key: 'email', label: 'Email'},
+      {key: 'url', label: 'Website'},
+    ],
+  },
+};
+
+const wordIdsOf = (lines: TextLine[]) => lines.flatMap(line => line.words.map(word => word.id));
+
+// Words of `line` that make up `match`, found by their position in the joined text
+const wordIdsForMatch = (line: TextLine, matchIndex: number, matchLength: number): string[] => {
+  let offset = 0;
+  const ids: string[] = [];
+  for (const word of line.words) {
+    const start = offset;
+    const end = offset + word.text.length;
+    if (end > matchIndex && start < matchIndex + matchLength) {
+      ids.push(word.id);
+    }
+    offset = end + 1;
+  }
+  return ids;
+};
+
+const lineHeight = (line: TextLine) => line.box?.height || 0;
+
+// Amounts such as 12.50, $1,299.00 or 3,49, but not the 12.05 in a dotted
+// date like 12.05.2024
+const PRICE_PATTERN = /(?<![\d.,])-?[$€£]?\s?\d{1,3}(?:[,.\s]\d{3})*[.,]\d{2}(?![.,]?\d)/;
+
+// Last price on the line; receipts right-align amounts
+const lastPrice = (line: TextLine): {value: string; index: number} | null => {
+  const matches = [...line.text.matchAll(new RegExp(PRICE_PATTERN.source, 'g'))];
+  const last = matches[matches.length - 1];
+  return last ? {value: last[0].trim(), index: last.index ?? 0} : null;
+};
+
+const priceField = (line: TextLine | undefined, key: string, label: string): ExtractedField => {
+  const price = line && lastPrice(line);
+  return {
+    key,
+    label,
+    value: price ? price.value : '',
+    wordIds: line && price ? wordIdsForMatch(line, price.index, price.value.length) : [],
+  };
+};
+
+const firstMatch = (lines: TextLine[], pattern: RegExp) => {
+  for (const line of lines) {
+    const match = line.text.match(pattern);
+    if (match) {
+      return {line, value: match[0].trim(), wordIds: wordIdsForMatch(line, match.index ?? 0, match[0].length)};
+    }
+  }
+  return null;
+};
+
+const matchField = (key: string, label: string, match: ReturnType<typeof firstMatch>): ExtractedField => ({
+  key,
+  label,
+  value: match?.value || '',
+  wordIds: match?.wordIds || [],
+});
+
+// Receipts
+
+const TOTAL_LINE = /\b(?:grand\s+total|total|amount\s+due|balance\s+due|to\s+pay)\b/i;
+const SUBTOTAL_LINE = /\bsub\s?-?total\b/i;
+const TAX_LINE = /\b(?:tax|vat|gst|hst|pst)\b/i;
+// Lines with a price that aren't purchases
+const NON_ITEM_LINE = /\b(?:total|subtotal|tax|vat|gst|hst|pst|change|cash|card|visa|mastercard|amex|debit|credit|tip|gratuity|balance|tendered|payment|discount|savings)\b/i;
+const QUANTITY_PREFIX = /^(\d+(?:[.,]\d+)?)\s*(?:x|@|×)\s*/i;
+
+const extractReceipt = (extractedText: ExtractedText, lines: TextLine[]): ExtractedFields => {
+  // The merchant name is normally among the first lines, in the top third, and printed largest
+  const headerLines = lines
+    .slice(0, 5)
+    .filter(line => !line.box || line.box.y < extractedText.imageHeight / 3)
+    .filter(line => /[a-z]{2,}/i.test(line.text) && !PRICE_PATTERN.test(line.text) && !DATE_PATTERNS.some(p => p.test(line.text)));
+  const merchantLine = headerLines.reduce<TextLine | undefined>(
+    (best, line) => (!best || lineHeight(line) > lineHeight(best) ? line : best),
+    undefined
+  );
+
+  const date = DATE_PATTERNS.map(pattern => firstMatch(lines, pattern)).find(Boolean) || null;
+
+  // The last total line wins: "Total" often repeats before the payment lines
+  const totalLine = [...lines].reverse().find(line => TOTAL_LINE.test(line.text) && !SUBTOTAL_LINE.test(line.text) && lastPrice(line));
+  const subtotalLine = lines.find(line => SUBTOTAL_LINE.test(line.text) && lastPrice(line));
+  const taxLine = lines.find(line => TAX_LINE.test(line.text) && !TOTAL_LINE.test(line.text) && lastPrice(line));
+
+  // Items sit between the header and the first total-like line
+  const firstSummaryIndex = lines.findIndex(line => line === subtotalLine || line === taxLine || line === totalLine);
+  const itemLines = lines
+    .slice(merchantLine ? lines.indexOf(merchantLine) + 1 : 0, firstSummaryIndex >= 0 ? firstSummaryIndex : lines.length)
+    .filter(line => lastPrice(line) && !NON_ITEM_LINE.test(line.text));
+
+  const lineItems = itemLines.map((line, index): LineItem => {
+    const price = lastPrice(line)!;
+    let description = line.text.slice(0, price.index).trim();
+    const quantity = description.match(QUANTITY_PREFIX);
+    if (quantity) {
+      description = description.slice(quantity[0].length).trim();
+    }
+
+    return {
+      id: `item-${index}`,
+      description,
+      ...(quantity ? {quantity: quantity[1]} : {}),
+      amount: price.value,
+      wordIds: wordIdsOf([line]),
+    };
+  });
+
+  return {
+    templateId: 'receipt',
+    fields: [
+      {key: 'merchant', label: 'Merchant', value: merchantLine?.text || '', wordIds: merchantLine ? wordIdsOf([merchantLine]) : []},
+      matchField('date', 'Date', date),
+      priceField(subtotalLine, 'subtotal', 'Subtotal'),
+      priceField(taxLine, 'tax', 'Tax'),
+      priceField(totalLine, 'total', 'Total'),
+    ],
+    lineItems,
+  };
+};
+
+// Business cards
+
+const TITLE_WORDS = /\b(?:ceo|cto|cfo|coo|founder|co-founder|president|vice|vp|director|manager|head|lead|chief|officer|engineer|developer|designer|consultant|partner|owner|analyst|architect|specialist|associate|advisor|attorney|agent|representative|sales|marketing)\b/i;
+const COMPANY_WORDS = /\b(?:inc|llc|ltd|gmbh|corp|co|company|group|studio|solutions|technologies|labs)\b\.?/i;
+const FAX_LABEL = /\bfax\b/i;
+
+const looksLikeName = (line: TextLine) => {
+  const words = line.text.split(/\s+/);
+  return words.length >= 2 && words.length <= 4
+    && words.every(word => /^[A-ZÀ-Ý][A-Za-zÀ-ÿ'.-]*$/.test(word))
+    && !TITLE_WORDS.test(line.text)
+    && !COMPANY_WORDS.test(line.text);
+};
+
+const isContactLine = (line: TextLine) =>
+  EMAIL_PATTERN.test(line.text) || PHONE_PATTERN.test(line.text) || URL_PATTERN.test(line.text);
+
+const extractBusinessCard = (extractedText: ExtractedText, lines: TextLine[]): ExtractedFields => {
+  // The name is the largest line that reads like a name
+  const nameCandidates = lines.filter(looksLikeName);
+  const nameLine = nameCandidates.reduce<TextLine | undefined>(
+    (best, line) => (!best || lineHeight(line) > lineHeight(best) ? line : best),
+    undefined
+  );
+
+  // A title either contains a title word or sits right under the name
+  const nameIndex = nameLine ? lines.indexOf(nameLine) : -1;
+  const nextLine = nameIndex >= 0 ? lines[nameIndex + 1] : undefined;
+  const titleLine = lines.find(line => line !== nameLine && TITLE_WORDS.test(line.text) && !isContactLine(line))
+    || (nextLine && !isContactLine(nextLine) && !looksLikeName(nextLine) ? nextLine : undefined);
+
+  const phoneLines = lines.filter(line => !FAX_LABEL.test(line.text));
+  const email = firstMatch(lines, EMAIL_PATTERN);
+  const url = firstMatch(lines.filter(line => !EMAIL_PATTERN.test(line.text)), URL_PATTERN);
+
+  return {
+    templateId: 'business-card',
+    fields: [
+      {key: 'name', label: 'Name', value: nameLine?.text || '', wordIds: nameLine ? wordIdsOf([nameLine]) : []},
+      {key: 'title', label: 'Title', value: titleLine?.text || '', wordIds: titleLine ? wordIdsOf([titleLine]) : []},
+      matchField('phone', 'Phone', firstMatch(phoneLines, PHONE_PATTERN)),
+      matchField('email', 'Email', email),
+      matchField('url', 'Website', url),
+    ],
+  };
+};
+
+const EXTRACTORS: Record<FieldTemplateId, (extractedText: ExtractedText, lines: TextLine[]) => ExtractedFields> = {
+  'receipt': extractReceipt,
+  'business-card': extractBusinessCard,
+};
+
+export const extractFields = (templateId: FieldTemplateId, extractedText: ExtractedText): ExtractedFields =>
+  EXTRACTORS[templateId](extractedText, groupWordsIntoLines(extractedText));
+
+// Plain-text summary for sharing the (possibly edited) fields
+export const fieldsToText = ({fields, lineItems}: ExtractedFields): string => {
+  const lines = fields.filter(field => field.value.trim()).map(field => `${field.label}: ${field.value.trim()}`);
+  if (lineItems?.length) {
+    lines.push('', 'Items:');
+    lines.push(...lineItems.map(item =>
+      `${item.quantity ? `${item.quantity} x ` : ''}${item.description}\t${item.amount}`
+    ));
+  }
+  return lines.join('\n');
+};
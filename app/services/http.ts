@@ -0,0 +1,135 @@
+import {createLogger} from './logger';
+import {OcrError} from './ocrErrors';
+
+const log = createLogger('http');
+
+export interface RetryOptions {
+  // Per-attempt timeout
+  timeoutMs: number;
+  // Retries after the first attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  timeoutMs: 20000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+const cancelledError = () => new OcrError('cancelled', 'Request was cancelled');
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Exponential backoff with full jitter, capped at maxDelayMs
+export const backoffDelay = (attempt: number, options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>) =>
+  Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+
+// One attempt, aborted when the caller's signal fires or the timeout elapses
+const fetchOnce = async (url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, {once: true});
+
+  try {
+    return await fetch(url, {...init, signal: controller.signal});
+  } catch (error) {
+    if (signal?.aborted) {
+      throw cancelledError();
+    }
+    if (timedOut) {
+      throw new OcrError('network', `Request timed out after ${timeoutMs} ms`);
+    }
+    throw new OcrError('network', error instanceof Error ? error.message : 'Network request failed');
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// fetch with a timeout per attempt, retries on network errors, 429 and 5xx
+// (honouring Retry-After), and cancellation through options.signal. The last
+// response is returned as-is when retries run out, so callers still see its status.
+export const fetchWithRetry = async (
+  url: string,
+  init: RequestInit,
+  overrides: Partial<RetryOptions> = {}
+): Promise<Response> => {
+  const options = {...DEFAULT_RETRY_OPTIONS, ...overrides};
+
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) {
+      throw cancelledError();
+    }
+
+    const lastAttempt = attempt >= options.maxRetries;
+    let delay: number;
+
+    try {
+      const response = await fetchOnce(url, init, options.timeoutMs, options.signal);
+      if (!RETRYABLE_STATUSES.has(response.status) || lastAttempt) {
+        return response;
+      }
+
+      // A server asking us to wait longer than we're prepared to gets its response back
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfter !== undefined && retryAfter > options.maxDelayMs) {
+        return response;
+      }
+
+      delay = retryAfter ?? backoffDelay(attempt, options);
+      log.warn('Request returned a retryable status', {status: response.status, attempt, delayMs: Math.round(delay)});
+    } catch (error) {
+      if (lastAttempt || (error instanceof OcrError && error.kind === 'cancelled')) {
+        throw error;
+      }
+
+      delay = backoffDelay(attempt, options);
+      log.warn('Request failed, retrying', {attempt, delayMs: Math.round(delay), error});
+    }
+
+    await sleep(delay, options.signal);
+  }
+};
@@ -0,0 +1,149 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+import {loadRgba} from './documentPipeline';
+import {createLogger} from './logger';
+import {OcrError} from './ocrErrors';
+import {GrayImage, toGray} from './rasterImage';
+import {ImageFeature, OcrMode} from './types';
+
+// How big and how compressed a photo is sent for recognition. Dense print
+// needs pixels, a sign or a scene label doesn't; a quick low-resolution pass
+// over the photo tells the two apart.
+
+const log = createLogger('encoding');
+
+// What the encoded image is for: text recognition in a mode, or an image-level feature
+export type EncodingTarget = OcrMode | ImageFeature;
+
+export interface EncodingProfile {
+  // Longest the image's width is allowed to be; smaller photos are never upscaled
+  maxWidth: number;
+  // JPEG quality, 0-1
+  quality: number;
+}
+
+export type EncodingProfileId = 'scene' | 'sparse' | 'text' | 'dense';
+
+export const ENCODING_PROFILES: Record<EncodingProfileId, EncodingProfile> = {
+  // Labels, objects, logos and the like are judged on the whole scene
+  scene: {maxWidth: 640, quality: 0.7},
+  // A few large words, e.g. a sign
+  sparse: {maxWidth: 800, quality: 0.75},
+  text: {maxWidth: 1280, quality: 0.8},
+  // Pages of small print
+  dense: {maxWidth: 2048, quality: 0.85},
+};
+
+// Largest base64 image sent. The Vision API takes 10 MB requests, but the
+// proxy in server/ accepts 4 MiB by default, so stay under that with room to spare.
+export const MAX_PAYLOAD_BYTES = 3.5 * 1024 * 1024;
+
+const DENSITY_PASS_WIDTH = 256;
+// Luma step between neighbouring pixels that counts as an edge
+const EDGE_THRESHOLD = 48;
+// Share of edge pixels below which a photo holds little text, and above which it is a dense page
+const SPARSE_DENSITY = 0.04;
+const DENSE_DENSITY = 0.12;
+
+const MIN_QUALITY = 0.5;
+const MAX_ENCODE_ATTEMPTS = 5;
+
+// Share of pixels with a sharp horizontal change in brightness, which text is
+// full of; a rough stand-in for how much print the photo holds
+export const estimateTextDensity = (image: GrayImage): number => {
+  let edges = 0;
+  for (let y = 0; y < image.height; y++) {
+    const row = y * image.width;
+    for (let x = 1; x < image.width; x++) {
+      if (Math.abs(image.data[row + x] - image.data[row + x - 1]) > EDGE_THRESHOLD) {
+        edges++;
+      }
+    }
+  }
+  return edges / Math.max(1, (image.width - 1) * image.height);
+};
+
+export const chooseEncodingProfile = (target: EncodingTarget, density?: number): EncodingProfileId => {
+  if (target === 'document') {
+    return 'dense';
+  }
+  if (target !== 'text') {
+    return 'scene';
+  }
+  if (density === undefined) {
+    return 'text';
+  }
+  return density < SPARSE_DENSITY ? 'sparse' : density > DENSE_DENSITY ? 'dense' : 'text';
+};
+
+const measureDensity = async (imageUri: string): Promise<number | undefined> => {
+  try {
+    return estimateTextDensity(toGray(await loadRgba(imageUri, DENSITY_PASS_WIDTH)));
+  } catch (error) {
+    log.warn('Density pass failed, using the default profile', {error});
+    return undefined;
+  }
+};
+
+export interface EncodedImage {
+  uri: string;
+  base64: string;
+  width: number;
+  height: number;
+  profile: EncodingProfileId;
+}
+
+const isTextTarget = (target: EncodingTarget) => target === 'text' || target === 'document';
+
+// Encode a photo for `target`, stepping quality and then size down until it
+// fits the payload limit. `preferredProfile` overrides the choice for text recognition;
+// image features always use the scene profile. The photo is decoded once, upright
+// with its EXIF rotation applied, and every attempt is encoded from that copy.
+export const encodeForTarget = async (
+  imageUri: string,
+  target: EncodingTarget,
+  preferredProfile?: EncodingProfileId
+): Promise<EncodedImage> => {
+  const profile = preferredProfile && isTextTarget(target)
+    ? preferredProfile
+    : chooseEncodingProfile(target, target === 'text' ? await measureDensity(imageUri) : undefined);
+
+  const original = await ImageManipulator.ImageManipulator.manipulate(imageUri).renderAsync();
+  try {
+    let width = Math.min(ENCODING_PROFILES[profile].maxWidth, original.width);
+    let quality = ENCODING_PROFILES[profile].quality;
+
+    for (let attempt = 1; ; attempt++) {
+      const resized = width < original.width
+        ? await ImageManipulator.ImageManipulator.manipulate(original).resize({width}).renderAsync()
+        : original;
+      let image: ImageManipulator.ImageResult;
+      try {
+        image = await resized.saveAsync({compress: quality, format: ImageManipulator.SaveFormat.JPEG, base64: true});
+      } finally {
+        if (resized !== original) {
+          resized.release();
+        }
+      }
+      if (!image.base64) {
+        throw new Error('Failed to convert image to base64');
+      }
+
+      if (image.base64.length <= MAX_PAYLOAD_BYTES) {
+        log.debug('Encoded image', {target, profile, width: image.width, quality, bytes: image.base64.length});
+        return {uri: image.uri, base64: image.base64, width: image.width, height: image.height, profile};
+      }
+      if (attempt === MAX_ENCODE_ATTEMPTS) {
+        throw new OcrError('invalid-image', 'The image is too large to send, even after shrinking it');
+      }
+
+      log.debug('Encoded image over the payload limit, shrinking', {width, quality, bytes: image.base64.length});
+      if (quality > MIN_QUALITY) {
+        quality = Math.max(MIN_QUALITY, quality - 0.15);
+      } else {
+        width = Math.round(width * 0.75);
+      }
+    }
+  } finally {
+    original.release();
+  }
+};
@@ -0,0 +1,154 @@
+import {GrayImage, RgbaImage, sampleBilinear, toGray} from './rasterImage';
+
+// Clean-up applied to a flattened document before OCR
+
+const mapPixels = (image: RgbaImage, map: (value: number, index: number) => number): RgbaImage => {
+  const data = new Uint8Array(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = map(image.data[i], i / 4);
+    data[i + 1] = map(image.data[i + 1], i / 4);
+    data[i + 2] = map(image.data[i + 2], i / 4);
+    data[i + 3] = 255;
+  }
+  return {width: image.width, height: image.height, data};
+};
+
+// Value below which `fraction` of the pixels fall
+const percentile = (gray: GrayImage, fraction: number): number => {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < gray.data.length; i++) {
+    histogram[gray.data[i]]++;
+  }
+
+  const target = gray.data.length * fraction;
+  let count = 0;
+  for (let value = 0; value < 256; value++) {
+    count += histogram[value];
+    if (count >= target) {
+      return value;
+    }
+  }
+  return 255;
+};
+
+// Stretch brightness so the darkest and brightest 1% of pixels hit black and white
+export const stretchContrast = (image: RgbaImage): RgbaImage => {
+  const gray = toGray(image);
+  const low = percentile(gray, 0.01);
+  const high = percentile(gray, 0.99);
+  if (high - low < 10) {
+    return image;
+  }
+
+  const range = high - low;
+  return mapPixels(image, value => Math.max(0, Math.min(255, ((value - low) * 255) / range)));
+};
+
+// Black and white by comparing each pixel with the mean of its neighbourhood
+// (Bradley's adaptive threshold), which copes with shadows and uneven lighting
+// where one global threshold wouldn't.
+export const binarize = (image: RgbaImage, windowFraction = 1 / 16, sensitivity = 0.15): RgbaImage => {
+  const gray = toGray(image);
+  const {width, height} = gray;
+  const half = Math.max(1, Math.round((Math.max(width, height) * windowFraction) / 2));
+
+  // Summed-area table with an extra zero row and column
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray.data[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  return mapPixels(image, (_value, index) => {
+    const x = index % width;
+    const y = Math.floor(index / width);
+    const x0 = Math.max(0, x - half);
+    const x1 = Math.min(width, x + half + 1);
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+      - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+    const mean = sum / ((x1 - x0) * (y1 - y0));
+    return gray.data[index] < mean * (1 - sensitivity) ? 0 : 255;
+  });
+};
+
+// Estimate how far text lines are tilted, in degrees clockwise. Dark pixels
+// are projected onto rows for each candidate angle; when the angle matches the
+// text the rows alternate sharply between ink and gaps, maximising the variance.
+export const estimateSkewAngle = (image: RgbaImage, maxAngle = 10, step = 0.5): number => {
+  const gray = toGray(image);
+  const {width, height} = gray;
+  const threshold = percentile(gray, 0.5) * 0.7;
+  // Sample a sparse grid; the variance peak doesn't need every pixel
+  const stride = Math.max(1, Math.floor(Math.max(width, height) / 400));
+  const ink: {x: number; y: number}[] = [];
+  for (let y = 0; y < height; y += stride) {
+    for (let x = 0; x < width; x += stride) {
+      if (gray.data[y * width + x] < threshold) {
+        ink.push({x: x - width / 2, y: y - height / 2});
+      }
+    }
+  }
+
+  if (ink.length < 50) {
+    return 0;
+  }
+
+  let bestAngle = 0;
+  let bestScore = -1;
+  const bins = new Float64Array(Math.ceil(Math.hypot(width, height) / stride) + 2);
+
+  for (let angle = -maxAngle; angle <= maxAngle; angle += step) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+    for (const p of ink) {
+      // Row of the point once the image is rotated by -angle
+      const row = Math.floor((p.y * cos - p.x * sin) / stride + bins.length / 2);
+      if (row >= 0 && row < bins.length) {
+        bins[row]++;
+      }
+    }
+
+    let score = 0;
+    for (let i = 0; i < bins.length; i++) {
+      score += bins[i] * bins[i];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+};
+
+// Rotate around the centre, keeping the original size; corners fill with white
+export const rotateImage = (image: RgbaImage, degrees: number): RgbaImage => {
+  if (degrees === 0) {
+    return image;
+  }
+
+  const {width, height} = image;
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const cx = width / 2;
+  const cy = height / 2;
+  const data = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = x - cx;
+      const dy = y - cy;
+      sampleBilinear(image, cx + dx * cos + dy * sin, cy - dx * sin + dy * cos, data, (y * width + x) * 4);
+    }
+  }
+
+  return {width, height, data};
+};
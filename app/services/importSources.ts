@@ -0,0 +1,84 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as ImagePicker from 'expo-image-picker';
+import PdfThumbnail from 'react-native-pdf-thumbnail';
+import {createLogger} from './logger';
+
+// Images and PDFs brought in from outside the camera: the photo library, the
+// document picker, or another app's share sheet.
+
+const log = createLogger('import');
+
+export interface ImportedFile {
+  uri: string;
+  mimeType?: string | null;
+  name?: string | null;
+}
+
+// JPEG quality pages are rendered at; the OCR step downscales them afterwards
+const PDF_PAGE_QUALITY = 90;
+
+export const isPdfFile = (file: ImportedFile) =>
+  file.mimeType === 'application/pdf' || /\.pdf$/i.test(file.name || file.uri);
+
+// Pick one or more photos or screenshots; empty when the user cancels
+export const pickFromLibrary = async (): Promise<ImportedFile[]> => {
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    allowsMultipleSelection: true,
+    quality: 1,
+  });
+  if (result.canceled) {
+    return [];
+  }
+
+  return result.assets.map(asset => ({uri: asset.uri, mimeType: asset.mimeType, name: asset.fileName}));
+};
+
+// Pick an image or PDF from the file system or a cloud provider
+export const pickDocument = async (): Promise<ImportedFile[]> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['image/*', 'application/pdf'],
+    multiple: true,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) {
+    return [];
+  }
+
+  return result.assets.map(asset => ({uri: asset.uri, mimeType: asset.mimeType, name: asset.name}));
+};
+
+// Android shares content:// URIs that other modules can't always open, so
+// shared files are copied into the cache first
+const toLocalUri = async (file: ImportedFile): Promise<string> => {
+  if (file.uri.startsWith('file://')) {
+    return file.uri;
+  }
+
+  const extension = isPdfFile(file) ? 'pdf' : 'jpg';
+  const localUri = `${FileSystem.cacheDirectory}import-${Date.now()}-${Math.random().toString(36).slice(2, 6)}.${extension}`;
+  await FileSystem.copyAsync({from: file.uri, to: localUri});
+  return localUri;
+};
+
+// Image URIs ready for OCR, in order: an image stays one page, a PDF is
+// rasterised into one image per page
+export const importedFilesToImages = async (files: ImportedFile[]): Promise<string[]> => {
+  const images: string[] = [];
+
+  for (const file of files) {
+    const uri = await toLocalUri(file);
+    if (!isPdfFile(file)) {
+      images.push(uri);
+      continue;
+    }
+
+    const startTime = Date.now();
+    const pages = await PdfThumbnail.generateAllPages(uri, PDF_PAGE_QUALITY);
+    log.metric('pdfRasterisation', Date.now() - startTime, {pageCount: pages.length});
+    images.push(...pages.map(page => page.uri));
+  }
+
+  return images;
+};
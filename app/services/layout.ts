@@ -0,0 +1,333 @@
+import {boundingRect, Point, Rect} from './coordinates';
+import {ExtractedText, ExtractedWord} from './types';
+
+// Page layout rebuilt from word boxes alone, for results without document
+// structure: lines, columns, paragraphs and tables, in reading order. The
+// geometry is worked out in a frame turned to the text's dominant angle, so a
+// tilted photo groups the same way as a straight one.
+
+export type TextAlignment = 'left' | 'center' | 'right' | 'justify';
+
+export interface LayoutLine {
+  text: string;
+  words: ExtractedWord[];
+}
+
+export interface LayoutParagraph {
+  lines: LayoutLine[];
+  alignment: TextAlignment;
+}
+
+export interface TextLayoutBlock {
+  kind: 'text';
+  paragraphs: LayoutParagraph[];
+}
+
+export interface TableLayoutBlock {
+  kind: 'table';
+  // Cells of each row, left to right
+  rows: LayoutLine[][];
+}
+
+export type LayoutBlock = TextLayoutBlock | TableLayoutBlock;
+
+export interface TextLayout {
+  // Dominant text angle in degrees, clockwise
+  angle: number;
+  blocks: LayoutBlock[];
+}
+
+export interface TextLine {
+  text: string;
+  words: ExtractedWord[];
+  // Image-space box; absent when the text came without word geometry
+  box?: Rect;
+}
+
+// Horizontal gap between words, in line heights, that separates columns or table cells
+const COLUMN_GAP = 1.5;
+// Vertical gap between lines, in line heights, that starts a new paragraph
+const PARAGRAPH_GAP = 0.8;
+// ... and that ends a column
+const COLUMN_BREAK_GAP = 2;
+// Indent, in line heights, that marks the first line of a paragraph
+const PARAGRAPH_INDENT = 1.5;
+// Rows whose cells average more words than this read as columns of prose, not a table
+const TABLE_MAX_CELL_WORDS = 4;
+
+// A word's box in the deskewed frame
+interface PlacedWord {
+  word: ExtractedWord;
+  box: Rect;
+}
+
+interface PlacedLine {
+  words: PlacedWord[];
+  box: Rect;
+}
+
+interface PlacedBlock {
+  block: LayoutBlock;
+  box: Rect;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+const right = (rect: Rect) => rect.x + rect.width;
+const bottom = (rect: Rect) => rect.y + rect.height;
+const unionRect = (rects: Rect[]) =>
+  boundingRect(rects.flatMap(rect => [{x: rect.x, y: rect.y}, {x: right(rect), y: bottom(rect)}]));
+const overlapsHorizontally = (a: Rect, b: Rect) => a.x < right(b) && b.x < right(a);
+const within = (a: number, b: number, tolerance: number) => Math.abs(a - b) <= tolerance;
+
+const lineText = (words: PlacedWord[]) => words.map(placed => placed.word.text).join(' ');
+const toLayoutLine = (line: PlacedLine): LayoutLine => ({
+  text: lineText(line.words),
+  words: line.words.map(placed => placed.word),
+});
+
+// Median direction of the words' first edges, which Vision and ML Kit both
+// run along the baseline
+export const estimateTextAngle = (words: ExtractedWord[]): number =>
+  (median(
+    words
+      .filter(word => word.vertices.length >= 2)
+      .map(word => Math.atan2(word.vertices[1].y - word.vertices[0].y, word.vertices[1].x - word.vertices[0].x))
+  ) * 180) / Math.PI;
+
+const placeWords = (words: ExtractedWord[], angle: number): PlacedWord[] => {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const unrotate = (point: Point): Point => ({x: point.x * cos + point.y * sin, y: -point.x * sin + point.y * cos});
+
+  return words.map(word => ({
+    word,
+    box: word.vertices.length >= 2
+      ? boundingRect(word.vertices.map(unrotate))
+      : {x: word.x, y: word.y, width: word.width, height: word.height},
+  }));
+};
+
+// A word joins a line when its vertical centre falls within the line's box
+const bandLines = (words: PlacedWord[]): PlacedLine[] => {
+  const sorted = [...words].sort((a, b) => a.box.y + a.box.height / 2 - (b.box.y + b.box.height / 2));
+  const lines: PlacedLine[] = [];
+
+  for (const placed of sorted) {
+    const center = placed.box.y + placed.box.height / 2;
+    const line = lines.find(candidate => center >= candidate.box.y && center <= bottom(candidate.box));
+    if (line) {
+      line.words.push(placed);
+      line.box = unionRect([line.box, placed.box]);
+    } else {
+      lines.push({words: [placed], box: placed.box});
+    }
+  }
+
+  return lines
+    .sort((a, b) => a.box.y - b.box.y)
+    .map(line => ({...line, words: line.words.sort((a, b) => a.box.x - b.box.x)}));
+};
+
+// Break a line where the gap between words is wide enough to be a gutter
+const splitSegments = (line: PlacedLine): PlacedLine[] => {
+  const gap = COLUMN_GAP * line.box.height;
+  const segments: PlacedWord[][] = [];
+  for (const placed of line.words) {
+    const current = segments[segments.length - 1];
+    const previous = current?.[current.length - 1];
+    if (previous && placed.box.x - right(previous.box) <= gap) {
+      current.push(placed);
+    } else {
+      segments.push([placed]);
+    }
+  }
+  return segments.map(words => ({words, box: unionRect(words.map(placed => placed.box))}));
+};
+
+const isTableRow = (segments: PlacedLine[]) =>
+  segments.length >= 2
+  && segments.reduce((sum, segment) => sum + segment.words.length, 0) / segments.length <= TABLE_MAX_CELL_WORDS;
+
+// Consecutive rows with the same number of short cells, each under the one above
+const continuesTable = (previous: PlacedLine[], row: PlacedLine[]) =>
+  row.length === previous.length && row.every((cell, index) => overlapsHorizontally(cell.box, previous[index].box));
+
+const findTables = (rows: PlacedLine[][]): {start: number; end: number}[] => {
+  const tables: {start: number; end: number}[] = [];
+  let start = 0;
+  for (let index = 1; index <= rows.length; index++) {
+    const continues = index < rows.length && isTableRow(rows[index]) && continuesTable(rows[index - 1], rows[index]);
+    if (!continues) {
+      if (index - start >= 2 && isTableRow(rows[start])) {
+        tables.push({start, end: index});
+      }
+      start = index;
+    }
+  }
+  return tables;
+};
+
+// Stack segments into columns: a segment continues the column whose last
+// segment sits just above it and overlaps it horizontally
+const groupColumns = (segments: PlacedLine[]): PlacedLine[][] => {
+  const columns: PlacedLine[][] = [];
+  for (const segment of segments) {
+    const column = columns.find(candidate => {
+      const last = candidate[candidate.length - 1];
+      return last.box.y < segment.box.y
+        && overlapsHorizontally(last.box, segment.box)
+        && segment.box.y - bottom(last.box) <= COLUMN_BREAK_GAP * last.box.height;
+    });
+    if (column) {
+      column.push(segment);
+    } else {
+      columns.push([segment]);
+    }
+  }
+  return columns;
+};
+
+const alignmentOf = (lines: PlacedLine[], frame: Rect): TextAlignment => {
+  const tolerance = Math.max(2, median(lines.map(line => line.box.height)) / 2);
+  const near = (a: number, b: number) => within(a, b, tolerance);
+  const flushLeft = lines.every(line => near(line.box.x, frame.x));
+  const flushRight = lines.slice(0, -1).every(line => near(right(line.box), right(frame)));
+
+  if (flushLeft && lines.length >= 2 && flushRight) {
+    return 'justify';
+  }
+  if (flushLeft) {
+    return 'left';
+  }
+  if (lines.every(line => near(right(line.box), right(frame)))) {
+    return 'right';
+  }
+  if (lines.every(line => near(line.box.x + line.box.width / 2, frame.x + frame.width / 2))) {
+    return 'center';
+  }
+  return 'left';
+};
+
+// A new paragraph starts after a wide gap or at an indented line
+const splitParagraphs = (lines: PlacedLine[], frame: Rect): LayoutParagraph[] => {
+  const height = median(lines.map(line => line.box.height));
+  const paragraphs: PlacedLine[][] = [];
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    const startsParagraph = !previous
+      || line.box.y - bottom(previous.box) > PARAGRAPH_GAP * height
+      || (line.box.x - frame.x > PARAGRAPH_INDENT * height && within(previous.box.x, frame.x, height / 2));
+    if (startsParagraph) {
+      paragraphs.push([line]);
+    } else {
+      paragraphs[paragraphs.length - 1].push(line);
+    }
+  });
+  return paragraphs.map(paragraph => ({lines: paragraph.map(toLayoutLine), alignment: alignmentOf(paragraph, frame)}));
+};
+
+// Groups of blocks separated by a gap along one axis that no block spans
+const splitAlong = (blocks: PlacedBlock[], start: (rect: Rect) => number, end: (rect: Rect) => number) => {
+  const sorted = [...blocks].sort((a, b) => start(a.box) - start(b.box));
+  const groups: PlacedBlock[][] = [];
+  let reach = -Infinity;
+  for (const block of sorted) {
+    if (groups.length === 0 || start(block.box) >= reach) {
+      groups.push([]);
+    }
+    groups[groups.length - 1].push(block);
+    reach = Math.max(reach, end(block.box));
+  }
+  return groups;
+};
+
+// Recursive XY cut: split into bands top to bottom where possible, otherwise
+// into columns left to right, and order each part the same way
+const orderBlocks = (blocks: PlacedBlock[]): PlacedBlock[] => {
+  if (blocks.length <= 1) {
+    return blocks;
+  }
+
+  const bands = splitAlong(blocks, rect => rect.y, bottom);
+  if (bands.length > 1) {
+    return bands.flatMap(orderBlocks);
+  }
+
+  const columns = splitAlong(blocks, rect => rect.x, right);
+  if (columns.length > 1) {
+    return columns.flatMap(orderBlocks);
+  }
+
+  return [...blocks].sort((a, b) => a.box.y - b.box.y || a.box.x - b.box.x);
+};
+
+export const analyzeLayout = (words: ExtractedWord[]): TextLayout => {
+  const angle = estimateTextAngle(words);
+  const rows = bandLines(placeWords(words, angle)).map(splitSegments);
+
+  const placed: PlacedBlock[] = [];
+  const tables = findTables(rows);
+  for (const table of tables) {
+    const tableRows = rows.slice(table.start, table.end);
+    placed.push({
+      block: {kind: 'table', rows: tableRows.map(row => row.map(toLayoutLine))},
+      box: unionRect(tableRows.flat().map(cell => cell.box)),
+    });
+  }
+
+  const flowing = rows.filter((_row, index) => !tables.some(table => index >= table.start && index < table.end));
+  const columns = groupColumns(flowing.flat()).map(lines => ({lines, box: unionRect(lines.map(line => line.box))}));
+  // Alignment is judged against the whole text width unless the column has neighbours
+  const page = unionRect(columns.map(column => column.box));
+  for (const column of columns) {
+    const hasNeighbours = columns.some(other => other !== column
+      && other.box.y < bottom(column.box) && column.box.y < bottom(other.box));
+    placed.push({
+      block: {kind: 'text', paragraphs: splitParagraphs(column.lines, hasNeighbours ? column.box : page)},
+      box: column.box,
+    });
+  }
+
+  return {angle, blocks: orderBlocks(placed).map(item => item.block)};
+};
+
+// Every line in reading order; a table row reads as one line of tab-separated cells
+export const layoutLines = (layout: TextLayout): LayoutLine[] =>
+  layout.blocks.flatMap(block => (block.kind === 'table'
+    ? block.rows.map(row => ({text: row.map(cell => cell.text).join('\t'), words: row.flatMap(cell => cell.words)}))
+    : block.paragraphs.flatMap(paragraph => paragraph.lines)));
+
+// Plain text with a blank line between paragraphs and tab-separated table cells
+export const layoutToText = (layout: TextLayout): string =>
+  layout.blocks
+    .map(block => (block.kind === 'table'
+      ? block.rows.map(row => row.map(cell => cell.text).join('\t')).join('\n')
+      : block.paragraphs.map(paragraph => paragraph.lines.map(line => line.text).join('\n')).join('\n\n')))
+    .join('\n\n');
+
+// Full-width lines top to bottom, without splitting columns. Falls back to the
+// lines of fullText when there's no geometry.
+export const groupWordsIntoLines = (extractedText: ExtractedText): TextLine[] => {
+  if (extractedText.words.length === 0) {
+    return extractedText.fullText
+      .split('\n')
+      .map(text => text.trim())
+      .filter(Boolean)
+      .map(text => ({text, words: []}));
+  }
+
+  const placed = placeWords(extractedText.words, estimateTextAngle(extractedText.words));
+  return bandLines(placed).map(line => {
+    const words = line.words.map(item => item.word);
+    return {
+      text: lineText(line.words),
+      words,
+      box: boundingRect(words.flatMap(word => word.vertices)),
+    };
+  });
+};
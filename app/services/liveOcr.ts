@@ -0,0 +1,91 @@
+import {boundingRect, Point, Size} from './coordinates';
+import {ExtractedText, ExtractedWord} from './types';
+
+// What the scanText frame processor plugin actually returns. Its bundled
+// typings describe tuples, but the native side produces these objects.
+interface LiveElement {
+  elementText: string;
+  elementCornerPoints?: Point[];
+  elementFrame?: {x: number; y: number; width: number; height: number};
+}
+
+interface LiveLine {
+  lineText: string;
+  elements?: LiveElement[];
+}
+
+interface LiveBlock {
+  blockText: string;
+  lines?: LiveLine[];
+}
+
+export interface LiveScanResult {
+  resultText?: string;
+  blocks?: LiveBlock[];
+}
+
+// The plugin's declared result doesn't match what it returns, so it's
+// checked before use rather than trusted
+export const isLiveScanResult = (value: unknown): value is LiveScanResult => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const {resultText, blocks} = value as Record<string, unknown>;
+  return (resultText === undefined || typeof resultText === 'string')
+    && (blocks === undefined || (Array.isArray(blocks) && blocks.every(block => typeof block === 'object' && block !== null)));
+};
+
+export type FrameOrientation = 'portrait' | 'portrait-upside-down' | 'landscape-left' | 'landscape-right';
+
+// ML Kit reports coordinates in the upright image, which is the frame buffer
+// rotated by its orientation; landscape orientations swap width and height.
+export const uprightFrameSize = (frameSize: Size, orientation: FrameOrientation): Size =>
+  orientation.startsWith('landscape')
+    ? {width: frameSize.height, height: frameSize.width}
+    : frameSize;
+
+// Default frame rate live OCR runs at, from EXPO_PUBLIC_LIVE_OCR_FPS (2 per second if unset)
+export const getConfiguredLiveOcrFps = (): number => {
+  const fps = Number(process.env.EXPO_PUBLIC_LIVE_OCR_FPS);
+  return Number.isFinite(fps) && fps > 0 ? Math.min(fps, 30) : 2;
+};
+
+const elementVertices = (element: LiveElement): Point[] => {
+  if (element.elementCornerPoints?.length === 4) {
+    return element.elementCornerPoints.map(p => ({x: p.x, y: p.y}));
+  }
+
+  // elementFrame's x/y are its centre
+  const {x = 0, y = 0, width = 0, height = 0} = element.elementFrame || {};
+  const left = x - width / 2;
+  const top = y - height / 2;
+  return [
+    {x: left, y: top},
+    {x: left + width, y: top},
+    {x: left + width, y: top + height},
+    {x: left, y: top + height}
+  ];
+};
+
+export const liveResultToExtractedText = (result: LiveScanResult, imageSize: Size): ExtractedText => {
+  const elements = (result.blocks || []).flatMap(block =>
+    (block.lines || []).flatMap(line => line.elements || [])
+  );
+
+  const words = elements.map((element, index): ExtractedWord => {
+    const vertices = elementVertices(element);
+    return {
+      id: `word-${index}`,
+      text: element.elementText,
+      ...boundingRect(vertices),
+      vertices
+    };
+  });
+
+  return {
+    fullText: result.resultText || '',
+    imageWidth: imageSize.width,
+    imageHeight: imageSize.height,
+    words
+  };
+};
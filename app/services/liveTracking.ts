@@ -0,0 +1,104 @@
+import {boundingRect, Point} from './coordinates';
+import {ExtractedWord} from './types';
+
+// Keeps live OCR boxes steady between frames. Each detection is matched to
+// the closest tracked word with the same text; matched boxes are smoothed,
+// new words must be seen a few times before they show, and words that drop
+// out are kept for a few frames so a single missed detection doesn't flicker.
+
+export interface TrackedWord extends ExtractedWord {
+  // Consecutive frames the word was detected in, kept while it's missing
+  hits: number;
+  // Consecutive frames the word was missing from
+  misses: number;
+}
+
+export interface TrackingOptions {
+  // Weight of the newest detection when smoothing vertices, in (0, 1]
+  smoothing: number;
+  // Frames a new word must be seen in before it's shown
+  minHits: number;
+  // Frames a word may go missing before it's dropped
+  maxMisses: number;
+  // Largest centre distance for a match, as a multiple of the word's height
+  maxDistance: number;
+}
+
+export const DEFAULT_TRACKING_OPTIONS: TrackingOptions = {
+  smoothing: 0.5,
+  minHits: 2,
+  maxMisses: 2,
+  maxDistance: 1.5,
+};
+
+const centre = (word: ExtractedWord): Point => ({x: word.x + word.width / 2, y: word.y + word.height / 2});
+
+const blendVertices = (previous: Point[], next: Point[], weight: number): Point[] =>
+  previous.length !== next.length
+    ? next
+    : next.map((point, index) => ({
+      x: previous[index].x + (point.x - previous[index].x) * weight,
+      y: previous[index].y + (point.y - previous[index].y) * weight,
+    }));
+
+let nextTrackId = 0;
+
+export const updateTrackedWords = (
+  tracked: TrackedWord[],
+  detections: ExtractedWord[],
+  overrides: Partial<TrackingOptions> = {}
+): TrackedWord[] => {
+  const options = {...DEFAULT_TRACKING_OPTIONS, ...overrides};
+  const unmatched = new Set(tracked);
+  const updated: TrackedWord[] = [];
+
+  for (const detection of detections) {
+    const detectionCentre = centre(detection);
+    let best: TrackedWord | undefined;
+    let bestDistance = Infinity;
+
+    for (const candidate of unmatched) {
+      if (candidate.text !== detection.text) {
+        continue;
+      }
+      const candidateCentre = centre(candidate);
+      const distance = Math.hypot(candidateCentre.x - detectionCentre.x, candidateCentre.y - detectionCentre.y);
+      const limit = options.maxDistance * Math.max(candidate.height, detection.height, 1);
+      if (distance <= limit && distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+
+    if (best) {
+      unmatched.delete(best);
+      const vertices = blendVertices(best.vertices, detection.vertices, options.smoothing);
+      updated.push({
+        ...detection,
+        id: best.id,
+        ...boundingRect(vertices),
+        vertices,
+        hits: best.hits + 1,
+        misses: 0,
+      });
+    } else {
+      updated.push({...detection, id: `live-${nextTrackId++}`, hits: 1, misses: 0});
+    }
+  }
+
+  for (const missing of unmatched) {
+    if (missing.misses < options.maxMisses) {
+      updated.push({...missing, misses: missing.misses + 1});
+    }
+  }
+
+  return updated;
+};
+
+export const visibleTrackedWords = (
+  tracked: TrackedWord[],
+  overrides: Partial<TrackingOptions> = {}
+): TrackedWord[] => {
+  const {minHits} = {...DEFAULT_TRACKING_OPTIONS, ...overrides};
+  return tracked.filter(word => word.hits >= minHits);
+};
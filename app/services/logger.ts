@@ -0,0 +1,159 @@
+// Levelled, namespaced logging. Every entry is redacted and kept in an
+// in-memory ring buffer that the debug screen can show and export; only
+// development builds echo entries to the console unless asked to.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  timestamp: number;
+  level: LogLevel;
+  namespace: string;
+  message: string;
+  // Structured context, already redacted
+  data?: Record<string, unknown>;
+  // Set on metrics events
+  metric?: {name: string; durationMs: number};
+}
+
+export interface Logger {
+  debug: (message: string, data?: Record<string, unknown>) => void;
+  info: (message: string, data?: Record<string, unknown>) => void;
+  warn: (message: string, data?: Record<string, unknown>) => void;
+  error: (message: string, data?: Record<string, unknown>) => void;
+  // A timing as a structured metrics event, e.g. metric('ocr', 840, {provider: 'google'})
+  metric: (name: string, durationMs: number, data?: Record<string, unknown>) => void;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = {debug: 0, info: 1, warn: 2, error: 3};
+
+export const LOG_LEVELS = Object.keys(LEVEL_RANK) as LogLevel[];
+
+export const isLogLevel = (value: unknown): value is LogLevel =>
+  typeof value === 'string' && value in LEVEL_RANK;
+
+// Lowest level recorded, from EXPO_PUBLIC_LOG_LEVEL; development records
+// everything, production info and above
+export const getConfiguredLogLevel = (): LogLevel => {
+  const configured = process.env.EXPO_PUBLIC_LOG_LEVEL;
+  return isLogLevel(configured) ? configured : __DEV__ ? 'debug' : 'info';
+};
+
+const minimumRank = LEVEL_RANK[getConfiguredLogLevel()];
+const echoToConsole = __DEV__ || process.env.EXPO_PUBLIC_LOG_CONSOLE === 'true';
+
+// Ring buffer of the most recent entries
+export const LOG_BUFFER_SIZE = 500;
+const buffer: LogEntry[] = [];
+let nextIndex = 0;
+const listeners = new Set<() => void>();
+
+// Oldest first
+export const getLogEntries = (): LogEntry[] =>
+  buffer.length < LOG_BUFFER_SIZE ? [...buffer] : [...buffer.slice(nextIndex), ...buffer.slice(0, nextIndex)];
+
+export const clearLogEntries = () => {
+  buffer.length = 0;
+  nextIndex = 0;
+  listeners.forEach(listener => listener());
+};
+
+// Called after every new entry; returns the unsubscribe function
+export const subscribeToLogs = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// One JSON object per line, for sharing from the debug screen
+export const formatLogEntries = (entries: LogEntry[]): string =>
+  entries.map(entry => JSON.stringify({...entry, timestamp: new Date(entry.timestamp).toISOString()})).join('\n');
+
+// Credentials are dropped outright; recognised text, payloads and image data
+// are replaced by their size, so logs show the shape of a result but not what it says
+const SECRET_KEY = /token|secret|password|authorization|api_?key/i;
+const CONTENT_KEY = /^(text|fulltext|description|data|content|base64|words|lines|translated|original)$/i;
+const URI_KEY = /uri$|url$/i;
+
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/Bearer\s+[\w.~+/=-]+/gi, 'Bearer [redacted]'],
+  [/([?&](?:key|token)=)[^&\s]+/gi, '$1[redacted]'],
+  [/AIza[\w-]{35}/g, '[redacted]'],
+];
+
+const redactString = (value: string) =>
+  SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), value);
+
+// Keep the scheme and host of a URI, which say where it points, but not the path
+const redactUri = (value: string) => {
+  const match = value.match(/^([a-z][\w+.-]*:\/\/[^/?#]*)/i);
+  return match ? `${match[1]}/[redacted]` : '[redacted]';
+};
+
+const MAX_DEPTH = 4;
+
+export const redact = (value: unknown, key = '', depth = 0): unknown => {
+  if (key && SECRET_KEY.test(key)) {
+    return '[redacted]';
+  }
+  if (key && CONTENT_KEY.test(key) && (typeof value === 'string' || Array.isArray(value))) {
+    return typeof value === 'string' ? `[${value.length} chars]` : `[${value.length} items]`;
+  }
+  if (typeof value === 'string') {
+    return key && URI_KEY.test(key) ? redactUri(value) : redactString(value);
+  }
+  if (value instanceof Error) {
+    return {name: value.name, message: redactString(value.message), ...(__DEV__ ? {stack: value.stack} : {})};
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[nested]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, '', depth + 1));
+  }
+  return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, redact(item, name, depth + 1)]));
+};
+
+const CONSOLE_METHODS: Record<LogLevel, 'log' | 'info' | 'warn' | 'error'> = {
+  debug: 'log',
+  info: 'info',
+  warn: 'warn',
+  error: 'error',
+};
+
+const record = (entry: LogEntry) => {
+  if (LEVEL_RANK[entry.level] < minimumRank) {
+    return;
+  }
+
+  const redacted: LogEntry = {
+    ...entry,
+    message: redactString(entry.message),
+    data: entry.data && (redact(entry.data) as Record<string, unknown>),
+  };
+
+  buffer[nextIndex] = redacted;
+  nextIndex = (nextIndex + 1) % LOG_BUFFER_SIZE;
+
+  if (echoToConsole) {
+    console[CONSOLE_METHODS[entry.level]](`[${entry.namespace}] ${redacted.message}`, ...(redacted.data ? [redacted.data] : []));
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const createLogger = (namespace: string): Logger => {
+  const log = (level: LogLevel) => (message: string, data?: Record<string, unknown>) =>
+    record({timestamp: Date.now(), level, namespace, message, data});
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    metric: (name, durationMs, data) =>
+      record({timestamp: Date.now(), level: 'info', namespace, message: `${name} took ${durationMs} ms`, data, metric: {name, durationMs}}),
+  };
+};
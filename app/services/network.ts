@@ -0,0 +1,56 @@
+import NetInfo, {NetInfoState} from '@react-native-community/netinfo';
+
+// Whether the device can reach the network, and when that changes. The
+// simulated monitor stands in for the real one when exercising the offline
+// queue on a connected device or simulator.
+
+export interface NetworkMonitor {
+  isOnline: () => Promise<boolean>;
+  // Called on every change; returns the unsubscribe function
+  subscribe: (listener: (online: boolean) => void) => () => void;
+}
+
+// Unknown reachability counts as online; a request that then fails is queued anyway
+const isOnlineState = (state: NetInfoState) => state.isConnected !== false && state.isInternetReachable !== false;
+
+export const netInfoMonitor: NetworkMonitor = {
+  isOnline: async () => isOnlineState(await NetInfo.fetch()),
+  subscribe: listener => NetInfo.addEventListener(state => listener(isOnlineState(state))),
+};
+
+export interface SimulatedNetwork extends NetworkMonitor {
+  setOnline: (online: boolean) => void;
+}
+
+export const isSimulatedNetwork = (monitor: NetworkMonitor): monitor is SimulatedNetwork => 'setOnline' in monitor;
+
+export const createSimulatedNetwork = (initiallyOnline: boolean): SimulatedNetwork => {
+  let online = initiallyOnline;
+  const listeners = new Set<(online: boolean) => void>();
+
+  return {
+    isOnline: async () => online,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setOnline: value => {
+      if (value !== online) {
+        online = value;
+        listeners.forEach(listener => listener(online));
+      }
+    },
+  };
+};
+
+// EXPO_PUBLIC_SIMULATED_NETWORK="offline" starts a simulated network that
+// reports no connectivity, "online" one that reports connectivity; anything
+// else uses the device's real state
+export const getConfiguredNetworkMonitor = (): NetworkMonitor => {
+  const simulated = process.env.EXPO_PUBLIC_SIMULATED_NETWORK;
+  return simulated === 'offline' || simulated === 'online'
+    ? createSimulatedNetwork(simulated === 'online')
+    : netInfoMonitor;
+};
@@ -0,0 +1,68 @@
+// What went wrong with an OCR request, so the UI can react to each case
+export type OcrErrorKind =
+  | 'config' // the provider isn't set up (missing proxy URL, token, ...)
+  | 'auth' // credentials were rejected
+  | 'quota' // rate limited or out of quota
+  | 'budget' // the monthly spending cap set in Settings has been reached
+  | 'network' // no connectivity or the request timed out
+  | 'unavailable' // the service answered but is down or overloaded (5xx)
+  | 'invalid-image' // the image was rejected as unreadable or too large
+  | 'cancelled' // the caller aborted the request
+  | 'unknown';
+
+export class OcrError extends Error {
+  kind: OcrErrorKind;
+  status?: number;
+
+  constructor(kind: OcrErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'OcrError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export const isOcrError = (error: unknown): error is OcrError => error instanceof OcrError;
+
+// Anything thrown that isn't already an OcrError is reported as unknown
+export const toOcrError = (error: unknown): OcrError => {
+  if (isOcrError(error)) {
+    return error;
+  }
+  return new OcrError('unknown', error instanceof Error ? error.message : String(error));
+};
+
+// HTTP status from the Vision proxy or API
+export const errorKindForStatus = (status: number): OcrErrorKind => {
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 429) {
+    return 'quota';
+  }
+  if (status === 400 || status === 413) {
+    return 'invalid-image';
+  }
+  if (status >= 500) {
+    return 'unavailable';
+  }
+  return 'unknown';
+};
+
+// google.rpc.Code values reported per image in a Vision response
+export const errorKindForRpcCode = (code: number): OcrErrorKind => {
+  switch (code) {
+    case 3: // INVALID_ARGUMENT
+      return 'invalid-image';
+    case 7: // PERMISSION_DENIED
+    case 16: // UNAUTHENTICATED
+      return 'auth';
+    case 8: // RESOURCE_EXHAUSTED
+      return 'quota';
+    case 4: // DEADLINE_EXCEEDED
+    case 14: // UNAVAILABLE
+      return 'unavailable';
+    default:
+      return 'unknown';
+  }
+};
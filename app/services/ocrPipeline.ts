@@ -0,0 +1,69 @@
+import {detectCodes} from './barcodes';
+import {EncodedImage, encodeForTarget, EncodingTarget} from './imageEncoding';
+import {createLogger} from './logger';
+import {OcrImage, OcrOptions, OcrProvider} from './ocrProvider';
+import {resultCache, resultCacheKey} from './resultCache';
+import {ScanTimings} from './scanHistory';
+import {getSettings} from './settings';
+import {ExtractedText} from './types';
+
+const log = createLogger('ocr');
+
+// Encode a photo for a provider at the size and quality `target` calls for,
+// or the profile picked in Settings
+export const prepareOcrImage = (imageUri: string, target: EncodingTarget = 'text'): Promise<EncodedImage> => {
+  const {encoding} = getSettings();
+  return encodeForTarget(imageUri, target, encoding === 'auto' ? undefined : encoding);
+};
+
+// Run `provider` on a prepared image, answering from the result cache when
+// the same image was recognised the same way before. A failing cache never
+// fails the recognition.
+const recognizeCached = async (provider: OcrProvider, image: OcrImage, options: OcrOptions): Promise<ExtractedText> => {
+  if (!getSettings().resultCacheEnabled) {
+    return provider.recognize(image, options);
+  }
+
+  const key = await resultCacheKey(provider.id, options.mode, options.languageHints ?? [], options.maxResults, image.base64);
+  if (!options.bypassCache) {
+    const cached = await resultCache.get(key).catch(error => {
+      log.warn('Reading the result cache failed', {error});
+      return null;
+    });
+    if (cached) {
+      return cached;
+    }
+  }
+
+  const extractedText = await provider.recognize(image, options);
+  resultCache.put(key, extractedText).catch(error => log.warn('Caching the result failed', {error}));
+  return extractedText;
+};
+
+// Run `provider` on a prepared image, decoding any barcodes in it alongside
+export const recognizeWithCodes = async (
+  provider: OcrProvider,
+  image: OcrImage,
+  options: OcrOptions
+): Promise<ExtractedText> => {
+  const [extractedText, codes] = await Promise.all([
+    recognizeCached(provider, image, options),
+    detectCodes(image.uri, {width: image.width, height: image.height}),
+  ]);
+  return codes.length > 0 ? {...extractedText, codes} : extractedText;
+};
+
+// Prepare a photo and run it through `provider`, timing both steps
+export const recognizeImage = async (
+  provider: OcrProvider,
+  imageUri: string,
+  options: OcrOptions
+): Promise<{extractedText: ExtractedText; timings: ScanTimings}> => {
+  const manipulationStartTime = Date.now();
+  const image = await prepareOcrImage(imageUri, options.mode);
+  const manipulationMs = Date.now() - manipulationStartTime;
+
+  const ocrStartTime = Date.now();
+  const extractedText = await recognizeWithCodes(provider, image, options);
+  return {extractedText, timings: {manipulationMs, ocrMs: Date.now() - ocrStartTime}};
+};
@@ -0,0 +1,89 @@
+import {createLogger} from './logger';
+import {detectTextOnDevice} from './onDeviceOcr';
+import {ExtractedText, OcrMode} from './types';
+import {detectText, getDemoText} from './visionApi';
+
+const log = createLogger('ocr');
+
+export type OcrProviderId = 'google' | 'fixture' | 'on-device';
+
+// The prepared image handed to a provider; geometry in the result refers to its pixel size
+export interface OcrImage {
+  uri: string;
+  base64: string;
+  width: number;
+  height: number;
+}
+
+export interface OcrOptions {
+  mode: OcrMode;
+  // Aborting rejects the request with an OcrError of kind 'cancelled' where the backend supports it
+  signal?: AbortSignal;
+  // Ask the provider even if an identical request has a cached result; the fresh result replaces it
+  bypassCache?: boolean;
+  // BCP-47 codes of the languages expected in the image, for backends that take hints
+  languageHints?: string[];
+  // Most annotations to return, for backends that take a limit
+  maxResults?: number;
+}
+
+export interface OcrProvider {
+  id: OcrProviderId;
+  label: string;
+  requiresNetwork: boolean;
+  recognize: (image: OcrImage, options: OcrOptions) => Promise<ExtractedText>;
+}
+
+const googleProvider: OcrProvider = {
+  id: 'google',
+  label: 'Google Cloud Vision',
+  requiresNetwork: true,
+  recognize: (image, options) => detectText(
+    image.base64,
+    {width: image.width, height: image.height},
+    options.mode,
+    options.signal,
+    options.languageHints,
+    options.maxResults
+  ),
+};
+
+const fixtureProvider: OcrProvider = {
+  id: 'fixture',
+  label: 'Demo fixture',
+  requiresNetwork: false,
+  recognize: async image => getDemoText(image.width, image.height),
+};
+
+const onDeviceProvider: OcrProvider = {
+  id: 'on-device',
+  label: 'On-device (offline)',
+  requiresNetwork: false,
+  recognize: image => detectTextOnDevice(image.uri, {width: image.width, height: image.height}),
+};
+
+export const OCR_PROVIDERS: Record<OcrProviderId, OcrProvider> = {
+  'google': googleProvider,
+  'fixture': fixtureProvider,
+  'on-device': onDeviceProvider,
+};
+
+export const DEFAULT_OCR_PROVIDER: OcrProviderId = 'google';
+
+export const isOcrProviderId = (value: unknown): value is OcrProviderId =>
+  typeof value === 'string' && value in OCR_PROVIDERS;
+
+// Provider selected through EXPO_PUBLIC_OCR_PROVIDER, falling back to Google
+export const getConfiguredOcrProvider = (): OcrProvider => {
+  const configured = process.env.EXPO_PUBLIC_OCR_PROVIDER;
+
+  if (configured && !isOcrProviderId(configured)) {
+    log.warn('Unknown OCR provider configured', {configured, fallback: DEFAULT_OCR_PROVIDER});
+  }
+
+  return OCR_PROVIDERS[isOcrProviderId(configured) ? configured : DEFAULT_OCR_PROVIDER];
+};
+
+// Recognition mode selected through EXPO_PUBLIC_OCR_MODE, falling back to plain text detection
+export const getConfiguredOcrMode = (): OcrMode =>
+  process.env.EXPO_PUBLIC_OCR_MODE === 'document' ? 'document' : 'text';
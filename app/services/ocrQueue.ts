@@ -0,0 +1,305 @@
+import * as FileSystem from 'expo-file-system';
+import {backoffDelay, RetryOptions} from './http';
+import {createLogger} from './logger';
+import {getConfiguredNetworkMonitor, NetworkMonitor} from './network';
+import {toOcrError} from './ocrErrors';
+import {recognizeImage} from './ocrPipeline';
+import {OCR_PROVIDERS, OcrProviderId} from './ocrProvider';
+import {saveScan, ScanTimings} from './scanHistory';
+import {getSettings} from './settings';
+import {ExtractedText, OcrMode} from './types';
+
+// Photos that couldn't be recognised because the device was offline, kept on
+// disk and retried when connectivity returns. Finished scans go into history.
+
+const log = createLogger('queue');
+
+export type QueuedScanStatus = 'pending' | 'recognizing' | 'failed';
+
+export interface QueuedScan {
+  id: string;
+  createdAt: number;
+  // The queue's own copy of the photo, kept until it has been recognised
+  imageUri: string;
+  providerId: OcrProviderId;
+  mode: OcrMode;
+  timings: ScanTimings;
+  status: QueuedScanStatus;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface NewQueuedScan {
+  sourceUri: string;
+  providerId: OcrProviderId;
+  mode: OcrMode;
+  timings: ScanTimings;
+  // Why the scan couldn't be recognised straight away
+  error?: string;
+}
+
+export interface QueueStore {
+  load: () => Promise<QueuedScan[]>;
+  save: (scans: QueuedScan[]) => Promise<void>;
+  // Keep a copy of the photo for as long as the scan is queued, returning its URI
+  keepImage: (id: string, sourceUri: string) => Promise<string>;
+  dropImage: (imageUri: string) => Promise<void>;
+}
+
+export interface OcrQueueOptions {
+  network: NetworkMonitor;
+  store: QueueStore;
+  recognize: (scan: QueuedScan) => Promise<{extractedText: ExtractedText; timings: ScanTimings}>;
+  // Hand a finished result on
+  deliver: (scan: QueuedScan, extractedText: ExtractedText, timings: ScanTimings) => Promise<void>;
+  // Backoff between drains that leave scans behind while the network is up
+  retryDelay?: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>;
+}
+
+export interface OcrQueue {
+  network: NetworkMonitor;
+  enqueue: (scan: NewQueuedScan) => Promise<QueuedScan>;
+  // Oldest first
+  list: () => Promise<QueuedScan[]>;
+  remove: (id: string) => Promise<void>;
+  // Put failed scans back in line and try everything now
+  retry: () => Promise<void>;
+  // Drain now and whenever the network comes back; returns the stop function,
+  // which also cancels a pending retry
+  start: () => () => void;
+  // Called after every change to the queue; returns the unsubscribe function
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Scans that keep failing for reasons other than connectivity stop being retried
+export const MAX_QUEUE_ATTEMPTS = 3;
+
+export const DEFAULT_QUEUE_RETRY_DELAY = {baseDelayMs: 5000, maxDelayMs: 5 * 60 * 1000};
+
+// How a drain ended: everything delivered, scans left to retry later, or
+// waiting for the network to come back or the budget to reset
+type DrainOutcome = 'done' | 'retry' | 'wait';
+
+const createQueueId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createOcrQueue = ({
+  network,
+  store,
+  recognize,
+  deliver,
+  retryDelay = DEFAULT_QUEUE_RETRY_DELAY,
+}: OcrQueueOptions): OcrQueue => {
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(listener => listener());
+
+  // Serialise store updates so enqueues during a drain don't drop entries
+  let updates: Promise<unknown> = Promise.resolve();
+  const update = (change: (scans: QueuedScan[]) => QueuedScan[]) => {
+    const next = updates.then(async () => store.save(change(await store.load())));
+    updates = next.catch(() => undefined);
+    return next.then(notify);
+  };
+  const setScan = (id: string, changes: Partial<QueuedScan>) =>
+    update(scans => scans.map(scan => (scan.id === id ? {...scan, ...changes} : scan)));
+
+  const list = async () => {
+    await updates;
+    return store.load();
+  };
+
+  const remove = async (id: string) => {
+    const scan = (await list()).find(item => item.id === id);
+    await update(scans => scans.filter(item => item.id !== id));
+    if (scan) {
+      await store.dropImage(scan.imageUri);
+    }
+  };
+
+  // Work through the queue in order until it is empty or the network drops
+  const drainOnce = async (): Promise<DrainOutcome> => {
+    let leftBehind = false;
+    for (const scan of await list()) {
+      if (scan.status === 'failed') {
+        continue;
+      }
+      if (!(await network.isOnline())) {
+        log.info('Offline, leaving scans queued');
+        return 'wait';
+      }
+
+      await setScan(scan.id, {status: 'recognizing'});
+      try {
+        const {extractedText, timings} = await recognize(scan);
+        await deliver(scan, extractedText, {...scan.timings, ...timings});
+        await remove(scan.id);
+        log.info('Delivered queued scan', {queueId: scan.id, wordCount: extractedText.words.length});
+      } catch (error) {
+        const ocrError = toOcrError(error);
+        if (['network', 'unavailable', 'quota', 'budget'].includes(ocrError.kind)) {
+          log.warn('Queued scan still unreachable', {queueId: scan.id, kind: ocrError.kind});
+          await setScan(scan.id, {status: 'pending', lastError: ocrError.message});
+          // Retrying won't help with a spent budget until the user raises it or the month ends
+          return ocrError.kind === 'budget' ? 'wait' : 'retry';
+        }
+
+        const attempts = scan.attempts + 1;
+        log.error('Queued scan failed', {queueId: scan.id, attempts, kind: ocrError.kind});
+        await setScan(scan.id, {
+          status: attempts >= MAX_QUEUE_ATTEMPTS ? 'failed' : 'pending',
+          attempts,
+          lastError: ocrError.message,
+        });
+        leftBehind ||= attempts < MAX_QUEUE_ATTEMPTS;
+      }
+    }
+    return leftBehind ? 'retry' : 'done';
+  };
+
+  // Drains that leave scans behind are retried after a growing delay, which
+  // starts over once the queue empties or the network comes back
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let retries = 0;
+  const cancelRetry = () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+  const retryLater = () => {
+    if (retryTimer) {
+      return;
+    }
+    const delayMs = backoffDelay(retries++, retryDelay);
+    log.info('Retrying queued scans later', {delayMs: Math.round(delayMs)});
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      drain();
+    }, delayMs);
+  };
+
+  // One drain at a time; a request while one runs is served by the running one
+  let draining: Promise<void> | null = null;
+  const drain = (): Promise<void> => {
+    cancelRetry();
+    draining ??= drainOnce()
+      .then(outcome => {
+        if (outcome === 'done') {
+          retries = 0;
+        } else if (outcome === 'retry') {
+          retryLater();
+        }
+      })
+      .catch(error => log.error('Draining the queue failed', {error}))
+      .finally(() => {
+        draining = null;
+      });
+    return draining;
+  };
+
+  return {
+    network,
+    enqueue: async ({sourceUri, providerId, mode, timings, error}) => {
+      const id = createQueueId();
+      const scan: QueuedScan = {
+        id,
+        createdAt: Date.now(),
+        imageUri: await store.keepImage(id, sourceUri),
+        providerId,
+        mode,
+        timings,
+        status: 'pending',
+        attempts: 0,
+        lastError: error,
+      };
+      await update(scans => [...scans, scan]);
+      log.info('Queued scan for later', {queueId: id, providerId});
+      retryLater();
+      return scan;
+    },
+    list,
+    remove,
+    retry: async () => {
+      await update(scans => scans.map(scan => (scan.status === 'failed' ? {...scan, status: 'pending', attempts: 0} : scan)));
+      retries = 0;
+      await drain();
+    },
+    start: () => {
+      // A scan left recognising when the app was closed never finished
+      update(scans => scans.map(scan => (scan.status === 'recognizing' ? {...scan, status: 'pending'} : scan)))
+        .then(drain)
+        .catch(error => log.error('Failed to restore the queue', {error}));
+      const unsubscribe = network.subscribe(online => {
+        if (online) {
+          log.info('Back online, retrying queued scans');
+          retries = 0;
+          drain();
+        }
+      });
+      return () => {
+        unsubscribe();
+        cancelRetry();
+      };
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// Layout: queue/index.json lists every QueuedScan, oldest first, next to the
+// photos waiting to be recognised
+const queueDirectory = () => `${FileSystem.documentDirectory}queue/`;
+const queueIndexPath = () => `${queueDirectory()}index.json`;
+
+const ensureQueueDirectory = async () => {
+  const info = await FileSystem.getInfoAsync(queueDirectory());
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(queueDirectory(), {intermediates: true});
+  }
+};
+
+export const fileQueueStore: QueueStore = {
+  load: async () => {
+    const info = await FileSystem.getInfoAsync(queueIndexPath());
+    if (!info.exists) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(await FileSystem.readAsStringAsync(queueIndexPath()));
+    } catch (error) {
+      log.error('Queue index is unreadable, starting fresh', {error});
+      return [];
+    }
+  },
+  save: async scans => {
+    await ensureQueueDirectory();
+    await FileSystem.writeAsStringAsync(queueIndexPath(), JSON.stringify(scans));
+  },
+  keepImage: async (id, sourceUri) => {
+    await ensureQueueDirectory();
+    const imageUri = `${queueDirectory()}${id}.jpg`;
+    await FileSystem.copyAsync({from: sourceUri, to: imageUri});
+    return imageUri;
+  },
+  dropImage: imageUri => FileSystem.deleteAsync(imageUri, {idempotent: true}),
+};
+
+export const ocrQueue = createOcrQueue({
+  network: getConfiguredNetworkMonitor(),
+  store: fileQueueStore,
+  recognize: scan => recognizeImage(OCR_PROVIDERS[scan.providerId], scan.imageUri, {
+    mode: scan.mode,
+    languageHints: getSettings().languageHints,
+    maxResults: getSettings().maxResults,
+  }),
+  // saveScan copies the photo into history before the queue drops its own.
+  // Queued scans are always saved, whatever the auto-save setting, as history
+  // is the only place their results appear.
+  deliver: async (scan, extractedText, timings) => {
+    await saveScan({sourceUri: scan.imageUri, providerId: scan.providerId, mode: scan.mode, extractedText, timings});
+  },
+});
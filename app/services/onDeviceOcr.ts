@@ -0,0 +1,52 @@
+import TextRecognition, {TextElement} from '@react-native-ml-kit/text-recognition';
+import {boundingRect, Point, Size} from './coordinates';
+import {createLogger} from './logger';
+import {ExtractedText, ExtractedWord} from './types';
+
+const log = createLogger('ocr');
+
+// ML Kit reports a frame for every element but corner points only where the
+// platform provides them, so fall back to the frame's corners.
+const elementVertices = (element: TextElement): Point[] => {
+  if (element.cornerPoints) {
+    return element.cornerPoints.map(p => ({x: p.x, y: p.y}));
+  }
+
+  const {left = 0, top = 0, width = 0, height = 0} = element.frame || {};
+  return [
+    {x: left, y: top},
+    {x: left + width, y: top},
+    {x: left + width, y: top + height},
+    {x: left, y: top + height}
+  ];
+};
+
+// Run ML Kit text recognition on the device; works without any connectivity
+export const detectTextOnDevice = async (
+  imageUri: string,
+  imageSize: Size
+): Promise<ExtractedText> => {
+  const startTime = Date.now();
+  const result = await TextRecognition.recognize(imageUri);
+  const elements = result.blocks.flatMap(block => block.lines.flatMap(line => line.elements));
+  log.metric('onDeviceRecognition', Date.now() - startTime, {imageSize, wordCount: elements.length});
+
+  const words = elements.map((element, index): ExtractedWord => {
+    const vertices = elementVertices(element);
+
+    return {
+      id: `word-${index}`,
+      text: element.text,
+      // ML Kit doesn't report confidence for recognised text, so leave it absent
+      ...boundingRect(vertices),
+      vertices
+    };
+  });
+
+  return {
+    fullText: result.text,
+    imageWidth: imageSize.width,
+    imageHeight: imageSize.height,
+    words
+  };
+};
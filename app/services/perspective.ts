@@ -0,0 +1,108 @@
+import {Point, Size} from './coordinates';
+import {Quad} from './documentDetection';
+import {RgbaImage, sampleBilinear} from './rasterImage';
+
+// Row-major 3x3 projective transform with the last entry fixed at 1
+export type Homography = [number, number, number, number, number, number, number, number, number];
+
+// Gaussian elimination with partial pivoting; null for a singular system
+const solveLinearSystem = (matrix: number[][], values: number[]): number[] | null => {
+  const n = values.length;
+  const rows = matrix.map((row, i) => [...row, values[i]]);
+
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-10) {
+      return null;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+    for (let row = column + 1; row < n; row++) {
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k <= n; k++) {
+        rows[row][k] -= factor * rows[column][k];
+      }
+    }
+  }
+
+  const solution = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= rows[row][k] * solution[k];
+    }
+    solution[row] = sum / rows[row][row];
+  }
+  return solution;
+};
+
+// The homography taking each `from` corner onto the matching `to` corner
+export const computeHomography = (from: Quad, to: Quad): Homography | null => {
+  const matrix: number[][] = [];
+  const values: number[] = [];
+
+  for (let i = 0; i < 4; i++) {
+    const {x, y} = from[i];
+    const {x: u, y: v} = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    values.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    values.push(v);
+  }
+
+  const h = solveLinearSystem(matrix, values);
+  return h && [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1];
+};
+
+export const applyHomography = (h: Homography, point: Point): Point => {
+  const w = h[6] * point.x + h[7] * point.y + h[8];
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / w,
+  };
+};
+
+// Output size for a flattened document: the longer of each pair of opposite
+// edges, scaled down so the width doesn't exceed `maxWidth`
+export const warpedSize = (quad: Quad, maxWidth = Infinity): Size => {
+  const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+  const [tl, tr, br, bl] = quad;
+  const width = Math.max(distance(tl, tr), distance(bl, br));
+  const height = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, maxWidth / width);
+
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+// Flatten the region inside `quad` into an upright `size` rectangle. Each
+// output pixel is mapped back into the source and sampled bilinearly.
+export const warpPerspective = (image: RgbaImage, quad: Quad, size: Size): RgbaImage | null => {
+  const target: Quad = [
+    {x: 0, y: 0},
+    {x: size.width - 1, y: 0},
+    {x: size.width - 1, y: size.height - 1},
+    {x: 0, y: size.height - 1},
+  ];
+  const toSource = computeHomography(target, quad);
+  if (!toSource) {
+    return null;
+  }
+
+  const data = new Uint8Array(size.width * size.height * 4);
+  for (let y = 0; y < size.height; y++) {
+    for (let x = 0; x < size.width; x++) {
+      const source = applyHomography(toSource, {x, y});
+      sampleBilinear(image, source.x, source.y, data, (y * size.width + x) * 4);
+    }
+  }
+
+  return {width: size.width, height: size.height, data};
+};
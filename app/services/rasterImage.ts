@@ -0,0 +1,83 @@
+// In-memory images for the document preprocessing maths. Everything here is
+// plain TypeScript over typed arrays so it runs the same in the app and in Node.
+
+// Four bytes per pixel, row-major, RGBA
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// One byte per pixel, row-major
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Rec. 601 luma
+export const toGray = (image: RgbaImage): GrayImage => {
+  const data = new Uint8Array(image.width * image.height);
+  for (let i = 0, j = 0; i < data.length; i++, j += 4) {
+    data[i] = (image.data[j] * 299 + image.data[j + 1] * 587 + image.data[j + 2] * 114) / 1000;
+  }
+  return {width: image.width, height: image.height, data};
+};
+
+// Bilinear sample of one RGBA pixel into `out` at `offset`; outside the image reads as white
+export const sampleBilinear = (image: RgbaImage, x: number, y: number, out: Uint8Array, offset: number) => {
+  if (x < 0 || y < 0 || x > image.width - 1 || y > image.height - 1) {
+    out[offset] = out[offset + 1] = out[offset + 2] = out[offset + 3] = 255;
+    return;
+  }
+
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, image.width - 1);
+  const y1 = Math.min(y0 + 1, image.height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const i00 = (y0 * image.width + x0) * 4;
+  const i10 = (y0 * image.width + x1) * 4;
+  const i01 = (y1 * image.width + x0) * 4;
+  const i11 = (y1 * image.width + x1) * 4;
+
+  for (let c = 0; c < 4; c++) {
+    const top = image.data[i00 + c] + (image.data[i10 + c] - image.data[i00 + c]) * fx;
+    const bottom = image.data[i01 + c] + (image.data[i11 + c] - image.data[i01 + c]) * fx;
+    out[offset + c] = top + (bottom - top) * fy;
+  }
+};
+
+// 24-bit uncompressed BMP; every platform image decoder reads it, so it's the
+// simplest way to hand processed pixels back to ImageManipulator for JPEG encoding
+export const encodeBmp = (image: RgbaImage): Uint8Array => {
+  const rowSize = Math.ceil((image.width * 3) / 4) * 4;
+  const pixelBytes = rowSize * image.height;
+  const bytes = new Uint8Array(54 + pixelBytes);
+  const view = new DataView(bytes.buffer);
+
+  bytes[0] = 0x42; // 'B'
+  bytes[1] = 0x4d; // 'M'
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, 54, true);
+  view.setUint32(14, 40, true);
+  view.setInt32(18, image.width, true);
+  view.setInt32(22, image.height, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, 24, true);
+  view.setUint32(34, pixelBytes, true);
+
+  // Rows are stored bottom-up, the layout every decoder supports
+  for (let y = 0; y < image.height; y++) {
+    let offset = 54 + (image.height - 1 - y) * rowSize;
+    for (let x = 0; x < image.width; x++) {
+      const i = (y * image.width + x) * 4;
+      bytes[offset++] = image.data[i + 2];
+      bytes[offset++] = image.data[i + 1];
+      bytes[offset++] = image.data[i];
+    }
+  }
+
+  return bytes;
+};
@@ -0,0 +1,192 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import {createLogger} from './logger';
+import {ExtractedText, OcrMode} from './types';
+
+// Recognition results keyed on the exact image sent and how it was asked
+// about, so a retake of the same file, a reopened scan or an imported
+// duplicate doesn't pay for the same request twice.
+
+const log = createLogger('cache');
+
+export interface CacheEntry {
+  key: string;
+  createdAt: number;
+  lastUsedAt: number;
+  // Size of the stored result
+  bytes: number;
+}
+
+export interface ResultCacheStore {
+  loadIndex: () => Promise<CacheEntry[]>;
+  saveIndex: (entries: CacheEntry[]) => Promise<void>;
+  // Null when the result has gone missing from under the index
+  read: (key: string) => Promise<ExtractedText | null>;
+  // Store a result, returning its size in bytes
+  write: (key: string, result: ExtractedText) => Promise<number>;
+  remove: (key: string) => Promise<void>;
+}
+
+export interface ResultCacheOptions {
+  store: ResultCacheStore;
+  // Least recently used results are evicted past this total
+  maxBytes: number;
+  // Results older than this are never returned and are evicted on the next write
+  maxAgeMs: number;
+  now?: () => number;
+}
+
+export interface ResultCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+export interface ResultCache {
+  get: (key: string) => Promise<ExtractedText | null>;
+  put: (key: string, result: ExtractedText) => Promise<void>;
+  clear: () => Promise<void>;
+  stats: () => Promise<ResultCacheStats>;
+}
+
+export const DEFAULT_CACHE_MAX_BYTES = 20 * 1024 * 1024;
+export const DEFAULT_CACHE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Identifies a request: the provider, the mode, the language hints, the result limit and every byte of the encoded image
+export const resultCacheKey = (
+  providerId: string,
+  mode: OcrMode,
+  languageHints: string[],
+  maxResults: number | undefined,
+  base64Image: string
+) =>
+  Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    `${providerId}:${mode}:${languageHints.join(',')}:${maxResults ?? ''}:${base64Image}`
+  );
+
+export const createResultCache = ({store, maxBytes, maxAgeMs, now = Date.now}: ResultCacheOptions): ResultCache => {
+  // Serialise index updates so concurrent recognitions don't drop entries
+  let updates: Promise<unknown> = Promise.resolve();
+  const update = <T>(change: (entries: CacheEntry[]) => Promise<{entries: CacheEntry[]; result: T}>) => {
+    const next = updates.then(async () => {
+      const {entries, result} = await change(await store.loadIndex());
+      await store.saveIndex(entries);
+      return result;
+    });
+    updates = next.catch(() => undefined);
+    return next;
+  };
+
+  const isExpired = (entry: CacheEntry) => now() - entry.createdAt > maxAgeMs;
+
+  // Drop expired entries, then the least recently used until under maxBytes
+  const evict = async (entries: CacheEntry[]) => {
+    const kept = entries.filter(entry => !isExpired(entry)).sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    let total = 0;
+    const fitting = kept.filter(entry => {
+      total += entry.bytes;
+      return total <= maxBytes;
+    });
+
+    const evicted = entries.filter(entry => !fitting.includes(entry));
+    await Promise.all(evicted.map(entry => store.remove(entry.key)));
+    if (evicted.length > 0) {
+      log.debug('Evicted cached results', {count: evicted.length});
+    }
+    return fitting;
+  };
+
+  return {
+    get: key => update(async entries => {
+      const entry = entries.find(item => item.key === key);
+      if (!entry || isExpired(entry)) {
+        log.debug('Cache miss');
+        return {entries, result: null};
+      }
+
+      const result = await store.read(key);
+      if (!result) {
+        log.warn('Cached result is missing, dropping its entry');
+        return {entries: entries.filter(item => item !== entry), result: null};
+      }
+
+      log.info('Cache hit', {ageMs: now() - entry.createdAt});
+      return {
+        entries: entries.map(item => (item === entry ? {...item, lastUsedAt: now()} : item)),
+        result,
+      };
+    }),
+    put: (key, result) => update(async entries => {
+      const bytes = await store.write(key, result);
+      const entry: CacheEntry = {key, createdAt: now(), lastUsedAt: now(), bytes};
+      return {entries: await evict([...entries.filter(item => item.key !== key), entry]), result: undefined};
+    }),
+    clear: () => update(async entries => {
+      await Promise.all(entries.map(entry => store.remove(entry.key)));
+      log.info('Cleared cached results', {count: entries.length});
+      return {entries: [], result: undefined};
+    }),
+    stats: async () => {
+      await updates;
+      const entries = (await store.loadIndex()).filter(entry => !isExpired(entry));
+      return {entries: entries.length, bytes: entries.reduce((total, entry) => total + entry.bytes, 0)};
+    },
+  };
+};
+
+// Layout: ocr-results/index.json lists every CacheEntry next to one
+// <key>.json per result. The OS may clear the cache directory, so a result
+// can vanish while its entry remains.
+const cacheDirectory = () => `${FileSystem.cacheDirectory}ocr-results/`;
+const cacheIndexPath = () => `${cacheDirectory()}index.json`;
+const resultPath = (key: string) => `${cacheDirectory()}${key}.json`;
+
+const ensureCacheDirectory = async () => {
+  const info = await FileSystem.getInfoAsync(cacheDirectory());
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(cacheDirectory(), {intermediates: true});
+  }
+};
+
+export const fileResultCacheStore: ResultCacheStore = {
+  loadIndex: async () => {
+    const info = await FileSystem.getInfoAsync(cacheIndexPath());
+    if (!info.exists) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(await FileSystem.readAsStringAsync(cacheIndexPath()));
+    } catch (error) {
+      log.error('Cache index is unreadable, starting fresh', {error});
+      return [];
+    }
+  },
+  saveIndex: async entries => {
+    await ensureCacheDirectory();
+    await FileSystem.writeAsStringAsync(cacheIndexPath(), JSON.stringify(entries));
+  },
+  read: async key => {
+    try {
+      return JSON.parse(await FileSystem.readAsStringAsync(resultPath(key)));
+    } catch {
+      return null;
+    }
+  },
+  write: async (key, result) => {
+    await ensureCacheDirectory();
+    const contents = JSON.stringify(result);
+    await FileSystem.writeAsStringAsync(resultPath(key), contents);
+    return contents.length;
+  },
+  remove: key => FileSystem.deleteAsync(resultPath(key), {idempotent: true}),
+};
+
+// Whether caching starts out on; EXPO_PUBLIC_OCR_CACHE="off" turns it off until changed in Settings
+export const getConfiguredResultCacheEnabled = () => process.env.EXPO_PUBLIC_OCR_CACHE !== 'off';
+
+export const resultCache = createResultCache({
+  store: fileResultCacheStore,
+  maxBytes: DEFAULT_CACHE_MAX_BYTES,
+  maxAgeMs: DEFAULT_CACHE_MAX_AGE_MS,
+});
@@ -0,0 +1,293 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {Alert} from 'react-native';
+import {createLogger} from './logger';
+import {OcrError, toOcrError} from './ocrErrors';
+import {prepareOcrImage, recognizeWithCodes} from './ocrPipeline';
+import {OcrProvider} from './ocrProvider';
+import {ocrQueue} from './ocrQueue';
+import {NewScan, saveScan, ScanRecord, ScanTimings, updateScan} from './scanHistory';
+import {AppSettings} from './settings';
+import {ExtractedText, OcrMode} from './types';
+
+// Recognising a photo and keeping the result: the OCR call with its error
+// handling, the offline queue, and filing the scan in history.
+
+const log = createLogger('camera');
+
+// Explain a failed OCR request in terms of what the user can do about it
+const showOcrErrorAlert = (error: OcrError, provider: OcrProvider) => {
+  switch (error.kind) {
+    case 'cancelled':
+      return;
+    case 'config':
+      Alert.alert(
+        "Vision Proxy Setup Required",
+        "To use real OCR text extraction, run the Vision proxy described in the README and set EXPO_PUBLIC_VISION_PROXY_URL and EXPO_PUBLIC_VISION_PROXY_TOKEN, or choose the on-device engine in Settings to recognise text offline.",
+        [{text: "OK"}]
+      );
+      return;
+    case 'auth':
+      Alert.alert(
+        "Device Not Authorised",
+        "The Vision proxy rejected this device's token. Check EXPO_PUBLIC_VISION_PROXY_TOKEN against the proxy's VISION_PROXY_TOKENS.",
+        [{text: "OK"}]
+      );
+      return;
+    case 'quota':
+      Alert.alert(
+        "Too Many Requests",
+        "The Vision API quota has been reached. Wait a moment and try again.",
+        [{text: "OK"}]
+      );
+      return;
+    case 'network':
+      Alert.alert(
+        "No Connection",
+        `${error.message}\n\nCheck your connection, or choose the on-device engine in Settings to recognise text offline.`,
+        [{text: "OK"}]
+      );
+      return;
+    case 'unavailable':
+      Alert.alert(
+        "Service Unavailable",
+        `${error.message}\n\nThe OCR service is having trouble right now. Try again in a few minutes, or choose the on-device engine in Settings.`,
+        [{text: "OK"}]
+      );
+      return;
+    case 'budget':
+      Alert.alert(
+        "Budget Reached",
+        `${error.message}\n\nRaise or remove the monthly budget in Settings to keep scanning.`,
+        [{text: "OK"}]
+      );
+      return;
+    case 'invalid-image':
+      Alert.alert(
+        "Image Not Readable",
+        "The image couldn't be processed. Try taking the photo again.",
+        [{text: "OK"}]
+      );
+      return;
+    default:
+      Alert.alert(`${provider.label} Error`, error.message, [{text: "OK"}]);
+  }
+};
+
+export interface ScanAnalysisOptions {
+  ocrProvider: OcrProvider;
+  ocrMode: OcrMode;
+  settings: AppSettings;
+  // Called once a photo has been queued to recognise when the connection is back
+  onQueued: () => void;
+}
+
+export const useScanAnalysis = ({ocrProvider, ocrMode, settings, onQueued}: ScanAnalysisOptions) => {
+  const [extractedText, setExtractedText] = useState<ExtractedText | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisComplete, setAnalysisComplete] = useState(false);
+  // A finished scan waiting for the Save button when auto-save is off
+  const [unsavedScan, setUnsavedScan] = useState<NewScan | null>(null);
+  // Aborted when the analysis is closed or the component unmounts, so late results are dropped
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // History entry of the scan on screen, so Re-run updates it instead of adding
+  // another. Set as soon as a save starts, so a Re-run during the save waits for its id.
+  const savedScanIdRef = useRef<Promise<string> | null>(null);
+
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
+  const saveToHistory = (scan: NewScan) => {
+    const saving = saveScan(scan).then(saved => {
+      log.info('Saved scan to history', {scanId: saved.id});
+      setUnsavedScan(current => (current === scan ? null : current));
+      return saved.id;
+    });
+    savedScanIdRef.current = saving;
+    // A failed save leaves nothing to update, so the next result is saved afresh
+    saving.catch(() => {
+      if (savedScanIdRef.current === saving) {
+        savedScanIdRef.current = null;
+      }
+    });
+    return saving;
+  };
+
+  // File a finished scan in history in the background, or hold it for the
+  // Save button when auto-save is off; the result is already on screen.
+  // A scan that is already in history is updated in place.
+  const keepScan = (scan: NewScan) => {
+    const savedScanId = savedScanIdRef.current;
+    if (savedScanId) {
+      savedScanId
+        .then(async scanId => {
+          const updated = await updateScan(scanId, scan);
+          log.info(updated ? 'Updated scan in history' : 'Scan is no longer in history', {scanId});
+        })
+        .catch(error => log.error('Failed to update scan in history', {error}));
+      return;
+    }
+    if (!settings.autoSaveToHistory) {
+      setUnsavedScan(scan);
+      return;
+    }
+    saveToHistory(scan).catch(error => log.error('Failed to save scan to history', {error}));
+  };
+
+  const saveUnsavedScan = () => {
+    if (unsavedScan) {
+      saveToHistory(unsavedScan).catch(error => {
+        log.error('Failed to save scan to history', {error});
+        Alert.alert('Save Failed', 'The scan could not be saved to history. Please try again.');
+      });
+    }
+  };
+
+  // Keep a photo the OCR backend couldn't be reached for; the queue recognises
+  // it once the network is back and files the result in history
+  const queueForLater = async (imageUri: string, timings: ScanTimings, error?: string) => {
+    await ocrQueue.enqueue({sourceUri: imageUri, providerId: ocrProvider.id, mode: ocrMode, timings, error});
+    onQueued();
+    Alert.alert(
+      "Saved for Later",
+      "You're offline, so this photo will be recognised when the connection is back. The result will appear in History.",
+      [{text: "OK"}]
+    );
+  };
+
+  // Run the configured OCR provider on the captured photo. `bypassCache` asks
+  // the provider again even when the result cache holds an answer.
+  const analyzeImage = async (imageUri: string, timings: ScanTimings = {}, {bypassCache = false} = {}) => {
+    analysisAbortRef.current?.abort();
+    const abortController = new AbortController();
+    analysisAbortRef.current = abortController;
+
+    setIsAnalyzing(true);
+
+    try {
+      if (ocrProvider.requiresNetwork && !(await ocrQueue.network.isOnline())) {
+        await queueForLater(imageUri, timings);
+        return;
+      }
+
+      const manipulationStartTime = Date.now();
+
+      const manipulatedImage = await prepareOcrImage(imageUri, ocrMode);
+
+      const manipulationDuration = Date.now() - manipulationStartTime;
+      log.metric('manipulation', manipulationDuration, {
+        width: manipulatedImage.width,
+        height: manipulatedImage.height,
+        bytes: manipulatedImage.base64.length,
+        profile: manipulatedImage.profile
+      });
+
+      try {
+        const apiStartTime = Date.now();
+        const textResult = await recognizeWithCodes(ocrProvider, manipulatedImage, {
+          mode: ocrMode,
+          signal: abortController.signal,
+          languageHints: settings.languageHints,
+          maxResults: settings.maxResults,
+          bypassCache
+        });
+        const apiDuration = Date.now() - apiStartTime;
+
+        if (abortController.signal.aborted) {
+          log.info('Analysis was cancelled, discarding OCR result');
+          return;
+        }
+
+        log.metric('ocr', apiDuration, {
+          provider: ocrProvider.id,
+          mode: ocrMode,
+          characters: textResult.fullText.length,
+          wordCount: textResult.words.length
+        });
+
+        setExtractedText(textResult);
+
+        keepScan({
+          sourceUri: imageUri,
+          providerId: ocrProvider.id,
+          mode: ocrMode,
+          extractedText: textResult,
+          timings: {...timings, manipulationMs: manipulationDuration, ocrMs: apiDuration}
+        });
+
+      } catch (apiError) {
+        const ocrError = toOcrError(apiError);
+        log.warn('OCR call failed', {
+          provider: ocrProvider.id,
+          kind: ocrError.kind,
+          status: ocrError.status,
+          message: ocrError.message
+        });
+
+        if (abortController.signal.aborted) {
+          return;
+        }
+        if (ocrError.kind === 'network' && ocrProvider.requiresNetwork) {
+          await queueForLater(imageUri, {...timings, manipulationMs: manipulationDuration}, ocrError.message);
+        } else {
+          showOcrErrorAlert(ocrError, ocrProvider);
+        }
+      }
+
+    } catch (error) {
+      log.error('Failed to prepare image for OCR', {error});
+
+      if (!abortController.signal.aborted) {
+        Alert.alert('Error', 'Failed to process image for OCR. Please try again.');
+      }
+    } finally {
+      if (!abortController.signal.aborted) {
+        setIsAnalyzing(false);
+        setAnalysisComplete(true);
+      }
+    }
+  };
+
+  // Recognise the photo on screen again, skipping the result cache, e.g. after
+  // changing the language hints or when a cached result looks wrong
+  const rerunAnalysis = (imageUri: string) => {
+    if (!isAnalyzing) {
+      log.info('Re-running analysis without the cache');
+      analyzeImage(imageUri, {}, {bypassCache: true});
+    }
+  };
+
+  // Show a scan reopened from history; recognising it again updates that entry
+  const showSavedScan = useCallback((scan: ScanRecord) => {
+    analysisAbortRef.current?.abort();
+    savedScanIdRef.current = Promise.resolve(scan.id);
+    setExtractedText(scan.extractedText);
+    setIsAnalyzing(false);
+    setAnalysisComplete(true);
+  }, []);
+
+  // Drop the result and any analysis still running
+  const resetAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    savedScanIdRef.current = null;
+    setIsAnalyzing(false);
+    setExtractedText(null);
+    setAnalysisComplete(false);
+    setUnsavedScan(null);
+  };
+
+  return {
+    extractedText,
+    setExtractedText,
+    isAnalyzing,
+    setIsAnalyzing,
+    analysisComplete,
+    setAnalysisComplete,
+    unsavedScan,
+    analyzeImage,
+    rerunAnalysis,
+    keepScan,
+    saveUnsavedScan,
+    showSavedScan,
+    resetAnalysis,
+  };
+};
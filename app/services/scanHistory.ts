@@ -0,0 +1,192 @@
+import * as FileSystem from 'expo-file-system';
+import * as ImageManipulator from 'expo-image-manipulator';
+import {createLogger} from './logger';
+import {OcrProviderId} from './ocrProvider';
+import {ExtractedText, OcrMode} from './types';
+
+const log = createLogger('history');
+
+// Durations Cam measures while producing a scan, in milliseconds
+export interface ScanTimings {
+  captureMs?: number;
+  manipulationMs?: number;
+  ocrMs?: number;
+}
+
+// What the history list needs; kept small so the index loads quickly
+export interface ScanSummary {
+  id: string;
+  createdAt: number;
+  imageUri: string;
+  thumbnailUri: string;
+  providerId: OcrProviderId;
+  mode: OcrMode;
+  fullText: string;
+  wordCount: number;
+  timings: ScanTimings;
+}
+
+export interface ScanRecord extends ScanSummary {
+  extractedText: ExtractedText;
+}
+
+export interface NewScan {
+  // Image to copy into history; the original may live in a cache directory
+  sourceUri: string;
+  providerId: OcrProviderId;
+  mode: OcrMode;
+  extractedText: ExtractedText;
+  timings: ScanTimings;
+}
+
+const THUMBNAIL_WIDTH = 240;
+
+// Layout: scans/index.json lists every ScanSummary, newest first, and each
+// scan keeps its image, thumbnail and full ExtractedText next to it.
+const scansDirectory = () => `${FileSystem.documentDirectory}scans/`;
+const indexPath = () => `${scansDirectory()}index.json`;
+const scanTextPath = (id: string) => `${scansDirectory()}${id}.json`;
+
+const ensureScansDirectory = async () => {
+  const info = await FileSystem.getInfoAsync(scansDirectory());
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(scansDirectory(), {intermediates: true});
+  }
+};
+
+const readIndex = async (): Promise<ScanSummary[]> => {
+  const info = await FileSystem.getInfoAsync(indexPath());
+  if (!info.exists) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(await FileSystem.readAsStringAsync(indexPath()));
+  } catch (error) {
+    log.error('Scan history index is unreadable, starting fresh', {error});
+    return [];
+  }
+};
+
+const writeIndex = (scans: ScanSummary[]) =>
+  FileSystem.writeAsStringAsync(indexPath(), JSON.stringify(scans));
+
+// Serialise index updates so concurrent saves and deletes don't drop entries
+let indexQueue: Promise<unknown> = Promise.resolve();
+const updateIndex = (update: (scans: ScanSummary[]) => ScanSummary[]) => {
+  const next = indexQueue.then(async () => writeIndex(update(await readIndex())));
+  indexQueue = next.catch(() => undefined);
+  return next;
+};
+
+const createScanId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listScans = async (): Promise<ScanSummary[]> => {
+  await indexQueue;
+  return readIndex();
+};
+
+export const getScan = async (id: string): Promise<ScanRecord | null> => {
+  const summary = (await listScans()).find(scan => scan.id === id);
+  if (!summary) {
+    return null;
+  }
+
+  const extractedText: ExtractedText = JSON.parse(await FileSystem.readAsStringAsync(scanTextPath(id)));
+  return {...summary, extractedText};
+};
+
+export const saveScan = async (scan: NewScan): Promise<ScanSummary> => {
+  await ensureScansDirectory();
+
+  const id = createScanId();
+  const imageUri = `${scansDirectory()}${id}.jpg`;
+  const thumbnailUri = `${scansDirectory()}${id}-thumb.jpg`;
+
+  await FileSystem.copyAsync({from: scan.sourceUri, to: imageUri});
+
+  const thumbnail = await ImageManipulator.manipulateAsync(
+    imageUri,
+    [{resize: {width: THUMBNAIL_WIDTH}}],
+    {compress: 0.7, format: ImageManipulator.SaveFormat.JPEG}
+  );
+  await FileSystem.moveAsync({from: thumbnail.uri, to: thumbnailUri});
+
+  await FileSystem.writeAsStringAsync(scanTextPath(id), JSON.stringify(scan.extractedText));
+
+  const summary: ScanSummary = {
+    id,
+    createdAt: Date.now(),
+    imageUri,
+    thumbnailUri,
+    providerId: scan.providerId,
+    mode: scan.mode,
+    fullText: scan.extractedText.fullText,
+    wordCount: scan.extractedText.words.length,
+    timings: scan.timings,
+  };
+
+  await updateIndex(scans => [summary, ...scans]);
+  return summary;
+};
+
+// Replace the recognised text of a saved scan, e.g. after recognising its
+// photo again; the image, thumbnail and place in the list stay as they are
+export const updateScan = async (id: string, scan: NewScan): Promise<ScanSummary | null> => {
+  const summary = (await listScans()).find(saved => saved.id === id);
+  if (!summary) {
+    return null;
+  }
+
+  await FileSystem.writeAsStringAsync(scanTextPath(id), JSON.stringify(scan.extractedText));
+
+  const updated: ScanSummary = {
+    ...summary,
+    providerId: scan.providerId,
+    mode: scan.mode,
+    fullText: scan.extractedText.fullText,
+    wordCount: scan.extractedText.words.length,
+    timings: scan.timings,
+  };
+
+  await updateIndex(scans => scans.map(saved => (saved.id === id ? updated : saved)));
+  return updated;
+};
+
+export const deleteScan = async (id: string) => {
+  await updateIndex(scans => scans.filter(scan => scan.id !== id));
+
+  await Promise.all([
+    `${scansDirectory()}${id}.jpg`,
+    `${scansDirectory()}${id}-thumb.jpg`,
+    scanTextPath(id),
+  ].map(path => FileSystem.deleteAsync(path, {idempotent: true})));
+};
+
+// Case-insensitive match of every whitespace-separated term against the full text
+export const searchScans = (scans: ScanSummary[], query: string): ScanSummary[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return scans;
+  }
+
+  return scans.filter(scan => {
+    const text = scan.fullText.toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+};
+
+// A single line of text around the first query term, for showing why a scan matched
+export const matchSnippet = (fullText: string, query: string, radius = 40): string => {
+  const flattened = fullText.replace(/\s+/g, ' ').trim();
+  const term = query.toLowerCase().split(/\s+/).find(Boolean);
+  const index = term ? flattened.toLowerCase().indexOf(term) : -1;
+
+  if (!term || index < 0) {
+    return flattened.slice(0, radius * 2);
+  }
+
+  const start = Math.max(0, index - radius);
+  const end = Math.min(flattened.length, index + term.length + radius);
+  return `${start > 0 ? '…' : ''}${flattened.slice(start, end)}${end < flattened.length ? '…' : ''}`;
+};
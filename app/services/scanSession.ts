@@ -0,0 +1,69 @@
+import {ScanTimings} from './scanHistory';
+import {ExtractedText} from './types';
+
+// A multi-page scanning session: pages are captured in a row and recognised
+// in the background, then combined into one document.
+
+export type SessionPageStatus = 'queued' | 'recognizing' | 'done' | 'failed';
+
+export interface SessionPage {
+  id: string;
+  imageUri: string;
+  status: SessionPageStatus;
+  extractedText?: ExtractedText;
+  error?: string;
+  timings: ScanTimings;
+}
+
+const createPageId = () => `page-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createSessionPage = (imageUri: string, timings: ScanTimings = {}): SessionPage => ({
+  id: createPageId(),
+  imageUri,
+  status: 'queued',
+  timings,
+});
+
+export const updateSessionPage = (pages: SessionPage[], id: string, update: Partial<SessionPage>): SessionPage[] =>
+  pages.map(page => (page.id === id ? {...page, ...update} : page));
+
+// Swap in a retaken page; it gets a new id so results for the old photo are ignored
+export const replaceSessionPage = (pages: SessionPage[], id: string, replacement: SessionPage): SessionPage[] =>
+  pages.map(page => (page.id === id ? replacement : page));
+
+export const removeSessionPage = (pages: SessionPage[], id: string): SessionPage[] =>
+  pages.filter(page => page.id !== id);
+
+// Move a page `offset` places, clamped to the ends of the session
+export const moveSessionPage = (pages: SessionPage[], id: string, offset: number): SessionPage[] => {
+  const from = pages.findIndex(page => page.id === id);
+  if (from < 0) {
+    return pages;
+  }
+
+  const to = Math.max(0, Math.min(pages.length - 1, from + offset));
+  const reordered = [...pages];
+  const [page] = reordered.splice(from, 1);
+  reordered.splice(to, 0, page);
+  return reordered;
+};
+
+export const isSessionSettled = (pages: SessionPage[]) =>
+  pages.every(page => page.status === 'done' || page.status === 'failed');
+
+// One document from the pages in order. Word geometry only makes sense against
+// its own photo, so the combined document carries text and page layout but no
+// words; page structure is kept when every page has it.
+export const combineSessionPages = (texts: ExtractedText[]): ExtractedText => {
+  const pages = texts.every(text => text.pages?.length)
+    ? texts.flatMap(text => text.pages || [])
+    : undefined;
+
+  return {
+    fullText: texts.map(text => text.fullText.trim()).filter(Boolean).join('\n\n'),
+    imageWidth: texts[0]?.imageWidth || 0,
+    imageHeight: texts[0]?.imageHeight || 0,
+    words: [],
+    ...(pages ? {pages} : {}),
+  };
+};
@@ -0,0 +1,195 @@
+import {ExtractedText} from './types';
+
+// Builds a PDF with one page per scan, each showing a JPEG with an invisible
+// text layer on top, so viewers can search and select the recognised words
+// over the photo.
+//
+// The text layer uses the standard Helvetica font with WinAnsiEncoding, which
+// needs no embedded font data; characters outside Latin-1 become '?'.
+
+export interface JpegInfo {
+  width: number;
+  height: number;
+  components: number;
+}
+
+// Read the frame size from the first start-of-frame marker
+export const readJpegInfo = (bytes: Uint8Array): JpegInfo => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error('Not a JPEG image');
+  }
+
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+        components: bytes[offset + 9],
+      };
+    }
+    offset += 2 + length;
+  }
+
+  throw new Error('JPEG has no frame header');
+};
+
+// Latin-1 only, with PDF string delimiters escaped
+const pdfString = (text: string) =>
+  '(' + text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/([\\()])/g, '\\$1') + ')';
+
+const formatNumber = (value: number) => (Math.round(value * 100) / 100).toString();
+
+// Helvetica glyphs average roughly half an em wide; used to stretch each word to its box
+const AVERAGE_GLYPH_WIDTH = 0.5;
+
+// Content stream: the photo scaled to fill the page, then every word drawn in
+// text render mode 3 (neither filled nor stroked), positioned on its box.
+const pageContent = (extractedText: ExtractedText, pageWidth: number, pageHeight: number) => {
+  const scaleX = pageWidth / extractedText.imageWidth;
+  const scaleY = pageHeight / extractedText.imageHeight;
+  const lines = [`q ${formatNumber(pageWidth)} 0 0 ${formatNumber(pageHeight)} 0 0 cm /Im0 Do Q`, 'BT', '3 Tr'];
+
+  for (const word of extractedText.words) {
+    if (!word.text.trim() || word.vertices.length < 4) {
+      continue;
+    }
+
+    // PDF's y axis points up, so flip image coordinates
+    const [topLeft, topRight, , bottomLeft] = word.vertices.map(v => ({
+      x: v.x * scaleX,
+      y: pageHeight - v.y * scaleY,
+    }));
+    const width = Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y);
+    const height = Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y);
+    if (width <= 0 || height <= 0) {
+      continue;
+    }
+
+    const angle = Math.atan2(topRight.y - topLeft.y, topRight.x - topLeft.x);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const horizontalScale = (width / (AVERAGE_GLYPH_WIDTH * height * word.text.length)) * 100;
+
+    lines.push(
+      `/F1 ${formatNumber(height)} Tf`,
+      `${formatNumber(horizontalScale)} Tz`,
+      `${[cos, sin, -sin, cos, bottomLeft.x, bottomLeft.y].map(formatNumber).join(' ')} Tm`,
+      `${pdfString(word.text)} Tj`
+    );
+  }
+
+  lines.push('ET');
+  return lines.join('\n');
+};
+
+const encodeAscii = (text: string) => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+export interface PdfPage {
+  extractedText: ExtractedText;
+  jpeg: Uint8Array;
+}
+
+// Each object is either a plain dictionary or a dictionary followed by a stream
+interface PdfObject {
+  dictionary: string;
+  stream?: Uint8Array;
+}
+
+// Page, image and content stream objects for one page, numbered from `first`.
+// The page takes the pixel size of the OCR image, one point per pixel.
+const pageObjects = ({extractedText, jpeg}: PdfPage, first: number): PdfObject[] => {
+  const info = readJpegInfo(jpeg);
+  const pageWidth = extractedText.imageWidth;
+  const pageHeight = extractedText.imageHeight;
+  const content = encodeAscii(pageContent(extractedText, pageWidth, pageHeight));
+  const colorSpace = info.components === 1 ? '/DeviceGray' : info.components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+
+  return [
+    {
+      dictionary: `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}]` +
+        ` /Resources << /XObject << /Im0 ${first + 1} 0 R >> /Font << /F1 3 0 R >> >> /Contents ${first + 2} 0 R >>`,
+    },
+    {
+      dictionary: `<< /Type /XObject /Subtype /Image /Width ${info.width} /Height ${info.height}` +
+        ` /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>`,
+      stream: jpeg,
+    },
+    {dictionary: `<< /Length ${content.length} >>`, stream: content},
+  ];
+};
+
+export const toSearchablePdf = (pages: PdfPage[]): Uint8Array => {
+  if (pages.length === 0) {
+    throw new Error('A PDF needs at least one page');
+  }
+
+  // Catalog, page tree and the shared font come first, then three objects per page
+  const pageNumbers = pages.map((_page, index) => 4 + index * 3);
+  const objects: PdfObject[] = [
+    {dictionary: '<< /Type /Catalog /Pages 2 0 R >>'},
+    {dictionary: `<< /Type /Pages /Kids [${pageNumbers.map(number => `${number} 0 R`).join(' ')}] /Count ${pages.length} >>`},
+    {dictionary: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'},
+    ...pages.flatMap((page, index) => pageObjects(page, pageNumbers[index])),
+  ];
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const push = (chunk: Uint8Array) => {
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+
+  // The binary comment tells transfer tools the file isn't plain text
+  push(encodeAscii('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'));
+
+  const offsets = objects.map((object, index) => {
+    const offset = length;
+    push(encodeAscii(`${index + 1} 0 obj\n${object.dictionary}\n`));
+    if (object.stream) {
+      push(encodeAscii('stream\n'));
+      push(object.stream);
+      push(encodeAscii('\nendstream\n'));
+    }
+    push(encodeAscii('endobj\n'));
+    return offset;
+  });
+
+  const xrefOffset = length;
+  push(encodeAscii([
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    `${xrefOffset}`,
+    '%%EOF',
+    '',
+  ].join('\n')));
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  }
+  return pdf;
+};
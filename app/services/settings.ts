@@ -0,0 +1,179 @@
+import * as FileSystem from 'expo-file-system';
+import {useEffect, useState} from 'react';
+import {ConfidenceSettings, getConfiguredConfidenceSettings, LowConfidenceDisplay} from './confidence';
+import {ENCODING_PROFILES, EncodingProfileId} from './imageEncoding';
+import {getConfiguredLiveOcrFps} from './liveOcr';
+import {createLogger} from './logger';
+import {getConfiguredOcrMode, getConfiguredOcrProvider, isOcrProviderId, OcrProviderId} from './ocrProvider';
+import {getConfiguredResultCacheEnabled} from './resultCache';
+import {getConfiguredTranslationProvider, isTranslationProviderId, TranslationProviderId} from './translation';
+import {OcrMode} from './types';
+
+// Everything the user can change about recognition and capture, persisted on
+// the device. The EXPO_PUBLIC_* variables only seed the defaults; once a
+// setting is changed on the Settings screen the stored value wins.
+
+const log = createLogger('settings');
+
+export type CameraFacing = 'back' | 'front';
+export type FlashMode = 'off' | 'on' | 'auto';
+// 'auto' lets the encoder pick a profile from the photo
+export type EncodingPreference = 'auto' | EncodingProfileId;
+
+export interface AppSettings {
+  ocrProvider: OcrProviderId;
+  ocrMode: OcrMode;
+  // BCP-47 codes passed to Vision as languageHints; empty lets it detect the language
+  languageHints: string[];
+  // Most text annotations to ask Vision for in one request
+  maxResults: number;
+  // Reuse an earlier result for an identical image instead of asking the provider again
+  resultCacheEnabled: boolean;
+  confidence: ConfidenceSettings;
+  // Size and quality of the image sent for text recognition
+  encoding: EncodingPreference;
+  // JPEG quality the camera captures at, 0-1
+  captureQuality: number;
+  cameraFacing: CameraFacing;
+  flash: FlashMode;
+  torch: boolean;
+  // Frames per second the live scanner recognises
+  liveOcrFps: number;
+  translationProvider: TranslationProviderId;
+  // Off, results are only kept when saved from the result view
+  autoSaveToHistory: boolean;
+}
+
+export const CAMERA_FACINGS: CameraFacing[] = ['back', 'front'];
+export const FLASH_MODES: FlashMode[] = ['off', 'on', 'auto'];
+export const ENCODING_PREFERENCES: EncodingPreference[] = ['auto', ...(Object.keys(ENCODING_PROFILES) as EncodingProfileId[])];
+const LOW_CONFIDENCE_DISPLAYS: LowConfidenceDisplay[] = ['dim', 'hide'];
+
+export const getDefaultSettings = (): AppSettings => ({
+  ocrProvider: getConfiguredOcrProvider().id,
+  ocrMode: getConfiguredOcrMode(),
+  languageHints: [],
+  maxResults: 100,
+  resultCacheEnabled: getConfiguredResultCacheEnabled(),
+  confidence: getConfiguredConfidenceSettings(),
+  encoding: 'auto',
+  captureQuality: 0.8,
+  cameraFacing: 'back',
+  flash: 'off',
+  torch: false,
+  liveOcrFps: getConfiguredLiveOcrFps(),
+  translationProvider: getConfiguredTranslationProvider().id,
+  autoSaveToHistory: true,
+});
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+const isCount = (value: unknown, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= max;
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+// Keep only the stored values that are still valid, so a settings file from
+// an older version or a hand edit can't break the app
+export const sanitizeSettings = (stored: Record<string, unknown>, defaults = getDefaultSettings()): AppSettings => {
+  const confidence = (stored.confidence ?? {}) as Record<string, unknown>;
+  return {
+    ocrProvider: isOcrProviderId(stored.ocrProvider) ? stored.ocrProvider : defaults.ocrProvider,
+    ocrMode: isOneOf<OcrMode>(['text', 'document'], stored.ocrMode) ? stored.ocrMode : defaults.ocrMode,
+    languageHints: Array.isArray(stored.languageHints)
+      ? stored.languageHints.filter((hint): hint is string => typeof hint === 'string' && hint.length > 0)
+      : defaults.languageHints,
+    maxResults: isCount(stored.maxResults, 1000) ? stored.maxResults : defaults.maxResults,
+    resultCacheEnabled: typeof stored.resultCacheEnabled === 'boolean' ? stored.resultCacheEnabled : defaults.resultCacheEnabled,
+    confidence: {
+      threshold: isFraction(confidence.threshold) ? confidence.threshold : defaults.confidence.threshold,
+      lowConfidenceDisplay: isOneOf(LOW_CONFIDENCE_DISPLAYS, confidence.lowConfidenceDisplay)
+        ? confidence.lowConfidenceDisplay
+        : defaults.confidence.lowConfidenceDisplay,
+    },
+    encoding: isOneOf(ENCODING_PREFERENCES, stored.encoding) ? stored.encoding : defaults.encoding,
+    captureQuality: isFraction(stored.captureQuality) && stored.captureQuality > 0 ? stored.captureQuality : defaults.captureQuality,
+    cameraFacing: isOneOf(CAMERA_FACINGS, stored.cameraFacing) ? stored.cameraFacing : defaults.cameraFacing,
+    flash: isOneOf(FLASH_MODES, stored.flash) ? stored.flash : defaults.flash,
+    torch: typeof stored.torch === 'boolean' ? stored.torch : defaults.torch,
+    liveOcrFps: isCount(stored.liveOcrFps, 30) ? stored.liveOcrFps : defaults.liveOcrFps,
+    translationProvider: isTranslationProviderId(stored.translationProvider) ? stored.translationProvider : defaults.translationProvider,
+    autoSaveToHistory: typeof stored.autoSaveToHistory === 'boolean' ? stored.autoSaveToHistory : defaults.autoSaveToHistory,
+  };
+};
+
+// "en, de-CH,ja" → ['en', 'de-CH', 'ja']
+export const parseLanguageHints = (input: string): string[] =>
+  input.split(/[\s,]+/).filter(hint => /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(hint));
+
+const settingsPath = () => `${FileSystem.documentDirectory}settings.json`;
+
+let current = getDefaultSettings();
+const listeners = new Set<() => void>();
+
+// The settings in effect; the defaults until loadSettings has read the file,
+// so anything that runs before the UI should await loadSettings first
+export const getSettings = (): AppSettings => current;
+
+export const subscribeToSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+let loading: Promise<AppSettings> | null = null;
+// Changes made before the file has been read, applied over its contents
+let changedWhileLoading: Partial<AppSettings> | null = {};
+
+// Read the stored settings once; later calls share the first read
+export const loadSettings = () => {
+  loading ??= (async () => {
+    try {
+      const info = await FileSystem.getInfoAsync(settingsPath());
+      if (info.exists) {
+        const stored = sanitizeSettings(JSON.parse(await FileSystem.readAsStringAsync(settingsPath())));
+        current = {...stored, ...changedWhileLoading};
+        listeners.forEach(listener => listener());
+      }
+    } catch (error) {
+      log.error('Settings file is unreadable, using the defaults', {error});
+    }
+    changedWhileLoading = null;
+    return current;
+  })();
+  return loading;
+};
+
+// Serialise writes so quick successive changes land in order. Each write
+// waits for the file to have been read, so it can't be replaced by stale contents.
+let writes: Promise<unknown> = Promise.resolve();
+
+export const updateSettings = (changes: Partial<AppSettings>) => {
+  current = {...current, ...changes};
+  if (changedWhileLoading) {
+    changedWhileLoading = {...changedWhileLoading, ...changes};
+  }
+  listeners.forEach(listener => listener());
+  log.info('Settings changed', {keys: Object.keys(changes)});
+
+  const next = writes
+    .then(loadSettings)
+    .then(() => FileSystem.writeAsStringAsync(settingsPath(), JSON.stringify(current)));
+  writes = next.catch(() => undefined);
+  return next;
+};
+
+export const resetSettings = () => updateSettings(getDefaultSettings());
+
+// The current settings, re-rendering whenever they change
+export const useSettings = (): AppSettings => {
+  const [settings, setSettings] = useState(getSettings);
+  useEffect(() => {
+    setSettings(getSettings());
+    return subscribeToSettings(() => setSettings(getSettings()));
+  }, []);
+  return settings;
+};
@@ -0,0 +1,73 @@
+import * as FileSystem from 'expo-file-system';
+import * as ImageManipulator from 'expo-image-manipulator';
+import * as Sharing from 'expo-sharing';
+import {base64ToBytes, bytesToBase64} from './base64';
+import {EXPORT_FORMATS, ExportFormat, toJson, toMarkdown, toPlainText} from './exporters';
+import {createLogger} from './logger';
+import {combineSessionPages} from './scanSession';
+import {toSearchablePdf} from './searchablePdf';
+import {ExtractedText} from './types';
+
+const log = createLogger('export');
+
+// Width of the photo embedded in PDFs; enough to read, small enough to share
+const PDF_IMAGE_WIDTH = 1600;
+
+// Re-encode the photo upright, since PDF viewers ignore EXIF orientation
+const loadPdfImage = async (imageUri: string) => {
+  const image = await ImageManipulator.manipulateAsync(
+    imageUri,
+    [{resize: {width: PDF_IMAGE_WIDTH}}],
+    {compress: 0.8, format: ImageManipulator.SaveFormat.JPEG, base64: true}
+  );
+
+  if (!image.base64) {
+    throw new Error('Failed to encode image for PDF export');
+  }
+  return base64ToBytes(image.base64);
+};
+
+// One scanned page; a single capture exports as one page, a session as several
+export interface ExportPage {
+  extractedText: ExtractedText;
+  imageUri: string | null;
+}
+
+// Write the export into the cache directory and return its file URI
+export const writeExport = async (format: ExportFormat, pages: ExportPage[]): Promise<string> => {
+  const uri = `${FileSystem.cacheDirectory}scan-${Date.now()}.${EXPORT_FORMATS[format].extension}`;
+
+  if (format === 'pdf') {
+    const pdfPages = [];
+    for (const page of pages) {
+      if (!page.imageUri) {
+        throw new Error('A searchable PDF needs the captured image');
+      }
+      pdfPages.push({extractedText: page.extractedText, jpeg: await loadPdfImage(page.imageUri)});
+    }
+    const pdf = toSearchablePdf(pdfPages);
+    await FileSystem.writeAsStringAsync(uri, bytesToBase64(pdf), {encoding: FileSystem.EncodingType.Base64});
+    return uri;
+  }
+
+  const serialise = {txt: toPlainText, md: toMarkdown, json: toJson}[format];
+  const extractedText = pages.length === 1
+    ? pages[0].extractedText
+    : combineSessionPages(pages.map(page => page.extractedText));
+  await FileSystem.writeAsStringAsync(uri, serialise(extractedText));
+  return uri;
+};
+
+export const shareExport = async (format: ExportFormat, pages: ExportPage[]) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  log.info('Exporting extracted text', {format, pageCount: pages.length});
+  const uri = await writeExport(format, pages);
+  await Sharing.shareAsync(uri, {
+    mimeType: EXPORT_FORMATS[format].mimeType,
+    UTI: EXPORT_FORMATS[format].uti,
+    dialogTitle: `Share ${EXPORT_FORMATS[format].label}`,
+  });
+};
@@ -0,0 +1,88 @@
+import {analyzeLayout} from './layout';
+import {ExtractedText} from './types';
+
+// What text-to-speech reads out, and where each word sits in it, so the
+// speech engine's progress can be turned back into a word id.
+
+export interface SpokenWord {
+  id: string;
+  // Character range of the word in SpeechScript.text
+  start: number;
+  end: number;
+}
+
+export interface SpeechScript {
+  text: string;
+  // In reading order; empty when the result came without word geometry
+  words: SpokenWord[];
+}
+
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5];
+
+// Paragraphs in block order when the provider recognised document structure,
+// otherwise in the reading order recovered from the word boxes. Paragraphs and
+// table rows each end in a newline so the voice pauses between them.
+export const buildSpeechScript = (extractedText: ExtractedText): SpeechScript => {
+  const paragraphs = extractedText.pages?.length
+    ? extractedText.pages.flatMap(page => page.blocks.flatMap(block => block.paragraphs.map(paragraph => paragraph.words)))
+    : analyzeLayout(extractedText.words).blocks.flatMap(block => (block.kind === 'table'
+      ? block.rows.map(row => row.flatMap(cell => cell.words))
+      : block.paragraphs.map(paragraph => paragraph.lines.flatMap(line => line.words))));
+
+  if (!paragraphs.some(words => words.length > 0)) {
+    return {text: extractedText.fullText, words: []};
+  }
+
+  let text = '';
+  const words: SpokenWord[] = [];
+  for (const paragraph of paragraphs) {
+    paragraph.forEach((word, index) => {
+      words.push({id: word.id, start: text.length, end: text.length + word.text.length});
+      text += word.text + (index === paragraph.length - 1 ? '\n' : ' ');
+    });
+  }
+
+  return {text, words};
+};
+
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+
+// End of the next chunk of at most `maxLength` characters from `start`, for
+// speech engines that limit their input. Chunks end after a sentence or line
+// where one fits, otherwise on a space, and only split a word that is longer
+// than a whole chunk.
+export const speechChunkEnd = (text: string, start: number, maxLength: number): number => {
+  const limit = start + maxLength;
+  if (limit >= text.length) {
+    return text.length;
+  }
+
+  let spaceEnd = -1;
+  for (let end = limit; end > start; end--) {
+    if (!/\s/.test(text[end])) {
+      continue;
+    }
+    if (text[end] === '\n' || SENTENCE_END.test(text.slice(Math.max(start, end - 4), end))) {
+      return end;
+    }
+    if (spaceEnd < 0) {
+      spaceEnd = end;
+    }
+  }
+  return spaceEnd < 0 ? limit : spaceEnd;
+};
+
+// Index of the word spoken at `offset`, or of the last word before it
+export const wordIndexAtOffset = (script: SpeechScript, offset: number): number => {
+  let low = 0;
+  let high = script.words.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (script.words[middle].start <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
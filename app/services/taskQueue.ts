@@ -0,0 +1,68 @@
+import {OcrError} from './ocrErrors';
+
+export interface TaskQueue {
+  // Runs `task` once fewer than `concurrency` tasks are in flight. A task whose
+  // signal aborts while it waits is dropped and rejects as cancelled.
+  run: <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+  // Tasks started but not yet settled, and tasks still waiting
+  active: () => number;
+  pending: () => number;
+}
+
+interface QueuedTask {
+  start: () => void;
+  signal?: AbortSignal;
+}
+
+// First in, first out, with at most `concurrency` tasks running at once
+export const createTaskQueue = (concurrency: number): TaskQueue => {
+  const waiting: QueuedTask[] = [];
+  let running = 0;
+
+  const next = () => {
+    while (running < concurrency && waiting.length > 0) {
+      const queued = waiting.shift()!;
+      if (!queued.signal?.aborted) {
+        queued.start();
+      }
+    }
+  };
+
+  const run = <T>(task: () => Promise<T>, signal?: AbortSignal) =>
+    new Promise<T>((resolve, reject) => {
+      const queued: QueuedTask = {
+        signal,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          running++;
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              running--;
+              next();
+            });
+        },
+      };
+      const onAbort = () => {
+        const index = waiting.indexOf(queued);
+        if (index >= 0) {
+          waiting.splice(index, 1);
+        }
+        reject(new OcrError('cancelled', 'Queued task was cancelled'));
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, {once: true});
+      waiting.push(queued);
+      next();
+    });
+
+  return {
+    run,
+    active: () => running,
+    pending: () => waiting.length,
+  };
+};
@@ -0,0 +1,178 @@
+import TranslateText, {TranslateLanguage} from '@react-native-ml-kit/translate-text';
+import {Rect} from './coordinates';
+import {groupWordsIntoLines} from './layout';
+import {createLogger} from './logger';
+import {DICTIONARIES, STOPWORDS} from './translationDictionaries';
+import {ExtractedText} from './types';
+
+// Translation of recognised text through a pluggable backend. Text is
+// translated a line at a time, so each translation can be drawn back over the
+// line it came from.
+
+const log = createLogger('translation');
+
+export type TranslationProviderId = 'on-device' | 'dictionary' | 'stub';
+
+export interface TranslationProvider {
+  id: TranslationProviderId;
+  label: string;
+  // Translate each text from `source` to `target`, keeping the order
+  translate: (texts: string[], source: string, target: string) => Promise<string[]>;
+}
+
+export const TRANSLATION_LANGUAGES: {code: string; label: string}[] = [
+  {code: 'en', label: 'English'},
+  {code: 'es', label: 'Spanish'},
+  {code: 'fr', label: 'French'},
+  {code: 'de', label: 'German'},
+  {code: 'it', label: 'Italian'},
+  {code: 'pt', label: 'Portuguese'},
+];
+
+export const languageLabel = (code: string) =>
+  TRANSLATION_LANGUAGES.find(language => language.code === code)?.label || code;
+
+// ML Kit's translation model for the pair is downloaded the first time it's
+// used and runs offline from then on
+const onDeviceProvider: TranslationProvider = {
+  id: 'on-device',
+  label: 'On-device model',
+  translate: (texts, source, target) =>
+    Promise.all(texts.map(async text => String(await TranslateText.translate({
+      text,
+      sourceLanguage: source as TranslateLanguage,
+      targetLanguage: target as TranslateLanguage,
+      downloadModelIfNeeded: true,
+    })))),
+};
+
+// Reverse of a source-to-English dictionary, for translating out of English.
+// Where several words share a translation the first one listed wins, so "the"
+// becomes "el" rather than "las".
+const fromEnglish = (language: string): Record<string, string> => {
+  const reversed: Record<string, string> = {};
+  for (const [word, english] of Object.entries(DICTIONARIES[language] || {})) {
+    reversed[english] ??= word;
+  }
+  return reversed;
+};
+
+const translateWord = (word: string, lookups: Record<string, string>[]): string => {
+  const match = word.match(/^([^\p{L}]*)([\p{L}'-]+)([^\p{L}]*)$/u);
+  if (!match) {
+    return word;
+  }
+
+  const [, leading, core, trailing] = match;
+  let translated = core.toLowerCase();
+  for (const lookup of lookups) {
+    translated = lookup[translated] ?? translated;
+  }
+  if (core[0] !== core[0].toLowerCase()) {
+    translated = translated[0].toUpperCase() + translated.slice(1);
+  }
+  return `${leading}${translated}${trailing}`;
+};
+
+// Word for word through the bundled lists; unknown words are kept as they are
+const dictionaryProvider: TranslationProvider = {
+  id: 'dictionary',
+  label: 'Offline dictionary',
+  translate: async (texts, source, target) => {
+    const lookups = [
+      ...(source === 'en' ? [] : [DICTIONARIES[source] || {}]),
+      ...(target === 'en' ? [] : [fromEnglish(target)]),
+    ];
+    return texts.map(text => text.split(/(\s+)/).map(word => translateWord(word, lookups)).join(''));
+  },
+};
+
+// Tags the text with the target language; for development without a backend
+const stubProvider: TranslationProvider = {
+  id: 'stub',
+  label: 'Stub',
+  translate: async (texts, _source, target) => texts.map(text => `[${target}] ${text}`),
+};
+
+export const TRANSLATION_PROVIDERS: Record<TranslationProviderId, TranslationProvider> = {
+  'on-device': onDeviceProvider,
+  'dictionary': dictionaryProvider,
+  'stub': stubProvider,
+};
+
+export const DEFAULT_TRANSLATION_PROVIDER: TranslationProviderId = 'on-device';
+
+export const isTranslationProviderId = (value: unknown): value is TranslationProviderId =>
+  typeof value === 'string' && value in TRANSLATION_PROVIDERS;
+
+// Default provider, selected through EXPO_PUBLIC_TRANSLATION_PROVIDER and falling back to the on-device model
+export const getConfiguredTranslationProvider = (): TranslationProvider => {
+  const configured = process.env.EXPO_PUBLIC_TRANSLATION_PROVIDER;
+
+  if (configured && !isTranslationProviderId(configured)) {
+    log.warn('Unknown translation provider configured', {configured, fallback: DEFAULT_TRANSLATION_PROVIDER});
+  }
+
+  return TRANSLATION_PROVIDERS[isTranslationProviderId(configured) ? configured : DEFAULT_TRANSLATION_PROVIDER];
+};
+
+// Language the text is written in: the one the OCR provider reported most
+// often, otherwise the supported language whose common words appear most.
+// Null when nothing stands out.
+export const detectLanguage = (extractedText: ExtractedText): string | null => {
+  const counts = new Map<string, number>();
+  for (const page of extractedText.pages || []) {
+    for (const block of page.blocks) {
+      for (const language of block.languages) {
+        const code = language.languageCode.split('-')[0];
+        counts.set(code, (counts.get(code) || 0) + 1);
+      }
+    }
+  }
+
+  if (counts.size === 0) {
+    const words = extractedText.fullText.toLowerCase().split(/[^\p{L}']+/u);
+    for (const [code, stopwords] of Object.entries(STOPWORDS)) {
+      counts.set(code, words.filter(word => stopwords.includes(word)).length);
+    }
+  }
+
+  const [best] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  return best && best[1] > 0 ? best[0] : null;
+};
+
+export interface TranslatedLine {
+  original: string;
+  translated: string;
+  // Image-space box of the line's words; absent without word geometry
+  box?: Rect;
+}
+
+export interface Translation {
+  source: string;
+  target: string;
+  lines: TranslatedLine[];
+}
+
+// Translate the text line by line. Text already in the target language is
+// passed through untouched.
+export const translateExtractedText = async (
+  provider: TranslationProvider,
+  extractedText: ExtractedText,
+  target: string,
+  source: string | null = detectLanguage(extractedText)
+): Promise<Translation> => {
+  if (!source) {
+    throw new Error('Could not tell which language the text is in.');
+  }
+
+  const lines = groupWordsIntoLines(extractedText);
+  const originals = lines.map(line => line.text);
+  const translated = source === target ? originals : await provider.translate(originals, source, target);
+
+  return {
+    source,
+    target,
+    lines: lines.map((line, index) => ({original: line.text, translated: translated[index] ?? line.text, box: line.box})),
+  };
+};
@@ -0,0 +1,77 @@
+// Small bundled word lists for the offline dictionary translator. Each maps a
+// language's common words to English; other pairs pivot through English.
+// Word-by-word output is rough, but it needs no download and no network.
+
+export const DICTIONARIES: Record<string, Record<string, string>> = {
+  es: {
+    'el': 'the', 'la': 'the', 'los': 'the', 'las': 'the', 'un': 'a', 'una': 'a',
+    'y': 'and', 'o': 'or', 'de': 'of', 'en': 'in', 'con': 'with', 'sin': 'without',
+    'para': 'for', 'por': 'by', 'es': 'is', 'son': 'are', 'no': 'no', 'sí': 'yes',
+    'hola': 'hello', 'gracias': 'thanks', 'adiós': 'goodbye', 'bienvenido': 'welcome',
+    'salida': 'exit', 'entrada': 'entrance', 'abierto': 'open', 'cerrado': 'closed',
+    'precio': 'price', 'total': 'total', 'cuenta': 'bill', 'agua': 'water',
+    'café': 'coffee', 'leche': 'milk', 'pan': 'bread', 'calle': 'street',
+    'tienda': 'shop', 'baño': 'bathroom', 'peligro': 'danger', 'prohibido': 'forbidden',
+    'fumar': 'smoking', 'hoy': 'today', 'mañana': 'tomorrow', 'día': 'day',
+    'noche': 'night', 'libro': 'book', 'texto': 'text', 'idioma': 'language',
+  },
+  fr: {
+    'le': 'the', 'la': 'the', 'les': 'the', 'un': 'a', 'une': 'a', 'et': 'and',
+    'ou': 'or', 'de': 'of', 'du': 'of the', 'dans': 'in', 'avec': 'with', 'sans': 'without',
+    'pour': 'for', 'par': 'by', 'est': 'is', 'sont': 'are', 'non': 'no', 'oui': 'yes',
+    'bonjour': 'hello', 'merci': 'thanks', 'bienvenue': 'welcome', 'sortie': 'exit',
+    'entrée': 'entrance', 'ouvert': 'open', 'fermé': 'closed', 'prix': 'price',
+    'total': 'total', 'addition': 'bill', 'eau': 'water', 'café': 'coffee',
+    'lait': 'milk', 'pain': 'bread', 'rue': 'street', 'magasin': 'shop',
+    'toilettes': 'toilets', 'danger': 'danger', 'interdit': 'forbidden', 'fumer': 'smoking',
+    'aujourd\'hui': 'today', 'demain': 'tomorrow', 'jour': 'day', 'nuit': 'night',
+    'livre': 'book', 'texte': 'text', 'langue': 'language',
+  },
+  de: {
+    'der': 'the', 'die': 'the', 'das': 'the', 'ein': 'a', 'eine': 'a', 'und': 'and',
+    'oder': 'or', 'von': 'of', 'in': 'in', 'mit': 'with', 'ohne': 'without',
+    'für': 'for', 'ist': 'is', 'sind': 'are', 'nein': 'no', 'ja': 'yes',
+    'hallo': 'hello', 'danke': 'thanks', 'willkommen': 'welcome', 'ausgang': 'exit',
+    'eingang': 'entrance', 'geöffnet': 'open', 'geschlossen': 'closed', 'preis': 'price',
+    'summe': 'total', 'rechnung': 'bill', 'wasser': 'water', 'kaffee': 'coffee',
+    'milch': 'milk', 'brot': 'bread', 'straße': 'street', 'laden': 'shop',
+    'toilette': 'toilet', 'gefahr': 'danger', 'verboten': 'forbidden', 'rauchen': 'smoking',
+    'heute': 'today', 'morgen': 'tomorrow', 'tag': 'day', 'nacht': 'night',
+    'buch': 'book', 'text': 'text', 'sprache': 'language',
+  },
+  it: {
+    'il': 'the', 'lo': 'the', 'la': 'the', 'i': 'the', 'gli': 'the', 'le': 'the',
+    'un': 'a', 'una': 'a', 'e': 'and', 'o': 'or', 'di': 'of', 'in': 'in',
+    'con': 'with', 'senza': 'without', 'per': 'for', 'è': 'is', 'sono': 'are',
+    'no': 'no', 'sì': 'yes', 'ciao': 'hello', 'grazie': 'thanks', 'benvenuto': 'welcome',
+    'uscita': 'exit', 'ingresso': 'entrance', 'aperto': 'open', 'chiuso': 'closed',
+    'prezzo': 'price', 'totale': 'total', 'conto': 'bill', 'acqua': 'water',
+    'caffè': 'coffee', 'latte': 'milk', 'pane': 'bread', 'via': 'street',
+    'negozio': 'shop', 'bagno': 'bathroom', 'pericolo': 'danger', 'vietato': 'forbidden',
+    'fumare': 'smoking', 'oggi': 'today', 'domani': 'tomorrow', 'giorno': 'day',
+    'notte': 'night', 'libro': 'book', 'testo': 'text', 'lingua': 'language',
+  },
+  pt: {
+    'o': 'the', 'a': 'the', 'os': 'the', 'as': 'the', 'um': 'a', 'uma': 'a',
+    'e': 'and', 'ou': 'or', 'de': 'of', 'em': 'in', 'com': 'with', 'sem': 'without',
+    'para': 'for', 'por': 'by', 'é': 'is', 'são': 'are', 'não': 'no', 'sim': 'yes',
+    'olá': 'hello', 'obrigado': 'thanks', 'bem-vindo': 'welcome', 'saída': 'exit',
+    'entrada': 'entrance', 'aberto': 'open', 'fechado': 'closed', 'preço': 'price',
+    'total': 'total', 'conta': 'bill', 'água': 'water', 'café': 'coffee',
+    'leite': 'milk', 'pão': 'bread', 'rua': 'street', 'loja': 'shop',
+    'banheiro': 'bathroom', 'perigo': 'danger', 'proibido': 'forbidden', 'fumar': 'smoking',
+    'hoje': 'today', 'amanhã': 'tomorrow', 'dia': 'day', 'noite': 'night',
+    'livro': 'book', 'texto': 'text', 'idioma': 'language',
+  },
+};
+
+// Words that mark a language out, for guessing the source language when the
+// OCR provider didn't report one
+export const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'with', 'for', 'you', 'this'],
+  es: ['el', 'los', 'las', 'y', 'de', 'que', 'en', 'con', 'para', 'por', 'es'],
+  fr: ['le', 'les', 'et', 'de', 'des', 'du', 'que', 'dans', 'avec', 'pour', 'est'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'für', 'von', 'ein'],
+  it: ['il', 'gli', 'e', 'di', 'che', 'per', 'con', 'è', 'non', 'della'],
+  pt: ['o', 'os', 'e', 'de', 'que', 'em', 'com', 'para', 'não', 'uma'],
+};
@@ -0,0 +1,142 @@
+import {Point} from './coordinates';
+
+export interface ExtractedWord {
+  id: string;
+  text: string;
+  // Recognition confidence in [0, 1]; absent when the provider doesn't report one
+  confidence?: number;
+  // Axis-aligned bounding box in image pixel space
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Bounding quadrilateral in image pixel space, clockwise from the top-left of the text
+  vertices: Point[];
+}
+
+export interface ExtractedText {
+  fullText: string;
+  // Pixel size of the image the word geometry refers to
+  imageWidth: number;
+  imageHeight: number;
+  words: ExtractedWord[];
+  // Page layout, only present when the provider recognised document structure
+  pages?: TextPage[];
+  // Barcodes and QR codes found in the same image
+  codes?: DetectedCode[];
+}
+
+export interface DetectedCode {
+  id: string;
+  // Symbology as the scanner names it, e.g. qr, ean13 or code128
+  format: string;
+  // Decoded payload
+  data: string;
+  // Bounding quadrilateral in image pixel space, clockwise from the top-left
+  vertices: Point[];
+}
+
+// Image-level Vision features requested alongside, or instead of, text detection
+export type ImageFeature = 'labels' | 'objects' | 'logos' | 'safeSearch' | 'imageProperties';
+
+export interface ImageLabel {
+  description: string;
+  // 0-1
+  score: number;
+}
+
+// An object or logo located in the image
+export interface LocatedAnnotation {
+  id: string;
+  name: string;
+  // 0-1
+  score: number;
+  // Bounding quadrilateral in image pixel space, clockwise from the top-left
+  vertices: Point[];
+}
+
+export type Likelihood = 'UNKNOWN' | 'VERY_UNLIKELY' | 'UNLIKELY' | 'POSSIBLE' | 'LIKELY' | 'VERY_LIKELY';
+
+export interface SafeSearch {
+  adult: Likelihood;
+  spoof: Likelihood;
+  medical: Likelihood;
+  violence: Likelihood;
+  racy: Likelihood;
+}
+
+export interface DominantColor {
+  // 0-255 channels
+  red: number;
+  green: number;
+  blue: number;
+  score: number;
+  // Share of the image's pixels, 0-1
+  pixelFraction: number;
+}
+
+// The result of one requested feature, tagged with the feature it answers
+export type ImageAnnotation =
+  | {feature: 'labels'; labels: ImageLabel[]}
+  | {feature: 'objects'; objects: LocatedAnnotation[]}
+  | {feature: 'logos'; logos: LocatedAnnotation[]}
+  | {feature: 'safeSearch'; safeSearch: SafeSearch}
+  | {feature: 'imageProperties'; colors: DominantColor[]};
+
+// The annotation that answers feature F
+export type ImageAnnotationFor<F extends ImageFeature> = Extract<ImageAnnotation, {feature: F}>;
+
+// Which Vision feature to request: TEXT_DETECTION suits sparse text in photos,
+// DOCUMENT_TEXT_DETECTION dense text and keeps the page layout
+export type OcrMode = 'text' | 'document';
+
+export interface DetectedLanguage {
+  languageCode: string;
+  confidence?: number;
+}
+
+// How the text continues after a symbol, mirroring Vision's detectedBreak
+export type TextBreak = 'SPACE' | 'SURE_SPACE' | 'EOL_SURE_SPACE' | 'HYPHEN' | 'LINE_BREAK';
+
+export interface TextSymbol {
+  text: string;
+  confidence?: number;
+  vertices: Point[];
+  languages: DetectedLanguage[];
+  break?: TextBreak;
+}
+
+export interface TextWord {
+  // Matches the id of the corresponding entry in ExtractedText.words
+  id: string;
+  text: string;
+  confidence?: number;
+  vertices: Point[];
+  languages: DetectedLanguage[];
+  symbols: TextSymbol[];
+}
+
+export interface TextParagraph {
+  text: string;
+  confidence?: number;
+  vertices: Point[];
+  languages: DetectedLanguage[];
+  words: TextWord[];
+}
+
+export interface TextBlock {
+  // Vision block type, e.g. TEXT, TABLE or PICTURE
+  blockType?: string;
+  text: string;
+  confidence?: number;
+  vertices: Point[];
+  languages: DetectedLanguage[];
+  paragraphs: TextParagraph[];
+}
+
+export interface TextPage {
+  width: number;
+  height: number;
+  languages: DetectedLanguage[];
+  blocks: TextBlock[];
+}
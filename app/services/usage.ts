@@ -0,0 +1,123 @@
+import * as FileSystem from 'expo-file-system';
+import {createLogger} from './logger';
+import {OcrError} from './ocrErrors';
+
+// What the Vision API has been sent and roughly what it cost, with an
+// optional monthly spending cap that stops requests once reached.
+
+const log = createLogger('usage');
+
+export interface UsageRecord {
+  timestamp: number;
+  // Vision feature types in the request, e.g. TEXT_DETECTION
+  features: string[];
+  // Size of the request body
+  bytes: number;
+  // Zero for requests that failed and so weren't billed
+  estimatedCostUsd: number;
+}
+
+export interface UsageSummary {
+  requests: number;
+  bytes: number;
+  estimatedCostUsd: number;
+  // Monthly cap in US dollars, or null for none
+  budgetUsd: number | null;
+}
+
+interface UsageLedger {
+  budgetUsd: number | null;
+  records: UsageRecord[];
+}
+
+// List price per image for each feature, ignoring the monthly free tier, so
+// estimates err on the high side
+export const VISION_PRICES_USD: Record<string, number> = {
+  TEXT_DETECTION: 0.0015,
+  DOCUMENT_TEXT_DETECTION: 0.0015,
+  LABEL_DETECTION: 0.0015,
+  OBJECT_LOCALIZATION: 0.00225,
+  LOGO_DETECTION: 0.0015,
+  SAFE_SEARCH_DETECTION: 0.0015,
+  IMAGE_PROPERTIES: 0.0015,
+};
+
+// Records older than this are dropped; the budget only looks at the current month
+const RETENTION_MS = 62 * 24 * 60 * 60 * 1000;
+
+export const estimateVisionCost = (features: string[]) =>
+  features.reduce((total, feature) => total + (VISION_PRICES_USD[feature] ?? 0), 0);
+
+const startOfMonth = (now: number) => {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+export const summarizeUsage = (ledger: UsageLedger, now = Date.now()): UsageSummary => {
+  const records = ledger.records.filter(record => record.timestamp >= startOfMonth(now));
+  return {
+    requests: records.length,
+    bytes: records.reduce((total, record) => total + record.bytes, 0),
+    estimatedCostUsd: records.reduce((total, record) => total + record.estimatedCostUsd, 0),
+    budgetUsd: ledger.budgetUsd,
+  };
+};
+
+const ledgerPath = () => `${FileSystem.documentDirectory}usage.json`;
+
+const readLedger = async (): Promise<UsageLedger> => {
+  const info = await FileSystem.getInfoAsync(ledgerPath());
+  if (!info.exists) {
+    return {budgetUsd: null, records: []};
+  }
+
+  try {
+    return JSON.parse(await FileSystem.readAsStringAsync(ledgerPath()));
+  } catch (error) {
+    log.error('Usage ledger is unreadable, starting fresh', {error});
+    return {budgetUsd: null, records: []};
+  }
+};
+
+// Serialise ledger updates so concurrent requests don't drop records
+let ledgerQueue: Promise<unknown> = Promise.resolve();
+const updateLedger = (update: (ledger: UsageLedger) => UsageLedger) => {
+  const next = ledgerQueue.then(async () =>
+    FileSystem.writeAsStringAsync(ledgerPath(), JSON.stringify(update(await readLedger()))));
+  ledgerQueue = next.catch(() => undefined);
+  return next;
+};
+
+export const getUsageSummary = async (now = Date.now()): Promise<UsageSummary> => {
+  await ledgerQueue;
+  return summarizeUsage(await readLedger(), now);
+};
+
+export const setMonthlyBudget = (budgetUsd: number | null) =>
+  updateLedger(ledger => ({...ledger, budgetUsd}));
+
+export const recordUsage = (features: string[], bytes: number, billed: boolean) => {
+  const now = Date.now();
+  const record: UsageRecord = {timestamp: now, features, bytes, estimatedCostUsd: billed ? estimateVisionCost(features) : 0};
+  return updateLedger(ledger => ({
+    ...ledger,
+    records: [...ledger.records.filter(item => item.timestamp >= now - RETENTION_MS), record],
+  }));
+};
+
+// Throws a 'budget' OcrError when a request for `features` would take this
+// month's estimated spend past the cap
+export const assertWithinBudget = async (features: string[]) => {
+  const summary = await getUsageSummary();
+  if (summary.budgetUsd === null) {
+    return;
+  }
+
+  if (summary.estimatedCostUsd + estimateVisionCost(features) > summary.budgetUsd) {
+    log.warn('Monthly budget reached', {spentUsd: summary.estimatedCostUsd, budgetUsd: summary.budgetUsd});
+    throw new OcrError(
+      'budget',
+      `This month's Vision budget of $${summary.budgetUsd.toFixed(2)} has been reached ($${summary.estimatedCostUsd.toFixed(2)} spent).`
+    );
+  }
+};
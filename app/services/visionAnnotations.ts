@@ -0,0 +1,122 @@
+import {Point, Size} from './coordinates';
+import {DominantColor, ImageAnnotation, ImageAnnotationFor, ImageFeature, ImageLabel, Likelihood, LocatedAnnotation, SafeSearch} from './types';
+
+// Shape of the image-level annotations in a Vision response, and their
+// conversion into the app's types
+interface VisionEntityAnnotation {
+  description?: string;
+  score?: number;
+  boundingPoly?: {vertices?: {x?: number; y?: number}[]};
+}
+
+interface VisionLocalizedObject {
+  name?: string;
+  score?: number;
+  boundingPoly?: {normalizedVertices?: {x?: number; y?: number}[]};
+}
+
+export interface VisionImageAnnotations {
+  labelAnnotations?: VisionEntityAnnotation[];
+  localizedObjectAnnotations?: VisionLocalizedObject[];
+  logoAnnotations?: VisionEntityAnnotation[];
+  safeSearchAnnotation?: Partial<Record<keyof SafeSearch, Likelihood>>;
+  imagePropertiesAnnotation?: {
+    dominantColors?: {
+      colors?: {
+        color?: {red?: number; green?: number; blue?: number};
+        score?: number;
+        pixelFraction?: number;
+      }[];
+    };
+  };
+}
+
+export const VISION_IMAGE_FEATURES: Record<ImageFeature, string> = {
+  labels: 'LABEL_DETECTION',
+  objects: 'OBJECT_LOCALIZATION',
+  logos: 'LOGO_DETECTION',
+  safeSearch: 'SAFE_SEARCH_DETECTION',
+  imageProperties: 'IMAGE_PROPERTIES',
+};
+
+// Vision omits zero coordinates, so fill them in
+const pixelVertices = (vertices: {x?: number; y?: number}[] = []): Point[] =>
+  vertices.map(v => ({x: v.x || 0, y: v.y || 0}));
+
+// Object boxes come normalised to 0-1; scale them to the image's pixels
+const denormalizedVertices = (vertices: {x?: number; y?: number}[] = [], imageSize: Size): Point[] =>
+  vertices.map(v => ({x: (v.x || 0) * imageSize.width, y: (v.y || 0) * imageSize.height}));
+
+const parseLabels = (annotations: VisionEntityAnnotation[] = []): ImageLabel[] =>
+  annotations.map(annotation => ({description: annotation.description || '', score: annotation.score || 0}));
+
+const parseObjects = (annotations: VisionLocalizedObject[] = [], imageSize: Size): LocatedAnnotation[] =>
+  annotations.map((annotation, index) => ({
+    id: `object-${index}`,
+    name: annotation.name || '',
+    score: annotation.score || 0,
+    vertices: denormalizedVertices(annotation.boundingPoly?.normalizedVertices, imageSize),
+  }));
+
+const parseLogos = (annotations: VisionEntityAnnotation[] = []): LocatedAnnotation[] =>
+  annotations.map((annotation, index) => ({
+    id: `logo-${index}`,
+    name: annotation.description || '',
+    score: annotation.score || 0,
+    vertices: pixelVertices(annotation.boundingPoly?.vertices),
+  }));
+
+const parseSafeSearch = (annotation: VisionImageAnnotations['safeSearchAnnotation'] = {}): SafeSearch => ({
+  adult: annotation.adult || 'UNKNOWN',
+  spoof: annotation.spoof || 'UNKNOWN',
+  medical: annotation.medical || 'UNKNOWN',
+  violence: annotation.violence || 'UNKNOWN',
+  racy: annotation.racy || 'UNKNOWN',
+});
+
+const parseColors = (annotation: VisionImageAnnotations['imagePropertiesAnnotation']): DominantColor[] =>
+  (annotation?.dominantColors?.colors || []).map(entry => ({
+    red: entry.color?.red || 0,
+    green: entry.color?.green || 0,
+    blue: entry.color?.blue || 0,
+    score: entry.score || 0,
+    pixelFraction: entry.pixelFraction || 0,
+  }));
+
+// Builds the annotation answering each feature from the response
+const IMAGE_ANNOTATION_PARSERS: {
+  [F in ImageFeature]: (response: VisionImageAnnotations, imageSize: Size) => ImageAnnotationFor<F>;
+} = {
+  labels: response => ({feature: 'labels', labels: parseLabels(response.labelAnnotations)}),
+  objects: (response, imageSize) => ({feature: 'objects', objects: parseObjects(response.localizedObjectAnnotations, imageSize)}),
+  logos: response => ({feature: 'logos', logos: parseLogos(response.logoAnnotations)}),
+  safeSearch: response => ({feature: 'safeSearch', safeSearch: parseSafeSearch(response.safeSearchAnnotation)}),
+  imageProperties: response => ({feature: 'imageProperties', colors: parseColors(response.imagePropertiesAnnotation)}),
+};
+
+// One annotation per requested feature, in the order requested. A feature
+// Vision found nothing for comes back empty rather than missing.
+export const parseImageAnnotations = <F extends ImageFeature>(
+  response: VisionImageAnnotations,
+  features: F[],
+  imageSize: Size
+): ImageAnnotationFor<F>[] =>
+  features.map(feature => IMAGE_ANNOTATION_PARSERS[feature](response, imageSize));
+
+// Move an annotation's geometry from the pixel space of the image that was
+// sent into that of another encoding of the same photo
+export const resizeImageAnnotation = (annotation: ImageAnnotation, from: Size, to: Size): ImageAnnotation => {
+  const scaleVertices = (located: LocatedAnnotation): LocatedAnnotation => ({
+    ...located,
+    vertices: located.vertices.map(v => ({x: (v.x * to.width) / from.width, y: (v.y * to.height) / from.height})),
+  });
+
+  switch (annotation.feature) {
+    case 'objects':
+      return {...annotation, objects: annotation.objects.map(scaleVertices)};
+    case 'logos':
+      return {...annotation, logos: annotation.logos.map(scaleVertices)};
+    default:
+      return annotation;
+  }
+};
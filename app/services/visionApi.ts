@@ -1,220 +1,225 @@
+import {boundingRect, ImageToViewTransform, mapQuadToView, quadToRotatedRect, RotatedRect, Size} from './coordinates';
+import {fetchWithRetry} from './http';
+import {createLogger} from './logger';
+import {errorKindForRpcCode, errorKindForStatus, OcrError} from './ocrErrors';
+import {ExtractedText, ExtractedWord, ImageAnnotationFor, ImageFeature, OcrMode} from './types';
+import {assertWithinBudget, recordUsage} from './usage';
+import {parseImageAnnotations, VISION_IMAGE_FEATURES, VisionImageAnnotations} from './visionAnnotations';
+import {parseFullTextAnnotation, VisionFullTextAnnotation} from './visionDocument';
+
 interface VisionApiTextAnnotation {
   description: string;
   boundingPoly: {
-    vertices: Array<{
+    vertices: {
       x?: number;
       y?: number;
-    }>;
+    }[];
   };
 }
 
 interface VisionApiResponse {
-  responses: Array<{
+  responses: (VisionImageAnnotations & {
     textAnnotations?: VisionApiTextAnnotation[];
-    fullTextAnnotation?: {
-      text: string;
-    };
+    fullTextAnnotation?: VisionFullTextAnnotation;
     error?: {
       code: number;
       message: string;
     };
-  }>;
+  })[];
 }
 
-interface ExtractedText {
-  fullText: string;
-  words: Array<{
-    id: string;
-    text: string;
-    confidence: number;
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  }>;
-}
+type VisionAnnotateResponse = VisionApiResponse['responses'][number];
 
-// Configuration - You'll need to set this up
-const GOOGLE_CLOUD_API_KEY = process.env.EXPO_PUBLIC_GOOGLE_CLOUD_API_KEY;
-const VISION_API_ENDPOINT = 'https://vision.googleapis.com/v1/images:annotate';
+// Configuration - You'll need to set this up. The app talks to the Vision
+// proxy in server/, which holds the Google credential. The token is inlined
+// into the bundle at build time, so it identifies a build rather than a device
+// and anyone with the app can read it; it can be revoked on the proxy.
+const VISION_PROXY_URL = process.env.EXPO_PUBLIC_VISION_PROXY_URL;
+const VISION_PROXY_TOKEN = process.env.EXPO_PUBLIC_VISION_PROXY_TOKEN;
+const VISION_ANNOTATE_PATH = '/v1/images:annotate';
 
-// Convert pixel coordinates to screen coordinates
-export const convertToScreenCoordinates = (
-  vertices: Array<{x?: number; y?: number}>,
-  screenWidth: number,
-  screenHeight: number
-) => {
-  console.log('🔄 Converting pixel coordinates to screen coordinates');
-  console.log('📏 Screen dimensions:', { screenWidth, screenHeight });
-  console.log('📍 Pixel vertices:', vertices);
+const log = createLogger('vision');
 
+const VISION_FEATURES: Record<OcrMode, string> = {
+  text: 'TEXT_DETECTION',
+  document: 'DOCUMENT_TEXT_DETECTION',
+};
+
+// Convert image pixel vertices to a rotated box in the coordinate space of the view showing the image
+export const convertToScreenCoordinates = (
+  vertices: {x?: number; y?: number}[],
+  transform: ImageToViewTransform
+): RotatedRect | null => {
   if (vertices.length < 4) {
-    console.warn('⚠️ Insufficient vertices for bounding box:', vertices.length);
+    log.warn('Insufficient vertices for bounding box', {count: vertices.length});
     return null;
   }
 
-  // Get bounding box from vertices (these are already in pixel coordinates)
-  const minX = Math.min(...vertices.map(v => v.x || 0));
-  const maxX = Math.max(...vertices.map(v => v.x || 0));
-  const minY = Math.min(...vertices.map(v => v.y || 0));
-  const maxY = Math.max(...vertices.map(v => v.y || 0));
-
-  const boundingBox = {
-    x: minX,
-    y: minY,
-    width: maxX - minX,
-    height: maxY - minY
-  };
-
-  console.log('📦 Calculated bounding box:', boundingBox);
-  return boundingBox;
+  return quadToRotatedRect(mapQuadToView(vertices, transform));
 };
 
-// Call Google Cloud Vision API for text detection (OCR)
-export const detectText = async (
+// POST one image to the Vision proxy with the given features and return its
+// response, throwing an OcrError for HTTP and per-image API errors. Every
+// request that reaches the proxy is recorded against the monthly budget.
+const annotate = async (
   base64Image: string,
-  screenWidth: number,
-  screenHeight: number
-): Promise<ExtractedText> => {
-  console.log('🚀 Starting Google Cloud Vision API text detection (OCR)');
-  console.log('📊 Image data length:', base64Image.length, 'characters');
-  console.log('📏 Target screen dimensions:', { screenWidth, screenHeight });
-
-  if (!GOOGLE_CLOUD_API_KEY) {
-    const errorMsg = 'Google Cloud API key not configured. Please set EXPO_PUBLIC_GOOGLE_CLOUD_API_KEY in your environment.';
-    console.error('🔑 API Key Error:', errorMsg);
-    throw new Error(errorMsg);
+  features: {type: string; maxResults?: number}[],
+  signal?: AbortSignal,
+  languageHints: string[] = []
+): Promise<VisionAnnotateResponse> => {
+  if (!VISION_PROXY_URL || !VISION_PROXY_TOKEN) {
+    const errorMsg = 'Vision proxy not configured. Please set EXPO_PUBLIC_VISION_PROXY_URL and EXPO_PUBLIC_VISION_PROXY_TOKEN in your environment.';
+    log.error('Vision proxy not configured');
+    throw new OcrError('config', errorMsg);
   }
 
-  console.log('🔑 API key found, length:', GOOGLE_CLOUD_API_KEY.length, 'characters');
+  const featureTypes = features.map(feature => feature.type);
+  await assertWithinBudget(featureTypes);
 
   const requestBody = {
     requests: [{
       image: {
         content: base64Image
       },
-      features: [{
-        type: "TEXT_DETECTION",
-        maxResults: 100
-      }]
+      features,
+      ...(languageHints.length > 0 && {imageContext: {languageHints}})
     }]
   };
 
-  console.log('📤 Preparing API request with features:', requestBody.requests[0].features);
+  const body = JSON.stringify(requestBody);
+  const apiUrl = VISION_PROXY_URL.replace(/\/+$/, '') + VISION_ANNOTATE_PATH;
+  log.debug('Sending annotate request', {features: featureTypes, bytes: body.length});
 
-  const apiUrl = VISION_API_ENDPOINT + `?key=${GOOGLE_CLOUD_API_KEY.substring(0, 8)}...`;
-  console.log('🌐 API endpoint:', apiUrl);
+  const startTime = Date.now();
 
-  try {
-    console.log('📡 Sending request to Google Cloud Vision API...');
-    const startTime = Date.now();
+  const response = await fetchWithRetry(apiUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${VISION_PROXY_TOKEN}`,
+    },
+    body
+  }, {signal});
+
+  log.metric('visionRequest', Date.now() - startTime, {status: response.status, bytes: body.length});
+  // Only successful requests are billed
+  recordUsage(featureTypes, body.length, response.ok)
+    .catch(error => log.error('Failed to record usage', {error}));
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    log.error('Annotate request failed', {status: response.status, body: errorText});
+    throw new OcrError(
+      errorKindForStatus(response.status),
+      `Vision API request failed: ${response.status} - ${errorText}`,
+      response.status
+    );
+  }
 
-    const response = await fetch(VISION_API_ENDPOINT + `?key=${GOOGLE_CLOUD_API_KEY}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody)
-    });
+  const result: VisionApiResponse = await response.json();
+  const annotation = result.responses[0] || {};
+  log.debug('Annotate response received', {annotations: Object.keys(annotation)});
 
-    const requestDuration = Date.now() - startTime;
-    console.log('⏱️ API request completed in', requestDuration, 'ms');
-    console.log('📥 Response status:', response.status, response.statusText);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ API request failed:');
-      console.error('   Status:', response.status);
-      console.error('   Status Text:', response.statusText);
-      console.error('   Error Response:', errorText);
-      throw new Error(`Vision API request failed: ${response.status} - ${errorText}`);
-    }
-
-    console.log('✅ API request successful, parsing response...');
-    const result: VisionApiResponse = await response.json();
-
-    console.log('📄 Full API response structure:', {
-      hasTextAnnotations: !!result.responses[0]?.textAnnotations,
-      textAnnotationsCount: result.responses[0]?.textAnnotations?.length || 0,
-      hasFullTextAnnotation: !!result.responses[0]?.fullTextAnnotation,
-      hasError: !!result.responses[0]?.error
-    });
+  if (annotation.error) {
+    log.error('Vision API returned an error', {code: annotation.error.code, message: annotation.error.message});
+    throw new OcrError(
+      errorKindForRpcCode(annotation.error.code),
+      `Vision API error: ${annotation.error.message}`
+    );
+  }
+
+  return annotation;
+};
+
+// Call Google Cloud Vision API for text detection (OCR)
+export const detectText = async (
+  base64Image: string,
+  imageSize: Size,
+  mode: OcrMode = 'text',
+  signal?: AbortSignal,
+  languageHints: string[] = [],
+  maxResults = 100
+): Promise<ExtractedText> => {
+  log.info('Detecting text', {mode, imageSize, languageHints, maxResults});
 
-    if (result.responses[0]?.error) {
-      console.error('❌ Vision API returned error:');
-      console.error('   Code:', result.responses[0].error.code);
-      console.error('   Message:', result.responses[0].error.message);
-      throw new Error(`Vision API error: ${result.responses[0].error.message}`);
-    }
-
-    const textAnnotations = result.responses[0]?.textAnnotations || [];
-    const fullTextAnnotation = result.responses[0]?.fullTextAnnotation;
-
-    console.log('📝 Found', textAnnotations.length, 'text annotations');
-    console.log('📄 Full text available:', !!fullTextAnnotation);
-
-    // Get the full text (first annotation contains the complete text)
-    const fullText = fullTextAnnotation?.text || textAnnotations[0]?.description || '';
-    console.log('📖 Extracted full text length:', fullText.length, 'characters');
-
-    // Process individual words (skip the first annotation as it's the full text)
-    const wordAnnotations = textAnnotations.slice(1);
-    console.log('🔤 Processing', wordAnnotations.length, 'individual word annotations');
-
-    const words = wordAnnotations.map((annotation, index) => {
-      console.log(`🔄 Processing word ${index + 1}: "${annotation.description}"`);
-
-      const coords = convertToScreenCoordinates(
-        annotation.boundingPoly.vertices,
-        screenWidth,
-        screenHeight
-      );
-
-      const word = {
-        id: `word-${index}`,
-        text: annotation.description,
-        confidence: 0.9, // Vision API doesn't provide confidence for text detection
-        x: coords?.x || 0,
-        y: coords?.y || 0,
-        width: coords?.width || 0,
-        height: coords?.height || 0
-      };
-
-      console.log(`✅ Created word object:`, word);
-      return word;
+  const annotation = await annotate(base64Image, [{type: VISION_FEATURES[mode], maxResults}], signal, languageHints);
+
+  const textAnnotations = annotation.textAnnotations || [];
+  const fullTextAnnotation = annotation.fullTextAnnotation;
+
+  // Get the full text (first annotation contains the complete text)
+  const fullText = fullTextAnnotation?.text || textAnnotations[0]?.description || '';
+
+  // Document mode keeps the full layout and derives the words from it
+  if (mode === 'document' && fullTextAnnotation?.pages) {
+    const {pages, words} = parseFullTextAnnotation(fullTextAnnotation);
+    log.info('Parsed document structure', {
+      pages: pages.length,
+      blocks: pages.reduce((count, page) => count + page.blocks.length, 0),
+      wordCount: words.length
     });
 
-    const extractedText: ExtractedText = {
+    return {
       fullText,
-      words
+      imageWidth: imageSize.width,
+      imageHeight: imageSize.height,
+      words,
+      pages
     };
+  }
 
-    console.log('🎉 Successfully processed text extraction');
-    console.log('📊 Results summary:', {
-      fullTextLength: fullText.length,
-      wordCount: words.length
-    });
+  // Process individual words (skip the first annotation as it's the full text)
+  const wordAnnotations = textAnnotations.slice(1);
+  const words = wordAnnotations.map((annotation, index) => {
+    // Vision omits zero coordinates, so fill them in before storing the quad
+    const vertices = annotation.boundingPoly.vertices.map(v => ({x: v.x || 0, y: v.y || 0}));
+    const box = boundingRect(vertices);
+
+    const word: ExtractedWord = {
+      id: `word-${index}`,
+      text: annotation.description,
+      // TEXT_DETECTION doesn't report confidence, so leave it absent
+      ...box,
+      vertices
+    };
 
-    return extractedText;
-  } catch (error) {
-    console.error('💥 Vision API error occurred:');
+    return word;
+  });
 
-    if (error instanceof Error) {
-      console.error('   Error type:', error.constructor.name);
-      console.error('   Error message:', error.message);
-      console.error('   Stack trace:', error.stack);
-    } else {
-      console.error('   Unknown error:', error);
-    }
+  const extractedText: ExtractedText = {
+    fullText,
+    imageWidth: imageSize.width,
+    imageHeight: imageSize.height,
+    words
+  };
 
-    throw error;
-  }
+  log.info('Detected text', {characters: fullText.length, wordCount: words.length});
+
+  return extractedText;
+};
+
+// Call Google Cloud Vision API for image-level features. Each requested
+// feature yields one annotation, in order; geometry is in the pixel space of
+// `imageSize`, the size of the image that was sent.
+export const annotateImage = async <F extends ImageFeature>(
+  base64Image: string,
+  imageSize: Size,
+  features: F[],
+  signal?: AbortSignal
+): Promise<ImageAnnotationFor<F>[]> => {
+  log.info('Annotating image', {features});
+
+  const annotation = await annotate(
+    base64Image,
+    features.map(feature => ({type: VISION_IMAGE_FEATURES[feature], maxResults: 20})),
+    signal
+  );
+  return parseImageAnnotations(annotation, features, imageSize);
 };
 
 // Demo data for testing without API
-export const getDemoText = (screenWidth: number, screenHeight: number): ExtractedText => {
-  console.log('🎭 Generating demo text for testing');
-  console.log('📏 Using screen dimensions:', { screenWidth, screenHeight });
+export const getDemoText = (imageWidth: number, imageHeight: number): ExtractedText => {
+  log.debug('Generating demo text', {imageWidth, imageHeight});
 
   const demoText = `Welcome to OCR Demo!
 
@@ -229,45 +234,42 @@ Some example text might include:
 
 The text detection feature can recognize text in many languages and formats.`;
 
-  const demoWords = [
-    {
-      id: "word-1",
-      text: "Welcome",
-      confidence: 0.95,
-      x: screenWidth * 0.1,
-      y: screenHeight * 0.2,
-      width: screenWidth * 0.2,
-      height: screenHeight * 0.05
-    },
-    {
-      id: "word-2",
-      text: "OCR",
-      confidence: 0.92,
-      x: screenWidth * 0.35,
-      y: screenHeight * 0.2,
-      width: screenWidth * 0.1,
-      height: screenHeight * 0.05
-    },
-    {
-      id: "word-3",
-      text: "Demo!",
-      confidence: 0.88,
-      x: screenWidth * 0.5,
-      y: screenHeight * 0.2,
-      width: screenWidth * 0.15,
-      height: screenHeight * 0.05
-    }
+  // Demo boxes are laid out as fractions of the image size
+  const demoBoxes = [
+    {text: "Welcome", confidence: 0.95, x: 0.1, width: 0.2},
+    {text: "OCR", confidence: 0.92, x: 0.35, width: 0.1},
+    {text: "Demo!", confidence: 0.88, x: 0.5, width: 0.15}
   ];
 
+  const demoWords: ExtractedWord[] = demoBoxes.map((box, index) => {
+    const x = imageWidth * box.x;
+    const y = imageHeight * 0.2;
+    const width = imageWidth * box.width;
+    const height = imageHeight * 0.05;
+
+    return {
+      id: `word-${index + 1}`,
+      text: box.text,
+      confidence: box.confidence,
+      x,
+      y,
+      width,
+      height,
+      vertices: [
+        {x, y},
+        {x: x + width, y},
+        {x: x + width, y: y + height},
+        {x, y: y + height}
+      ]
+    };
+  });
+
   const extractedText: ExtractedText = {
     fullText: demoText,
+    imageWidth,
+    imageHeight,
     words: demoWords
   };
 
-  console.log('🎭 Generated demo text:', {
-    textLength: demoText.length,
-    wordCount: demoWords.length
-  });
-
   return extractedText;
 };
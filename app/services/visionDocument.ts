@@ -0,0 +1,162 @@
+import {boundingRect, Point} from './coordinates';
+import {DetectedLanguage, ExtractedWord, TextBlock, TextBreak, TextPage, TextParagraph, TextSymbol, TextWord} from './types';
+
+// Shape of fullTextAnnotation as returned for DOCUMENT_TEXT_DETECTION
+interface VisionBoundingPoly {
+  vertices?: {x?: number; y?: number}[];
+}
+
+interface VisionTextProperty {
+  detectedLanguages?: {languageCode: string; confidence?: number}[];
+  detectedBreak?: {type: string; isPrefix?: boolean};
+}
+
+interface VisionSymbol {
+  property?: VisionTextProperty;
+  boundingBox?: VisionBoundingPoly;
+  confidence?: number;
+  text: string;
+}
+
+interface VisionWord {
+  property?: VisionTextProperty;
+  boundingBox?: VisionBoundingPoly;
+  confidence?: number;
+  symbols?: VisionSymbol[];
+}
+
+interface VisionParagraph {
+  property?: VisionTextProperty;
+  boundingBox?: VisionBoundingPoly;
+  confidence?: number;
+  words?: VisionWord[];
+}
+
+interface VisionBlock {
+  property?: VisionTextProperty;
+  boundingBox?: VisionBoundingPoly;
+  confidence?: number;
+  paragraphs?: VisionParagraph[];
+  blockType?: string;
+}
+
+interface VisionPage {
+  property?: VisionTextProperty;
+  width?: number;
+  height?: number;
+  blocks?: VisionBlock[];
+}
+
+export interface VisionFullTextAnnotation {
+  text: string;
+  pages?: VisionPage[];
+}
+
+export const BREAK_TEXT: Record<TextBreak, string> = {
+  SPACE: ' ',
+  SURE_SPACE: ' ',
+  EOL_SURE_SPACE: '\n',
+  HYPHEN: '-\n',
+  LINE_BREAK: '\n',
+};
+
+const toVertices = (poly?: VisionBoundingPoly): Point[] =>
+  (poly?.vertices || []).map(v => ({x: v.x || 0, y: v.y || 0}));
+
+const toLanguages = (property?: VisionTextProperty): DetectedLanguage[] =>
+  (property?.detectedLanguages || []).map(language => ({
+    languageCode: language.languageCode,
+    confidence: language.confidence,
+  }));
+
+// Prefer the word's own score and fall back to the mean of its symbols
+const wordConfidence = (word: VisionWord, symbols: TextSymbol[]): number | undefined => {
+  if (word.confidence !== undefined) {
+    return word.confidence;
+  }
+
+  const scores = symbols.flatMap(symbol => (symbol.confidence === undefined ? [] : [symbol.confidence]));
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : undefined;
+};
+
+// Spread into a node so that a missing score leaves no confidence key behind
+const confidenceField = (confidence?: number): {confidence?: number} =>
+  confidence === undefined ? {} : {confidence};
+
+const toBreak = (property?: VisionTextProperty): TextBreak | undefined => {
+  const type = property?.detectedBreak?.type;
+  return type && type in BREAK_TEXT ? (type as TextBreak) : undefined;
+};
+
+// Text of a word including whatever break follows its last symbol
+export const wordTextWithBreak = (word: TextWord): string => {
+  const lastBreak = word.symbols[word.symbols.length - 1]?.break;
+  return word.text + (lastBreak ? BREAK_TEXT[lastBreak] : '');
+};
+
+// Rebuild the page → block → paragraph → word → symbol tree and the flat word
+// list that the overlay uses; word ids link the two together.
+export const parseFullTextAnnotation = (
+  annotation: VisionFullTextAnnotation
+): {pages: TextPage[]; words: ExtractedWord[]} => {
+  const words: ExtractedWord[] = [];
+
+  const pages = (annotation.pages || []).map((page): TextPage => ({
+    width: page.width || 0,
+    height: page.height || 0,
+    languages: toLanguages(page.property),
+    blocks: (page.blocks || []).map((block): TextBlock => {
+      const paragraphs = (block.paragraphs || []).map((paragraph): TextParagraph => {
+        const paragraphWords = (paragraph.words || []).map((word): TextWord => {
+          const symbols = (word.symbols || []).map((symbol): TextSymbol => ({
+            text: symbol.text,
+            ...confidenceField(symbol.confidence),
+            vertices: toVertices(symbol.boundingBox),
+            languages: toLanguages(symbol.property),
+            break: toBreak(symbol.property),
+          }));
+          const vertices = toVertices(word.boundingBox);
+          const id = `word-${words.length}`;
+          const text = symbols.map(symbol => symbol.text).join('');
+          const confidence = wordConfidence(word, symbols);
+
+          words.push({
+            id,
+            text,
+            ...confidenceField(confidence),
+            ...boundingRect(vertices),
+            vertices,
+          });
+
+          return {
+            id,
+            text,
+            ...confidenceField(confidence),
+            vertices,
+            languages: toLanguages(word.property),
+            symbols,
+          };
+        });
+
+        return {
+          text: paragraphWords.map(wordTextWithBreak).join('').trim(),
+          ...confidenceField(paragraph.confidence),
+          vertices: toVertices(paragraph.boundingBox),
+          languages: toLanguages(paragraph.property),
+          words: paragraphWords,
+        };
+      });
+
+      return {
+        blockType: block.blockType,
+        text: paragraphs.map(paragraph => paragraph.text).join('\n'),
+        ...confidenceField(block.confidence),
+        vertices: toVertices(block.boundingBox),
+        languages: toLanguages(block.property),
+        paragraphs,
+      };
+    }),
+  }));
+
+  return {pages, words};
+};
@@ -0,0 +1,57 @@
+import {Point} from './coordinates';
+import {analyzeLayout, layoutLines} from './layout';
+import {ExtractedText, ExtractedWord} from './types';
+
+// Picking words off the overlay: tapping one word or drawing a lasso around
+// several. Everything here works in image pixel space.
+
+// Even-odd ray casting; works for the lasso's self-intersecting paths too
+export const pointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const wordCenter = (word: ExtractedWord): Point => ({x: word.x + word.width / 2, y: word.y + word.height / 2});
+
+// Topmost word whose quad contains the point
+export const wordAtPoint = (words: ExtractedWord[], point: Point): ExtractedWord | null =>
+  [...words].reverse().find(word => pointInPolygon(point, word.vertices)) || null;
+
+// Words whose centre lies inside the lasso path
+export const wordsInLasso = (words: ExtractedWord[], lasso: Point[]): ExtractedWord[] =>
+  lasso.length < 3 ? [] : words.filter(word => pointInPolygon(wordCenter(word), lasso));
+
+// The selected words as text, in reading order: the provider's layout when it
+// recognised one, otherwise the layout recovered from the word boxes
+export const selectedTextInReadingOrder = (extractedText: ExtractedText, selectedIds: Set<string>): string => {
+  if (selectedIds.size === 0) {
+    return '';
+  }
+
+  if (extractedText.pages?.length) {
+    const lines: string[] = [];
+    for (const page of extractedText.pages) {
+      for (const block of page.blocks) {
+        for (const paragraph of block.paragraphs) {
+          const words = paragraph.words.filter(word => selectedIds.has(word.id));
+          if (words.length > 0) {
+            lines.push(words.map(word => word.text).join(' '));
+          }
+        }
+      }
+    }
+    return lines.join('\n');
+  }
+
+  return layoutLines(analyzeLayout(extractedText.words))
+    .map(line => line.words.filter(word => selectedIds.has(word.id)).map(word => word.text).join(' '))
+    .filter(Boolean)
+    .join('\n');
+};
@@ -0,0 +1,434 @@
+import {useFocusEffect} from "expo-router";
+import {useCallback, useEffect, useState} from "react";
+import {Alert, ScrollView, StyleSheet, Switch, Text, TextInput, TouchableOpacity, View} from "react-native";
+import {createLogger} from './services/logger';
+import {OCR_PROVIDERS, OcrProviderId} from './services/ocrProvider';
+import {resultCache, ResultCacheStats} from './services/resultCache';
+import {
+  CAMERA_FACINGS,
+  ENCODING_PREFERENCES,
+  EncodingPreference,
+  FLASH_MODES,
+  parseLanguageHints,
+  resetSettings,
+  updateSettings,
+  useSettings,
+} from './services/settings';
+import {TRANSLATION_PROVIDERS, TranslationProviderId} from './services/translation';
+import {OcrMode} from './services/types';
+import {getUsageSummary, setMonthlyBudget, UsageSummary} from './services/usage';
+
+const log = createLogger('settings');
+
+const formatUsd = (amount: number) => `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatPercent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+const OCR_MODE_LABELS: Record<OcrMode, string> = {
+  text: "Text",
+  document: "Document",
+};
+
+const ENCODING_LABELS: Record<EncodingPreference, string> = {
+  auto: "Auto",
+  scene: "Smallest",
+  sparse: "Small",
+  text: "Medium",
+  dense: "Large",
+};
+
+const CONFIDENCE_THRESHOLDS = [0.4, 0.5, 0.6, 0.7, 0.8];
+const CAPTURE_QUALITIES = [0.5, 0.8, 1];
+const MAX_RESULTS = [50, 100, 500];
+const LIVE_OCR_FPS = [1, 2, 5, 10];
+
+const saveFailed = (error: unknown) => {
+  log.error('Failed to save settings', {error});
+  Alert.alert('Save Failed', error instanceof Error ? error.message : String(error));
+};
+
+// Saved as soon as it's changed
+const change = (changes: Parameters<typeof updateSettings>[0]) => {
+  updateSettings(changes).catch(saveFailed);
+};
+
+// A row of mutually exclusive options
+function Choices<T extends string | number>({options, selected, label, onSelect}: {
+  options: T[];
+  selected: T;
+  label: (option: T) => string;
+  onSelect: (option: T) => void;
+}) {
+  return (
+    <View style={styles.choices}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.choice, option === selected && styles.choiceActive]}
+          onPress={() => onSelect(option)}
+        >
+          <Text style={[styles.choiceText, option === selected && styles.choiceTextActive]}>{label(option)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+// Recognition and capture options, this month's Vision usage with the
+// spending cap that stops requests past it, and the result cache
+export default function Settings() {
+  const settings = useSettings();
+  const [languageHintsText, setLanguageHintsText] = useState(() => settings.languageHints.join(", "));
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [budgetText, setBudgetText] = useState("");
+  const [cacheStats, setCacheStats] = useState<ResultCacheStats | null>(null);
+
+  const loadUsage = useCallback(() => {
+    getUsageSummary()
+      .then(summary => {
+        setUsage(summary);
+        setBudgetText(summary.budgetUsd === null ? "" : String(summary.budgetUsd));
+      })
+      .catch(error => log.error('Failed to load usage', {error}));
+    resultCache.stats()
+      .then(setCacheStats)
+      .catch(error => log.error('Failed to load cache stats', {error}));
+  }, []);
+
+  useFocusEffect(loadUsage);
+
+  // Follow the stored hints, which arrive after the first render and change on reset
+  useEffect(() => {
+    setLanguageHintsText(settings.languageHints.join(", "));
+  }, [settings.languageHints]);
+
+  const saveBudget = async (budgetUsd: number | null) => {
+    try {
+      await setMonthlyBudget(budgetUsd);
+      log.info('Monthly budget changed', {budgetUsd});
+      loadUsage();
+    } catch (error) {
+      log.error('Failed to save the budget', {error});
+      Alert.alert('Save Failed', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const submitBudget = () => {
+    const trimmed = budgetText.trim();
+    if (!trimmed) {
+      saveBudget(null);
+      return;
+    }
+
+    const budgetUsd = Number(trimmed);
+    if (!Number.isFinite(budgetUsd) || budgetUsd < 0) {
+      Alert.alert("Invalid Budget", "Enter an amount in US dollars, or leave it empty for no cap.");
+      return;
+    }
+    saveBudget(budgetUsd);
+  };
+
+  const submitLanguageHints = () => {
+    const languageHints = parseLanguageHints(languageHintsText);
+    setLanguageHintsText(languageHints.join(", "));
+    change({languageHints});
+  };
+
+  const confirmReset = () => {
+    Alert.alert("Reset Settings", "Put every recognition and camera setting back to its default?", [
+      {text: "Cancel", style: "cancel"},
+      {
+        text: "Reset",
+        style: "destructive",
+        onPress: () => {
+          resetSettings().catch(saveFailed);
+        },
+      },
+    ]);
+  };
+
+  const clearCache = () => {
+    resultCache.clear()
+      .then(loadUsage)
+      .catch(error => Alert.alert('Clear Failed', error instanceof Error ? error.message : String(error)));
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={styles.sectionTitle}>Recognition engine</Text>
+      <Choices
+        options={Object.keys(OCR_PROVIDERS) as OcrProviderId[]}
+        selected={settings.ocrProvider}
+        label={id => OCR_PROVIDERS[id].label}
+        onSelect={ocrProvider => change({ocrProvider})}
+      />
+      <Choices
+        options={Object.keys(OCR_MODE_LABELS) as OcrMode[]}
+        selected={settings.ocrMode}
+        label={mode => OCR_MODE_LABELS[mode]}
+        onSelect={ocrMode => change({ocrMode})}
+      />
+      <Text style={styles.hint}>Document mode keeps pages, blocks and paragraphs; it only applies to Google Cloud Vision.</Text>
+      <Choices
+        options={MAX_RESULTS}
+        selected={settings.maxResults}
+        label={maxResults => `Up to ${maxResults} results`}
+        onSelect={maxResults => change({maxResults})}
+      />
+
+      <Text style={styles.sectionTitle}>Languages</Text>
+      <TextInput
+        style={styles.input}
+        value={languageHintsText}
+        onChangeText={setLanguageHintsText}
+        onBlur={submitLanguageHints}
+        onSubmitEditing={submitLanguageHints}
+        placeholder="Detect automatically"
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+      />
+      <Text style={styles.hint}>Language codes such as &quot;en, de&quot; help Vision with photos in those languages.</Text>
+
+      <Text style={styles.sectionTitle}>Low-confidence words</Text>
+      <Choices
+        options={CONFIDENCE_THRESHOLDS}
+        selected={settings.confidence.threshold}
+        label={formatPercent}
+        onSelect={threshold => change({confidence: {...settings.confidence, threshold}})}
+      />
+      <Choices
+        options={['dim', 'hide']}
+        selected={settings.confidence.lowConfidenceDisplay}
+        label={display => (display === 'dim' ? "Dim their boxes" : "Hide their boxes")}
+        onSelect={lowConfidenceDisplay => change({confidence: {...settings.confidence, lowConfidenceDisplay}})}
+      />
+
+      <Text style={styles.sectionTitle}>Image sent for recognition</Text>
+      <Choices
+        options={ENCODING_PREFERENCES}
+        selected={settings.encoding}
+        label={preference => ENCODING_LABELS[preference]}
+        onSelect={encoding => change({encoding})}
+      />
+      <Text style={styles.hint}>Auto picks the size from how much text the photo holds. Larger reads small print better but uploads more.</Text>
+
+      <Text style={styles.sectionTitle}>Camera</Text>
+      <Choices
+        options={CAMERA_FACINGS}
+        selected={settings.cameraFacing}
+        label={facing => (facing === 'back' ? "Back camera" : "Front camera")}
+        onSelect={cameraFacing => change({cameraFacing})}
+      />
+      <Choices
+        options={FLASH_MODES}
+        selected={settings.flash}
+        label={flash => `Flash ${flash}`}
+        onSelect={flash => change({flash})}
+      />
+      <Choices
+        options={CAPTURE_QUALITIES}
+        selected={settings.captureQuality}
+        label={quality => `Quality ${formatPercent(quality)}`}
+        onSelect={captureQuality => change({captureQuality})}
+      />
+      <View style={styles.switchRow}>
+        <Text style={[styles.row, styles.switchLabel]}>Torch</Text>
+        <Switch value={settings.torch} onValueChange={torch => change({torch})} />
+      </View>
+      <Choices
+        options={LIVE_OCR_FPS}
+        selected={settings.liveOcrFps}
+        label={fps => `Live ${fps} fps`}
+        onSelect={liveOcrFps => change({liveOcrFps})}
+      />
+      <Text style={styles.hint}>How often live mode reads the preview. Higher follows the text more closely but uses more battery.</Text>
+
+      <Text style={styles.sectionTitle}>Translation</Text>
+      <Choices
+        options={Object.keys(TRANSLATION_PROVIDERS) as TranslationProviderId[]}
+        selected={settings.translationProvider}
+        label={id => TRANSLATION_PROVIDERS[id].label}
+        onSelect={translationProvider => change({translationProvider})}
+      />
+
+      <Text style={styles.sectionTitle}>History</Text>
+      <View style={styles.switchRow}>
+        <Text style={[styles.row, styles.switchLabel]}>Save every scan automatically</Text>
+        <Switch value={settings.autoSaveToHistory} onValueChange={autoSaveToHistory => change({autoSaveToHistory})} />
+      </View>
+      <Text style={styles.hint}>When off, a Save button keeps the scan you&apos;re looking at. Scans recognised after being queued offline are always saved.</Text>
+
+      <TouchableOpacity onPress={confirmReset}>
+        <Text style={styles.resetText}>Reset to Defaults</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.sectionTitle}>Vision usage this month</Text>
+      {usage ? (
+        <View style={styles.card}>
+          <Text style={styles.row}>Requests: {usage.requests}</Text>
+          <Text style={styles.row}>Uploaded: {formatBytes(usage.bytes)}</Text>
+          <Text style={styles.row}>Estimated cost: {formatUsd(usage.estimatedCostUsd)}</Text>
+          {usage.budgetUsd !== null && (
+            <Text style={[styles.row, usage.estimatedCostUsd >= usage.budgetUsd && styles.overBudget]}>
+              Budget: {formatUsd(usage.budgetUsd)}
+            </Text>
+          )}
+        </View>
+      ) : (
+        <Text style={styles.hint}>Loading…</Text>
+      )}
+      <Text style={styles.hint}>
+        Estimates use the published list prices and ignore the free tier, so the real bill is usually lower.
+      </Text>
+
+      <Text style={styles.sectionTitle}>Monthly budget (USD)</Text>
+      <View style={styles.budgetRow}>
+        <TextInput
+          style={styles.budgetInput}
+          value={budgetText}
+          onChangeText={setBudgetText}
+          placeholder="No cap"
+          keyboardType="decimal-pad"
+          returnKeyType="done"
+          onSubmitEditing={submitBudget}
+        />
+        <TouchableOpacity style={styles.button} onPress={submitBudget}>
+          <Text style={styles.buttonText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.hint}>
+        Once the estimate reaches the budget, Vision requests stop until next month. Leave it empty for no cap.
+      </Text>
+
+      <Text style={styles.sectionTitle}>Recognition cache</Text>
+      <View style={styles.switchRow}>
+        <Text style={[styles.row, styles.switchLabel]}>Reuse earlier results</Text>
+        <Switch value={settings.resultCacheEnabled} onValueChange={resultCacheEnabled => change({resultCacheEnabled})} />
+      </View>
+      <View style={styles.budgetRow}>
+        <Text style={[styles.row, styles.cacheText]}>
+          {cacheStats ? `${cacheStats.entries} results, ${formatBytes(cacheStats.bytes)}` : "Loading…"}
+        </Text>
+        <TouchableOpacity style={styles.button} onPress={clearCache} disabled={!cacheStats?.entries}>
+          <Text style={styles.buttonText}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.hint}>
+        Recognising the same photo again reuses the earlier result instead of sending another request.
+      </Text>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "white",
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    color: "#222",
+    fontSize: 16,
+    fontWeight: "bold",
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  choices: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 4,
+  },
+  choice: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginRight: 6,
+    marginBottom: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#007AFF",
+  },
+  choiceActive: {
+    backgroundColor: "#007AFF",
+  },
+  choiceText: {
+    color: "#007AFF",
+    fontSize: 14,
+  },
+  choiceTextActive: {
+    color: "white",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#DDD",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  resetText: {
+    color: "#CC0000",
+    fontSize: 16,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  card: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: "#F4F4F4",
+  },
+  row: {
+    color: "#222",
+    fontSize: 15,
+    marginVertical: 2,
+  },
+  cacheText: {
+    flex: 1,
+  },
+  overBudget: {
+    color: "#CC0000",
+  },
+  hint: {
+    color: "#888",
+    fontSize: 13,
+    marginTop: 6,
+    marginBottom: 12,
+  },
+  budgetRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  budgetInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#DDD",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  button: {
+    marginLeft: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: "#007AFF",
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 16,
+  },
+});
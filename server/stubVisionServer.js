@@ -0,0 +1,155 @@
+// Local stand-in for the Google Cloud Vision annotate endpoint, so the app and
+// the proxy can be exercised without calling Google.
+//
+// Every image gets the same canned result: a single "HELLO WORLD" line, with
+// the page structure included when DOCUMENT_TEXT_DETECTION is requested, plus
+// a fixed answer for each image-level feature (labels, objects, logos,
+// safe-search, image properties) that is asked for. An image without content
+// gets the per-image error Vision reports for unreadable image data.
+//
+//   VISION_STUB_PORT   port to listen on (default 8788)
+//   VISION_STUB_STATUS respond with this HTTP status instead (e.g. 429, 503)
+//
+// Run the proxy against it with VISION_UPSTREAM_URL=http://localhost:8788/v1/images:annotate
+
+const http = require('http');
+
+const box = (x, y, width, height) => ({
+  vertices: [
+    {x, y},
+    {x: x + width, y},
+    {x: x + width, y: y + height},
+    {x, y: y + height},
+  ],
+});
+
+const symbols = (text, x, y, lastBreak) =>
+  text.split('').map((character, index) => ({
+    property: index === text.length - 1 && lastBreak ? {detectedBreak: {type: lastBreak}} : undefined,
+    boundingBox: box(x + index * 20, y, 20, 30),
+    text: character,
+    confidence: 0.97,
+  }));
+
+const word = (text, x, y, lastBreak) => ({
+  boundingBox: box(x, y, text.length * 20, 30),
+  symbols: symbols(text, x, y, lastBreak),
+  confidence: 0.97,
+});
+
+const normalizedBox = (x, y, width, height) => ({
+  normalizedVertices: box(x, y, width, height).vertices,
+});
+
+const IMAGE_FEATURES = {
+  LABEL_DETECTION: {
+    labelAnnotations: [
+      {mid: '/m/07s6nbt', description: 'Text', score: 0.96, topicality: 0.96},
+      {mid: '/m/05qdh', description: 'Paper', score: 0.82, topicality: 0.82},
+    ],
+  },
+  OBJECT_LOCALIZATION: {
+    localizedObjectAnnotations: [
+      {mid: '/m/02xwb', name: 'Sign', score: 0.88, boundingPoly: normalizedBox(0.04, 0.05, 0.35, 0.1)},
+    ],
+  },
+  LOGO_DETECTION: {
+    logoAnnotations: [
+      {mid: '/m/045c7b', description: 'Hello World Inc.', score: 0.74, boundingPoly: box(300, 40, 120, 60)},
+    ],
+  },
+  SAFE_SEARCH_DETECTION: {
+    safeSearchAnnotation: {adult: 'VERY_UNLIKELY', spoof: 'UNLIKELY', medical: 'VERY_UNLIKELY', violence: 'VERY_UNLIKELY', racy: 'VERY_UNLIKELY'},
+  },
+  IMAGE_PROPERTIES: {
+    imagePropertiesAnnotation: {
+      dominantColors: {
+        colors: [
+          {color: {red: 245, green: 245, blue: 240}, score: 0.7, pixelFraction: 0.8},
+          {color: {red: 20, green: 20, blue: 30}, score: 0.25, pixelFraction: 0.15},
+        ],
+      },
+    },
+  },
+};
+
+const stubAnnotation = (features) => {
+  const types = features.map((feature) => feature.type);
+  const imageAnnotations = Object.assign({}, ...types.map((type) => IMAGE_FEATURES[type] || {}));
+  if (!types.includes('TEXT_DETECTION') && !types.includes('DOCUMENT_TEXT_DETECTION')) {
+    return imageAnnotations;
+  }
+
+  const document = types.includes('DOCUMENT_TEXT_DETECTION');
+  const language = {detectedLanguages: [{languageCode: 'en', confidence: 1}]};
+
+  return {
+    ...imageAnnotations,
+    textAnnotations: [
+      {description: 'HELLO WORLD\n', boundingPoly: box(40, 40, 220, 30)},
+      {description: 'HELLO', boundingPoly: box(40, 40, 100, 30)},
+      {description: 'WORLD', boundingPoly: box(160, 40, 100, 30)},
+    ],
+    fullTextAnnotation: {
+      text: 'HELLO WORLD\n',
+      pages: document
+        ? [{
+          property: language,
+          width: 800,
+          height: 600,
+          blocks: [{
+            property: language,
+            boundingBox: box(40, 40, 220, 30),
+            blockType: 'TEXT',
+            confidence: 0.97,
+            paragraphs: [{
+              property: language,
+              boundingBox: box(40, 40, 220, 30),
+              confidence: 0.97,
+              words: [word('HELLO', 40, 40, 'SPACE'), word('WORLD', 160, 40, 'LINE_BREAK')],
+            }],
+          }],
+        }]
+        : undefined,
+    },
+  };
+};
+
+const createStubServer = ({status} = {}) =>
+  http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      if (status) {
+        res.writeHead(status, {'Content-Type': 'application/json', 'Retry-After': '1'});
+        res.end(JSON.stringify({error: {code: status, message: `Stubbed ${status} response`}}));
+        return;
+      }
+
+      let payload;
+      try {
+        payload = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      } catch {
+        res.writeHead(400, {'Content-Type': 'application/json'});
+        res.end(JSON.stringify({error: {code: 400, message: 'Invalid JSON payload'}}));
+        return;
+      }
+
+      const responses = (payload.requests || []).map((request) => (request.image && request.image.content
+        ? stubAnnotation(request.features || [])
+        : {error: {code: 3, message: 'Bad image data.'}}));
+      res.writeHead(200, {'Content-Type': 'application/json'});
+      res.end(JSON.stringify({responses}));
+    });
+  });
+
+module.exports = {createStubServer};
+
+if (require.main === module) {
+  const port = Number(process.env.VISION_STUB_PORT) || 8788;
+  const status = Number(process.env.VISION_STUB_STATUS) || undefined;
+
+  createStubServer({status}).listen(port, () => {
+    console.log(`[vision-stub] listening on :${port}${status ? `, always answering ${status}` : ''}`);
+  });
+}
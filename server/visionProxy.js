@@ -0,0 +1,176 @@
+// Minimal proxy in front of the Google Cloud Vision API.
+//
+// The app never sees the Google credential: it authenticates to this proxy
+// with a per-device bearer token, and the proxy forwards the annotate request
+// upstream with the API key attached server-side.
+//
+// Configuration (environment variables):
+//   GOOGLE_CLOUD_API_KEY   Vision API key, required
+//   VISION_PROXY_TOKENS    comma-separated "device:token" pairs, required
+//   VISION_PROXY_PORT      port to listen on (default 8787)
+//   VISION_PROXY_MAX_BYTES largest accepted request body (default 4 MiB)
+//   VISION_PROXY_MAX_IMAGES largest number of images per request (default 4)
+//   VISION_UPSTREAM_URL    annotate endpoint (default Google; point at the stub server for local testing)
+
+const crypto = require('crypto');
+const http = require('http');
+
+const DEFAULT_UPSTREAM_URL = 'https://vision.googleapis.com/v1/images:annotate';
+const ANNOTATE_PATH = '/v1/images:annotate';
+
+const parseTokens = (value) =>
+  (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error(`Invalid VISION_PROXY_TOKENS entry "${entry}", expected "device:token"`);
+      }
+      return {device: entry.slice(0, separator), token: entry.slice(separator + 1)};
+    });
+
+const loadConfig = (env = process.env) => ({
+  apiKey: env.GOOGLE_CLOUD_API_KEY,
+  tokens: parseTokens(env.VISION_PROXY_TOKENS),
+  port: Number(env.VISION_PROXY_PORT) || 8787,
+  maxBytes: Number(env.VISION_PROXY_MAX_BYTES) || 4 * 1024 * 1024,
+  maxImages: Number(env.VISION_PROXY_MAX_IMAGES) || 4,
+  upstreamUrl: env.VISION_UPSTREAM_URL || DEFAULT_UPSTREAM_URL,
+});
+
+// Constant-time comparison so token checks don't leak timing information
+const tokensMatch = (expected, actual) => {
+  const a = crypto.createHash('sha256').update(expected).digest();
+  const b = crypto.createHash('sha256').update(actual).digest();
+  return crypto.timingSafeEqual(a, b);
+};
+
+const authenticate = (config, header) => {
+  const match = /^Bearer\s+(.+)$/i.exec(header || '');
+  if (!match) {
+    return null;
+  }
+  const entry = config.tokens.find(({token}) => tokensMatch(token, match[1]));
+  return entry ? entry.device : null;
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {'Content-Type': 'application/json'});
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, status, message) => sendJson(res, status, {error: {code: status, message}});
+
+// Collect the body, failing with a 413 once it grows past the limit. An
+// oversized body is drained rather than cut off, so the client gets to read
+// the 413 instead of seeing the connection reset mid-upload.
+const readBody = (req, maxBytes) =>
+  new Promise((resolve, reject) => {
+    let tooLarge = Number(req.headers['content-length']) > maxBytes;
+    let chunks = [];
+    let received = 0;
+    req.on('data', (chunk) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        tooLarge = true;
+        chunks = [];
+      }
+      if (!tooLarge) {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => {
+      if (tooLarge) {
+        reject(Object.assign(new Error('Request body too large'), {status: 413}));
+        return;
+      }
+      resolve(Buffer.concat(chunks));
+    });
+    req.on('error', reject);
+  });
+
+const createProxyServer = (config) =>
+  http.createServer(async (req, res) => {
+    if (req.method === 'GET' && req.url === '/healthz') {
+      sendJson(res, 200, {ok: true});
+      return;
+    }
+
+    if (req.method !== 'POST' || req.url !== ANNOTATE_PATH) {
+      sendError(res, 404, 'Not found');
+      return;
+    }
+
+    const device = authenticate(config, req.headers.authorization);
+    if (!device) {
+      sendError(res, 401, 'Missing or invalid device token');
+      return;
+    }
+
+    let payload;
+    try {
+      const body = await readBody(req, config.maxBytes);
+      payload = JSON.parse(body.toString('utf8'));
+    } catch (error) {
+      sendError(res, error.status || 400, error.status ? error.message : 'Request body is not valid JSON');
+      return;
+    }
+
+    if (!payload || typeof payload !== 'object') {
+      sendError(res, 400, 'Request body must be a JSON object');
+      return;
+    }
+    if (!Array.isArray(payload.requests) || payload.requests.length === 0) {
+      sendError(res, 400, 'Expected a non-empty "requests" array');
+      return;
+    }
+    if (payload.requests.length > config.maxImages) {
+      sendError(res, 413, `At most ${config.maxImages} images per request`);
+      return;
+    }
+
+    try {
+      const upstream = await fetch(config.upstreamUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Goog-Api-Key': config.apiKey,
+        },
+        body: JSON.stringify(payload),
+      });
+
+      console.log(`[vision-proxy] ${device}: ${payload.requests.length} image(s) -> ${upstream.status}`);
+      const headers = {'Content-Type': upstream.headers.get('content-type') || 'application/json'};
+      const retryAfter = upstream.headers.get('retry-after');
+      if (retryAfter) {
+        headers['Retry-After'] = retryAfter;
+      }
+      res.writeHead(upstream.status, headers);
+      res.end(Buffer.from(await upstream.arrayBuffer()));
+    } catch (error) {
+      console.error(`[vision-proxy] ${device}: upstream request failed:`, error.message);
+      sendError(res, 502, 'Upstream Vision API request failed');
+    }
+  });
+
+module.exports = {createProxyServer, loadConfig};
+
+if (require.main === module) {
+  const config = loadConfig();
+
+  if (!config.apiKey) {
+    console.error('[vision-proxy] GOOGLE_CLOUD_API_KEY is not set');
+    process.exit(1);
+  }
+  if (config.tokens.length === 0) {
+    console.error('[vision-proxy] VISION_PROXY_TOKENS is not set; no device could authenticate');
+    process.exit(1);
+  }
+
+  createProxyServer(config).listen(config.port, () => {
+    console.log(`[vision-proxy] listening on :${config.port}, forwarding to ${config.upstreamUrl}`);
+    console.log(`[vision-proxy] ${config.tokens.length} device token(s), max body ${config.maxBytes} bytes`);
+  });
+}